@@ -6,24 +6,42 @@ import { PdfConverterView } from './components/PdfConverterView';
 import { ImageGeneratorView } from './components/ImageGeneratorView';
 import { VideoGeneratorView } from './components/VideoGeneratorView';
 import { QuizGeneratorView } from './components/QuizGeneratorView';
+import { StudyView } from './components/StudyView';
 import { WebExplorerView } from './components/WebExplorerView';
 import { PerformanceView } from './components/PerformanceView';
 import { SettingsView } from './components/SettingsView';
+import { SearchPalette } from './components/SearchPalette';
 import type { ChatMessage, ChatSession } from '../../server/src/schema';
 import './App.css';
 
-export type ViewType = 'chat' | 'scanner' | 'pdf-converter' | 'image-generator' | 'video-generator' | 'quiz-generator' | 'web-explorer' | 'performance' | 'settings';
+export type ViewType = 'chat' | 'scanner' | 'pdf-converter' | 'image-generator' | 'video-generator' | 'quiz-generator' | 'study' | 'web-explorer' | 'performance' | 'settings';
 
 function App() {
   const [activeView, setActiveView] = useState<ViewType>('chat');
   const [chatSessions, setChatSessions] = useState<ChatSession[]>([]);
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  // Session a search result asked the chat view to show; a new object on every request
+  const [sessionRequest, setSessionRequest] = useState<{ sessionId: string } | null>(null);
 
   const clearChatHistory = useCallback(() => {
     setChatSessions([]);
     setChatMessages([]);
   }, []);
 
+  // Plain navigation returns the chat view to its own session choice
+  const changeView = useCallback((view: ViewType) => {
+    setSessionRequest(null);
+    setActiveView(view);
+  }, []);
+
+  const openSearchResult = useCallback((view: ViewType, sessionId: string | null) => {
+    if (sessionId) {
+      setSessionRequest({ sessionId });
+    }
+    setActiveView(view);
+  }, []);
+
   const renderActiveView = () => {
     switch (activeView) {
       case 'chat':
@@ -33,6 +51,7 @@ function App() {
             messages={chatMessages}
             onSessionsChange={setChatSessions}
             onMessagesChange={setChatMessages}
+            sessionRequest={sessionRequest}
           />
         );
       case 'scanner':
@@ -44,7 +63,9 @@ function App() {
       case 'video-generator':
         return <VideoGeneratorView />;
       case 'quiz-generator':
-        return <QuizGeneratorView />;
+        return <QuizGeneratorView onOpenChat={(sessionId) => openSearchResult('chat', sessionId)} />;
+      case 'study':
+        return <StudyView />;
       case 'web-explorer':
         return <WebExplorerView />;
       case 'performance':
@@ -57,6 +78,7 @@ function App() {
           messages={chatMessages}
           onSessionsChange={setChatSessions}
           onMessagesChange={setChatMessages}
+          sessionRequest={sessionRequest}
         />;
     }
   };
@@ -66,12 +88,18 @@ function App() {
       <div className="flex h-screen">
         <Sidebar 
           activeView={activeView}
-          onViewChange={setActiveView}
+          onViewChange={changeView}
+          onSearch={() => setIsSearchOpen(true)}
         />
         <main className="flex-1 overflow-hidden">
           {renderActiveView()}
         </main>
       </div>
+      <SearchPalette
+        open={isSearchOpen}
+        onOpenChange={setIsSearchOpen}
+        onNavigate={openSearchResult}
+      />
     </div>
   );
 }
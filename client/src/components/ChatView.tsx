@@ -1,10 +1,12 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
+import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Switch } from '@/components/ui/switch';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { 
   Send, 
   Upload, 
@@ -20,16 +22,43 @@ import {
   Code,
   Plus,
   Trash2,
-  MessageCircle
+  MessageCircle,
+  Square,
+  RefreshCw,
+  Pencil,
+  ChevronLeft,
+  ChevronRight,
+  Download,
+  FileUp,
+  UserRound,
+  Settings2
 } from 'lucide-react';
 import { trpc } from '@/utils/trpc';
-import type { ChatMessage, ChatSession, CreateChatSessionInput, SendAiMessageInput } from '../../../server/src/schema';
+import { getActivePath, branchKey } from '@/lib/chatBranches';
+import { downloadFile } from '@/lib/download';
+import { PersonaManager } from '@/components/PersonaManager';
+import { ModelSettings } from '@/components/ModelSettings';
+import { attachmentUrl, uploadAttachment } from '@/lib/attachments';
+import type {
+  ChatExportFormat,
+  ChatMessage,
+  ChatSession,
+  CreateChatSessionInput,
+  ModelInfo,
+  PdfCitation,
+  Persona,
+  Preferences,
+  StreamAiMessageInput,
+  UpdateChatSessionInput,
+  UpdatePreferencesInput
+} from '../../../server/src/schema';
 
 interface ChatViewProps {
   sessions: ChatSession[];
   messages: ChatMessage[];
   onSessionsChange: (sessions: ChatSession[]) => void;
   onMessagesChange: (messages: ChatMessage[]) => void;
+  sessionRequest?: { sessionId: string } | null; // Session to switch to, e.g. from a search result
 }
 
 const languages = [
@@ -45,8 +74,19 @@ const languages = [
   { value: 'chinese', label: '中文' },
 ];
 
-export function ChatView({ sessions, messages, onSessionsChange, onMessagesChange }: ChatViewProps) {
-  const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
+// "report.pdf p. 2, 5" per document, pages in citation order
+const formatCitations = (citations: PdfCitation[]): string[] => {
+  const pagesByFile = new Map<string, number[]>();
+  for (const citation of citations) {
+    const pages = pagesByFile.get(citation.filename) ?? [];
+    if (!pages.includes(citation.page)) pages.push(citation.page);
+    pagesByFile.set(citation.filename, pages);
+  }
+  return [...pagesByFile].map(([filename, pages]) => `${filename} p. ${pages.join(', ')}`);
+};
+
+export function ChatView({ sessions, messages, onSessionsChange, onMessagesChange, sessionRequest }: ChatViewProps) {
+  const [currentSessionId, setCurrentSessionId] = useState<string | null>(sessionRequest?.sessionId ?? null);
   const [inputMessage, setInputMessage] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [genZMode, setGenZMode] = useState(false);
@@ -55,9 +95,26 @@ export function ChatView({ sessions, messages, onSessionsChange, onMessagesChang
   const [isRecording, setIsRecording] = useState(false);
   const [uploadedFile, setUploadedFile] = useState<File | null>(null);
   const [copiedMessageId, setCopiedMessageId] = useState<number | null>(null);
+  // While a reply streams: the prompt being answered, the text received so far and the stream to cancel
+  const [pendingUserMessage, setPendingUserMessage] = useState<string | null>(null);
+  const [streamingContent, setStreamingContent] = useState<string | null>(null);
+  const [activeStreamId, setActiveStreamId] = useState<string | null>(null);
+  // Chosen sibling index per fork (keyed by parent message), and the user message being edited
+  const [branchSelections, setBranchSelections] = useState<Record<string, number>>({});
+  const [editingMessageId, setEditingMessageId] = useState<number | null>(null);
+  const [editingContent, setEditingContent] = useState('');
+  // Draft title while the current session is being renamed
+  const [renameTitle, setRenameTitle] = useState<string | null>(null);
+  const [defaultModes, setDefaultModes] = useState<Preferences | null>(null);
+  const [personas, setPersonas] = useState<Persona[]>([]);
+  const [models, setModels] = useState<ModelInfo[]>([]);
+  const [isPersonaManagerOpen, setIsPersonaManagerOpen] = useState(false);
   
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  // Latest mode save; replies wait for it so they use the modes just picked
+  const pendingModeSave = useRef<Promise<unknown>>(Promise.resolve());
 
   // Load sessions on mount
   const loadSessions = useCallback(async () => {
@@ -87,25 +144,104 @@ export function ChatView({ sessions, messages, onSessionsChange, onMessagesChang
     loadSessions();
   }, [loadSessions]);
 
+  // Defaults for new chats; the modes shown while no session is open
+  useEffect(() => {
+    trpc.getPreferences.query()
+      .then(setDefaultModes)
+      .catch((error) => console.error('Failed to load preferences:', error));
+  }, []);
+
+  useEffect(() => {
+    trpc.listModels.query()
+      .then(setModels)
+      .catch((error) => console.error('Failed to load models:', error));
+  }, []);
+
+  useEffect(() => {
+    trpc.getPersonas.query()
+      .then(setPersonas)
+      .catch((error) => console.error('Failed to load personas:', error));
+  }, []);
+
+  // The open session's stored modes are the ones in effect
+  const currentSession = sessions.find(s => s.id === currentSessionId);
+  useEffect(() => {
+    const modes = currentSession ?? defaultModes;
+    if (!modes) return;
+    setGenZMode(modes.gen_z_mode);
+    setCopyCodeOnly(modes.copy_code_only_mode);
+    setTargetLanguage(modes.target_language ?? 'english');
+  }, [currentSession, defaultModes]);
+
+  // Mode changes are saved on the open session, or as the defaults when none is open
+  const saveModes = (update: Pick<UpdatePreferencesInput, 'gen_z_mode' | 'copy_code_only_mode' | 'target_language'>) => {
+    const save = currentSessionId
+      ? trpc.updateChatSession.mutate({ id: currentSessionId, ...update })
+        .then((updatedSession) => onSessionsChange(sessions.map(s => (s.id === updatedSession.id ? updatedSession : s))))
+      : trpc.updatePreferences.mutate(update).then(setDefaultModes);
+    pendingModeSave.current = save.catch((error) => console.error('Failed to save chat modes:', error));
+  };
+
+  const changeGenZMode = (enabled: boolean) => {
+    setGenZMode(enabled);
+    saveModes({ gen_z_mode: enabled });
+  };
+
+  const changeCopyCodeOnly = (enabled: boolean) => {
+    setCopyCodeOnly(enabled);
+    saveModes({ copy_code_only_mode: enabled });
+  };
+
+  const changeTargetLanguage = (language: string) => {
+    setTargetLanguage(language);
+    saveModes({ target_language: language });
+  };
+
+  // Persona and generation settings belong to the open session; replies wait for the save like mode changes
+  const saveSessionSettings = (update: Omit<UpdateChatSessionInput, 'id'>) => {
+    if (!currentSessionId) return;
+    const save = trpc.updateChatSession.mutate({ id: currentSessionId, ...update })
+      .then((updatedSession) => onSessionsChange(sessions.map(s => (s.id === updatedSession.id ? updatedSession : s))));
+    pendingModeSave.current = save.catch((error) => console.error('Failed to save chat settings:', error));
+  };
+
+  // 'none' unpins the persona
+  const changePersona = (value: string) => {
+    saveSessionSettings({ persona_id: value === 'none' ? null : Number(value) });
+  };
+
+  // Deleting a persona unpins it from its sessions on the server, so reload them too
+  const changePersonas = (updatedPersonas: Persona[]) => {
+    setPersonas(updatedPersonas);
+    loadSessions();
+  };
+
   useEffect(() => {
+    if (sessionRequest) {
+      setCurrentSessionId(sessionRequest.sessionId);
+    }
+  }, [sessionRequest]);
+
+  useEffect(() => {
+    setBranchSelections({});
+    setEditingMessageId(null);
+    setRenameTitle(null);
     if (currentSessionId) {
       loadMessages(currentSessionId);
     }
   }, [currentSessionId, loadMessages]);
 
-  // Scroll to bottom when messages change
+  // Scroll to bottom when messages change or a reply streams in
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  }, [messages, streamingContent]);
 
   const createNewSession = async () => {
     try {
+      // Modes are left out so the session starts from the saved preferences
       const sessionInput: CreateChatSessionInput = {
         id: crypto.randomUUID(),
-        title: 'New Chat',
-        gen_z_mode: genZMode,
-        copy_code_only_mode: copyCodeOnly,
-        target_language: targetLanguage
+        title: 'New Chat'
       };
       
       const newSession = await trpc.createChatSession.mutate(sessionInput);
@@ -131,6 +267,47 @@ export function ChatView({ sessions, messages, onSessionsChange, onMessagesChang
     }
   };
 
+  const exportSession = async (format: ChatExportFormat) => {
+    if (!currentSessionId) return;
+    try {
+      const file = await trpc.exportChatSession.query({ sessionId: currentSessionId, format });
+      downloadFile(file.content, file.filename, file.mime_type);
+    } catch (error) {
+      console.error('Failed to export session:', error);
+    }
+  };
+
+  // Imports a JSON chat export as a new session; the server validates the file
+  const importSession = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const data = JSON.parse(await file.text());
+      const session = await trpc.importChatSession.mutate({ data });
+      onSessionsChange([...sessions, session]);
+      setCurrentSessionId(session.id);
+    } catch (error) {
+      console.error('Failed to import session:', error);
+      alert('This file is not a valid chat export');
+    }
+  };
+
+  const renameSession = async () => {
+    if (!currentSessionId || renameTitle === null) return;
+    const title = renameTitle.trim();
+    setRenameTitle(null);
+    if (!title) return;
+
+    try {
+      const updatedSession = await trpc.updateChatSession.mutate({ id: currentSessionId, title });
+      onSessionsChange(sessions.map(s => (s.id === updatedSession.id ? updatedSession : s)));
+    } catch (error) {
+      console.error('Failed to rename session:', error);
+    }
+  };
+
   const sendMessage = async () => {
     if (!inputMessage.trim() && !uploadedFile) return;
     if (!currentSessionId) {
@@ -141,55 +318,141 @@ export function ChatView({ sessions, messages, onSessionsChange, onMessagesChang
     setIsLoading(true);
     
     try {
-      let imageFileBase64: string | null = null;
-      let pdfFileContent: string | null = null;
+      await pendingModeSave.current;
+
+      let imageAttachmentId: number | null = null;
+      let pdfDocumentId: number | null = null;
 
-      // Process uploaded file
+      // Upload the file first; the message only carries its ID
       if (uploadedFile) {
-        if (uploadedFile.type.includes('image')) {
-          // Read image as base64
-          const reader = new FileReader();
-          imageFileBase64 = await new Promise((resolve) => {
-            reader.onload = () => {
-              const result = reader.result as string;
-              // Remove data URL prefix to get just base64
-              const base64 = result.split(',')[1];
-              resolve(base64);
-            };
-            reader.readAsDataURL(uploadedFile);
-          });
-        } else if (uploadedFile.type.includes('pdf')) {
-          // For now, use a placeholder for PDF content extraction
-          // In a real implementation, you would use pdfjs-dist here
-          pdfFileContent = `Extracted PDF content from ${uploadedFile.name}. This would contain the actual text content of the PDF file.`;
+        try {
+          const attachment = await uploadAttachment(uploadedFile);
+          if (attachment.mime_type.startsWith('image/')) {
+            imageAttachmentId = attachment.id;
+          } else {
+            // The server extracts and indexes the text; replies then retrieve the relevant pages
+            const document = await trpc.uploadPdfDocument.mutate({
+              sessionId: currentSessionId,
+              attachmentId: attachment.id
+            });
+            pdfDocumentId = document.id;
+          }
+        } catch (error) {
+          alert(`The file could not be attached: ${error instanceof Error ? error.message : 'unknown error'}`);
+          throw error;
         }
       }
 
-      // Call the new sendAiMessage mutation
-      const sendAiMessageInput: SendAiMessageInput = {
+      const streamAiMessageInput: StreamAiMessageInput = {
+        streamId: crypto.randomUUID(),
         sessionId: currentSessionId,
         messageContent: inputMessage.trim(),
-        genZMode,
-        copyCodeOnlyMode: copyCodeOnly,
-        targetLanguage,
-        imageFileBase64,
-        pdfFileContent
+        imageAttachmentId,
+        pdfDocumentId,
+        // Continue the branch currently on screen
+        parentMessageId: activePath[activePath.length - 1]?.message.id ?? null
       };
 
-      await trpc.sendAiMessage.mutate(sendAiMessageInput);
-      
-      // Reload messages to get both user and AI messages
-      await loadMessages(currentSessionId);
-
-      // Clear input
+      // Show the prompt right away and clear the input while the reply streams
+      setPendingUserMessage(streamAiMessageInput.messageContent);
+      setStreamingContent('');
+      setActiveStreamId(streamAiMessageInput.streamId);
       setInputMessage('');
       setUploadedFile(null);
       if (fileInputRef.current) {
         fileInputRef.current.value = '';
       }
-      
+
+      try {
+        await new Promise<void>((resolve, reject) => {
+          const subscription = trpc.streamAiMessage.subscribe(streamAiMessageInput, {
+            onData: (event) => {
+              if (event.type === 'delta') {
+                setStreamingContent((prev) => (prev ?? '') + event.content);
+              } else {
+                // 'done' or 'cancelled': the reply (or its partial) is persisted
+                subscription.unsubscribe();
+                resolve();
+              }
+            },
+            onError: (error) => {
+              subscription.unsubscribe();
+              reject(error);
+            }
+          });
+        });
+      } catch (error) {
+        // Give the user their prompt back so it can be resent
+        setInputMessage(streamAiMessageInput.messageContent);
+        throw error;
+      }
+
+      // Reload messages to get both the stored user and AI messages, and sessions
+      // for the title the server gives a new chat after its first exchange
+      await loadMessages(currentSessionId);
+      await loadSessions();
     } catch (error) {
       console.error('Failed to send message:', error);
+    } finally {
+      setPendingUserMessage(null);
+      setStreamingContent(null);
+      setActiveStreamId(null);
+      setIsLoading(false);
+    }
+  };
+
+  const stopStreaming = async () => {
+    if (!activeStreamId) return;
+    try {
+      // The server persists the partial answer and ends the stream
+      await trpc.cancelAiMessage.mutate({ streamId: activeStreamId });
+    } catch (error) {
+      console.error('Failed to stop response:', error);
+    }
+  };
+
+  // Show the newest sibling at a fork, i.e. the reply or prompt just created
+  const showNewestBranch = (parentId: number | null) => {
+    setBranchSelections((prev) => {
+      const next = { ...prev };
+      delete next[branchKey(parentId)];
+      return next;
+    });
+  };
+
+  const selectBranch = (parentId: number | null, index: number) => {
+    setBranchSelections((prev) => ({ ...prev, [branchKey(parentId)]: index }));
+  };
+
+  const regenerateMessage = async (message: ChatMessage) => {
+    if (!currentSessionId) return;
+    setIsLoading(true);
+    try {
+      await pendingModeSave.current;
+      await trpc.regenerateAiMessage.mutate({ messageId: message.id });
+      showNewestBranch(message.parent_id);
+      await loadMessages(currentSessionId);
+    } catch (error) {
+      console.error('Failed to regenerate message:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const submitEdit = async (message: ChatMessage) => {
+    if (!currentSessionId || !editingContent.trim()) return;
+    setIsLoading(true);
+    try {
+      await pendingModeSave.current;
+      await trpc.editAiMessage.mutate({
+        messageId: message.id,
+        content: editingContent.trim()
+      });
+      setEditingMessageId(null);
+      showNewestBranch(message.parent_id);
+      await loadMessages(currentSessionId);
+    } catch (error) {
+      console.error('Failed to edit message:', error);
     } finally {
       setIsLoading(false);
     }
@@ -222,8 +485,10 @@ export function ChatView({ sessions, messages, onSessionsChange, onMessagesChang
     // TODO: Implement speech-to-text functionality
   };
 
-  const currentSession = sessions.find(s => s.id === currentSessionId);
-  const currentMessages = messages.filter(m => m.session_id === currentSessionId);
+  const activePath = useMemo(
+    () => getActivePath(messages.filter(m => m.session_id === currentSessionId), branchSelections),
+    [messages, currentSessionId, branchSelections]
+  );
 
   return (
     <div className="h-full flex flex-col bg-gray-900">
@@ -232,11 +497,35 @@ export function ChatView({ sessions, messages, onSessionsChange, onMessagesChang
         <div className="flex items-center justify-between">
           <div className="flex items-center space-x-4">
             <h1 className="text-2xl font-bold text-white">AI Chat</h1>
-            {currentSession && (
-              <Badge variant="secondary" className="bg-gray-700 text-gray-300">
-                {currentSession.title}
-              </Badge>
-            )}
+            {currentSession && (renameTitle !== null ? (
+              <Input
+                value={renameTitle}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setRenameTitle(e.target.value)}
+                onKeyDown={(e: React.KeyboardEvent<HTMLInputElement>) => {
+                  if (e.key === 'Enter') renameSession();
+                  if (e.key === 'Escape') setRenameTitle(null);
+                }}
+                onBlur={renameSession}
+                maxLength={100}
+                className="h-8 w-64 bg-gray-700 border-gray-600 text-white"
+                autoFocus
+              />
+            ) : (
+              <div className="flex items-center space-x-1">
+                <Badge variant="secondary" className="bg-gray-700 text-gray-300">
+                  {currentSession.title || 'New Chat'}
+                </Badge>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setRenameTitle(currentSession.title ?? '')}
+                  className="h-7 w-7 p-0 text-gray-400 hover:text-white"
+                  title="Rename chat"
+                >
+                  <Pencil size={14} />
+                </Button>
+              </div>
+            ))}
           </div>
           
           <div className="flex items-center space-x-4">
@@ -246,7 +535,7 @@ export function ChatView({ sessions, messages, onSessionsChange, onMessagesChang
               <span className="text-sm text-gray-300">Gen Z Mode</span>
               <Switch
                 checked={genZMode}
-                onCheckedChange={setGenZMode}
+                onCheckedChange={changeGenZMode}
               />
             </div>
             
@@ -256,14 +545,14 @@ export function ChatView({ sessions, messages, onSessionsChange, onMessagesChang
               <span className="text-sm text-gray-300">Code Only</span>
               <Switch
                 checked={copyCodeOnly}
-                onCheckedChange={setCopyCodeOnly}
+                onCheckedChange={changeCopyCodeOnly}
               />
             </div>
             
             {/* Language Selection */}
             <div className="flex items-center space-x-2">
               <Languages size={16} className="text-blue-400" />
-              <Select value={targetLanguage} onValueChange={setTargetLanguage}>
+              <Select value={targetLanguage} onValueChange={changeTargetLanguage}>
                 <SelectTrigger className="w-32">
                   <SelectValue />
                 </SelectTrigger>
@@ -276,6 +565,40 @@ export function ChatView({ sessions, messages, onSessionsChange, onMessagesChang
                 </SelectContent>
               </Select>
             </div>
+
+            {/* Persona Selection */}
+            <div className="flex items-center space-x-2">
+              <UserRound size={16} className="text-purple-400" />
+              <Select
+                value={currentSession?.persona_id != null ? String(currentSession.persona_id) : 'none'}
+                onValueChange={changePersona}
+                disabled={!currentSession}
+              >
+                <SelectTrigger className="w-36" title="Persona for this chat">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No persona</SelectItem>
+                  {personas.map((persona) => (
+                    <SelectItem key={persona.id} value={String(persona.id)}>
+                      {persona.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => setIsPersonaManagerOpen(true)}
+                className="h-7 w-7 p-0 text-gray-400 hover:text-white"
+                title="Manage personas"
+              >
+                <Settings2 size={14} />
+              </Button>
+            </div>
+
+            {/* Model Selection */}
+            <ModelSettings session={currentSession} models={models} onChange={saveSessionSettings} />
           </div>
         </div>
         
@@ -299,7 +622,7 @@ export function ChatView({ sessions, messages, onSessionsChange, onMessagesChang
                 <SelectContent>
                   {sessions.map((session) => (
                     <SelectItem key={session.id} value={session.id}>
-                      {session.title}
+                      {session.title || 'New Chat'}
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -307,29 +630,68 @@ export function ChatView({ sessions, messages, onSessionsChange, onMessagesChang
             )}
           </div>
           
-          {currentSessionId && (
+          <div className="flex items-center space-x-2">
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".json,application/json"
+              onChange={importSession}
+              className="hidden"
+            />
             <Button
-              onClick={() => deleteSession(currentSessionId)}
+              onClick={() => importInputRef.current?.click()}
               size="sm"
-              variant="destructive"
+              variant="outline"
+              className="border-gray-600 text-gray-300 hover:bg-gray-700"
             >
-              <Trash2 size={16} className="mr-1" />
-              Delete Session
+              <FileUp size={16} className="mr-1" />
+              Import
             </Button>
-          )}
+
+            {currentSessionId && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="border-gray-600 text-gray-300 hover:bg-gray-700"
+                  >
+                    <Download size={16} className="mr-1" />
+                    Export
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onSelect={() => exportSession('markdown')}>Markdown (.md)</DropdownMenuItem>
+                  <DropdownMenuItem onSelect={() => exportSession('html')}>Web page (.html)</DropdownMenuItem>
+                  <DropdownMenuItem onSelect={() => exportSession('json')}>JSON, re-importable (.json)</DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+
+            {currentSessionId && (
+              <Button
+                onClick={() => deleteSession(currentSessionId)}
+                size="sm"
+                variant="destructive"
+              >
+                <Trash2 size={16} className="mr-1" />
+                Delete Session
+              </Button>
+            )}
+          </div>
         </div>
       </header>
 
       {/* Messages Area */}
       <div className="flex-1 overflow-y-auto p-4 space-y-4">
-        {currentMessages.length === 0 ? (
+        {activePath.length === 0 ? (
           <div className="text-center text-gray-500 mt-12">
             <MessageCircle size={48} className="mx-auto mb-4 text-gray-600" />
             <p className="text-lg">Start a conversation</p>
             <p className="text-sm">Send a message to begin chatting with AI</p>
           </div>
         ) : (
-          currentMessages.map((message) => (
+          activePath.map(({ message, siblings, index }) => (
             <div
               key={message.id}
               className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
@@ -352,6 +714,34 @@ export function ChatView({ sessions, messages, onSessionsChange, onMessagesChang
                         <span className="text-xs text-gray-500">
                           {message.created_at.toLocaleTimeString()}
                         </span>
+                        {siblings.length > 1 && (
+                          <div className="flex items-center text-xs text-gray-400">
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="h-5 w-5 p-0"
+                              disabled={index === 0 || isLoading}
+                              onClick={() => selectBranch(message.parent_id, index - 1)}
+                            >
+                              <ChevronLeft size={12} />
+                            </Button>
+                            <span>{index + 1}/{siblings.length}</span>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="h-5 w-5 p-0"
+                              disabled={index === siblings.length - 1 || isLoading}
+                              onClick={() => selectBranch(message.parent_id, index + 1)}
+                            >
+                              <ChevronRight size={12} />
+                            </Button>
+                          </div>
+                        )}
+                        {message.metadata?.cancelled && (
+                          <Badge variant="outline" className="text-xs text-gray-400">
+                            stopped
+                          </Badge>
+                        )}
                         {message.content_type !== 'text' && (
                           <Badge variant="outline" className="text-xs">
                             {message.content_type === 'image' ? <ImageIcon size={12} /> : <FileText size={12} />}
@@ -359,11 +749,46 @@ export function ChatView({ sessions, messages, onSessionsChange, onMessagesChang
                           </Badge>
                         )}
                       </div>
-                      <p className="whitespace-pre-wrap">{message.content}</p>
+                      {editingMessageId === message.id ? (
+                        <div className="space-y-2">
+                          <Textarea
+                            value={editingContent}
+                            onChange={(e) => setEditingContent(e.target.value)}
+                            className="min-h-[60px] bg-gray-700 border-gray-600 text-white"
+                          />
+                          <div className="flex justify-end space-x-2">
+                            <Button size="sm" variant="ghost" onClick={() => setEditingMessageId(null)}>
+                              Cancel
+                            </Button>
+                            <Button
+                              size="sm"
+                              className="btn-accent"
+                              disabled={!editingContent.trim() || isLoading}
+                              onClick={() => submitEdit(message)}
+                            >
+                              Save & Submit
+                            </Button>
+                          </div>
+                        </div>
+                      ) : (
+                        <p className="whitespace-pre-wrap">{message.content}</p>
+                      )}
+                      {message.content_type === 'image' && message.attachment_id !== null && (
+                        <img
+                          src={attachmentUrl(message.attachment_id)}
+                          alt={message.metadata?.filename ?? 'Attached image'}
+                          className="mt-2 max-h-64 rounded-md border border-gray-600"
+                        />
+                      )}
                       {message.metadata && (
                         <div className="mt-2 text-xs text-gray-500">
-                          {message.metadata.fileName && (
-                            <span>📎 {message.metadata.fileName}</span>
+                          {(message.metadata.fileName || message.metadata.filename) && (
+                            <span>📎 {message.metadata.fileName ?? message.metadata.filename}</span>
+                          )}
+                          {message.metadata.citations?.length > 0 && (
+                            <span title="PDF pages this answer drew on">
+                              Sources: {formatCitations(message.metadata.citations).join(' · ')}
+                            </span>
                           )}
                         </div>
                       )}
@@ -382,6 +807,31 @@ export function ChatView({ sessions, messages, onSessionsChange, onMessagesChang
                           <Volume2 size={14} />
                         </Button>
                       )}
+                      {message.role === 'assistant' && message.parent_id !== null && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          title="Regenerate"
+                          disabled={isLoading}
+                          onClick={() => regenerateMessage(message)}
+                        >
+                          <RefreshCw size={14} />
+                        </Button>
+                      )}
+                      {message.role === 'user' && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          title="Edit and resend"
+                          disabled={isLoading}
+                          onClick={() => {
+                            setEditingMessageId(message.id);
+                            setEditingContent(message.content);
+                          }}
+                        >
+                          <Pencil size={14} />
+                        </Button>
+                      )}
                       <Button
                         size="sm"
                         variant="ghost"
@@ -401,18 +851,40 @@ export function ChatView({ sessions, messages, onSessionsChange, onMessagesChang
           ))
         )}
         
+        {pendingUserMessage !== null && (
+          <div className="flex justify-end">
+            <Card className="max-w-2xl message-user ml-12">
+              <CardContent className="p-4">
+                <div className="flex items-center space-x-2 mb-2">
+                  <Badge variant="default" className="text-xs">You</Badge>
+                </div>
+                <p className="whitespace-pre-wrap">{pendingUserMessage}</p>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
         {isLoading && (
           <div className="flex justify-start">
-            <Card className="message-assistant mr-12">
+            <Card className="max-w-2xl message-assistant mr-12">
               <CardContent className="p-4">
-                <div className="flex items-center space-x-2">
-                  <div className="flex space-x-1">
-                    <div className="w-2 h-2 bg-amber-400 rounded-full loading-dot"></div>
-                    <div className="w-2 h-2 bg-amber-400 rounded-full loading-dot"></div>
-                    <div className="w-2 h-2 bg-amber-400 rounded-full loading-dot"></div>
+                {streamingContent ? (
+                  <>
+                    <div className="flex items-center space-x-2 mb-2">
+                      <Badge variant="secondary" className="text-xs">AI</Badge>
+                    </div>
+                    <p className="whitespace-pre-wrap">{streamingContent}</p>
+                  </>
+                ) : (
+                  <div className="flex items-center space-x-2">
+                    <div className="flex space-x-1">
+                      <div className="w-2 h-2 bg-amber-400 rounded-full loading-dot"></div>
+                      <div className="w-2 h-2 bg-amber-400 rounded-full loading-dot"></div>
+                      <div className="w-2 h-2 bg-amber-400 rounded-full loading-dot"></div>
+                    </div>
+                    <span className="text-sm text-gray-400">AI is thinking...</span>
                   </div>
-                  <span className="text-sm text-gray-400">AI is thinking...</span>
-                </div>
+                )}
               </CardContent>
             </Card>
           </div>
@@ -499,16 +971,33 @@ export function ChatView({ sessions, messages, onSessionsChange, onMessagesChang
               </Button>
             </div>
             
-            <Button
-              onClick={sendMessage}
-              disabled={(!inputMessage.trim() && !uploadedFile) || isLoading}
-              className="btn-accent"
-            >
-              <Send size={16} />
-            </Button>
+            {activeStreamId ? (
+              <Button
+                onClick={stopStreaming}
+                variant="destructive"
+                title="Stop generating"
+              >
+                <Square size={16} />
+              </Button>
+            ) : (
+              <Button
+                onClick={sendMessage}
+                disabled={(!inputMessage.trim() && !uploadedFile) || isLoading}
+                className="btn-accent"
+              >
+                <Send size={16} />
+              </Button>
+            )}
           </div>
         </div>
       </div>
+
+      <PersonaManager
+        open={isPersonaManagerOpen}
+        onOpenChange={setIsPersonaManagerOpen}
+        personas={personas}
+        onPersonasChange={changePersonas}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,145 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Slider } from '@/components/ui/slider';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Cpu, SlidersHorizontal } from 'lucide-react';
+import type { ChatSession, ModelInfo, UpdateChatSessionInput } from '../../../server/src/schema';
+
+export type GenerationSettingsUpdate = Pick<UpdateChatSessionInput, 'model' | 'temperature' | 'max_tokens' | 'stop'>;
+
+interface ModelSettingsProps {
+  session: ChatSession | undefined; // Settings are saved per session, so nothing is editable without one
+  models: ModelInfo[];
+  onChange: (update: GenerationSettingsUpdate) => void;
+}
+
+// Popover form state; empty fields mean "use the default"
+interface ParamsDraft {
+  temperature: number | null;
+  max_tokens: string;
+  stop: string;
+}
+
+const toDraft = (session: ChatSession | undefined): ParamsDraft => ({
+  temperature: session?.temperature ?? null,
+  max_tokens: session?.max_tokens?.toString() ?? '',
+  stop: session?.stop?.join(', ') ?? ''
+});
+
+export function ModelSettings({ session, models, onChange }: ModelSettingsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<ParamsDraft>(toDraft(session));
+
+  const defaultModel = models.find(model => model.default);
+  // Keep a model picked earlier selectable even if the provider stopped listing it
+  const options = session?.model && !models.some(model => model.id === session.model)
+    ? [...models, { id: session.model, default: false }]
+    : models;
+
+  const openParams = (open: boolean) => {
+    if (open) {
+      setDraft(toDraft(session));
+    }
+    setIsOpen(open);
+  };
+
+  const applyParams = () => {
+    const maxTokens = parseInt(draft.max_tokens);
+    const stop = draft.stop.split(',').map(sequence => sequence.trim()).filter(Boolean).slice(0, 4);
+    onChange({
+      temperature: draft.temperature,
+      max_tokens: Number.isFinite(maxTokens) && maxTokens > 0 ? maxTokens : null,
+      stop: stop.length > 0 ? stop : null
+    });
+    setIsOpen(false);
+  };
+
+  const resetParams = () => {
+    onChange({ temperature: null, max_tokens: null, stop: null });
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="flex items-center space-x-2">
+      <Cpu size={16} className="text-green-400" />
+      <Select
+        value={session?.model ?? 'default'}
+        onValueChange={(value) => onChange({ model: value === 'default' ? null : value })}
+        disabled={!session}
+      >
+        <SelectTrigger className="w-44" title="Model for this chat">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="default">
+            Default{defaultModel ? ` (${defaultModel.id})` : ''}
+          </SelectItem>
+          {options.map((model) => (
+            <SelectItem key={model.id} value={model.id}>
+              {model.id}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Popover open={isOpen} onOpenChange={openParams}>
+        <PopoverTrigger asChild>
+          <Button
+            size="sm"
+            variant="ghost"
+            disabled={!session}
+            className="h-7 w-7 p-0 text-gray-400 hover:text-white"
+            title="Advanced parameters"
+          >
+            <SlidersHorizontal size={14} />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-72 bg-gray-800 border-gray-700 text-white space-y-4">
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-gray-300">Temperature</span>
+              <span className="text-gray-400">{draft.temperature ?? 'Default'}</span>
+            </div>
+            <Slider
+              min={0}
+              max={2}
+              step={0.1}
+              value={[draft.temperature ?? 1]}
+              onValueChange={([value]) => setDraft((prev) => ({ ...prev, temperature: value }))}
+            />
+          </div>
+          <div className="space-y-1">
+            <span className="text-sm text-gray-300">Max tokens</span>
+            <Input
+              type="number"
+              min={1}
+              placeholder="Default"
+              value={draft.max_tokens}
+              onChange={(e) => setDraft((prev) => ({ ...prev, max_tokens: e.target.value }))}
+              className="bg-gray-700 border-gray-600 text-white"
+            />
+          </div>
+          <div className="space-y-1">
+            <span className="text-sm text-gray-300">Stop sequences</span>
+            <Input
+              placeholder="Comma-separated, up to 4"
+              value={draft.stop}
+              onChange={(e) => setDraft((prev) => ({ ...prev, stop: e.target.value }))}
+              className="bg-gray-700 border-gray-600 text-white"
+            />
+          </div>
+          <div className="flex justify-between">
+            <Button size="sm" variant="outline" onClick={resetParams} className="border-gray-600 text-gray-300">
+              Use defaults
+            </Button>
+            <Button size="sm" onClick={applyParams} className="bg-amber-600 hover:bg-amber-700">
+              Apply
+            </Button>
+          </div>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Film, RefreshCw, RotateCcw, XCircle } from 'lucide-react';
+import { trpc } from '@/utils/trpc';
+import { isVideoFinished, videoStatusColors } from '@/lib/videoProgress';
+import type { GeneratedVideo, VideoStatus } from '../../../server/src/schema';
+
+interface MyVideosPanelProps {
+  refreshKey: number; // Bumped by the parent whenever a video was started or finished
+  currentVideoId: number | null;
+  onOpen: (video: GeneratedVideo) => void;
+}
+
+const PAGE_SIZE = 10;
+
+const statusFilters: { value: VideoStatus | 'all'; label: string }[] = [
+  { value: 'all', label: 'All videos' },
+  { value: 'pending', label: 'Pending' },
+  { value: 'processing', label: 'Processing' },
+  { value: 'completed', label: 'Completed' },
+  { value: 'failed', label: 'Failed' },
+  { value: 'cancelled', label: 'Cancelled' },
+];
+
+export function MyVideosPanel({ refreshKey, currentVideoId, onOpen }: MyVideosPanelProps) {
+  const [videos, setVideos] = useState<GeneratedVideo[]>([]);
+  const [total, setTotal] = useState(0);
+  const [statusFilter, setStatusFilter] = useState<VideoStatus | 'all'>('all');
+  const [isLoading, setIsLoading] = useState(false);
+  const [busyVideoId, setBusyVideoId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadVideos = useCallback(async (offset: number) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const list = await trpc.listVideos.query({
+        status: statusFilter === 'all' ? undefined : statusFilter,
+        limit: PAGE_SIZE,
+        offset
+      });
+      setVideos((prev) => offset === 0 ? list.videos : [...prev, ...list.videos]);
+      setTotal(list.total);
+    } catch (loadError) {
+      console.error('Failed to load videos:', loadError);
+      setError('Videos could not be loaded.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    loadVideos(0);
+  }, [loadVideos, refreshKey]);
+
+  const replaceVideo = (updated: GeneratedVideo) => {
+    setVideos((prev) => prev.map((video) => video.id === updated.id ? updated : video));
+  };
+
+  const cancelVideo = async (id: number) => {
+    setBusyVideoId(id);
+    try {
+      replaceVideo(await trpc.cancelVideo.mutate({ id }));
+    } catch (cancelError) {
+      console.error('Failed to cancel video:', cancelError);
+      setError('The video could not be cancelled.');
+    } finally {
+      setBusyVideoId(null);
+    }
+  };
+
+  const retryVideo = async (id: number) => {
+    setBusyVideoId(id);
+    try {
+      const retried = await trpc.retryVideo.mutate({ id });
+      replaceVideo(retried);
+      onOpen(retried);
+    } catch (retryError) {
+      console.error('Failed to retry video:', retryError);
+      setError('The video could not be retried.');
+    } finally {
+      setBusyVideoId(null);
+    }
+  };
+
+  return (
+    <Card className="bg-gray-800 border-gray-700">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center justify-between">
+          <span className="flex items-center">
+            <Film className="mr-2 text-red-400" size={20} />
+            My Videos
+            <Badge className="ml-2 bg-gray-700">{total}</Badge>
+          </span>
+          <div className="flex items-center space-x-2">
+            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as VideoStatus | 'all')}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {statusFilters.map((filter) => (
+                  <SelectItem key={filter.value} value={filter.value}>
+                    {filter.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              onClick={() => loadVideos(0)}
+              disabled={isLoading}
+              size="sm"
+              variant="ghost"
+              className="h-8 w-8 p-0 text-gray-400 hover:text-white"
+              title="Refresh"
+            >
+              <RefreshCw size={14} className={isLoading ? 'animate-spin' : ''} />
+            </Button>
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {error && <p className="text-sm text-red-300">{error}</p>}
+        {!isLoading && videos.length === 0 && (
+          <p className="text-sm text-gray-400">No videos yet.</p>
+        )}
+
+        {videos.map((video) => (
+          <div
+            key={video.id}
+            className={`p-3 rounded-lg border transition-colors ${
+              video.id === currentVideoId ? 'border-red-400 bg-gray-700' : 'border-gray-600 bg-gray-700/50 hover:bg-gray-700'
+            }`}
+          >
+            <div className="flex items-start justify-between space-x-2">
+              <button onClick={() => onOpen(video)} className="text-left flex-1 min-w-0" title="Show this video">
+                <p className="text-sm text-gray-200 truncate">{video.prompt}</p>
+                <p className="text-xs text-gray-500 mt-1">{video.created_at.toLocaleString()}</p>
+              </button>
+              <div className="flex items-center space-x-1 flex-shrink-0">
+                <Badge className={`${videoStatusColors[video.status]} capitalize`}>{video.status}</Badge>
+                {!isVideoFinished(video.status) && (
+                  <Button
+                    onClick={() => cancelVideo(video.id)}
+                    disabled={busyVideoId === video.id}
+                    size="sm"
+                    variant="ghost"
+                    className="h-7 w-7 p-0 text-gray-400 hover:text-red-400"
+                    title="Cancel"
+                  >
+                    <XCircle size={14} />
+                  </Button>
+                )}
+                {(video.status === 'failed' || video.status === 'cancelled') && (
+                  <Button
+                    onClick={() => retryVideo(video.id)}
+                    disabled={busyVideoId === video.id}
+                    size="sm"
+                    variant="ghost"
+                    className="h-7 w-7 p-0 text-gray-400 hover:text-green-400"
+                    title="Retry"
+                  >
+                    <RotateCcw size={14} />
+                  </Button>
+                )}
+              </div>
+            </div>
+            {video.status === 'processing' && (
+              <Progress value={video.progress} className="h-1 mt-2" />
+            )}
+          </div>
+        ))}
+
+        {videos.length < total && (
+          <Button
+            onClick={() => loadVideos(videos.length)}
+            disabled={isLoading}
+            variant="outline"
+            size="sm"
+            className="w-full border-gray-600 text-gray-300"
+          >
+            Load more
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,175 +1,105 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
-import { 
-  Activity, 
-  Cpu, 
-  HardDrive, 
-  Wifi, 
-  Server, 
-  Database,
-  Globe,
-  Zap,
-  TrendingUp,
-  TrendingDown,
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Activity,
+  BarChart3,
+  Clock,
+  Coins,
+  Hash,
+  Layers,
+  MessageCircle,
   RefreshCw,
   AlertTriangle
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { trpc } from '@/utils/trpc';
+import type { UsageFeature, UsageGroup, UsageReport } from '../../../server/src/schema';
 
-interface SystemMetric {
-  name: string;
-  value: number;
-  unit: string;
-  status: 'good' | 'warning' | 'critical';
-  trend: 'up' | 'down' | 'stable';
-  history: number[];
+interface UsageData {
+  byDay: UsageReport;
+  byFeature: UsageReport;
+  bySession: UsageReport;
 }
 
-interface RunningApp {
-  id: string;
-  name: string;
-  cpu: number;
-  memory: number;
-  status: 'running' | 'idle' | 'busy';
-}
+const ranges = [
+  { value: '7', label: 'Last 7 days' },
+  { value: '30', label: 'Last 30 days' },
+  { value: '90', label: 'Last 90 days' },
+];
 
-export function PerformanceView() {
-  const [metrics, setMetrics] = useState<SystemMetric[]>([
-    {
-      name: 'CPU Usage',
-      value: 45,
-      unit: '%',
-      status: 'good',
-      trend: 'stable',
-      history: [40, 42, 45, 43, 45, 47, 45]
-    },
-    {
-      name: 'Memory Usage',
-      value: 68,
-      unit: '%',
-      status: 'warning',
-      trend: 'up',
-      history: [60, 62, 65, 66, 67, 68, 68]
-    },
-    {
-      name: 'API Response Time',
-      value: 125,
-      unit: 'ms',
-      status: 'good',
-      trend: 'down',
-      history: [150, 140, 135, 130, 128, 125, 125]
-    },
-    {
-      name: 'Active Connections',
-      value: 234,
-      unit: 'connections',
-      status: 'good',
-      trend: 'up',
-      history: [200, 210, 220, 225, 230, 234, 234]
-    }
-  ]);
+const featureLabels: Record<UsageFeature, string> = {
+  chat: 'Chat replies',
+  chat_title: 'Chat titles',
+  document_analysis: 'Document Scanner',
+  image: 'Image Generator',
+  video: 'Video Generator',
+  quiz: 'Quiz Generator',
+  web_search: 'Web Explorer',
+  pdf_indexing: 'PDF indexing',
+};
 
-  const [runningApps] = useState<RunningApp[]>([
-    { id: '1', name: 'AI Chat Service', cpu: 15, memory: 25, status: 'running' },
-    { id: '2', name: 'Image Generator', cpu: 35, memory: 45, status: 'busy' },
-    { id: '3', name: 'Document Scanner', cpu: 8, memory: 12, status: 'idle' },
-    { id: '4', name: 'Video Generator', cpu: 65, memory: 78, status: 'busy' },
-    { id: '5', name: 'Web Search API', cpu: 12, memory: 18, status: 'running' },
-    { id: '6', name: 'Database Engine', cpu: 22, memory: 35, status: 'running' },
-    { id: '7', name: 'File Storage', cpu: 5, memory: 8, status: 'idle' },
-    { id: '8', name: 'Authentication', cpu: 3, memory: 6, status: 'idle' }
-  ]);
+const formatCost = (cost: number): string => {
+  if (cost === 0) return '$0.00';
+  return cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+};
 
-  const [lastUpdated, setLastUpdated] = useState(new Date());
-  const [isRefreshing, setIsRefreshing] = useState(false);
+const formatTokens = (tokens: number): string => {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
+  return String(tokens);
+};
 
-  // Simulate real-time updates
-  useEffect(() => {
-    const interval = setInterval(() => {
-      setMetrics(prev => prev.map(metric => {
-        const variation = (Math.random() - 0.5) * 10;
-        let newValue = metric.value + variation;
-        
-        // Keep values in realistic ranges
-        if (metric.name.includes('Usage')) {
-          newValue = Math.max(0, Math.min(100, newValue));
-        } else if (metric.name.includes('Response Time')) {
-          newValue = Math.max(50, Math.min(500, newValue));
-        } else if (metric.name.includes('Connections')) {
-          newValue = Math.max(100, Math.min(1000, newValue));
-        }
+// Days in the range without any calls still get an (empty) bar
+const fillDays = (groups: UsageGroup[], days: number): { day: string; group: UsageGroup | undefined }[] => {
+  const byDay = new Map(groups.map(group => [group.key, group]));
+  return Array.from({ length: days }, (_, i) => {
+    const date = new Date();
+    date.setDate(date.getDate() - (days - 1 - i));
+    const day = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+    return { day, group: byDay.get(day) };
+  });
+};
 
-        const newHistory = [...metric.history.slice(1), newValue];
-        
-        // Determine status based on value
-        let status: 'good' | 'warning' | 'critical' = 'good';
-        if (metric.name.includes('CPU') || metric.name.includes('Memory')) {
-          if (newValue > 80) status = 'critical';
-          else if (newValue > 60) status = 'warning';
-        } else if (metric.name.includes('Response Time')) {
-          if (newValue > 300) status = 'critical';
-          else if (newValue > 200) status = 'warning';
-        }
+export function PerformanceView() {
+  const [rangeDays, setRangeDays] = useState('30');
+  const [usage, setUsage] = useState<UsageData | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
 
-        // Determine trend
-        const trend = newValue > metric.value ? 'up' : newValue < metric.value ? 'down' : 'stable';
+  const loadUsage = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const from = new Date();
+      from.setHours(0, 0, 0, 0);
+      from.setDate(from.getDate() - (Number(rangeDays) - 1));
 
-        return {
-          ...metric,
-          value: Math.round(newValue * 10) / 10,
-          status,
-          trend,
-          history: newHistory
-        };
-      }));
-      
+      const [byDay, byFeature, bySession] = await Promise.all([
+        trpc.getUsage.query({ groupBy: 'day', from }),
+        trpc.getUsage.query({ groupBy: 'feature', from }),
+        trpc.getUsage.query({ groupBy: 'session', from })
+      ]);
+      setUsage({ byDay, byFeature, bySession });
       setLastUpdated(new Date());
-    }, 3000);
-
-    return () => clearInterval(interval);
-  }, []);
-
-  const refreshMetrics = async () => {
-    setIsRefreshing(true);
-    // Simulate refresh delay
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    setIsRefreshing(false);
-    setLastUpdated(new Date());
-  };
-
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'good': return 'bg-green-600';
-      case 'warning': return 'bg-yellow-600';
-      case 'critical': return 'bg-red-600';
-      default: return 'bg-gray-600';
-    }
-  };
-
-  const getStatusIcon = (status: string) => {
-    switch (status) {
-      case 'running': return <Zap size={14} className="text-green-400" />;
-      case 'busy': return <Activity size={14} className="text-amber-400" />;
-      case 'idle': return <Server size={14} className="text-gray-400" />;
-      default: return <Server size={14} className="text-gray-400" />;
+    } catch (loadError) {
+      console.error('Failed to load usage:', loadError);
+      setError('Usage data could not be loaded.');
+    } finally {
+      setIsLoading(false);
     }
-  };
+  }, [rangeDays]);
 
-  const getTrendIcon = (trend: string) => {
-    switch (trend) {
-      case 'up': return <TrendingUp size={14} className="text-red-400" />;
-      case 'down': return <TrendingDown size={14} className="text-green-400" />;
-      default: return null;
-    }
-  };
-
-  const overallHealth = metrics.every(m => m.status === 'good') ? 'Excellent' :
-                      metrics.some(m => m.status === 'critical') ? 'Critical' : 'Good';
+  useEffect(() => {
+    loadUsage();
+  }, [loadUsage]);
 
-  const totalCpu = Math.round(runningApps.reduce((sum, app) => sum + app.cpu, 0) / runningApps.length);
-  const totalMemory = Math.round(runningApps.reduce((sum, app) => sum + app.memory, 0) / runningApps.length);
+  const totals = usage?.byFeature.totals;
+  const days = usage ? fillDays(usage.byDay.groups, Number(rangeDays)) : [];
+  const maxDailyCalls = Math.max(1, ...days.map(({ group }) => group?.calls ?? 0));
 
   return (
     <div className="h-full overflow-y-auto bg-gray-900">
@@ -179,32 +109,42 @@ export function PerformanceView() {
           <div>
             <h1 className="text-2xl font-bold text-white flex items-center">
               <Activity className="mr-3 text-green-400" size={28} />
-              Performance Monitor
+              AI Usage
             </h1>
             <p className="text-gray-400 mt-1">
-              Real-time system performance and application monitoring dashboard
+              Tokens, estimated cost and latency of every AI call, by day, feature and chat
             </p>
           </div>
-          
+
           <div className="flex items-center space-x-4">
             <div className="text-right">
-              <Badge className={overallHealth === 'Excellent' ? 'bg-green-600' : 
-                              overallHealth === 'Critical' ? 'bg-red-600' : 'bg-yellow-600'}>
-                System Status: {overallHealth}
-              </Badge>
-              <p className="text-xs text-gray-400 mt-1">
-                Last updated: {lastUpdated.toLocaleTimeString()}
-              </p>
+              <Select value={rangeDays} onValueChange={setRangeDays}>
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ranges.map((range) => (
+                    <SelectItem key={range.value} value={range.value}>
+                      {range.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {lastUpdated && (
+                <p className="text-xs text-gray-400 mt-1">
+                  Last updated: {lastUpdated.toLocaleTimeString()}
+                </p>
+              )}
             </div>
-            
+
             <Button
-              onClick={refreshMetrics}
-              disabled={isRefreshing}
+              onClick={loadUsage}
+              disabled={isLoading}
               size="sm"
               variant="outline"
               className="border-gray-600 hover:border-green-400"
             >
-              <RefreshCw size={16} className={`mr-1 ${isRefreshing ? 'animate-spin' : ''}`} />
+              <RefreshCw size={16} className={`mr-1 ${isLoading ? 'animate-spin' : ''}`} />
               Refresh
             </Button>
           </div>
@@ -212,243 +152,153 @@ export function PerformanceView() {
       </header>
 
       <div className="p-6 space-y-6">
-        {/* System Overview */}
-        <div className="grid lg:grid-cols-4 md:grid-cols-2 gap-4">
-          {metrics.map((metric, index) => (
-            <Card key={index} className="bg-gray-800 border-gray-700">
-              <CardContent className="p-4">
-                <div className="flex items-center justify-between mb-2">
-                  <div className="flex items-center space-x-2">
-                    {metric.name.includes('CPU') && <Cpu size={16} className="text-blue-400" />}
-                    {metric.name.includes('Memory') && <HardDrive size={16} className="text-purple-400" />}
-                    {metric.name.includes('Response') && <Wifi size={16} className="text-cyan-400" />}
-                    {metric.name.includes('Connections') && <Globe size={16} className="text-green-400" />}
-                    <span className="text-gray-300 text-sm font-medium">{metric.name}</span>
-                  </div>
-                  <div className="flex items-center space-x-1">
-                    {getTrendIcon(metric.trend)}
-                    <Badge className={`text-xs ${getStatusColor(metric.status)}`}>
-                      {metric.status}
-                    </Badge>
-                  </div>
-                </div>
-                
-                <div className="flex items-end space-x-2">
-                  <span className="text-2xl font-bold text-white">
-                    {metric.value}
-                  </span>
-                  <span className="text-gray-400 text-sm mb-1">
-                    {metric.unit}
-                  </span>
-                </div>
+        {error && (
+          <div className="p-3 bg-red-900/30 border border-red-700 rounded-lg text-sm text-red-300">
+            {error}
+          </div>
+        )}
 
-                {/* Mini chart */}
-                <div className="mt-3 flex items-end space-x-1 h-8">
-                  {metric.history.map((value, i) => {
-                    const maxValue = Math.max(...metric.history);
-                    const height = (value / maxValue) * 100;
-                    return (
-                      <div
-                        key={i}
-                        className="flex-1 bg-gray-700 rounded-t"
-                        style={{ height: `${height}%` }}
-                      />
-                    );
-                  })}
-                </div>
-              </CardContent>
-            </Card>
-          ))}
+        {/* Totals */}
+        <div className="grid lg:grid-cols-4 md:grid-cols-2 gap-4">
+          <StatCard
+            icon={<Hash size={16} className="text-blue-400" />}
+            label="AI Calls"
+            value={totals ? String(totals.calls) : '–'}
+            detail={totals && totals.aborted_calls > 0 ? `${totals.aborted_calls} stopped early, tokens estimated` : undefined}
+          />
+          <StatCard
+            icon={<Layers size={16} className="text-purple-400" />}
+            label="Tokens"
+            value={totals ? formatTokens(totals.prompt_tokens + totals.completion_tokens) : '–'}
+            detail={totals ? `${formatTokens(totals.prompt_tokens)} prompt · ${formatTokens(totals.completion_tokens)} completion` : undefined}
+          />
+          <StatCard
+            icon={<Coins size={16} className="text-amber-400" />}
+            label="Estimated Cost"
+            value={totals ? formatCost(totals.cost_usd) : '–'}
+            detail={totals && totals.unpriced_calls > 0 ? `${totals.unpriced_calls} calls to unpriced models not included` : undefined}
+          />
+          <StatCard
+            icon={<Clock size={16} className="text-cyan-400" />}
+            label="Average Latency"
+            value={totals ? `${totals.avg_latency_ms} ms` : '–'}
+          />
         </div>
 
-        <div className="grid lg:grid-cols-3 gap-6">
-          {/* System Resources */}
-          <Card className="bg-gray-800 border-gray-700 lg:col-span-2">
+        {/* Daily activity */}
+        <Card className="bg-gray-800 border-gray-700">
+          <CardHeader>
+            <CardTitle className="text-white flex items-center">
+              <BarChart3 className="mr-2 text-green-400" size={20} />
+              Calls per Day
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="flex items-end space-x-1 h-32">
+              {days.map(({ day, group }) => (
+                <div
+                  key={day}
+                  className="flex-1 bg-green-600/70 hover:bg-green-500 rounded-t"
+                  style={{ height: `${((group?.calls ?? 0) / maxDailyCalls) * 100}%`, minHeight: '2px' }}
+                  title={`${day}: ${group?.calls ?? 0} calls, ${formatCost(group?.cost_usd ?? 0)}`}
+                />
+              ))}
+            </div>
+            {days.length > 0 && (
+              <div className="flex justify-between text-xs text-gray-500 mt-2">
+                <span>{days[0].day}</span>
+                <span>{days[days.length - 1].day}</span>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="grid lg:grid-cols-2 gap-6">
+          {/* By feature */}
+          <Card className="bg-gray-800 border-gray-700">
             <CardHeader>
               <CardTitle className="text-white flex items-center">
-                <Server className="mr-2 text-blue-400" size={20} />
-                System Resources
+                <Layers className="mr-2 text-purple-400" size={20} />
+                By Feature
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
-              <div>
-                <div className="flex items-center justify-between mb-2">
-                  <span className="text-gray-300 font-medium">Overall CPU Usage</span>
-                  <span className="text-white font-bold">{totalCpu}%</span>
-                </div>
-                <Progress 
-                  value={totalCpu} 
-                  className="h-3"
-                />
-              </div>
-              
-              <div>
-                <div className="flex items-center justify-between mb-2">
-                  <span className="text-gray-300 font-medium">Overall Memory Usage</span>
-                  <span className="text-white font-bold">{totalMemory}%</span>
-                </div>
-                <Progress 
-                  value={totalMemory} 
-                  className="h-3"
-                />
-              </div>
-
-              {/* Resource breakdown */}
-              <div className="mt-6">
-                <h4 className="text-gray-300 font-medium mb-3">Resource Breakdown</h4>
-                <div className="grid grid-cols-2 gap-4 text-sm">
-                  <div className="space-y-2">
-                    <div className="flex justify-between">
-                      <span className="text-gray-400">Available CPU:</span>
-                      <span className="text-green-400">{100 - totalCpu}%</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span className="text-gray-400">Available Memory:</span>
-                      <span className="text-green-400">{100 - totalMemory}%</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span className="text-gray-400">Active Processes:</span>
-                      <span className="text-blue-400">{runningApps.length}</span>
-                    </div>
-                  </div>
-                  <div className="space-y-2">
-                    <div className="flex justify-between">
-                      <span className="text-gray-400">Disk Usage:</span>
-                      <span className="text-amber-400">42%</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span className="text-gray-400">Network I/O:</span>
-                      <span className="text-cyan-400">1.2 GB/s</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span className="text-gray-400">Uptime:</span>
-                      <span className="text-green-400">15d 4h 23m</span>
-                    </div>
+              {usage?.byFeature.groups.length === 0 && (
+                <p className="text-sm text-gray-400">No AI calls in this period.</p>
+              )}
+              {usage?.byFeature.groups.map((group) => (
+                <div key={group.key}>
+                  <div className="flex items-center justify-between mb-1 text-sm">
+                    <span className="text-gray-300 font-medium">
+                      {featureLabels[group.key as UsageFeature] ?? group.key}
+                    </span>
+                    <span className="text-gray-400">
+                      {group.calls} calls · {formatTokens(group.prompt_tokens + group.completion_tokens)} tokens ·{' '}
+                      <span className="text-white">{formatCost(group.cost_usd)}</span>
+                    </span>
                   </div>
+                  <Progress
+                    value={totals && totals.calls > 0 ? (group.calls / totals.calls) * 100 : 0}
+                    className="h-2"
+                  />
                 </div>
-              </div>
+              ))}
             </CardContent>
           </Card>
 
-          {/* Alerts */}
+          {/* By session */}
           <Card className="bg-gray-800 border-gray-700">
             <CardHeader>
-              <CardTitle className="text-white flex items-center">
-                <AlertTriangle className="mr-2 text-amber-400" size={20} />
-                System Alerts
+              <CardTitle className="text-white flex items-center justify-between">
+                <span className="flex items-center">
+                  <MessageCircle className="mr-2 text-amber-400" size={20} />
+                  By Chat
+                </span>
+                {usage && <Badge className="bg-gray-700">{usage.bySession.groups.length}</Badge>}
               </CardTitle>
             </CardHeader>
-            <CardContent className="space-y-3">
-              <div className="p-3 bg-yellow-900/30 border border-yellow-700 rounded-lg">
-                <div className="flex items-center space-x-2">
-                  <AlertTriangle size={14} className="text-yellow-400" />
-                  <span className="text-yellow-300 font-medium text-sm">Memory Warning</span>
-                </div>
-                <p className="text-yellow-200 text-xs mt-1">
-                  Memory usage is above 60% threshold
-                </p>
-                <p className="text-yellow-400 text-xs mt-1">
-                  2 minutes ago
-                </p>
-              </div>
-
-              <div className="p-3 bg-green-900/30 border border-green-700 rounded-lg">
-                <div className="flex items-center space-x-2">
-                  <TrendingDown size={14} className="text-green-400" />
-                  <span className="text-green-300 font-medium text-sm">Performance Improved</span>
-                </div>
-                <p className="text-green-200 text-xs mt-1">
-                  API response time decreased by 15%
-                </p>
-                <p className="text-green-400 text-xs mt-1">
-                  5 minutes ago
-                </p>
-              </div>
-
-              <div className="p-3 bg-blue-900/30 border border-blue-700 rounded-lg">
-                <div className="flex items-center space-x-2">
-                  <Database size={14} className="text-blue-400" />
-                  <span className="text-blue-300 font-medium text-sm">Database Optimized</span>
-                </div>
-                <p className="text-blue-200 text-xs mt-1">
-                  Query performance increased by 23%
-                </p>
-                <p className="text-blue-400 text-xs mt-1">
-                  12 minutes ago
-                </p>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-700">
+                      <th className="text-left text-gray-400 pb-2">Chat</th>
+                      <th className="text-right text-gray-400 pb-2">Calls</th>
+                      <th className="text-right text-gray-400 pb-2">Tokens</th>
+                      <th className="text-right text-gray-400 pb-2">Cost</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {usage?.bySession.groups.map((group) => (
+                      <tr key={group.key ?? 'none'} className="border-b border-gray-700/50">
+                        <td className="py-2 text-gray-200">
+                          {group.key === null
+                            ? <span className="text-gray-400 italic">Outside chats</span>
+                            : group.label || 'New Chat'}
+                        </td>
+                        <td className="py-2 text-right text-gray-300">{group.calls}</td>
+                        <td className="py-2 text-right text-gray-300">{formatTokens(group.prompt_tokens + group.completion_tokens)}</td>
+                        <td className="py-2 text-right text-white">{formatCost(group.cost_usd)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
               </div>
             </CardContent>
           </Card>
         </div>
 
-        {/* Running Applications */}
-        <Card className="bg-gray-800 border-gray-700">
-          <CardHeader>
-            <CardTitle className="text-white flex items-center justify-between">
-              <span className="flex items-center">
-                <Activity className="mr-2 text-amber-400" size={20} />
-                Running Applications
-              </span>
-              <Badge className="bg-gray-700">
-                {runningApps.filter(app => app.status === 'running').length} active
-              </Badge>
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="overflow-x-auto">
-              <table className="w-full text-sm">
-                <thead>
-                  <tr className="border-b border-gray-700">
-                    <th className="text-left text-gray-400 pb-2">Application</th>
-                    <th className="text-left text-gray-400 pb-2">Status</th>
-                    <th className="text-left text-gray-400 pb-2">CPU Usage</th>
-                    <th className="text-left text-gray-400 pb-2">Memory Usage</th>
-                    <th className="text-left text-gray-400 pb-2">Resource Bar</th>
-                  </tr>
-                </thead>
-                <tbody className="space-y-2">
-                  {runningApps.map((app) => (
-                    <tr key={app.id} className="border-b border-gray-700/50">
-                      <td className="py-3">
-                        <span className="text-gray-200 font-medium">{app.name}</span>
-                      </td>
-                      <td className="py-3">
-                        <div className="flex items-center space-x-2">
-                          {getStatusIcon(app.status)}
-                          <span className="text-gray-300 capitalize">{app.status}</span>
-                        </div>
-                      </td>
-                      <td className="py-3">
-                        <span className="text-gray-200">{app.cpu}%</span>
-                      </td>
-                      <td className="py-3">
-                        <span className="text-gray-200">{app.memory}%</span>
-                      </td>
-                      <td className="py-3 w-32">
-                        <div className="space-y-1">
-                          <Progress value={app.cpu} className="h-1" />
-                          <Progress value={app.memory} className="h-1" />
-                        </div>
-                      </td>
-                    </tr>
-                  ))}
-                </tbody>
-              </table>
-            </div>
-          </CardContent>
-        </Card>
-
-        {/* Disclaimer */}
+        {/* Pricing note */}
         <Card className="bg-amber-900/20 border-amber-700">
           <CardContent className="p-4">
             <div className="flex items-start space-x-2">
               <AlertTriangle size={16} className="text-amber-400 mt-0.5 flex-shrink-0" />
               <div className="text-sm">
-                <p className="text-amber-400 font-semibold mb-1">Demo Dashboard</p>
+                <p className="text-amber-400 font-semibold mb-1">Estimated costs</p>
                 <p className="text-amber-200">
-                  This is a simulated performance monitoring dashboard for demonstration purposes. 
-                  The metrics and data shown are generated for display only and do not reflect 
-                  actual system performance or real application statistics.
+                  Costs are estimated from the server's price table (configurable with <code>AI_PRICES</code>)
+                  and the token counts reported by the provider. Calls to models without a configured
+                  price are counted but not priced.
                 </p>
               </div>
             </div>
@@ -457,4 +307,19 @@ export function PerformanceView() {
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+function StatCard({ icon, label, value, detail }: { icon: React.ReactNode; label: string; value: string; detail?: string }) {
+  return (
+    <Card className="bg-gray-800 border-gray-700">
+      <CardContent className="p-4">
+        <div className="flex items-center space-x-2 mb-2">
+          {icon}
+          <span className="text-gray-300 text-sm font-medium">{label}</span>
+        </div>
+        <span className="text-2xl font-bold text-white">{value}</span>
+        {detail && <p className="text-xs text-gray-400 mt-1">{detail}</p>}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,261 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Plus, Trash2, Pencil } from 'lucide-react';
+import { trpc } from '@/utils/trpc';
+import type { ModelParams, Persona, PersonaExample } from '../../../server/src/schema';
+
+interface PersonaManagerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  personas: Persona[];
+  onPersonasChange: (personas: Persona[]) => void;
+}
+
+// Form state; numeric parameters stay strings so the fields can be left empty
+interface PersonaDraft {
+  id: number | null;
+  name: string;
+  system_prompt: string;
+  temperature: string;
+  max_tokens: string;
+  examples: PersonaExample[];
+}
+
+const emptyDraft: PersonaDraft = { id: null, name: '', system_prompt: '', temperature: '', max_tokens: '', examples: [] };
+
+const toDraft = (persona: Persona): PersonaDraft => ({
+  id: persona.id,
+  name: persona.name,
+  system_prompt: persona.system_prompt,
+  temperature: persona.model_params.temperature?.toString() ?? '',
+  max_tokens: persona.model_params.max_tokens?.toString() ?? '',
+  examples: persona.examples
+});
+
+const toModelParams = (draft: PersonaDraft): ModelParams => {
+  const params: ModelParams = {};
+  if (draft.temperature.trim()) params.temperature = Number(draft.temperature);
+  if (draft.max_tokens.trim()) params.max_tokens = Number(draft.max_tokens);
+  return params;
+};
+
+export function PersonaManager({ open, onOpenChange, personas, onPersonasChange }: PersonaManagerProps) {
+  const [draft, setDraft] = useState<PersonaDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateDraft = (update: Partial<PersonaDraft>) => {
+    setDraft((prev) => (prev ? { ...prev, ...update } : prev));
+  };
+
+  const updateExample = (index: number, update: Partial<PersonaExample>) => {
+    if (!draft) return;
+    updateDraft({ examples: draft.examples.map((example, i) => (i === index ? { ...example, ...update } : example)) });
+  };
+
+  const editPersona = (persona: PersonaDraft) => {
+    setError(null);
+    setDraft(persona);
+  };
+
+  const savePersona = async () => {
+    if (!draft) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const input = {
+        name: draft.name,
+        system_prompt: draft.system_prompt,
+        model_params: toModelParams(draft),
+        examples: draft.examples.filter(example => example.user.trim() && example.assistant.trim())
+      };
+      if (draft.id === null) {
+        const persona = await trpc.createPersona.mutate(input);
+        onPersonasChange([...personas, persona].sort((a, b) => a.name.localeCompare(b.name)));
+      } else {
+        const persona = await trpc.updatePersona.mutate({ id: draft.id, ...input });
+        onPersonasChange(personas.map(p => (p.id === persona.id ? persona : p)));
+      }
+      setDraft(null);
+    } catch (saveError) {
+      console.error('Failed to save persona:', saveError);
+      setError('The persona could not be saved. Check that the name and system prompt are filled in and the parameters are valid.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const deletePersona = async (persona: Persona) => {
+    try {
+      await trpc.deletePersona.mutate({ id: persona.id });
+      onPersonasChange(personas.filter(p => p.id !== persona.id));
+      if (draft?.id === persona.id) {
+        setDraft(null);
+      }
+    } catch (deleteError) {
+      console.error('Failed to delete persona:', deleteError);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => { if (!isOpen) setDraft(null); onOpenChange(isOpen); }}>
+      <DialogContent className="bg-gray-800 border-gray-700 text-white max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Personas</DialogTitle>
+          <DialogDescription className="text-gray-400">
+            Reusable system prompts. Pin one to a chat to shape every reply in it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {draft ? (
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <span className="text-sm text-gray-300">Name</span>
+              <Input
+                value={draft.name}
+                onChange={(e) => updateDraft({ name: e.target.value })}
+                className="bg-gray-700 border-gray-600 text-white"
+                maxLength={100}
+              />
+            </div>
+            <div className="space-y-1">
+              <span className="text-sm text-gray-300">System prompt</span>
+              <Textarea
+                value={draft.system_prompt}
+                onChange={(e) => updateDraft({ system_prompt: e.target.value })}
+                className="bg-gray-700 border-gray-600 text-white min-h-[120px]"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <span className="text-sm text-gray-300">Temperature (0-2)</span>
+                <Input
+                  type="number"
+                  min={0}
+                  max={2}
+                  step={0.1}
+                  placeholder="Default"
+                  value={draft.temperature}
+                  onChange={(e) => updateDraft({ temperature: e.target.value })}
+                  className="bg-gray-700 border-gray-600 text-white"
+                />
+              </div>
+              <div className="space-y-1">
+                <span className="text-sm text-gray-300">Max tokens</span>
+                <Input
+                  type="number"
+                  min={1}
+                  step={1}
+                  placeholder="Default"
+                  value={draft.max_tokens}
+                  onChange={(e) => updateDraft({ max_tokens: e.target.value })}
+                  className="bg-gray-700 border-gray-600 text-white"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-gray-300">Example exchanges</span>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => updateDraft({ examples: [...draft.examples, { user: '', assistant: '' }] })}
+                  className="text-gray-300 hover:text-white"
+                >
+                  <Plus size={14} className="mr-1" />
+                  Add example
+                </Button>
+              </div>
+              {draft.examples.map((example, index) => (
+                <div key={index} className="flex items-start space-x-2">
+                  <div className="flex-1 space-y-2">
+                    <Input
+                      placeholder="User says..."
+                      value={example.user}
+                      onChange={(e) => updateExample(index, { user: e.target.value })}
+                      className="bg-gray-700 border-gray-600 text-white"
+                    />
+                    <Textarea
+                      placeholder="Persona replies..."
+                      value={example.assistant}
+                      onChange={(e) => updateExample(index, { assistant: e.target.value })}
+                      className="bg-gray-700 border-gray-600 text-white min-h-[60px]"
+                    />
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => updateDraft({ examples: draft.examples.filter((_, i) => i !== index) })}
+                    className="text-gray-400 hover:text-red-400"
+                    title="Remove example"
+                  >
+                    <Trash2 size={14} />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            {error && <p className="text-sm text-red-400">{error}</p>}
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setDraft(null)} className="border-gray-600 text-gray-300">
+                Back
+              </Button>
+              <Button
+                onClick={savePersona}
+                disabled={isSaving || !draft.name.trim() || !draft.system_prompt.trim()}
+                className="bg-amber-600 hover:bg-amber-700"
+              >
+                {isSaving ? 'Saving...' : 'Save Persona'}
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {personas.length === 0 && (
+              <p className="text-sm text-gray-400">No personas yet.</p>
+            )}
+            {personas.map((persona) => (
+              <div key={persona.id} className="flex items-center justify-between rounded-md bg-gray-700/50 px-3 py-2">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-100">{persona.name}</p>
+                  <p className="text-xs text-gray-400 truncate">{persona.system_prompt}</p>
+                </div>
+                <div className="flex items-center space-x-1">
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => editPersona(toDraft(persona))}
+                    className="h-7 w-7 p-0 text-gray-400 hover:text-white"
+                    title="Edit persona"
+                  >
+                    <Pencil size={14} />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => deletePersona(persona)}
+                    className="h-7 w-7 p-0 text-gray-400 hover:text-red-400"
+                    title="Delete persona"
+                  >
+                    <Trash2 size={14} />
+                  </Button>
+                </div>
+              </div>
+            ))}
+            <DialogFooter>
+              <Button onClick={() => editPersona(emptyDraft)} className="bg-amber-600 hover:bg-amber-700">
+                <Plus size={16} className="mr-1" />
+                New Persona
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -3,83 +3,164 @@ import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { 
   FileQuestion, 
   Brain, 
   Eye, 
   EyeOff,
-  CheckCircle,
-  XCircle,
   Loader2,
   AlertCircle,
   RotateCcw,
   Download
 } from 'lucide-react';
 import { trpc } from '@/utils/trpc';
-import type { CreateQuizInput } from '../../../server/src/schema';
-
-interface QuizQuestion {
-  question: string;
-  options: string[];
-  answer: string;
-  explanation?: string;
-}
-
-interface QuizData {
-  quiz: QuizQuestion[];
-  title?: string;
-  difficulty?: string;
+import { downloadFile } from '@/lib/download';
+import { isAnswered, questionTypeLabels, quizSourceLabels, quizToText, scorePercentage } from '@/lib/quiz';
+import { QuizQuestionCard } from '@/components/QuizQuestionCard';
+import { QuizHistoryPanel } from '@/components/QuizHistoryPanel';
+import { QuizSourcePicker, type PickedQuizSource } from '@/components/QuizSourcePicker';
+import { QuizSourcePanel, type QuizSourceInfo } from '@/components/QuizSourcePanel';
+import type {
+  CreateQuizInput,
+  Quiz,
+  QuizAnswer,
+  QuizAttempt,
+  QuizData,
+  QuizDifficulty,
+  QuizExportFormat,
+  QuizQuestionType,
+  QuizSource,
+  QuizSourceSpan,
+  QuizSourceType
+} from '../../../server/src/schema';
+
+const questionTypes = Object.keys(questionTypeLabels) as QuizQuestionType[];
+const sourceTypes = Object.keys(quizSourceLabels) as QuizSourceType[];
+
+const exportFormats: { format: QuizExportFormat; label: string }[] = [
+  { format: 'html', label: 'Printable with answer key (.html)' },
+  { format: 'gift', label: 'Moodle GIFT (.txt)' },
+  { format: 'moodle_xml', label: 'Moodle XML (.xml)' },
+  { format: 'qti', label: 'QTI 2.1 package (.zip)' },
+  { format: 'anki_csv', label: 'Anki flashcards (.csv)' },
+  { format: 'anki_tsv', label: 'Anki flashcards (.tsv)' },
+];
+
+interface QuizGeneratorViewProps {
+  onOpenChat: (sessionId: string) => void; // Jumps to the chat a quiz was written from
 }
 
-export function QuizGeneratorView() {
+export function QuizGeneratorView({ onOpenChat }: QuizGeneratorViewProps) {
+  const [sourceKind, setSourceKind] = useState<QuizSourceType>('text');
   const [sourceText, setSourceText] = useState('');
+  const [pickedSource, setPickedSource] = useState<PickedQuizSource | null>(null);
+  const [quizSource, setQuizSource] = useState<QuizSourceInfo | null>(null);
+  const [sourceHighlight, setSourceHighlight] = useState<QuizSourceSpan | null>(null);
+  const [showSourceText, setShowSourceText] = useState(false);
+  const [quizId, setQuizId] = useState<number | null>(null);
   const [quizData, setQuizData] = useState<QuizData | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showAnswers, setShowAnswers] = useState(false);
-  const [userAnswers, setUserAnswers] = useState<Record<number, string>>({});
+  const [userAnswers, setUserAnswers] = useState<Record<number, QuizAnswer>>({});
   const [quizSubmitted, setQuizSubmitted] = useState(false);
+  const [attempt, setAttempt] = useState<QuizAttempt | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [questionCount, setQuestionCount] = useState(5);
+  const [difficulty, setDifficulty] = useState<QuizDifficulty>('medium');
+  const [selectedTypes, setSelectedTypes] = useState<QuizQuestionType[]>(['multiple_choice', 'true_false', 'short_answer']);
   
   const generateQuiz = async () => {
-    if (!sourceText.trim()) {
-      setError('Please enter some text to generate a quiz from');
-      return;
-    }
-
-    if (sourceText.trim().length < 100) {
-      setError('Please provide more text (at least 100 characters) for better quiz generation');
+    let source: QuizSource;
+    if (sourceKind === 'text') {
+      if (!sourceText.trim()) {
+        setError('Please enter some text to generate a quiz from');
+        return;
+      }
+
+      if (sourceText.trim().length < 100) {
+        setError('Please provide more text (at least 100 characters) for better quiz generation');
+        return;
+      }
+      source = { type: 'text', text: sourceText.trim() };
+    } else if (pickedSource) {
+      source = pickedSource.source;
+    } else {
+      setError(`Please choose a ${quizSourceLabels[sourceKind].toLowerCase()} to generate a quiz from`);
       return;
     }
 
     setIsGenerating(true);
     setError(null);
     setQuizData(null);
-    setUserAnswers({});
-    setQuizSubmitted(false);
-    setShowAnswers(false);
 
     try {
       const input: CreateQuizInput = {
-        source_text: sourceText.trim()
+        source,
+        question_count: questionCount,
+        difficulty,
+        question_types: selectedTypes
       };
 
-      const result = await trpc.generateQuiz.mutate(input);
-      
-      // Parse the quiz data from the result
-      const parsedQuizData = result.quiz_data as QuizData;
-      setQuizData(parsedQuizData);
+      openQuiz(await trpc.generateQuiz.mutate(input));
 
     } catch (error) {
       console.error('Quiz generation failed:', error);
-      setError('Failed to generate quiz. Please try again with different text.');
+      setError(sourceKind === 'text'
+        ? 'Failed to generate quiz. Please try again with different text.'
+        : 'Failed to generate quiz. Please try again or choose another source.');
     } finally {
       setIsGenerating(false);
     }
   };
 
-  const handleAnswerChange = (questionIndex: number, answer: string) => {
+  const openQuiz = (quiz: Quiz) => {
+    // Quizzes in the older format have no questions to take
+    if (!quiz.quiz_data) return;
+    setQuizId(quiz.id);
+    setQuizData(quiz.quiz_data);
+    setQuizSource(quiz);
+    setSourceHighlight(null);
+    setShowSourceText(false);
+    setUserAnswers({});
+    setQuizSubmitted(false);
+    setAttempt(null);
+    setShowAnswers(false);
+  };
+
+  // Opens a past attempt read-only, with the answers it gave and how they were graded
+  const reviewAttempt = (quiz: Quiz, past: QuizAttempt) => {
+    openQuiz(quiz);
+    setUserAnswers(Object.fromEntries(
+      past.answers.flatMap((answer, index) => answer ? [[index, answer]] : [])
+    ));
+    setAttempt(past);
+    setQuizSubmitted(true);
+    setShowAnswers(true);
+  };
+
+  const changeSourceKind = (kind: QuizSourceType) => {
+    setSourceKind(kind);
+    setPickedSource(null);
+    setError(null);
+  };
+
+  const showInSource = (span: QuizSourceSpan) => {
+    setSourceHighlight(span);
+    setShowSourceText(true);
+  };
+
+  const toggleType = (type: QuizQuestionType, checked: boolean) => {
+    setSelectedTypes(prev => checked ? [...prev, type] : prev.filter(other => other !== type));
+  };
+
+  const handleAnswerChange = (questionIndex: number, answer: QuizAnswer) => {
     if (quizSubmitted) return;
     
     setUserAnswers(prev => ({
@@ -88,59 +169,51 @@ export function QuizGeneratorView() {
     }));
   };
 
-  const submitQuiz = () => {
-    setQuizSubmitted(true);
-    setShowAnswers(true);
+  const submitQuiz = async () => {
+    if (!quizData || quizId === null) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const graded = await trpc.submitQuizAttempt.mutate({
+        quiz_id: quizId,
+        answers: quizData.questions.map((_, index) => userAnswers[index] ?? null)
+      });
+      setAttempt(graded);
+      setQuizSubmitted(true);
+      setShowAnswers(true);
+    } catch (error) {
+      console.error('Quiz submission failed:', error);
+      setError('Failed to submit the quiz. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
   };
 
   const resetQuiz = () => {
     setUserAnswers({});
     setQuizSubmitted(false);
+    setAttempt(null);
     setShowAnswers(false);
   };
 
-  const getScore = () => {
-    if (!quizData) return { correct: 0, total: 0, percentage: 0 };
-    
-    const correct = quizData.quiz.reduce((acc, question, index) => {
-      return acc + (userAnswers[index] === question.answer ? 1 : 0);
-    }, 0);
-    
-    const total = quizData.quiz.length;
-    const percentage = total > 0 ? Math.round((correct / total) * 100) : 0;
-    
-    return { correct, total, percentage };
-  };
-
   const downloadQuiz = () => {
     if (!quizData) return;
+    downloadFile(quizToText(quizData), 'generated-quiz.txt', 'text/plain');
+  };
 
-    const quizText = `
-Quiz: ${quizData.title || 'Generated Quiz'}
-${quizData.difficulty ? `Difficulty: ${quizData.difficulty}` : ''}
-Generated on: ${new Date().toLocaleString()}
-
-${quizData.quiz.map((q, index) => `
-Question ${index + 1}: ${q.question}
-
-Options:
-${q.options.map((option, optIndex) => `${String.fromCharCode(65 + optIndex)}. ${option}`).join('\n')}
-
-Correct Answer: ${q.answer}
-${q.explanation ? `Explanation: ${q.explanation}` : ''}
-`).join('\n---\n')}
-`;
-
-    const blob = new Blob([quizText], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'generated-quiz.txt';
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+  const exportQuiz = async (format: QuizExportFormat) => {
+    if (quizId === null) return;
+    try {
+      const file = await trpc.exportQuiz.query({ id: quizId, format });
+      const content = file.encoding === 'base64'
+        ? Uint8Array.from(atob(file.content), (char) => char.charCodeAt(0))
+        : file.content;
+      downloadFile(content, file.filename, file.mime_type);
+    } catch (error) {
+      console.error('Quiz export failed:', error);
+      setError('Failed to export the quiz. Please try again.');
+    }
   };
 
   const sampleTexts = [
@@ -151,7 +224,10 @@ ${q.explanation ? `Explanation: ${q.explanation}` : ''}
     "Artificial Intelligence (AI) refers to the simulation of human intelligence in machines that are programmed to think and learn like humans. AI systems can perform tasks that typically require human intelligence, such as visual perception, speech recognition, decision-making, and language translation. Machine learning, a subset of AI, enables computers to learn and improve their performance without being explicitly programmed. Deep learning, which uses neural networks, has revolutionized AI by enabling breakthroughs in image recognition, natural language processing, and game playing."
   ];
 
-  const score = getScore();
+  const percentage = attempt ? scorePercentage(attempt.score, attempt.max_score) : 0;
+  // Partial credit can leave a fraction, so the score keeps one decimal place
+  const scoreLabel = attempt ? `${Number(attempt.score.toFixed(1))}/${attempt.max_score}` : '';
+  const allAnswered = quizData !== null && quizData.questions.every((_, index) => isAnswered(userAnswers[index]));
 
   return (
     <div className="h-full overflow-y-auto bg-gray-900">
@@ -164,24 +240,35 @@ ${q.explanation ? `Explanation: ${q.explanation}` : ''}
               Quiz Generator
             </h1>
             <p className="text-gray-400 mt-1">
-              Transform any text into an interactive multiple-choice quiz for learning and assessment
+              Transform any text into an interactive quiz for learning and assessment
             </p>
           </div>
           
           {quizData && (
             <div className="flex items-center space-x-3">
               <Badge className="bg-green-600">
-                {quizData.quiz.length} question{quizData.quiz.length !== 1 ? 's' : ''}
+                {quizData.questions.length} question{quizData.questions.length !== 1 ? 's' : ''}
               </Badge>
-              <Button
-                onClick={downloadQuiz}
-                size="sm"
-                variant="outline"
-                className="border-gray-600 hover:border-green-400"
-              >
-                <Download size={16} className="mr-1" />
-                Export
-              </Button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="border-gray-600 hover:border-green-400"
+                  >
+                    <Download size={16} className="mr-1" />
+                    Export
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  {exportFormats.map(({ format, label }) => (
+                    <DropdownMenuItem key={format} onSelect={() => exportQuiz(format)}>
+                      {label}
+                    </DropdownMenuItem>
+                  ))}
+                  <DropdownMenuItem onSelect={downloadQuiz}>Plain text (.txt)</DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
             </div>
           )}
         </div>
@@ -199,29 +286,98 @@ ${q.explanation ? `Explanation: ${q.explanation}` : ''}
                 </CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
+                <Tabs value={sourceKind} onValueChange={(value) => changeSourceKind(value as QuizSourceType)}>
+                  <TabsList className="grid grid-cols-5 w-full bg-gray-700">
+                    {sourceTypes.map((type) => (
+                      <TabsTrigger key={type} value={type} className="text-xs" disabled={isGenerating}>
+                        {quizSourceLabels[type]}
+                      </TabsTrigger>
+                    ))}
+                  </TabsList>
+
+                  <TabsContent value="text">
+                    <label className="block text-sm font-medium text-gray-300 mb-2">
+                      Paste your text content here
+                    </label>
+                    <Textarea
+                      value={sourceText}
+                      onChange={(e) => setSourceText(e.target.value)}
+                      placeholder="Enter the text you want to create a quiz from. This could be an article, lesson content, study notes, or any educational material..."
+                      className="bg-gray-700 border-gray-600 text-white placeholder-gray-400 min-h-[300px]"
+                    />
+                    <div className="flex justify-between mt-2">
+                      <span className="text-xs text-gray-500">
+                        {sourceText.length} characters
+                      </span>
+                      <span className="text-xs text-gray-500">
+                        Minimum 100 characters recommended
+                      </span>
+                    </div>
+                  </TabsContent>
+
+                  {sourceKind !== 'text' && (
+                    <TabsContent value={sourceKind}>
+                      <QuizSourcePicker
+                        kind={sourceKind}
+                        picked={pickedSource}
+                        onPick={setPickedSource}
+                        disabled={isGenerating}
+                      />
+                    </TabsContent>
+                  )}
+                </Tabs>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="question-count" className="block text-sm font-medium text-gray-300 mb-2">
+                      Questions
+                    </Label>
+                    <Input
+                      id="question-count"
+                      type="number"
+                      min={1}
+                      max={20}
+                      value={questionCount}
+                      onChange={(e) => setQuestionCount(Math.min(20, Math.max(1, Number(e.target.value) || 1)))}
+                      className="bg-gray-700 border-gray-600 text-white"
+                    />
+                  </div>
+                  <div>
+                    <Label className="block text-sm font-medium text-gray-300 mb-2">Difficulty</Label>
+                    <Select value={difficulty} onValueChange={(value) => setDifficulty(value as QuizDifficulty)}>
+                      <SelectTrigger className="bg-gray-700 border-gray-600 text-white">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="easy">Easy</SelectItem>
+                        <SelectItem value="medium">Medium</SelectItem>
+                        <SelectItem value="hard">Hard</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
                 <div>
-                  <label className="block text-sm font-medium text-gray-300 mb-2">
-                    Paste your text content here
-                  </label>
-                  <Textarea
-                    value={sourceText}
-                    onChange={(e) => setSourceText(e.target.value)}
-                    placeholder="Enter the text you want to create a quiz from. This could be an article, lesson content, study notes, or any educational material..."
-                    className="bg-gray-700 border-gray-600 text-white placeholder-gray-400 min-h-[300px]"
-                  />
-                  <div className="flex justify-between mt-2">
-                    <span className="text-xs text-gray-500">
-                      {sourceText.length} characters
-                    </span>
-                    <span className="text-xs text-gray-500">
-                      Minimum 100 characters recommended
-                    </span>
+                  <span className="block text-sm font-medium text-gray-300 mb-2">Question types</span>
+                  <div className="grid grid-cols-2 gap-2">
+                    {questionTypes.map((type) => (
+                      <div key={type} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`type-${type}`}
+                          checked={selectedTypes.includes(type)}
+                          onCheckedChange={(checked) => toggleType(type, checked === true)}
+                        />
+                        <Label htmlFor={`type-${type}`} className="text-sm text-gray-300 cursor-pointer">
+                          {questionTypeLabels[type]}
+                        </Label>
+                      </div>
+                    ))}
                   </div>
                 </div>
 
                 <Button
                   onClick={generateQuiz}
-                  disabled={!sourceText.trim() || isGenerating}
+                  disabled={(sourceKind === 'text' ? !sourceText.trim() : !pickedSource) || selectedTypes.length === 0 || isGenerating}
                   className="w-full btn-accent"
                 >
                   {isGenerating ? (
@@ -255,7 +411,10 @@ ${q.explanation ? `Explanation: ${q.explanation}` : ''}
                   {sampleTexts.map((text, index) => (
                     <button
                       key={index}
-                      onClick={() => setSourceText(text)}
+                      onClick={() => {
+                        changeSourceKind('text');
+                        setSourceText(text);
+                      }}
                       className="text-left p-4 bg-gray-700 hover:bg-gray-600 rounded-lg border border-gray-600 hover:border-green-400 transition-all text-gray-300 text-sm w-full"
                       disabled={isGenerating}
                     >
@@ -268,6 +427,10 @@ ${q.explanation ? `Explanation: ${q.explanation}` : ''}
                 </div>
               </CardContent>
             </Card>
+
+            <div className="lg:col-span-2">
+              <QuizHistoryPanel onRetake={openQuiz} onReview={reviewAttempt} />
+            </div>
           </div>
         ) : (
           /* Quiz Display Section */
@@ -278,23 +441,21 @@ ${q.explanation ? `Explanation: ${q.explanation}` : ''}
                 <div className="flex items-center justify-between">
                   <div>
                     <CardTitle className="text-white text-xl">
-                      {quizData.title || 'Generated Quiz'}
+                      {quizData.title}
                     </CardTitle>
-                    {quizData.difficulty && (
-                      <Badge className="mt-2 bg-blue-600">
-                        {quizData.difficulty}
-                      </Badge>
-                    )}
+                    <Badge className="mt-2 bg-blue-600">
+                      {quizData.difficulty}
+                    </Badge>
                   </div>
                   
                   <div className="flex items-center space-x-3">
-                    {quizSubmitted && (
+                    {attempt && (
                       <div className="text-center">
                         <div className="text-2xl font-bold text-green-400">
-                          {score.percentage}%
+                          {percentage}%
                         </div>
                         <div className="text-xs text-gray-400">
-                          {score.correct}/{score.total} correct
+                          {scoreLabel} points
                         </div>
                       </div>
                     )}
@@ -320,8 +481,11 @@ ${q.explanation ? `Explanation: ${q.explanation}` : ''}
                     
                     <Button
                       onClick={() => {
+                        setQuizId(null);
                         setQuizData(null);
+                        setQuizSource(null);
                         setSourceText('');
+                        setPickedSource(null);
                         setError(null);
                       }}
                       size="sm"
@@ -335,98 +499,31 @@ ${q.explanation ? `Explanation: ${q.explanation}` : ''}
               </CardHeader>
             </Card>
 
+            {quizSource && (
+              <QuizSourcePanel
+                source={quizSource}
+                highlight={sourceHighlight}
+                expanded={showSourceText}
+                onExpandedChange={setShowSourceText}
+                onOpenChat={onOpenChat}
+              />
+            )}
+
             {/* Questions */}
             <div className="space-y-4">
-              {quizData.quiz.map((question, questionIndex) => {
-                const userAnswer = userAnswers[questionIndex];
-                const correctAnswer = question.answer;
-                const isCorrect = userAnswer === correctAnswer;
-                
-                return (
-                  <Card key={questionIndex} className="bg-gray-800 border-gray-700">
-                    <CardContent className="p-6">
-                      <div className="flex items-start justify-between mb-4">
-                        <h3 className="text-white font-semibold text-lg flex items-start">
-                          <span className="bg-gray-700 text-amber-400 rounded-full w-8 h-8 flex items-center justify-center text-sm font-bold mr-3 mt-1 flex-shrink-0">
-                            {questionIndex + 1}
-                          </span>
-                          <span>{question.question}</span>
-                        </h3>
-                        
-                        {quizSubmitted && (
-                          <div className="flex-shrink-0 ml-3">
-                            {isCorrect ? (
-                              <CheckCircle size={24} className="text-green-400" />
-                            ) : (
-                              <XCircle size={24} className="text-red-400" />
-                            )}
-                          </div>
-                        )}
-                      </div>
-
-                      <RadioGroup 
-                        value={userAnswer || ''} 
-                        onValueChange={(value) => handleAnswerChange(questionIndex, value)}
-                        disabled={quizSubmitted}
-                        className="space-y-3"
-                      >
-                        {question.options.map((option, optionIndex) => {
-                          const optionLetter = String.fromCharCode(65 + optionIndex);
-                          const isThisCorrect = option === correctAnswer;
-                          const isSelected = userAnswer === option;
-                          
-                          let optionClass = "flex items-center space-x-3 p-3 rounded-lg border transition-all";
-                          
-                          if (quizSubmitted) {
-                            if (isThisCorrect) {
-                              optionClass += " border-green-500 bg-green-900/30";
-                            } else if (isSelected && !isThisCorrect) {
-                              optionClass += " border-red-500 bg-red-900/30";
-                            } else {
-                              optionClass += " border-gray-600 bg-gray-700/30";
-                            }
-                          } else {
-                            optionClass += " border-gray-600 hover:border-gray-500 bg-gray-700/50";
-                            if (isSelected) {
-                              optionClass += " border-amber-400 bg-amber-900/20";
-                            }
-                          }
-
-                          return (
-                            <div key={optionIndex} className={optionClass}>
-                              <RadioGroupItem 
-                                value={option} 
-                                id={`q${questionIndex}-${optionIndex}`}
-                                disabled={quizSubmitted}
-                              />
-                              <Label 
-                                htmlFor={`q${questionIndex}-${optionIndex}`}
-                                className="flex-1 cursor-pointer text-gray-200 flex items-center"
-                              >
-                                <span className="font-semibold mr-2 text-gray-400">
-                                  {optionLetter}.
-                                </span>
-                                {option}
-                                {showAnswers && isThisCorrect && (
-                                  <CheckCircle size={16} className="ml-2 text-green-400" />
-                                )}
-                              </Label>
-                            </div>
-                          );
-                        })}
-                      </RadioGroup>
-
-                      {showAnswers && question.explanation && (
-                        <div className="mt-4 p-3 bg-blue-900/30 border border-blue-700 rounded-lg">
-                          <p className="text-blue-300 text-sm">
-                            <strong>Explanation:</strong> {question.explanation}
-                          </p>
-                        </div>
-                      )}
-                    </CardContent>
-                  </Card>
-                );
-              })}
+              {quizData.questions.map((question, questionIndex) => (
+                <QuizQuestionCard
+                  key={questionIndex}
+                  question={question}
+                  index={questionIndex}
+                  answer={userAnswers[questionIndex]}
+                  onAnswer={(answer) => handleAnswerChange(questionIndex, answer)}
+                  submitted={quizSubmitted}
+                  showAnswers={showAnswers}
+                  result={attempt?.results[questionIndex]}
+                  onShowSource={showInSource}
+                />
+              ))}
             </div>
 
             {/* Quiz Actions */}
@@ -436,19 +533,27 @@ ${q.explanation ? `Explanation: ${q.explanation}` : ''}
                   {!quizSubmitted ? (
                     <Button
                       onClick={submitQuiz}
-                      disabled={Object.keys(userAnswers).length !== quizData.quiz.length}
+                      disabled={!allAnswered || isSubmitting}
                       className="btn-accent px-8"
                     >
-                      Submit Quiz
+                      {isSubmitting ? (
+                        <>
+                          <Loader2 size={16} className="mr-2 animate-spin" />
+                          Grading...
+                        </>
+                      ) : (
+                        'Submit Quiz'
+                      )}
                     </Button>
                   ) : (
                     <div className="flex items-center space-x-4">
                       <div className="text-center">
                         <div className="text-3xl font-bold text-green-400 mb-1">
-                          {score.percentage}%
+                          {percentage}%
                         </div>
                         <div className="text-sm text-gray-400">
-                          You scored {score.correct} out of {score.total} questions correctly
+                          You scored {scoreLabel} points
+                          {attempt && ` on ${attempt.created_at.toLocaleString()}`}
                         </div>
                       </div>
                       
@@ -464,7 +569,11 @@ ${q.explanation ? `Explanation: ${q.explanation}` : ''}
                   )}
                 </div>
 
-                {!quizSubmitted && Object.keys(userAnswers).length < quizData.quiz.length && (
+                {error && (
+                  <p className="text-center text-red-300 text-sm mt-2">{error}</p>
+                )}
+
+                {!quizSubmitted && !allAnswered && (
                   <p className="text-center text-gray-500 text-sm mt-2">
                     Answer all questions to submit the quiz
                   </p>
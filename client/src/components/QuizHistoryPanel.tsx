@@ -0,0 +1,200 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { History, RefreshCw, RotateCcw, Eye, ChevronDown, ChevronRight } from 'lucide-react';
+import { trpc } from '@/utils/trpc';
+import { scorePercentage } from '@/lib/quiz';
+import type { QuizAttempt, QuizAttemptHistory, QuizSummary } from '../../../server/src/schema';
+
+interface QuizHistoryPanelProps {
+  onRetake: (quiz: QuizSummary) => void;
+  onReview: (quiz: QuizSummary, attempt: QuizAttempt) => void;
+}
+
+const PAGE_SIZE = 10;
+
+const accuracyColor = (accuracy: number): string =>
+  accuracy >= 0.8 ? 'text-green-400' : accuracy >= 0.5 ? 'text-amber-400' : 'text-red-400';
+
+export function QuizHistoryPanel({ onRetake, onReview }: QuizHistoryPanelProps) {
+  const [quizzes, setQuizzes] = useState<QuizSummary[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [openQuizId, setOpenQuizId] = useState<number | null>(null);
+  const [history, setHistory] = useState<QuizAttemptHistory | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadQuizzes = useCallback(async (offset: number) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const list = await trpc.listQuizzes.query({ limit: PAGE_SIZE, offset });
+      setQuizzes((prev) => offset === 0 ? list.quizzes : [...prev, ...list.quizzes]);
+      setTotal(list.total);
+    } catch (loadError) {
+      console.error('Failed to load quizzes:', loadError);
+      setError('Quizzes could not be loaded.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadQuizzes(0);
+  }, [loadQuizzes]);
+
+  const toggleQuiz = async (id: number) => {
+    if (openQuizId === id) {
+      setOpenQuizId(null);
+      return;
+    }
+    setOpenQuizId(id);
+    setHistory(null);
+    try {
+      setHistory(await trpc.listQuizAttempts.query({ quiz_id: id }));
+    } catch (historyError) {
+      console.error('Failed to load quiz attempts:', historyError);
+      setError('Attempts could not be loaded.');
+    }
+  };
+
+  return (
+    <Card className="bg-gray-800 border-gray-700">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center justify-between">
+          <span className="flex items-center">
+            <History className="mr-2 text-green-400" size={20} />
+            Past Quizzes
+            <Badge className="ml-2 bg-gray-700">{total}</Badge>
+          </span>
+          <Button
+            onClick={() => loadQuizzes(0)}
+            disabled={isLoading}
+            size="sm"
+            variant="ghost"
+            className="h-8 w-8 p-0 text-gray-400 hover:text-white"
+            title="Refresh"
+          >
+            <RefreshCw size={14} className={isLoading ? 'animate-spin' : ''} />
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {error && <p className="text-sm text-red-300">{error}</p>}
+        {!isLoading && quizzes.length === 0 && (
+          <p className="text-sm text-gray-400">No quizzes yet.</p>
+        )}
+
+        {quizzes.map((quiz) => {
+          const isOpen = openQuizId === quiz.id;
+          // Quizzes saved before typed questions come back without quiz data
+          const questions = quiz.quiz_data?.questions ?? [];
+          const questionCount = questions.length;
+
+          return (
+            <div key={quiz.id} className="rounded-lg border border-gray-600 bg-gray-700/50">
+              <div className="flex items-center justify-between p-3 space-x-2">
+                <button onClick={() => toggleQuiz(quiz.id)} className="text-left flex-1 min-w-0 flex items-start" title="Show attempts">
+                  {isOpen ? <ChevronDown size={16} className="mr-2 mt-0.5 text-gray-400 flex-shrink-0" /> : <ChevronRight size={16} className="mr-2 mt-0.5 text-gray-400 flex-shrink-0" />}
+                  <span className="min-w-0">
+                    <span className="block text-sm text-gray-200 truncate">{quiz.quiz_data?.title ?? quiz.source_title ?? 'Untitled quiz'}</span>
+                    <span className="block text-xs text-gray-500 mt-1">
+                      {quiz.quiz_data ? `${questionCount} question${questionCount !== 1 ? 's' : ''}` : 'Older format'} · {quiz.attempt_count} attempt{quiz.attempt_count !== 1 ? 's' : ''}
+                      {quiz.last_attempt_at && ` · last ${quiz.last_attempt_at.toLocaleDateString()}`}
+                    </span>
+                  </span>
+                </button>
+                <div className="flex items-center space-x-1 flex-shrink-0">
+                  {quiz.best_score !== null && (
+                    <Badge className="bg-green-700" title="Best score">
+                      {scorePercentage(quiz.best_score, questionCount)}%
+                    </Badge>
+                  )}
+                  {quiz.quiz_data && (
+                    <Button
+                      onClick={() => onRetake(quiz)}
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 w-7 p-0 text-gray-400 hover:text-green-400"
+                      title="Take this quiz"
+                    >
+                      <RotateCcw size={14} />
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              {isOpen && (
+                <div className="border-t border-gray-600 p-3 space-y-3">
+                  {!quiz.quiz_data ? (
+                    <p className="text-xs text-gray-400">Saved in an older format without typed questions, so it can't be taken or graded.</p>
+                  ) : !history ? (
+                    <p className="text-xs text-gray-400">Loading attempts...</p>
+                  ) : history.attempts.length === 0 ? (
+                    <p className="text-xs text-gray-400">Not attempted yet.</p>
+                  ) : (
+                    <>
+                      <div className="space-y-1">
+                        <p className="text-xs font-medium text-gray-300">Attempts</p>
+                        {history.attempts.map((attempt) => (
+                          <div key={attempt.id} className="flex items-center justify-between text-xs text-gray-300">
+                            <span>{attempt.created_at.toLocaleString()}</span>
+                            <span className="flex items-center space-x-2">
+                              <span className="font-semibold">
+                                {scorePercentage(attempt.score, attempt.max_score)}%
+                              </span>
+                              <Button
+                                onClick={() => onReview(quiz, attempt)}
+                                size="sm"
+                                variant="ghost"
+                                className="h-6 px-2 text-gray-400 hover:text-amber-400"
+                                title="Review this attempt"
+                              >
+                                <Eye size={12} className="mr-1" />
+                                Review
+                              </Button>
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+
+                      <div className="space-y-2">
+                        <p className="text-xs font-medium text-gray-300">Accuracy per question</p>
+                        {questions.map((question, index) => {
+                          const accuracy = history.question_accuracy[index] ?? 0;
+                          return (
+                            <div key={index} className="text-xs">
+                              <div className="flex justify-between text-gray-400">
+                                <span className="truncate mr-2">{index + 1}. {question.question}</span>
+                                <span className={accuracyColor(accuracy)}>{Math.round(accuracy * 100)}%</span>
+                              </div>
+                              <Progress value={accuracy * 100} className="h-1 mt-1" />
+                            </div>
+                          );
+                        })}
+                      </div>
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        {quizzes.length < total && (
+          <Button
+            onClick={() => loadQuizzes(quizzes.length)}
+            disabled={isLoading}
+            variant="outline"
+            size="sm"
+            className="w-full border-gray-600 text-gray-300"
+          >
+            Load more
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,203 @@
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Label } from '@/components/ui/label';
+import { CheckCircle, XCircle, MinusCircle, Quote } from 'lucide-react';
+import { describeCorrectAnswer, questionTypeLabels, splitCloze } from '@/lib/quiz';
+import type { QuizAnswer, QuizQuestion, QuizQuestionResult, QuizSourceSpan } from '../../../server/src/schema';
+
+interface QuizQuestionCardProps {
+  question: QuizQuestion;
+  index: number;
+  answer: QuizAnswer | undefined;
+  onAnswer: (answer: QuizAnswer) => void;
+  submitted: boolean; // Locks the inputs and marks the correct options
+  showAnswers: boolean; // Reveals the correct answer, explanation and sources
+  result?: QuizQuestionResult; // The server's grade, once the attempt is submitted
+  onShowSource?: (span: QuizSourceSpan) => void; // Makes the quotes links to where they are in the source
+}
+
+const optionClass = (isThisCorrect: boolean, isSelected: boolean, submitted: boolean): string => {
+  const base = 'flex items-center space-x-3 p-3 rounded-lg border transition-all';
+  if (submitted) {
+    if (isThisCorrect) return `${base} border-green-500 bg-green-900/30`;
+    if (isSelected) return `${base} border-red-500 bg-red-900/30`;
+    return `${base} border-gray-600 bg-gray-700/30`;
+  }
+  return isSelected
+    ? `${base} border-amber-400 bg-amber-900/20`
+    : `${base} border-gray-600 hover:border-gray-500 bg-gray-700/50`;
+};
+
+export function QuizQuestionCard({ question, index, answer, onAnswer, submitted, showAnswers, result, onShowSource }: QuizQuestionCardProps) {
+  const id = `q${index}`;
+  const reveal = submitted || showAnswers;
+
+  const renderInput = () => {
+    switch (question.type) {
+      case 'multiple_choice':
+      case 'true_false': {
+        const options = question.type === 'multiple_choice' ? question.options : ['True', 'False'];
+        const correctIndex = question.type === 'multiple_choice' ? question.answer_index : (question.answer ? 0 : 1);
+        const selected = answer?.type === 'multiple_choice'
+          ? answer.selected
+          : answer?.type === 'true_false' ? (answer.value ? 0 : 1) : null;
+
+        return (
+          <RadioGroup
+            value={selected === null ? '' : String(selected)}
+            onValueChange={(value) => onAnswer(question.type === 'multiple_choice'
+              ? { type: 'multiple_choice', selected: Number(value) }
+              : { type: 'true_false', value: value === '0' })}
+            disabled={submitted}
+            className="space-y-3"
+          >
+            {options.map((option, optionIndex) => (
+              <div key={optionIndex} className={optionClass(reveal && optionIndex === correctIndex, selected === optionIndex, submitted)}>
+                <RadioGroupItem value={String(optionIndex)} id={`${id}-${optionIndex}`} disabled={submitted} />
+                <Label htmlFor={`${id}-${optionIndex}`} className="flex-1 cursor-pointer text-gray-200 flex items-center">
+                  {question.type === 'multiple_choice' && (
+                    <span className="font-semibold mr-2 text-gray-400">{String.fromCharCode(65 + optionIndex)}.</span>
+                  )}
+                  {option}
+                  {showAnswers && optionIndex === correctIndex && <CheckCircle size={16} className="ml-2 text-green-400" />}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+        );
+      }
+
+      case 'multi_select': {
+        const selected = answer?.type === 'multi_select' ? answer.selected : [];
+        const toggle = (optionIndex: number, checked: boolean) => onAnswer({
+          type: 'multi_select',
+          selected: checked ? [...selected, optionIndex] : selected.filter(other => other !== optionIndex)
+        });
+
+        return (
+          <div className="space-y-3">
+            <p className="text-xs text-gray-400">Select all that apply</p>
+            {question.options.map((option, optionIndex) => {
+              const isThisCorrect = question.answer_indices.includes(optionIndex);
+              return (
+                <div key={optionIndex} className={optionClass(reveal && isThisCorrect, selected.includes(optionIndex), submitted)}>
+                  <Checkbox
+                    id={`${id}-${optionIndex}`}
+                    checked={selected.includes(optionIndex)}
+                    onCheckedChange={(checked) => toggle(optionIndex, checked === true)}
+                    disabled={submitted}
+                  />
+                  <Label htmlFor={`${id}-${optionIndex}`} className="flex-1 cursor-pointer text-gray-200 flex items-center">
+                    {option}
+                    {showAnswers && isThisCorrect && <CheckCircle size={16} className="ml-2 text-green-400" />}
+                  </Label>
+                </div>
+              );
+            })}
+          </div>
+        );
+      }
+
+      case 'short_answer':
+        return (
+          <Input
+            value={answer?.type === 'short_answer' ? answer.text : ''}
+            onChange={(e) => onAnswer({ type: 'short_answer', text: e.target.value })}
+            disabled={submitted}
+            placeholder="Your answer"
+            className="bg-gray-700 border-gray-600 text-white placeholder-gray-400"
+          />
+        );
+
+      case 'cloze': {
+        const blanks = answer?.type === 'cloze' ? answer.blanks : question.answers.map(() => '');
+        const setBlank = (blank: number, text: string) =>
+          onAnswer({ type: 'cloze', blanks: blanks.map((value, i) => i === blank ? text : value) });
+
+        return (
+          <p className="text-gray-200 leading-10">
+            {splitCloze(question.question).map((part, partIndex) => typeof part === 'string' ? (
+              <span key={partIndex}>{part}</span>
+            ) : (
+              <Input
+                key={partIndex}
+                value={blanks[part - 1] ?? ''}
+                onChange={(e) => setBlank(part - 1, e.target.value)}
+                disabled={submitted}
+                aria-label={`Blank ${part}`}
+                className="inline-flex w-36 h-8 mx-1 bg-gray-700 border-gray-600 text-white"
+              />
+            ))}
+          </p>
+        );
+      }
+    }
+  };
+
+  return (
+    <Card className="bg-gray-800 border-gray-700">
+      <CardContent className="p-6">
+        <div className="flex items-start justify-between mb-4">
+          <h3 className="text-white font-semibold text-lg flex items-start">
+            <span className="bg-gray-700 text-amber-400 rounded-full w-8 h-8 flex items-center justify-center text-sm font-bold mr-3 mt-1 flex-shrink-0">
+              {index + 1}
+            </span>
+            <span>
+              {question.type === 'cloze' ? 'Fill in the blanks' : question.question}
+              <Badge className="ml-2 bg-gray-700 text-gray-300 align-middle">{questionTypeLabels[question.type]}</Badge>
+            </span>
+          </h3>
+
+          {result && (
+            <div className="flex-shrink-0 ml-3 flex items-center">
+              {result.correct ? (
+                <CheckCircle size={24} className="text-green-400" />
+              ) : result.score > 0 ? (
+                <>
+                  <span className="text-xs text-amber-400 mr-1">{Math.round(result.score * 100)}%</span>
+                  <MinusCircle size={24} className="text-amber-400" />
+                </>
+              ) : (
+                <XCircle size={24} className="text-red-400" />
+              )}
+            </div>
+          )}
+        </div>
+
+        {renderInput()}
+
+        {showAnswers && (
+          <div className="mt-4 p-3 bg-blue-900/30 border border-blue-700 rounded-lg space-y-2">
+            {(question.type === 'short_answer' || question.type === 'cloze') && (
+              <p className="text-green-300 text-sm">
+                <strong>Answer:</strong> {describeCorrectAnswer(question)}
+              </p>
+            )}
+            <p className="text-blue-300 text-sm">
+              <strong>Explanation:</strong> {question.explanation}
+            </p>
+            {question.source_spans.map((span, spanIndex) => onShowSource ? (
+              <button
+                key={spanIndex}
+                onClick={() => onShowSource(span)}
+                className="text-gray-400 hover:text-amber-300 text-xs flex items-start text-left"
+                title="Show in source"
+              >
+                <Quote size={12} className="mr-1 mt-0.5 flex-shrink-0" />
+                {span.quote}
+              </button>
+            ) : (
+              <p key={spanIndex} className="text-gray-400 text-xs flex items-start">
+                <Quote size={12} className="mr-1 mt-0.5 flex-shrink-0" />
+                {span.quote}
+              </p>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,109 @@
+import { useEffect, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { FileText, ScanText, Globe, MessageCircle, Type, ExternalLink, ChevronDown, ChevronUp } from 'lucide-react';
+import { attachmentUrl } from '@/lib/attachments';
+import { quizSourceLabels, sectionAt } from '@/lib/quiz';
+import type { Quiz, QuizSourceSpan, QuizSourceType } from '../../../server/src/schema';
+
+export type QuizSourceInfo = Pick<Quiz, 'source_text' | 'source_type' | 'source_ref' | 'source_title' | 'source_sections'>;
+
+interface QuizSourcePanelProps {
+  source: QuizSourceInfo;
+  highlight: QuizSourceSpan | null; // The quote last picked from a question
+  expanded: boolean;
+  onExpandedChange: (expanded: boolean) => void;
+  onOpenChat: (sessionId: string) => void;
+}
+
+const sourceIcons: Record<QuizSourceType, React.ComponentType<{ size?: number; className?: string }>> = {
+  text: Type,
+  attachment: FileText,
+  document_analysis: ScanText,
+  web_search: Globe,
+  chat_session: MessageCircle,
+};
+
+export function QuizSourcePanel({ source, highlight, expanded, onExpandedChange, onOpenChat }: QuizSourcePanelProps) {
+  const markRef = useRef<HTMLElement>(null);
+  const Icon = sourceIcons[source.source_type];
+  const section = highlight ? sectionAt(source.source_sections, highlight.start) : null;
+
+  useEffect(() => {
+    if (expanded && highlight) {
+      markRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+  }, [expanded, highlight]);
+
+  // Files open at the page the highlighted quote is on; chats open in the chat view
+  const renderOpenButton = () => {
+    if (source.source_ref === null) return null;
+    if (source.source_type === 'attachment') {
+      const url = attachmentUrl(Number(source.source_ref)) + (section ? `#page=${section.locator}` : '');
+      return (
+        <Button asChild size="sm" variant="ghost" className="text-gray-300 hover:text-white">
+          <a href={url} target="_blank" rel="noopener noreferrer">
+            <ExternalLink size={14} className="mr-1" />
+            {section ? `Open page ${section.locator}` : 'Open file'}
+          </a>
+        </Button>
+      );
+    }
+    if (source.source_type === 'chat_session') {
+      const sessionId = source.source_ref;
+      return (
+        <Button onClick={() => onOpenChat(sessionId)} size="sm" variant="ghost" className="text-gray-300 hover:text-white">
+          <ExternalLink size={14} className="mr-1" />
+          Open chat
+        </Button>
+      );
+    }
+    return null;
+  };
+
+  const renderText = () => {
+    const text = source.source_text;
+    if (!highlight || highlight.end > text.length) return text;
+    return (
+      <>
+        {text.slice(0, highlight.start)}
+        <mark ref={markRef} className="bg-amber-500/30 text-amber-100 rounded px-0.5">
+          {text.slice(highlight.start, highlight.end)}
+        </mark>
+        {text.slice(highlight.end)}
+      </>
+    );
+  };
+
+  return (
+    <Card className="bg-gray-800 border-gray-700">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-400 flex items-center min-w-0">
+            <Icon size={16} className="mr-2 flex-shrink-0 text-amber-400" />
+            <span className="flex-shrink-0">{quizSourceLabels[source.source_type]}</span>
+            {source.source_title && <span className="ml-2 text-gray-200 truncate">{source.source_title}</span>}
+          </p>
+          <div className="flex items-center flex-shrink-0">
+            {renderOpenButton()}
+            <Button
+              onClick={() => onExpandedChange(!expanded)}
+              size="sm"
+              variant="ghost"
+              className="text-gray-300 hover:text-white"
+            >
+              {expanded ? <ChevronUp size={14} className="mr-1" /> : <ChevronDown size={14} className="mr-1" />}
+              {expanded ? 'Hide text' : 'Show text'}
+            </Button>
+          </div>
+        </div>
+
+        {expanded && (
+          <div className="max-h-80 overflow-y-auto whitespace-pre-wrap text-sm text-gray-300 bg-gray-900/50 rounded-lg p-3">
+            {renderText()}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
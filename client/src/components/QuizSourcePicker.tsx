@@ -0,0 +1,213 @@
+import { useState, useEffect, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { Upload, Loader2, Check, MessageCircle } from 'lucide-react';
+import { trpc } from '@/utils/trpc';
+import { uploadAttachment } from '@/lib/attachments';
+import type { ChatSession, QuizSource, QuizSourceType, SearchResult } from '../../../server/src/schema';
+
+// A source chosen for the next quiz, with the name it is shown under
+export interface PickedQuizSource {
+  source: QuizSource;
+  label: string;
+}
+
+interface QuizSourcePickerProps {
+  kind: Exclude<QuizSourceType, 'text'>;
+  picked: PickedQuizSource | null;
+  onPick: (picked: PickedQuizSource | null) => void;
+  disabled: boolean;
+}
+
+const SEARCH_DELAY_MS = 250;
+
+const itemClass = (selected: boolean): string =>
+  `w-full text-left p-3 rounded-lg border transition-all text-sm ${
+    selected ? 'border-green-400 bg-green-900/20 text-white' : 'border-gray-600 bg-gray-700 hover:border-gray-500 text-gray-300'
+  }`;
+
+export function QuizSourcePicker({ kind, picked, onPick, disabled }: QuizSourcePickerProps) {
+  switch (kind) {
+    case 'attachment':
+      return <FilePicker picked={picked} onPick={onPick} disabled={disabled} />;
+    case 'chat_session':
+      return <ChatPicker picked={picked} onPick={onPick} disabled={disabled} />;
+    default:
+      return <SavedResultPicker kind={kind} picked={picked} onPick={onPick} disabled={disabled} />;
+  }
+}
+
+type PickerProps = Omit<QuizSourcePickerProps, 'kind'>;
+
+function FilePicker({ picked, onPick, disabled }: PickerProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const upload = async (file: File) => {
+    setError(null);
+    setProgress(0);
+    onPick(null);
+    try {
+      const attachment = await uploadAttachment(file, setProgress);
+      if (attachment.mime_type !== 'application/pdf' && attachment.mime_type !== 'text/plain') {
+        setError('Choose a PDF or a plain text file.');
+        return;
+      }
+      onPick({ source: { type: 'attachment', attachment_id: attachment.id }, label: attachment.filename });
+    } catch (uploadError) {
+      console.error('Upload failed:', uploadError);
+      setError(uploadError instanceof Error ? uploadError.message : 'The file could not be uploaded.');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".pdf,.txt,.md,application/pdf,text/plain"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) upload(file);
+          e.target.value = '';
+        }}
+      />
+      <Button
+        onClick={() => fileInputRef.current?.click()}
+        disabled={disabled || progress !== null}
+        variant="outline"
+        className="w-full border-gray-600 border-dashed h-24 flex flex-col hover:border-green-400"
+      >
+        <Upload size={20} className="mb-2 text-gray-400" />
+        <span className="text-gray-300">Upload a PDF or text file</span>
+      </Button>
+      {progress !== null && <Progress value={progress * 100} className="h-1" />}
+      {picked && (
+        <p className="text-sm text-green-300 flex items-center">
+          <Check size={14} className="mr-1" />
+          {picked.label}
+        </p>
+      )}
+      {error && <p className="text-sm text-red-300">{error}</p>}
+    </div>
+  );
+}
+
+// Scans and web searches are found through the search index, which holds all of them
+function SavedResultPicker({ kind, picked, onPick, disabled }: PickerProps & { kind: 'document_analysis' | 'web_search' }) {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      setResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const hits = await trpc.search.query({ query: trimmed, types: [kind], limit: 10 });
+        if (!cancelled) setResults(hits);
+      } catch (error) {
+        console.error('Search failed:', error);
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, kind]);
+
+  const toSource = (result: SearchResult): QuizSource => kind === 'document_analysis'
+    ? { type: 'document_analysis', analysis_id: result.source_id }
+    : { type: 'web_search', search_id: result.source_id };
+
+  const pickedId = picked?.source.type === 'document_analysis' ? picked.source.analysis_id
+    : picked?.source.type === 'web_search' ? picked.source.search_id
+    : null;
+
+  return (
+    <div className="space-y-3">
+      <div className="relative">
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder={kind === 'document_analysis' ? 'Search your document scans...' : 'Search your web searches...'}
+          className="bg-gray-700 border-gray-600 text-white placeholder-gray-400"
+          disabled={disabled}
+        />
+        {isSearching && <Loader2 size={14} className="absolute right-3 top-3 animate-spin text-gray-400" />}
+      </div>
+      <div className="space-y-2 max-h-64 overflow-y-auto">
+        {results.map((result) => (
+          <button
+            key={result.source_id}
+            onClick={() => onPick({ source: toSource(result), label: result.title })}
+            className={itemClass(result.source_id === pickedId)}
+            disabled={disabled}
+          >
+            <p className="font-medium truncate">{result.title}</p>
+            <p className="text-xs text-gray-400 line-clamp-2">{result.snippet.replace(/<\/?mark>/g, '')}</p>
+          </button>
+        ))}
+        {query.trim() && !isSearching && results.length === 0 && (
+          <p className="text-sm text-gray-500">Nothing saved matches.</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function ChatPicker({ picked, onPick, disabled }: PickerProps) {
+  const [sessions, setSessions] = useState<ChatSession[] | null>(null);
+
+  useEffect(() => {
+    trpc.getChatSessions.query()
+      .then(setSessions)
+      .catch((error) => {
+        console.error('Failed to load chat sessions:', error);
+        setSessions([]);
+      });
+  }, []);
+
+  if (sessions === null) {
+    return (
+      <div className="flex justify-center py-6 text-gray-400">
+        <Loader2 size={20} className="animate-spin" />
+      </div>
+    );
+  }
+
+  if (sessions.length === 0) {
+    return <p className="text-sm text-gray-500">No chats yet.</p>;
+  }
+
+  return (
+    <div className="space-y-2 max-h-72 overflow-y-auto">
+      {sessions.map((session) => (
+        <button
+          key={session.id}
+          onClick={() => onPick({ source: { type: 'chat_session', session_id: session.id }, label: session.title || 'New Chat' })}
+          className={`${itemClass(picked?.source.type === 'chat_session' && picked.source.session_id === session.id)} flex items-center`}
+          disabled={disabled}
+        >
+          <MessageCircle size={14} className="mr-2 flex-shrink-0 text-gray-400" />
+          <span className="truncate flex-1">{session.title || 'New Chat'}</span>
+          <span className="text-xs text-gray-500 ml-2">{session.updated_at.toLocaleDateString()}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -15,6 +15,7 @@ import {
   Check
 } from 'lucide-react';
 import { trpc } from '@/utils/trpc';
+import { uploadAttachment } from '@/lib/attachments';
 import type { CreateDocumentAnalysisInput } from '../../../server/src/schema';
 
 export function ScannerView() {
@@ -114,31 +115,19 @@ export function ScannerView() {
     setError(null);
 
     try {
-      // Convert image to base64 for API
-      const reader = new FileReader();
-      reader.onload = async (e) => {
-        const base64Image = e.target?.result as string;
-        
-        const input: CreateDocumentAnalysisInput = {
-          image_url: base64Image,
-          prompt: prompt.trim()
-        };
-
-        try {
-          const result = await trpc.analyzeDocument.mutate(input);
-          setAnalysisResult(result.analysis_result);
-        } catch (error) {
-          console.error('Analysis failed:', error);
-          setError('Failed to analyze document. Please try again.');
-        } finally {
-          setIsAnalyzing(false);
-        }
+      // Upload the image once; the analysis only references it
+      const attachment = await uploadAttachment(selectedImage);
+      const input: CreateDocumentAnalysisInput = {
+        attachment_id: attachment.id,
+        prompt: prompt.trim()
       };
-      
-      reader.readAsDataURL(selectedImage);
+
+      const result = await trpc.analyzeDocument.mutate(input);
+      setAnalysisResult(result.analysis_result);
     } catch (error) {
-      console.error('Error reading file:', error);
-      setError('Error processing image file');
+      console.error('Analysis failed:', error);
+      setError('Failed to analyze document. Please try again.');
+    } finally {
       setIsAnalyzing(false);
     }
   };
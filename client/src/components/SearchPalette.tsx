@@ -0,0 +1,140 @@
+import { useState, useEffect, Fragment } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { MessageCircle, ScanText, Image, Video, FileQuestion, Globe } from 'lucide-react';
+import { trpc } from '@/utils/trpc';
+import type { ViewType } from '../App';
+import type { SearchResult, SearchSourceType } from '../../../server/src/schema';
+
+interface SearchPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onNavigate: (view: ViewType, sessionId: string | null) => void;
+}
+
+// Where each kind of hit is shown, in the order the groups are listed
+const sources: Record<SearchSourceType, { label: string; view: ViewType; icon: React.ComponentType<{ size?: number; className?: string }> }> = {
+  chat_message: { label: 'Chats', view: 'chat', icon: MessageCircle },
+  document_analysis: { label: 'Document Scans', view: 'scanner', icon: ScanText },
+  quiz: { label: 'Quizzes', view: 'quiz-generator', icon: FileQuestion },
+  web_search: { label: 'Web Searches', view: 'web-explorer', icon: Globe },
+  generated_image: { label: 'Images', view: 'image-generator', icon: Image },
+  generated_video: { label: 'Videos', view: 'video-generator', icon: Video },
+};
+
+const SEARCH_DELAY_MS = 250;
+
+// The server wraps matched terms in <mark>; render them as elements rather than HTML
+function Snippet({ text }: { text: string }) {
+  const parts = text.split(/<mark>(.*?)<\/mark>/g);
+  return (
+    <>
+      {parts.map((part, index) => (
+        <Fragment key={index}>
+          {index % 2 === 1 ? <mark className="bg-amber-500/30 text-amber-200 rounded px-0.5">{part}</mark> : part}
+        </Fragment>
+      ))}
+    </>
+  );
+}
+
+export function SearchPalette({ open, onOpenChange, onNavigate }: SearchPaletteProps) {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+
+  // Ctrl/Cmd+K toggles the palette from anywhere
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === 'k' && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault();
+        onOpenChange(!open);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [open, onOpenChange]);
+
+  // Search as the user types, once they pause
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      setResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const hits = await trpc.search.query({ query: trimmed, limit: 30 });
+        if (!cancelled) setResults(hits);
+      } catch (error) {
+        console.error('Search failed:', error);
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  const selectResult = (result: SearchResult) => {
+    onNavigate(sources[result.source_type].view, result.session_id);
+    onOpenChange(false);
+    setQuery('');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogHeader className="sr-only">
+        <DialogTitle>Search</DialogTitle>
+        <DialogDescription>Search chats, scans, quizzes, web searches, images and videos</DialogDescription>
+      </DialogHeader>
+      <DialogContent className="overflow-hidden p-0 bg-gray-800 border-gray-700 text-white">
+        {/* Ranking happens on the server, so cmdk's own filtering is turned off */}
+        <Command shouldFilter={false} className="bg-gray-800 text-white">
+          <CommandInput
+            value={query}
+            onValueChange={setQuery}
+            placeholder="Search chats and generated content..."
+          />
+          <CommandList className="max-h-[420px]">
+            {query.trim() && !isSearching && (
+              <CommandEmpty className="py-6 text-center text-sm text-gray-400">No results found.</CommandEmpty>
+            )}
+            {(Object.keys(sources) as SearchSourceType[]).map((sourceType) => {
+              const hits = results.filter(result => result.source_type === sourceType);
+              if (hits.length === 0) return null;
+              const { label, icon: Icon } = sources[sourceType];
+
+              return (
+                <CommandGroup key={sourceType} heading={label}>
+                  {hits.map((hit) => (
+                    <CommandItem
+                      key={`${hit.source_type}-${hit.source_id}`}
+                      value={`${hit.source_type}-${hit.source_id}`}
+                      onSelect={() => selectResult(hit)}
+                      className="flex items-start gap-3 data-[selected=true]:bg-gray-700"
+                    >
+                      <Icon size={16} className="mt-0.5 text-gray-400" />
+                      <div className="min-w-0">
+                        <div className="truncate text-sm font-medium text-white">{hit.title}</div>
+                        <div className="line-clamp-2 text-xs text-gray-400">
+                          <Snippet text={hit.snippet} />
+                        </div>
+                      </div>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              );
+            })}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+}
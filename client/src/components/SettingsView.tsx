@@ -1,8 +1,10 @@
-import { useState } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Switch } from '@/components/ui/switch';
 import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 import { 
   Settings, 
@@ -15,21 +17,52 @@ import {
   Upload,
   RefreshCw,
   CheckCircle,
-  Info
+  Info,
+  AlertTriangle
 } from 'lucide-react';
 import { trpc } from '@/utils/trpc';
+import { BACKUP_DOWNLOAD_URL, uploadBackup, type RestoreReport } from '@/lib/backup';
+import type { Preferences, UpdatePreferencesInput } from '../../../server/src/schema';
 
 interface SettingsViewProps {
   onClearChatHistory: () => void;
 }
 
 export function SettingsView({ onClearChatHistory }: SettingsViewProps) {
-  const [notificationsEnabled, setNotificationsEnabled] = useState(false);
-  const [autoSaveEnabled, setAutoSaveEnabled] = useState(true);
-  const [darkMode, setDarkMode] = useState(true);
-  const [analyticsEnabled, setAnalyticsEnabled] = useState(false);
+  const [preferences, setPreferences] = useState<Preferences | null>(null);
   const [isClearing, setIsClearing] = useState(false);
   const [lastClearTime, setLastClearTime] = useState<Date | null>(null);
+  // Restore flow: the chosen archive, its dry-run report, and how to apply it
+  const [restoreFile, setRestoreFile] = useState<File | null>(null);
+  const [restorePreview, setRestorePreview] = useState<RestoreReport | null>(null);
+  const [restoreMode, setRestoreMode] = useState<'merge' | 'replace'>('merge');
+  const [restoreConflicts, setRestoreConflicts] = useState<'fail' | 'skip' | 'overwrite'>('skip');
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [restoreResult, setRestoreResult] = useState<{ success: boolean; message: string } | null>(null);
+
+  const loadPreferences = useCallback(async () => {
+    try {
+      setPreferences(await trpc.getPreferences.query());
+    } catch (error) {
+      console.error('Failed to load preferences:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPreferences();
+  }, [loadPreferences]);
+
+  // Switches flip immediately and roll back if the server rejects the change
+  const savePreference = async (update: UpdatePreferencesInput) => {
+    const previous = preferences;
+    setPreferences((prev) => (prev ? { ...prev, ...update } : prev));
+    try {
+      setPreferences(await trpc.updatePreferences.mutate(update));
+    } catch (error) {
+      console.error('Failed to save preferences:', error);
+      setPreferences(previous);
+    }
+  };
 
   const handleClearChatHistory = async () => {
     setIsClearing(true);
@@ -44,31 +77,69 @@ export function SettingsView({ onClearChatHistory }: SettingsViewProps) {
     }
   };
 
+  // Streams the archive straight to disk instead of buffering it in the page
   const exportData = () => {
-    // Simulate data export
-    const exportData = {
-      settings: {
-        notifications: notificationsEnabled,
-        autoSave: autoSaveEnabled,
-        darkMode: darkMode,
-        analytics: analyticsEnabled
-      },
-      exportDate: new Date().toISOString(),
-      version: '1.0.0'
-    };
-
-    const blob = new Blob([JSON.stringify(exportData, null, 2)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    
     const a = document.createElement('a');
-    a.href = url;
-    a.download = `okaigpt-settings-${new Date().toISOString().split('T')[0]}.json`;
+    a.href = BACKUP_DOWNLOAD_URL;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
-    URL.revokeObjectURL(url);
   };
 
+  const chooseRestoreFile = () => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.gz,.ndjson';
+    input.onchange = async (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (!file) return;
+
+      // Validate first; the preview shows what a merge would conflict with
+      setIsRestoring(true);
+      setRestoreResult(null);
+      try {
+        const preview = await uploadBackup(file, { mode: 'merge', dryRun: true });
+        setRestoreFile(file);
+        setRestorePreview(preview);
+        setRestoreMode('merge');
+        setRestoreConflicts('skip');
+      } catch (error) {
+        console.error('Failed to read backup:', error);
+        setRestoreResult({ success: false, message: (error as Error).message });
+      } finally {
+        setIsRestoring(false);
+      }
+    };
+    input.click();
+  };
+
+  const closeRestore = () => {
+    setRestoreFile(null);
+    setRestorePreview(null);
+  };
+
+  const applyRestore = async () => {
+    if (!restoreFile) return;
+    setIsRestoring(true);
+    try {
+      const report = await uploadBackup(restoreFile, { mode: restoreMode, onConflict: restoreConflicts });
+      const written = Object.values(report.tables).reduce((sum, table) => sum + table.written, 0);
+      setRestoreResult({ success: true, message: `Restored ${written} records from ${restoreFile.name}` });
+      closeRestore();
+      // Chat state in the app is now stale; the chat view reloads it when opened
+      onClearChatHistory();
+    } catch (error) {
+      console.error('Failed to restore backup:', error);
+      setRestoreResult({ success: false, message: (error as Error).message });
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const previewConflicts = restorePreview
+    ? Object.values(restorePreview.tables).reduce((sum, table) => sum + table.conflicts, 0)
+    : 0;
+
   const settingSections = [
     {
       title: 'Chat & AI',
@@ -78,8 +149,22 @@ export function SettingsView({ onClearChatHistory }: SettingsViewProps) {
           id: 'autoSave',
           name: 'Auto-save conversations',
           description: 'Automatically save chat sessions as you interact',
-          enabled: autoSaveEnabled,
-          onChange: setAutoSaveEnabled
+          enabled: preferences?.auto_save_enabled ?? true,
+          onChange: (enabled: boolean) => savePreference({ auto_save_enabled: enabled })
+        },
+        {
+          id: 'genZMode',
+          name: 'Gen Z mode for new chats',
+          description: 'Start new chat sessions with casual, emoji-rich replies',
+          enabled: preferences?.gen_z_mode ?? false,
+          onChange: (enabled: boolean) => savePreference({ gen_z_mode: enabled })
+        },
+        {
+          id: 'copyCodeOnly',
+          name: 'Code only for new chats',
+          description: 'Start new chat sessions with code-only replies',
+          enabled: preferences?.copy_code_only_mode ?? false,
+          onChange: (enabled: boolean) => savePreference({ copy_code_only_mode: enabled })
         }
       ]
     },
@@ -91,8 +176,8 @@ export function SettingsView({ onClearChatHistory }: SettingsViewProps) {
           id: 'notifications',
           name: 'Desktop notifications',
           description: 'Show notifications for completed tasks and updates',
-          enabled: notificationsEnabled,
-          onChange: setNotificationsEnabled
+          enabled: preferences?.notifications_enabled ?? false,
+          onChange: (enabled: boolean) => savePreference({ notifications_enabled: enabled })
         }
       ]
     },
@@ -104,8 +189,8 @@ export function SettingsView({ onClearChatHistory }: SettingsViewProps) {
           id: 'darkMode',
           name: 'Dark mode',
           description: 'Use dark theme throughout the application',
-          enabled: darkMode,
-          onChange: setDarkMode
+          enabled: preferences?.dark_mode ?? true,
+          onChange: (enabled: boolean) => savePreference({ dark_mode: enabled })
         }
       ]
     },
@@ -117,8 +202,8 @@ export function SettingsView({ onClearChatHistory }: SettingsViewProps) {
           id: 'analytics',
           name: 'Usage analytics',
           description: 'Help improve the app by sharing anonymous usage data',
-          enabled: analyticsEnabled,
-          onChange: setAnalyticsEnabled
+          enabled: preferences?.analytics_enabled ?? false,
+          onChange: (enabled: boolean) => savePreference({ analytics_enabled: enabled })
         }
       ]
     }
@@ -173,6 +258,7 @@ export function SettingsView({ onClearChatHistory }: SettingsViewProps) {
                   <Switch
                     checked={setting.enabled}
                     onCheckedChange={setting.onChange}
+                    disabled={!preferences}
                   />
                 </div>
               ))}
@@ -228,29 +314,21 @@ export function SettingsView({ onClearChatHistory }: SettingsViewProps) {
                 className="border-gray-600 hover:border-blue-400 text-blue-400"
               >
                 <Download size={16} className="mr-2" />
-                Export Data
+                Download Backup
               </Button>
               
               <Button
                 variant="outline"
                 className="border-gray-600 hover:border-green-400 text-green-400"
-                onClick={() => {
-                  // Simulate import action
-                  const input = document.createElement('input');
-                  input.type = 'file';
-                  input.accept = '.json';
-                  input.onchange = (e) => {
-                    const file = (e.target as HTMLInputElement).files?.[0];
-                    if (file) {
-                      console.log('Importing settings from:', file.name);
-                      // In a real app, this would process the file
-                    }
-                  };
-                  input.click();
-                }}
+                onClick={chooseRestoreFile}
+                disabled={isRestoring}
               >
-                <Upload size={16} className="mr-2" />
-                Import Data
+                {isRestoring ? (
+                  <RefreshCw size={16} className="mr-2 animate-spin" />
+                ) : (
+                  <Upload size={16} className="mr-2" />
+                )}
+                Restore Backup
               </Button>
               
               <AlertDialog>
@@ -296,6 +374,19 @@ export function SettingsView({ onClearChatHistory }: SettingsViewProps) {
               </AlertDialog>
             </div>
 
+            {restoreResult && (
+              <div className={`p-3 rounded-lg flex items-center border ${restoreResult.success ? 'bg-green-900/30 border-green-700' : 'bg-red-900/30 border-red-700'}`}>
+                {restoreResult.success ? (
+                  <CheckCircle size={16} className="text-green-400 mr-2 flex-shrink-0" />
+                ) : (
+                  <AlertTriangle size={16} className="text-red-400 mr-2 flex-shrink-0" />
+                )}
+                <span className={`text-sm ${restoreResult.success ? 'text-green-300' : 'text-red-300'}`}>
+                  {restoreResult.message}
+                </span>
+              </div>
+            )}
+
             {lastClearTime && (
               <div className="p-3 bg-green-900/30 border border-green-700 rounded-lg flex items-center">
                 <CheckCircle size={16} className="text-green-400 mr-2 flex-shrink-0" />
@@ -307,6 +398,93 @@ export function SettingsView({ onClearChatHistory }: SettingsViewProps) {
           </CardContent>
         </Card>
 
+        {/* Restore options, shown once the chosen backup has been validated */}
+        <Dialog open={restorePreview !== null} onOpenChange={(open) => !open && closeRestore()}>
+          <DialogContent className="bg-gray-800 border-gray-700 text-white">
+            <DialogHeader>
+              <DialogTitle>Restore backup</DialogTitle>
+              <DialogDescription className="text-gray-400">
+                {restoreFile?.name}
+                {restorePreview && ` · created ${new Date(restorePreview.backup_created_at).toLocaleString()}`}
+              </DialogDescription>
+            </DialogHeader>
+
+            {restorePreview && (
+              <div className="space-y-4">
+                <div className="space-y-1 text-sm">
+                  {Object.entries(restorePreview.tables).map(([table, counts]) => (
+                    <div key={table} className="flex justify-between">
+                      <span className="text-gray-400">{table.replace(/_/g, ' ')}</span>
+                      <span className="text-gray-200">
+                        {counts.rows}
+                        {restoreMode === 'merge' && counts.conflicts > 0 && (
+                          <span className="text-amber-400"> ({counts.conflicts} already exist)</span>
+                        )}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+
+                {restorePreview.missing_files.length > 0 && (
+                  <div className="p-3 bg-amber-900/30 border border-amber-700 rounded-lg text-sm text-amber-300">
+                    {restorePreview.missing_files.length} attachments have no stored file and will not open after restoring: {restorePreview.missing_files.join(', ')}
+                  </div>
+                )}
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-1">
+                    <span className="text-sm text-gray-300">Mode</span>
+                    <Select value={restoreMode} onValueChange={(value) => setRestoreMode(value as 'merge' | 'replace')}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="merge">Merge with current data</SelectItem>
+                        <SelectItem value="replace">Replace all data</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {restoreMode === 'merge' && previewConflicts > 0 && (
+                    <div className="space-y-1">
+                      <span className="text-sm text-gray-300">Existing records</span>
+                      <Select value={restoreConflicts} onValueChange={(value) => setRestoreConflicts(value as 'fail' | 'skip' | 'overwrite')}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="skip">Keep current version</SelectItem>
+                          <SelectItem value="overwrite">Use backup version</SelectItem>
+                          <SelectItem value="fail">Cancel the restore</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                </div>
+
+                {restoreMode === 'replace' && (
+                  <p className="text-sm text-red-300 flex items-center">
+                    <AlertTriangle size={16} className="mr-2 flex-shrink-0" />
+                    Everything not in this backup will be permanently deleted.
+                  </p>
+                )}
+              </div>
+            )}
+
+            <DialogFooter>
+              <Button variant="outline" onClick={closeRestore} className="border-gray-600 text-gray-300">
+                Cancel
+              </Button>
+              <Button
+                onClick={applyRestore}
+                disabled={isRestoring}
+                className={restoreMode === 'replace' ? 'bg-red-600 hover:bg-red-700' : 'bg-green-600 hover:bg-green-700'}
+              >
+                {isRestoring ? 'Restoring...' : 'Restore'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
         {/* About */}
         <Card className="bg-gray-800 border-gray-700">
           <CardHeader>
@@ -348,7 +526,7 @@ export function SettingsView({ onClearChatHistory }: SettingsViewProps) {
                   <li>• Interactive quiz creation</li>
                   <li>• Web search with AI summaries</li>
                   <li>• PDF conversion tools</li>
-                  <li>• Real-time performance monitoring</li>
+                  <li>• AI usage and cost tracking</li>
                 </ul>
               </div>
             </div>
@@ -5,15 +5,18 @@ import {
   Image, 
   Video, 
   FileQuestion, 
+  GraduationCap,
   Globe, 
   Activity, 
-  Settings 
+  Settings,
+  Search
 } from 'lucide-react';
 import type { ViewType } from '../App';
 
 interface SidebarProps {
   activeView: ViewType;
   onViewChange: (view: ViewType) => void;
+  onSearch: () => void;
 }
 
 interface NavItem {
@@ -29,12 +32,13 @@ const navItems: NavItem[] = [
   { id: 'image-generator', label: 'Image Generator', icon: Image },
   { id: 'video-generator', label: 'Video Generator', icon: Video },
   { id: 'quiz-generator', label: 'Quiz Generator', icon: FileQuestion },
+  { id: 'study', label: 'Study', icon: GraduationCap },
   { id: 'web-explorer', label: 'Web Explorer', icon: Globe },
-  { id: 'performance', label: 'Performance', icon: Activity },
+  { id: 'performance', label: 'Usage', icon: Activity },
   { id: 'settings', label: 'Settings', icon: Settings },
 ];
 
-export function Sidebar({ activeView, onViewChange }: SidebarProps) {
+export function Sidebar({ activeView, onViewChange, onSearch }: SidebarProps) {
   return (
     <aside className="w-64 bg-gray-800 border-r border-gray-700 flex flex-col">
       {/* Logo/Title */}
@@ -47,6 +51,18 @@ export function Sidebar({ activeView, onViewChange }: SidebarProps) {
         </p>
       </div>
 
+      {/* Global search */}
+      <div className="px-4 pt-4">
+        <button
+          onClick={onSearch}
+          className="w-full flex items-center space-x-3 px-4 py-2 rounded-lg bg-gray-900 border border-gray-700 text-gray-400 hover:text-white hover:border-gray-600 transition-all"
+        >
+          <Search size={16} />
+          <span className="flex-1 text-left text-sm">Search</span>
+          <kbd className="text-xs text-gray-500">Ctrl K</kbd>
+        </button>
+      </div>
+
       {/* Navigation */}
       <nav className="flex-1 p-4">
         <ul className="space-y-2">
@@ -0,0 +1,189 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { GraduationCap, Eye, Loader2, RefreshCw, PartyPopper } from 'lucide-react';
+import { trpc } from '@/utils/trpc';
+import { QuizQuestionCard } from '@/components/QuizQuestionCard';
+import type { DueStudyCard, QuizAnswer, StudyRating } from '../../../server/src/schema';
+
+const BATCH_SIZE = 20;
+
+const ratings: { rating: StudyRating; label: string; hint: string; className: string }[] = [
+  { rating: 'again', label: 'Again', hint: 'Forgot it', className: 'bg-red-700 hover:bg-red-600' },
+  { rating: 'hard', label: 'Hard', hint: 'Recalled with effort', className: 'bg-amber-700 hover:bg-amber-600' },
+  { rating: 'good', label: 'Good', hint: 'Recalled it', className: 'bg-green-700 hover:bg-green-600' },
+  { rating: 'easy', label: 'Easy', hint: 'Knew it at once', className: 'bg-blue-700 hover:bg-blue-600' },
+];
+
+const describeNextDue = (nextDueAt: Date | null): string => {
+  if (!nextDueAt) return 'Generate a quiz to get cards to study.';
+  const minutes = Math.max(1, Math.round((nextDueAt.getTime() - Date.now()) / 60000));
+  if (minutes < 60) return `The next card is due in ${minutes} minute${minutes !== 1 ? 's' : ''}.`;
+  return `The next card is due ${nextDueAt.toLocaleString()}.`;
+};
+
+export function StudyView() {
+  const [cards, setCards] = useState<DueStudyCard[]>([]);
+  const [dueCount, setDueCount] = useState(0);
+  const [nextDueAt, setNextDueAt] = useState<Date | null>(null);
+  const [answer, setAnswer] = useState<QuizAnswer | undefined>(undefined);
+  const [revealed, setRevealed] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRating, setIsRating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadCards = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const due = await trpc.getDueCards.query({ limit: BATCH_SIZE });
+      setCards(due.cards);
+      setDueCount(due.due_count);
+      setNextDueAt(due.next_due_at);
+    } catch (loadError) {
+      console.error('Failed to load due cards:', loadError);
+      setError('Cards could not be loaded.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCards();
+  }, [loadCards]);
+
+  const card = cards[0];
+
+  const rateCard = async (rating: StudyRating) => {
+    if (!card) return;
+    setIsRating(true);
+    setError(null);
+    try {
+      await trpc.reviewCard.mutate({ card_id: card.id, rating });
+      setReviewedCount((prev) => prev + 1);
+      setAnswer(undefined);
+      setRevealed(false);
+      // Forgotten cards come back within minutes, so an empty batch is refilled from the server
+      if (cards.length > 1) {
+        setCards((prev) => prev.slice(1));
+        setDueCount((prev) => prev - 1);
+      } else {
+        await loadCards();
+      }
+    } catch (rateError) {
+      console.error('Failed to review card:', rateError);
+      setError('The review could not be saved.');
+    } finally {
+      setIsRating(false);
+    }
+  };
+
+  return (
+    <div className="h-full overflow-y-auto bg-gray-900">
+      <header className="bg-gray-800 border-b border-gray-700 p-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-white flex items-center">
+              <GraduationCap className="mr-3 text-green-400" size={28} />
+              Study
+            </h1>
+            <p className="text-gray-400 mt-1">
+              Review the questions of your quizzes when they are due, spaced out as you learn them
+            </p>
+          </div>
+
+          <div className="flex items-center space-x-3">
+            <Badge className="bg-green-600">{dueCount} due</Badge>
+            {reviewedCount > 0 && <Badge className="bg-gray-700">{reviewedCount} reviewed</Badge>}
+            <Button
+              onClick={loadCards}
+              disabled={isLoading}
+              size="sm"
+              variant="ghost"
+              className="h-8 w-8 p-0 text-gray-400 hover:text-white"
+              title="Refresh"
+            >
+              <RefreshCw size={14} className={isLoading ? 'animate-spin' : ''} />
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <div className="p-6 max-w-3xl mx-auto space-y-4">
+        {error && <p className="text-sm text-red-300">{error}</p>}
+
+        {isLoading && !card && (
+          <div className="flex justify-center py-12 text-gray-400">
+            <Loader2 size={24} className="animate-spin" />
+          </div>
+        )}
+
+        {!isLoading && !card && (
+          <Card className="bg-gray-800 border-gray-700">
+            <CardContent className="p-8 text-center">
+              <PartyPopper size={32} className="mx-auto mb-3 text-amber-400" />
+              <p className="text-white font-semibold">All caught up</p>
+              <p className="text-gray-400 text-sm mt-1">{describeNextDue(nextDueAt)}</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {card && (
+          <>
+            <p className="text-sm text-gray-400">
+              From <span className="text-gray-200">{card.quiz_title}</span>
+              {card.repetitions === 0 && card.last_reviewed_at === null && (
+                <Badge className="ml-2 bg-blue-700">New</Badge>
+              )}
+              {card.lapses > 0 && (
+                <span className="ml-2">· forgotten {card.lapses} time{card.lapses !== 1 ? 's' : ''}</span>
+              )}
+            </p>
+
+            <QuizQuestionCard
+              key={card.id}
+              question={card.question}
+              index={card.question_index}
+              answer={answer}
+              onAnswer={setAnswer}
+              submitted={revealed}
+              showAnswers={revealed}
+            />
+
+            <Card className="bg-gray-800 border-gray-700">
+              <CardContent className="p-4">
+                {!revealed ? (
+                  <div className="flex justify-center">
+                    <Button onClick={() => setRevealed(true)} className="btn-accent px-8">
+                      <Eye size={16} className="mr-2" />
+                      Show Answer
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    <p className="text-center text-sm text-gray-400">How well did you recall it?</p>
+                    <div className="grid grid-cols-4 gap-2">
+                      {ratings.map(({ rating, label, hint, className }) => (
+                        <Button
+                          key={rating}
+                          onClick={() => rateCard(rating)}
+                          disabled={isRating}
+                          className={`${className} text-white flex flex-col h-auto py-2`}
+                        >
+                          <span className="font-semibold">{label}</span>
+                          <span className="text-xs opacity-80">{hint}</span>
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -14,10 +14,14 @@ import {
   Clock,
   Image as ImageIcon,
   Trash2,
-  Film
+  Film,
+  XCircle
 } from 'lucide-react';
 import { trpc } from '@/utils/trpc';
-import type { CreateGeneratedVideoInput } from '../../../server/src/schema';
+import { uploadAttachment } from '@/lib/attachments';
+import { followVideoProgress, formatEta, isVideoFinished, videoStatusColors } from '@/lib/videoProgress';
+import { MyVideosPanel } from '@/components/MyVideosPanel';
+import type { CreateGeneratedVideoInput, GeneratedVideo, VideoProgress, VideoStatus } from '../../../server/src/schema';
 
 export function VideoGeneratorView() {
   const [prompt, setPrompt] = useState('');
@@ -25,62 +29,64 @@ export function VideoGeneratorView() {
   const [imagePreviewUrl, setImagePreviewUrl] = useState<string | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
 
+  const [currentVideoId, setCurrentVideoId] = useState<number | null>(null);
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
-  const [status, setStatus] = useState<'pending' | 'processing' | 'completed' | 'failed'>('pending');
+  const [status, setStatus] = useState<VideoStatus>('pending');
   const [progress, setProgress] = useState(0);
   const [progressMessage, setProgressMessage] = useState<string | null>(null);
+  const [etaSeconds, setEtaSeconds] = useState<number | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [videosRefreshKey, setVideosRefreshKey] = useState(0);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
-  const pollIntervalRef = useRef<number | null>(null);
+  const stopFollowingRef = useRef<(() => void) | null>(null);
 
-  // Poll for video status updates
-  const pollVideoStatus = async (id: number) => {
-    try {
-      const result = await trpc.getVideoStatus.query({ id });
-      setStatus(result.status);
-      setProgressMessage(result.progress_message);
-      setVideoUrl(result.video_url);
-
-      // Update progress based on status
-      switch (result.status) {
-        case 'pending':
-          setProgress(10);
-          break;
-        case 'processing':
-          setProgress(50);
-          break;
-        case 'completed':
-          setProgress(100);
-          setIsGenerating(false);
-          if (pollIntervalRef.current) {
-            window.clearInterval(pollIntervalRef.current);
-            pollIntervalRef.current = null;
-          }
-          break;
-        case 'failed':
-          setIsGenerating(false);
-          setError(result.progress_message || 'Video generation failed');
-          if (pollIntervalRef.current) {
-            window.clearInterval(pollIntervalRef.current);
-            pollIntervalRef.current = null;
-          }
-          break;
-      }
-    } catch (error) {
-      console.error('Failed to get video status:', error);
+  const stopFollowing = () => {
+    stopFollowingRef.current?.();
+    stopFollowingRef.current = null;
+  };
+
+  const applyProgress = (update: VideoProgress) => {
+    setStatus(update.status);
+    setProgress(update.progress);
+    setProgressMessage(update.progress_message);
+    setEtaSeconds(update.eta_seconds);
+    setVideoUrl(update.video_url);
+
+    if (isVideoFinished(update.status)) {
+      setIsGenerating(false);
+    }
+    if (update.status === 'failed') {
+      setError(update.progress_message || 'Video generation failed');
     }
   };
 
-  // Cleanup polling on unmount
-  useEffect(() => {
-    return () => {
-      if (pollIntervalRef.current) {
-        window.clearInterval(pollIntervalRef.current);
+  // My Videos reloads once the followed video is done
+  const followVideo = (id: number) => {
+    stopFollowing();
+    stopFollowingRef.current = followVideoProgress(id, (update) => {
+      applyProgress(update);
+      if (isVideoFinished(update.status)) {
+        setVideosRefreshKey((key) => key + 1);
       }
-    };
-  }, []);
+    });
+  };
+
+  // Shows a video from My Videos, following it live if it is still on its way
+  const openVideo = (video: GeneratedVideo) => {
+    stopFollowing();
+    setCurrentVideoId(video.id);
+    setError(null);
+    setIsGenerating(!isVideoFinished(video.status));
+    applyProgress({ ...video, eta_seconds: null });
+    if (!isVideoFinished(video.status)) {
+      followVideo(video.id);
+    }
+  };
+
+  // Stop following the video on unmount
+  useEffect(() => stopFollowing, []);
 
   const handleImageUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -121,34 +127,25 @@ export function VideoGeneratorView() {
     setProgress(0);
     setVideoUrl(null);
     setProgressMessage(null);
+    setEtaSeconds(null);
 
     try {
-      let imageUrl = null;
-      
-      // Convert image to base64 if provided
-      if (initialImage) {
-        const reader = new FileReader();
-        imageUrl = await new Promise<string>((resolve, reject) => {
-          reader.onload = (e) => resolve(e.target?.result as string);
-          reader.onerror = reject;
-          reader.readAsDataURL(initialImage);
-        });
-      }
+      // Upload the starting image once; the video only references it
+      const attachment = initialImage ? await uploadAttachment(initialImage) : null;
 
       const input: CreateGeneratedVideoInput = {
         prompt: prompt.trim(),
-        initial_image_url: imageUrl
+        initial_image_attachment_id: attachment?.id ?? null
       };
 
       const result = await trpc.generateVideo.mutate(input);
+      setCurrentVideoId(result.id);
+      setVideosRefreshKey((key) => key + 1);
       setStatus(result.status);
-      setProgress(10);
-      setProgressMessage('Video generation started...');
+      setProgress(result.progress);
+      setProgressMessage(result.progress_message);
 
-      // Start polling for status updates
-      pollIntervalRef.current = window.setInterval(() => {
-        pollVideoStatus(result.id);
-      }, 2000); // Poll every 2 seconds
+      followVideo(result.id);
 
     } catch (error) {
       console.error('Video generation failed:', error);
@@ -178,18 +175,29 @@ export function VideoGeneratorView() {
     }
   };
 
-  const resetGeneration = () => {
-    if (pollIntervalRef.current) {
-      window.clearInterval(pollIntervalRef.current);
-      pollIntervalRef.current = null;
+  // Stops the server-side job too, not just the progress display
+  const cancelGeneration = async () => {
+    if (currentVideoId !== null && !isVideoFinished(status)) {
+      try {
+        await trpc.cancelVideo.mutate({ id: currentVideoId });
+        setVideosRefreshKey((key) => key + 1);
+      } catch (cancelError) {
+        console.error('Failed to cancel video:', cancelError);
+      }
     }
-    
+    resetGeneration();
+  };
+
+  const resetGeneration = () => {
+    stopFollowing();
     setIsGenerating(false);
+    setCurrentVideoId(null);
 
     setVideoUrl(null);
     setStatus('pending');
     setProgress(0);
     setProgressMessage(null);
+    setEtaSeconds(null);
     setError(null);
   };
 
@@ -204,15 +212,7 @@ export function VideoGeneratorView() {
     "Steam rising from a hot cup of coffee on a wooden table"
   ];
 
-  const getStatusColor = () => {
-    switch (status) {
-      case 'pending': return 'bg-yellow-600';
-      case 'processing': return 'bg-blue-600';
-      case 'completed': return 'bg-green-600';
-      case 'failed': return 'bg-red-600';
-      default: return 'bg-gray-600';
-    }
-  };
+  const getStatusColor = () => videoStatusColors[status];
 
   const getStatusIcon = () => {
     switch (status) {
@@ -220,6 +220,7 @@ export function VideoGeneratorView() {
       case 'processing': return <Loader2 size={16} className="animate-spin" />;
       case 'completed': return <CheckCircle size={16} />;
       case 'failed': return <AlertCircle size={16} />;
+      case 'cancelled': return <XCircle size={16} />;
       default: return <Video size={16} />;
     }
   };
@@ -246,7 +247,7 @@ export function VideoGeneratorView() {
                 <span className="ml-1 capitalize">{status}</span>
               </Badge>
               <Button
-                onClick={resetGeneration}
+                onClick={cancelGeneration}
                 variant="outline"
                 size="sm"
                 className="border-gray-600 hover:border-red-400 text-red-400"
@@ -425,7 +426,7 @@ export function VideoGeneratorView() {
                         <div className="w-64 mt-4">
                           <Progress value={progress} className="h-2" />
                           <p className="text-xs text-gray-500 mt-1 text-center">
-                            {progress}% complete
+                            {progress}% complete{etaSeconds !== null && ` · ${formatEta(etaSeconds)}`}
                           </p>
                         </div>
                       </div>
@@ -468,6 +469,9 @@ export function VideoGeneratorView() {
                         <span className="text-gray-400">{progress}%</span>
                       </div>
                       <Progress value={progress} className="h-2" />
+                      {etaSeconds !== null && (
+                        <p className="text-xs text-gray-400 text-right">{formatEta(etaSeconds)}</p>
+                      )}
                     </div>
 
                     {progressMessage && (
@@ -485,6 +489,12 @@ export function VideoGeneratorView() {
                 </CardContent>
               </Card>
             )}
+
+            <MyVideosPanel
+              refreshKey={videosRefreshKey}
+              currentVideoId={currentVideoId}
+              onOpen={openVideo}
+            />
           </div>
         </div>
 
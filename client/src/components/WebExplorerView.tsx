@@ -15,16 +15,50 @@ import {
   Zap
 } from 'lucide-react';
 import { trpc } from '@/utils/trpc';
-import type { CreateWebSearchInput } from '../../../server/src/schema';
+import type { CreateWebSearchInput, WebSearchSource } from '../../../server/src/schema';
 
 interface SearchResult {
   id: number;
   query: string;
   summary: string;
-  sources: string[];
+  sources: WebSearchSource[];
   created_at: Date;
 }
 
+const hostOf = (url: string): string => {
+  try {
+    return new URL(url).hostname.replace('www.', '');
+  } catch {
+    return url;
+  }
+};
+
+// Turns the summary's [n] citations into links to the numbered sources
+function CitedSummary({ summary, sources }: { summary: string; sources: WebSearchSource[] }) {
+  return (
+    <>
+      {summary.split(/(\[\d+\])/).map((part, index) => {
+        const source = /^\[\d+\]$/.test(part) ? sources[Number(part.slice(1, -1)) - 1] : undefined;
+        if (!source) {
+          return part;
+        }
+        return (
+          <a
+            key={index}
+            href={source.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            title={source.title}
+            className="align-super text-xs text-cyan-400 hover:text-cyan-300 hover:underline"
+          >
+            {part}
+          </a>
+        );
+      })}
+    </>
+  );
+}
+
 export function WebExplorerView() {
   const [query, setQuery] = useState('');
   const [searchResult, setSearchResult] = useState<SearchResult | null>(null);
@@ -239,7 +273,7 @@ export function WebExplorerView() {
                     AI Summary
                   </h3>
                   <p className="text-gray-200 leading-relaxed whitespace-pre-wrap">
-                    {searchResult.summary}
+                    <CitedSummary summary={searchResult.summary} sources={searchResult.sources} />
                   </p>
                 </div>
 
@@ -250,54 +284,38 @@ export function WebExplorerView() {
                     Sources ({searchResult.sources.length})
                   </h3>
                   <div className="grid gap-3">
-                    {searchResult.sources.map((source, index) => {
-                      try {
-                        const url = new URL(source);
-                        const domain = url.hostname.replace('www.', '');
-                        
-                        return (
-                          <a
-                            key={index}
-                            href={source}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            className="block p-3 bg-gray-700 hover:bg-gray-600 rounded-lg border border-gray-600 hover:border-cyan-400 transition-all group"
-                          >
-                            <div className="flex items-center justify-between">
-                              <div className="flex items-center space-x-2 flex-1 min-w-0">
-                                <div className="w-8 h-8 bg-gray-600 rounded-full flex items-center justify-center flex-shrink-0">
-                                  <Globe size={14} className="text-gray-400" />
-                                </div>
-                                <div className="min-w-0 flex-1">
-                                  <p className="text-gray-200 font-medium truncate">
-                                    {domain}
-                                  </p>
-                                  <p className="text-gray-400 text-xs truncate">
-                                    {source}
-                                  </p>
-                                </div>
-                              </div>
-                              <ExternalLink size={14} className="text-gray-400 group-hover:text-cyan-400 flex-shrink-0" />
+                    {searchResult.sources.map((source, index) => (
+                      <a
+                        key={index}
+                        href={source.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="block p-3 bg-gray-700 hover:bg-gray-600 rounded-lg border border-gray-600 hover:border-cyan-400 transition-all group"
+                      >
+                        <div className="flex items-start justify-between">
+                          <div className="flex items-start space-x-2 flex-1 min-w-0">
+                            <div className="w-8 h-8 bg-gray-600 rounded-full flex items-center justify-center flex-shrink-0 text-xs font-semibold text-cyan-300">
+                              {index + 1}
                             </div>
-                          </a>
-                        );
-                      } catch {
-                        return (
-                          <a
-                            key={index}
-                            href={source}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            className="block p-3 bg-gray-700 hover:bg-gray-600 rounded-lg border border-gray-600 hover:border-cyan-400 transition-all group"
-                          >
-                            <div className="flex items-center justify-between">
-                              <span className="text-gray-200 truncate">{source}</span>
-                              <ExternalLink size={14} className="text-gray-400 group-hover:text-cyan-400 flex-shrink-0 ml-2" />
+                            <div className="min-w-0 flex-1">
+                              <p className="text-gray-200 font-medium truncate">
+                                {source.title}
+                              </p>
+                              <p className="text-gray-400 text-xs truncate">
+                                {hostOf(source.url)}
+                                {source.fetched_at ? ` · read ${source.fetched_at.toLocaleTimeString()}` : ' · page not read'}
+                              </p>
+                              {source.snippet && (
+                                <p className="text-gray-300 text-sm mt-1 line-clamp-2">
+                                  {source.snippet}
+                                </p>
+                              )}
                             </div>
-                          </a>
-                        );
-                      }
-                    })}
+                          </div>
+                          <ExternalLink size={14} className="text-gray-400 group-hover:text-cyan-400 flex-shrink-0 ml-2" />
+                        </div>
+                      </a>
+                    ))}
                   </div>
                 </div>
               </CardContent>
@@ -0,0 +1,58 @@
+import type { Attachment, AttachmentUpload } from '../../../server/src/schema';
+
+// Files are uploaded to plain HTTP routes next to tRPC (see server/src/routes/attachments.ts)
+// and referenced by ID afterwards
+
+export type UploadedAttachment = Omit<Attachment, 'created_at'> & { created_at: string };
+
+// Files up to this size go in a single request; larger ones are sent in parts
+const SINGLE_REQUEST_BYTES = 5 * 1024 * 1024;
+
+export const attachmentUrl = (id: number, download = false): string =>
+  `/api/attachments/${id}${download ? '?download=true' : ''}`;
+
+const request = async <T>(url: string, init: RequestInit): Promise<T> => {
+  const response = await fetch(url, init);
+  const body = response.status === 204 ? null : await response.json();
+  if (!response.ok) {
+    throw new Error(body?.error ?? `Upload failed with status ${response.status}`);
+  }
+  return body as T;
+};
+
+// onProgress receives the fraction of bytes sent so far
+export const uploadAttachment = async (
+  file: File,
+  onProgress?: (fraction: number) => void
+): Promise<UploadedAttachment> => {
+  const filename = encodeURIComponent(file.name || 'upload');
+
+  if (file.size <= SINGLE_REQUEST_BYTES) {
+    const attachment = await request<UploadedAttachment>(`/api/attachments?filename=${filename}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/octet-stream' },
+      body: file
+    });
+    onProgress?.(1);
+    return attachment;
+  }
+
+  const upload = await request<AttachmentUpload>(`/api/attachments/uploads?filename=${filename}`, { method: 'POST' });
+  const uploadUrl = `/api/attachments/uploads/${upload.upload_id}`;
+  try {
+    const partCount = Math.ceil(file.size / upload.part_size);
+    for (let index = 0; index < partCount; index++) {
+      await request(`${uploadUrl}/parts/${index + 1}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/octet-stream' },
+        body: file.slice(index * upload.part_size, (index + 1) * upload.part_size)
+      });
+      onProgress?.((index + 1) / partCount);
+    }
+    return await request<UploadedAttachment>(`${uploadUrl}/complete`, { method: 'POST' });
+  } catch (error) {
+    // Free the stored parts; the original error is what matters to the caller
+    await fetch(uploadUrl, { method: 'DELETE' }).catch(() => null);
+    throw error;
+  }
+};
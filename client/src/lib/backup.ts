@@ -0,0 +1,24 @@
+import type { BackupRestoreReport, RestoreBackupOptions } from '../../../server/src/schema';
+
+// Backups are plain HTTP routes next to tRPC (see server/src/routes/backup.ts)
+export const BACKUP_DOWNLOAD_URL = '/api/backup';
+
+export type RestoreReport = Omit<BackupRestoreReport, 'backup_created_at'> & { backup_created_at: string };
+
+export const uploadBackup = async (file: File, options: RestoreBackupOptions): Promise<RestoreReport> => {
+  const params = new URLSearchParams({ mode: options.mode });
+  if (options.onConflict) params.set('onConflict', options.onConflict);
+  if (options.dryRun) params.set('dryRun', 'true');
+
+  const response = await fetch(`/api/backup/restore?${params}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/octet-stream' },
+    body: file
+  });
+
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(body.error ?? `Restore failed with status ${response.status}`);
+  }
+  return body as RestoreReport;
+};
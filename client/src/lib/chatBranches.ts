@@ -0,0 +1,38 @@
+import type { ChatMessage } from '../../../server/src/schema';
+
+export interface BranchStep {
+  message: ChatMessage;
+  siblings: ChatMessage[]; // Alternatives sharing this message's parent, oldest first
+  index: number; // Position of `message` within `siblings`
+}
+
+// Key for a parent in the branch selection map; root messages share one key
+export const branchKey = (parentId: number | null): string => (parentId === null ? 'root' : String(parentId));
+
+// Follows the conversation tree from the root, taking the selected child at each
+// fork (the newest one unless the user picked another)
+export const getActivePath = (messages: ChatMessage[], selections: Record<string, number>): BranchStep[] => {
+  const childrenByParent = new Map<string, ChatMessage[]>();
+  for (const message of [...messages].sort((a, b) => a.id - b.id)) {
+    const key = branchKey(message.parent_id);
+    childrenByParent.set(key, [...(childrenByParent.get(key) ?? []), message]);
+  }
+
+  const path: BranchStep[] = [];
+  let parentId: number | null = null;
+
+  while (true) {
+    const key = branchKey(parentId);
+    const siblings = childrenByParent.get(key);
+    if (!siblings) break;
+
+    const selected = selections[key];
+    const index = selected !== undefined && selected < siblings.length ? selected : siblings.length - 1;
+    const message = siblings[index];
+
+    path.push({ message, siblings, index });
+    parentId = message.id;
+  }
+
+  return path;
+};
@@ -0,0 +1,75 @@
+import type { QuizAnswer, QuizData, QuizQuestion, QuizQuestionType, QuizSourceSection, QuizSourceType } from '../../../server/src/schema';
+
+export const questionTypeLabels: Record<QuizQuestionType, string> = {
+  multiple_choice: 'Multiple choice',
+  multi_select: 'Multiple select',
+  true_false: 'True / false',
+  short_answer: 'Short answer',
+  cloze: 'Fill in the blanks'
+};
+
+export const quizSourceLabels: Record<QuizSourceType, string> = {
+  text: 'Text',
+  attachment: 'File',
+  document_analysis: 'Document scan',
+  web_search: 'Web search',
+  chat_session: 'Chat'
+};
+
+// The PDF page or chat message that a position in the quiz's source text came from
+export const sectionAt = (sections: QuizSourceSection[] | null, offset: number): QuizSourceSection | null =>
+  sections?.find(section => offset >= section.start && offset < section.end) ?? null;
+
+const CLOZE_BLANK = /\{\{(\d+)\}\}/g;
+
+// Splits cloze text into its literal parts and the blank numbers between them
+export const splitCloze = (text: string): (string | number)[] =>
+  text.split(CLOZE_BLANK).map((part, index) => index % 2 === 1 ? Number(part) : part);
+
+export const isAnswered = (answer: QuizAnswer | undefined): boolean => {
+  if (!answer) return false;
+  switch (answer.type) {
+    case 'multi_select':
+      return answer.selected.length > 0;
+    case 'short_answer':
+      return answer.text.trim().length > 0;
+    case 'cloze':
+      return answer.blanks.length > 0 && answer.blanks.every(blank => blank.trim().length > 0);
+    default:
+      return true;
+  }
+};
+
+// Attempts are graded on the server; this is a score out of max_score as a whole percentage
+export const scorePercentage = (score: number, maxScore: number): number =>
+  maxScore > 0 ? Math.round((score / maxScore) * 100) : 0;
+
+// The correct answer in words, for the answer key and plain-text exports
+export const describeCorrectAnswer = (question: QuizQuestion): string => {
+  switch (question.type) {
+    case 'multiple_choice':
+      return question.options[question.answer_index];
+    case 'multi_select':
+      return question.answer_indices.map(index => question.options[index]).join(', ');
+    case 'true_false':
+      return question.answer ? 'True' : 'False';
+    case 'short_answer':
+      return question.answer;
+    case 'cloze':
+      return question.answers.map((answer, index) => `${index + 1}. ${answer}`).join(', ');
+  }
+};
+
+export const quizToText = (quiz: QuizData): string => {
+  const header = [`Quiz: ${quiz.title}`, `Difficulty: ${quiz.difficulty}`, `Generated on: ${new Date().toLocaleString()}`];
+  const questions = quiz.questions.map((question, index) => [
+    `Question ${index + 1} (${questionTypeLabels[question.type]}): ${question.question}`,
+    ...('options' in question
+      ? question.options.map((option, optionIndex) => `${String.fromCharCode(65 + optionIndex)}. ${option}`)
+      : []),
+    `Correct Answer: ${describeCorrectAnswer(question)}`,
+    `Explanation: ${question.explanation}`
+  ].join('\n'));
+
+  return `${header.join('\n')}\n\n${questions.join('\n\n---\n\n')}\n`;
+};
@@ -0,0 +1,79 @@
+import { trpc } from '@/utils/trpc';
+import type { VideoProgress, VideoStatus } from '../../../server/src/schema';
+
+const POLL_INTERVAL_MS = 2000;
+
+export const isVideoFinished = (status: VideoStatus): boolean =>
+  status === 'completed' || status === 'failed' || status === 'cancelled';
+
+export const videoStatusColors: Record<VideoStatus, string> = {
+  pending: 'bg-yellow-600',
+  processing: 'bg-blue-600',
+  completed: 'bg-green-600',
+  failed: 'bg-red-600',
+  cancelled: 'bg-gray-600'
+};
+
+// Follows a video over the watchVideoProgress subscription, and falls back to
+// polling getVideoProgress if the subscription can't be used. Returns a function
+// that stops following
+export const followVideoProgress = (id: number, onProgress: (progress: VideoProgress) => void): (() => void) => {
+  let stopped = false;
+  let pollTimer: number | null = null;
+  let subscription: { unsubscribe: () => void } | null = null;
+
+  const poll = async () => {
+    pollTimer = null;
+    try {
+      const progress = await trpc.getVideoProgress.query({ id });
+      if (stopped) return;
+      onProgress(progress);
+      if (isVideoFinished(progress.status)) return;
+    } catch (error) {
+      console.error('Failed to get video progress:', error);
+    }
+    if (!stopped) {
+      pollTimer = window.setTimeout(poll, POLL_INTERVAL_MS);
+    }
+  };
+
+  const startPolling = () => {
+    subscription?.unsubscribe();
+    subscription = null;
+    if (!stopped && pollTimer === null) {
+      poll();
+    }
+  };
+
+  if (typeof EventSource === 'undefined') {
+    startPolling();
+  } else {
+    subscription = trpc.watchVideoProgress.subscribe({ id }, {
+      onData: (progress) => {
+        if (stopped) return;
+        onProgress(progress);
+        if (isVideoFinished(progress.status)) {
+          subscription?.unsubscribe();
+        }
+      },
+      onError: (error) => {
+        console.error('Video progress subscription failed, polling instead:', error);
+        startPolling();
+      }
+    });
+  }
+
+  return () => {
+    stopped = true;
+    subscription?.unsubscribe();
+    if (pollTimer !== null) {
+      window.clearTimeout(pollTimer);
+    }
+  };
+};
+
+export const formatEta = (seconds: number): string => {
+  if (seconds < 60) return 'less than a minute left';
+  const minutes = Math.round(seconds / 60);
+  return minutes === 1 ? 'about 1 minute left' : `about ${minutes} minutes left`;
+};
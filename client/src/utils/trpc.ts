@@ -1,14 +1,19 @@
-import { createTRPCClient, httpBatchLink, loggerLink } from '@trpc/client';
+import { createTRPCClient, httpBatchLink, httpSubscriptionLink, loggerLink, splitLink } from '@trpc/client';
 import type { AppRouter } from '../../../server/src';
 import superjson from 'superjson';
 
 export const trpc = createTRPCClient<AppRouter>({
   links: [
-    httpBatchLink({ url: '/api', transformer: superjson }),
     loggerLink({
           enabled: (opts) =>
             (typeof window !== 'undefined') ||
             (opts.direction === 'down' && opts.result instanceof Error),
         }),
+    splitLink({
+      // Subscriptions stream over server-sent events
+      condition: (op) => op.type === 'subscription',
+      true: httpSubscriptionLink({ url: '/api', transformer: superjson }),
+      false: httpBatchLink({ url: '/api', transformer: superjson }),
+    }),
   ],
 });
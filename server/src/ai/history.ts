@@ -0,0 +1,78 @@
+import { estimateMessagesTokens } from './tokens';
+import { type AIChatMessage, type AIProvider } from './types';
+
+export type HistoryStrategy = 'truncate' | 'summarize';
+
+export interface HistoryOptions {
+  tokenBudget: number; // Tokens available for previous turns, system prompt and the new message
+  strategy: HistoryStrategy;
+}
+
+const DEFAULT_HISTORY_TOKEN_BUDGET = 3000;
+const SUMMARY_MAX_TOKENS = 256;
+
+export const getHistoryOptions = (): HistoryOptions => {
+  const budget = parseInt(process.env['CHAT_HISTORY_TOKEN_BUDGET'] ?? '');
+  const strategy = process.env['CHAT_HISTORY_STRATEGY'] === 'summarize' ? 'summarize' : 'truncate';
+
+  return {
+    tokenBudget: Number.isNaN(budget) ? DEFAULT_HISTORY_TOKEN_BUDGET : budget,
+    strategy
+  };
+};
+
+// Keeps the most recent turns that fit in the budget, dropping the oldest first
+export const fitHistoryToBudget = (
+  history: AIChatMessage[],
+  budget: number
+): { kept: AIChatMessage[]; dropped: AIChatMessage[] } => {
+  let used = 0;
+  let firstKept = history.length;
+
+  for (let i = history.length - 1; i >= 0; i--) {
+    const cost = estimateMessagesTokens([history[i]]);
+    if (used + cost > budget) {
+      break;
+    }
+    used += cost;
+    firstKept = i;
+  }
+
+  return {
+    kept: history.slice(firstKept),
+    dropped: history.slice(0, firstKept)
+  };
+};
+
+// Fits previous turns into the budget; with the 'summarize' strategy, turns
+// that don't fit are condensed into a single system message instead of being lost
+export const buildHistoryMessages = async (
+  history: AIChatMessage[],
+  budget: number,
+  strategy: HistoryStrategy,
+  provider: AIProvider
+): Promise<AIChatMessage[]> => {
+  const { kept, dropped } = fitHistoryToBudget(history, budget);
+  if (dropped.length === 0 || strategy === 'truncate') {
+    return kept;
+  }
+
+  // Leave room for the summary itself
+  const fitted = fitHistoryToBudget(history, budget - SUMMARY_MAX_TOKENS);
+  const transcript = fitted.dropped
+    .map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`)
+    .join('\n\n');
+
+  const summary = await provider.chat({
+    messages: [
+      { role: 'system', content: 'Summarize the following conversation in a few sentences, keeping facts, decisions and open questions.' },
+      { role: 'user', content: transcript }
+    ],
+    max_tokens: SUMMARY_MAX_TOKENS
+  });
+
+  return [
+    { role: 'system', content: `Summary of the earlier conversation: ${summary.content}` },
+    ...fitted.kept
+  ];
+};
@@ -0,0 +1,93 @@
+import 'dotenv/config';
+import { createLocalProvider } from './local_provider';
+import { createOpenAICompatibleProvider } from './openai_compatible_provider';
+import { type AIProvider, type AIModelDefaults, type AIModelInfo } from './types';
+
+export * from './types';
+export { registerLocalResponder, type LocalResponder } from './local_provider';
+export { estimateTokens, estimateMessagesTokens } from './tokens';
+export { meterProvider, type AIOperation, type AIUsageEvent, type AIUsageListener } from './metering';
+export { estimateCost, getPriceTable, type ModelPrice, type PriceTable } from './pricing';
+export { getHistoryOptions, fitHistoryToBudget, buildHistoryMessages, type HistoryOptions, type HistoryStrategy } from './history';
+
+type AIProviderFactory = (env: NodeJS.ProcessEnv) => AIProvider;
+
+const DEFAULT_TIMEOUT_MS = 60000;
+
+// AI_TIMEOUT_MS, falling back to the default when unset or not a positive number
+export const getAITimeoutMs = (env: NodeJS.ProcessEnv = process.env): number => {
+  const timeoutMs = parseInt(env['AI_TIMEOUT_MS'] ?? '');
+  return Number.isNaN(timeoutMs) || timeoutMs <= 0 ? DEFAULT_TIMEOUT_MS : timeoutMs;
+};
+
+// Model overrides shared by all providers; unset values fall back to provider defaults
+const modelOverrides = (env: NodeJS.ProcessEnv): Partial<AIModelDefaults> => {
+  const overrides: Partial<AIModelDefaults> = {};
+  if (env['AI_CHAT_MODEL']) overrides.chat = env['AI_CHAT_MODEL'];
+  if (env['AI_VISION_MODEL']) overrides.vision = env['AI_VISION_MODEL'];
+  if (env['AI_IMAGE_MODEL']) overrides.image = env['AI_IMAGE_MODEL'];
+  if (env['AI_EMBEDDING_MODEL']) overrides.embedding = env['AI_EMBEDDING_MODEL'];
+  return overrides;
+};
+
+const providerFactories = new Map<string, AIProviderFactory>([
+  ['local', (env) => createLocalProvider(modelOverrides(env))],
+  ['openai', (env) => {
+    const baseUrl = env['AI_BASE_URL'];
+    if (!baseUrl) {
+      throw new Error('AI_BASE_URL must be set when AI_PROVIDER is "openai"');
+    }
+
+    return createOpenAICompatibleProvider({
+      baseUrl,
+      apiKey: env['AI_API_KEY'],
+      timeoutMs: getAITimeoutMs(env),
+      models: {
+        chat: 'google/gemini-2.0-flash-lite-001',
+        vision: 'google/gemini-2.0-flash-lite-001',
+        image: 'dall-e-3',
+        embedding: 'text-embedding-3-small',
+        ...modelOverrides(env)
+      }
+    });
+  }]
+]);
+
+let activeProvider: AIProvider | null = null;
+
+// Makes an additional backend selectable through AI_PROVIDER
+export const registerAIProvider = (name: string, factory: AIProviderFactory): void => {
+  providerFactories.set(name, factory);
+  activeProvider = null;
+};
+
+// Returns the provider named by AI_PROVIDER (defaults to the deterministic local provider)
+export const getAIProvider = (): AIProvider => {
+  if (!activeProvider) {
+    const name = process.env['AI_PROVIDER'] || 'local';
+    const factory = providerFactories.get(name);
+    if (!factory) {
+      throw new Error(`Unknown AI provider "${name}". Available: ${[...providerFactories.keys()].join(', ')}`);
+    }
+    activeProvider = factory(process.env);
+  }
+  return activeProvider;
+};
+
+// Drops the cached provider so the next call re-reads env config
+export const resetAIProvider = (): void => {
+  activeProvider = null;
+};
+
+// Chat models offered for selection: the AI_CHAT_MODELS allowlist (comma-separated)
+// when set, otherwise everything the active provider reports
+export const listAIModels = async (): Promise<AIModelInfo[]> => {
+  const models = await getAIProvider().listModels();
+  const allowlist = (process.env['AI_CHAT_MODELS'] ?? '').split(',').map(id => id.trim()).filter(Boolean);
+  if (allowlist.length === 0) {
+    return models;
+  }
+
+  const defaultModel = models.find(model => model.default)?.id;
+  return allowlist.map(id => ({ id, default: id === defaultModel }));
+};
@@ -0,0 +1,166 @@
+import { createHash } from 'crypto';
+import { estimateMessagesTokens, estimateTokens } from './tokens';
+import {
+  type AIProvider,
+  type AIModelDefaults,
+  type AIModelInfo,
+  type AIChatRequest,
+  type AIChatResponse,
+  type AIChatStreamEvent,
+  type AIVisionRequest,
+  type AIImageRequest,
+  type AIImageResponse,
+  type AIEmbeddingRequest,
+  type AIEmbeddingResponse
+} from './types';
+
+const EMBEDDING_DIMENSIONS = 256;
+
+// Answers a feature's own prompt (a quiz, a search summary) with a canned reply;
+// null for requests it doesn't recognise
+export type LocalResponder = (request: AIChatRequest) => string | null;
+
+const localResponders = new Map<string, LocalResponder>();
+
+// Lets a feature module teach the local provider its prompt, so ai/ needn't know about features
+export const registerLocalResponder = (name: string, responder: LocalResponder): void => {
+  localResponders.set(name, responder);
+};
+
+const localModelDefaults: AIModelDefaults = {
+  chat: 'local/chat',
+  vision: 'local/vision',
+  image: 'local/image',
+  embedding: 'local/embedding'
+};
+
+// Deterministic, offline provider: the same request always produces the same
+// response, which keeps tests and local development independent of any model server
+export const createLocalProvider = (models: Partial<AIModelDefaults> = {}): AIProvider => {
+  const defaults = { ...localModelDefaults, ...models };
+
+  const listModels = async (): Promise<AIModelInfo[]> => {
+    return [{ id: defaults.chat, default: true }];
+  };
+
+  const chat = async (request: AIChatRequest): Promise<AIChatResponse> => {
+    const lastUserMessage = [...request.messages].reverse().find(message => message.role === 'user');
+    const userContent = lastUserMessage?.content ?? '';
+
+    const parts = ["I understand your message and I'm here to help."];
+    if (lastUserMessage?.images && lastUserMessage.images.length > 0) {
+      parts.push("I can see the image you've shared.");
+    }
+    if (userContent) {
+      parts.push(`You said: "${truncate(userContent, 200)}"`);
+    }
+
+    let content = parts.join(' ');
+    // JSON requests no registered feature recognises get an empty object
+    if (request.response_format === 'json') {
+      content = '{}';
+    }
+    for (const responder of localResponders.values()) {
+      const reply = responder(request);
+      if (reply !== null) {
+        content = reply;
+        break;
+      }
+    }
+    if (request.max_tokens !== undefined) {
+      content = content.slice(0, request.max_tokens * 4);
+    }
+
+    return {
+      content,
+      model: request.model ?? defaults.chat,
+      usage: {
+        prompt_tokens: estimateMessagesTokens(request.messages),
+        completion_tokens: estimateTokens(content)
+      }
+    };
+  };
+
+  const streamChat = async function* (request: AIChatRequest, signal?: AbortSignal): AsyncIterable<AIChatStreamEvent> {
+    const response = await chat(request);
+
+    // Emit word by word so consumers see the same shape as a real stream
+    for (const piece of response.content.split(/(?<=\s)/)) {
+      signal?.throwIfAborted();
+      yield { type: 'delta', content: piece };
+    }
+
+    signal?.throwIfAborted();
+    yield { type: 'done', model: response.model, usage: response.usage };
+  };
+
+  const vision = async (request: AIVisionRequest): Promise<AIChatResponse> => {
+    const content = describeImage(request.image_url, request.prompt);
+
+    return {
+      content,
+      model: request.model ?? defaults.vision,
+      usage: {
+        prompt_tokens: estimateTokens(request.prompt),
+        completion_tokens: estimateTokens(content)
+      }
+    };
+  };
+
+  const generateImage = async (request: AIImageRequest): Promise<AIImageResponse> => {
+    const digest = createHash('sha256').update(request.prompt).digest('hex').slice(0, 16);
+
+    return {
+      image_url: `https://generated-images.example.com/${digest}-${encodeURIComponent(request.prompt.slice(0, 50))}.png`,
+      model: request.model ?? defaults.image
+    };
+  };
+
+  const embed = async (request: AIEmbeddingRequest): Promise<AIEmbeddingResponse> => {
+    return {
+      embeddings: request.input.map(hashEmbedding),
+      model: request.model ?? defaults.embedding,
+      usage: {
+        prompt_tokens: request.input.reduce((total, text) => total + estimateTokens(text), 0),
+        completion_tokens: 0
+      }
+    };
+  };
+
+  return { name: 'local', listModels, chat, streamChat, vision, generateImage, embed };
+};
+
+const truncate = (text: string, length: number): string => {
+  return text.length > length ? `${text.slice(0, length)}...` : text;
+};
+
+// Picks a response template from the prompt wording
+const describeImage = (imageUrl: string, prompt: string): string => {
+  const promptLower = prompt.toLowerCase();
+
+  if (promptLower.includes('extract') || promptLower.includes('text')) {
+    return `Text extracted from document at ${imageUrl}:\n\nThis document appears to contain structured text content. Key information has been identified and extracted for further processing.`;
+  }
+  if (promptLower.includes('summarize') || promptLower.includes('summary')) {
+    return `Document Summary:\n\nThis document has been analyzed and summarized. The main points and key information have been identified and condensed into a concise overview.`;
+  }
+  if (promptLower.includes('analyze') || promptLower.includes('analysis')) {
+    return `Document Analysis:\n\nBased on the analysis of the image at ${imageUrl}, this document contains structured information that has been processed according to your request: "${prompt}".`;
+  }
+  return `Document processed successfully. Analysis completed for image: ${imageUrl}\n\nPrompt: ${prompt}\n\nThe document has been analyzed using multimodal AI capabilities.`;
+};
+
+// Bag-of-words feature hashing, so texts sharing words get similar vectors
+const hashEmbedding = (text: string): number[] => {
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+  for (const word of words) {
+    const digest = createHash('md5').update(word).digest();
+    const index = digest.readUInt32BE(0) % EMBEDDING_DIMENSIONS;
+    vector[index] += digest[4] % 2 === 0 ? 1 : -1;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map(value => value / norm);
+};
@@ -0,0 +1,89 @@
+import {
+  type AIProvider,
+  type AIUsage,
+  type AIChatRequest,
+  type AIChatStreamEvent
+} from './types';
+import { estimateMessagesTokens, estimateTokens } from './tokens';
+
+export type AIOperation = 'chat' | 'stream' | 'vision' | 'image' | 'embedding' | 'video';
+
+export interface AIUsageEvent {
+  operation: AIOperation;
+  model: string;
+  usage: AIUsage;
+  images: number; // Images generated by the call
+  latency_ms: number;
+  aborted: boolean; // Stream stopped or failed before it finished; its usage is estimated
+}
+
+export type AIUsageListener = (event: AIUsageEvent) => Promise<void>;
+
+const NO_USAGE: AIUsage = { prompt_tokens: 0, completion_tokens: 0 };
+
+// Wraps a provider so every completed call reports its model, token usage and latency.
+// Streams that are stopped or fail before their 'done' event are reported as aborted,
+// with tokens estimated from the request and the content streamed so far. Other
+// failed calls are not reported
+export const meterProvider = (provider: AIProvider, onUsage: AIUsageListener): AIProvider => {
+  const report = async (operation: AIOperation, startedAt: number, model: string, usage: AIUsage, images = 0, aborted = false) => {
+    try {
+      await onUsage({ operation, model, usage, images, latency_ms: Math.round(performance.now() - startedAt), aborted });
+    } catch (error) {
+      // Accounting must never break the feature it measures
+      console.error('AI usage reporting failed:', error);
+    }
+  };
+
+  const streamChat = async function* (request: AIChatRequest, signal?: AbortSignal): AsyncIterable<AIChatStreamEvent> {
+    const startedAt = performance.now();
+    let content = '';
+    let finished = false;
+    try {
+      for await (const event of provider.streamChat(request, signal)) {
+        if (event.type === 'delta') {
+          content += event.content;
+        } else {
+          finished = true;
+          await report('stream', startedAt, event.model, event.usage);
+        }
+        yield event;
+      }
+    } finally {
+      if (!finished) {
+        // The provider never named the model it used, so a request without one is unpriced
+        const usage = { prompt_tokens: estimateMessagesTokens(request.messages), completion_tokens: estimateTokens(content) };
+        await report('stream', startedAt, request.model ?? provider.name, usage, 0, true);
+      }
+    }
+  };
+
+  return {
+    ...provider,
+    chat: async (request) => {
+      const startedAt = performance.now();
+      const response = await provider.chat(request);
+      await report('chat', startedAt, response.model, response.usage);
+      return response;
+    },
+    streamChat,
+    vision: async (request) => {
+      const startedAt = performance.now();
+      const response = await provider.vision(request);
+      await report('vision', startedAt, response.model, response.usage);
+      return response;
+    },
+    generateImage: async (request) => {
+      const startedAt = performance.now();
+      const response = await provider.generateImage(request);
+      await report('image', startedAt, response.model, NO_USAGE, 1);
+      return response;
+    },
+    embed: async (request) => {
+      const startedAt = performance.now();
+      const response = await provider.embed(request);
+      await report('embedding', startedAt, response.model, response.usage);
+      return response;
+    }
+  };
+};
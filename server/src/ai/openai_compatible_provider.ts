@@ -0,0 +1,231 @@
+import { estimateMessagesTokens, estimateTokens } from './tokens';
+import {
+  type AIProvider,
+  type AIModelDefaults,
+  type AIModelInfo,
+  type AIChatMessage,
+  type AIChatRequest,
+  type AIChatResponse,
+  type AIChatStreamEvent,
+  type AIUsage,
+  type AIVisionRequest,
+  type AIImageRequest,
+  type AIImageResponse,
+  type AIEmbeddingRequest,
+  type AIEmbeddingResponse
+} from './types';
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string; // e.g. https://api.openai.com/v1 or http://localhost:8000/v1
+  apiKey?: string;
+  models: AIModelDefaults;
+  timeoutMs?: number;
+}
+
+// Adapter for any server implementing the OpenAI REST API
+// (OpenAI, OpenRouter, vLLM, llama.cpp server, Ollama, LocalAI, ...)
+export const createOpenAICompatibleProvider = (config: OpenAICompatibleConfig): AIProvider => {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+
+  const send = async (path: string, body: Record<string, any>, signal?: AbortSignal): Promise<Response> => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.apiKey) {
+      headers['Authorization'] = `Bearer ${config.apiKey}`;
+    }
+
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      signal
+    });
+
+    if (!response.ok) {
+      const errorBody = await response.text();
+      throw new Error(`AI provider request to ${path} failed with status ${response.status}: ${errorBody}`);
+    }
+
+    return response;
+  };
+
+  const post = async (path: string, body: Record<string, any>): Promise<any> => {
+    const response = await send(path, body, AbortSignal.timeout(config.timeoutMs ?? 60000));
+    return response.json();
+  };
+
+  // Servers that cannot list their models (or are unreachable) still offer the configured one
+  const listModels = async (): Promise<AIModelInfo[]> => {
+    const ids = new Set<string>([config.models.chat]);
+    try {
+      const headers: Record<string, string> = {};
+      if (config.apiKey) {
+        headers['Authorization'] = `Bearer ${config.apiKey}`;
+      }
+      const response = await fetch(`${baseUrl}/models`, { headers, signal: AbortSignal.timeout(config.timeoutMs ?? 60000) });
+      if (response.ok) {
+        const data: any = await response.json();
+        for (const model of data.data ?? []) {
+          if (typeof model?.id === 'string') ids.add(model.id);
+        }
+      }
+    } catch (error) {
+      console.error('Listing AI models failed:', error);
+    }
+
+    return [...ids].map(id => ({ id, default: id === config.models.chat }));
+  };
+
+  const chat = async (request: AIChatRequest): Promise<AIChatResponse> => {
+    const model = request.model ?? config.models.chat;
+    const data = await post('/chat/completions', {
+      model,
+      messages: request.messages.map(toWireMessage),
+      temperature: request.temperature,
+      max_tokens: request.max_tokens,
+      stop: request.stop,
+      response_format: request.response_format === 'json' ? { type: 'json_object' } : undefined
+    });
+
+    const content: string = data.choices?.[0]?.message?.content ?? '';
+    return {
+      content,
+      model: data.model ?? model,
+      usage: {
+        prompt_tokens: data.usage?.prompt_tokens ?? estimateMessagesTokens(request.messages),
+        completion_tokens: data.usage?.completion_tokens ?? estimateTokens(content)
+      }
+    };
+  };
+
+  const streamChat = async function* (request: AIChatRequest, signal?: AbortSignal): AsyncIterable<AIChatStreamEvent> {
+    let model = request.model ?? config.models.chat;
+    const response = await send('/chat/completions', {
+      model,
+      messages: request.messages.map(toWireMessage),
+      temperature: request.temperature,
+      max_tokens: request.max_tokens,
+      stop: request.stop,
+      stream: true,
+      stream_options: { include_usage: true }
+    }, signal);
+
+    if (!response.body) {
+      throw new Error('AI provider returned an empty stream');
+    }
+
+    let content = '';
+    let usage: AIUsage | null = null;
+    let buffer = '';
+    const decoder = new TextDecoder();
+
+    // Server-sent events: one `data: {...}` line per chunk, terminated by `data: [DONE]`
+    for await (const bytes of response.body) {
+      buffer += decoder.decode(bytes, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data:')) {
+          continue;
+        }
+
+        const data = trimmed.slice('data:'.length).trim();
+        if (data === '[DONE]') {
+          continue;
+        }
+
+        const chunk = JSON.parse(data);
+        if (chunk.model) {
+          model = chunk.model;
+        }
+        if (chunk.usage) {
+          usage = { prompt_tokens: chunk.usage.prompt_tokens, completion_tokens: chunk.usage.completion_tokens };
+        }
+
+        const delta: string | undefined = chunk.choices?.[0]?.delta?.content;
+        if (delta) {
+          content += delta;
+          yield { type: 'delta', content: delta };
+        }
+      }
+    }
+
+    yield {
+      type: 'done',
+      model,
+      usage: usage ?? {
+        prompt_tokens: estimateMessagesTokens(request.messages),
+        completion_tokens: estimateTokens(content)
+      }
+    };
+  };
+
+  const vision = async (request: AIVisionRequest): Promise<AIChatResponse> => {
+    return chat({
+      model: request.model ?? config.models.vision,
+      messages: [{ role: 'user', content: request.prompt, images: [request.image_url] }]
+    });
+  };
+
+  const generateImage = async (request: AIImageRequest): Promise<AIImageResponse> => {
+    const model = request.model ?? config.models.image;
+    const data = await post('/images/generations', {
+      model,
+      prompt: request.prompt,
+      size: request.size,
+      n: 1
+    });
+
+    const image = data.data?.[0];
+    if (image?.url) {
+      return { image_url: image.url, model };
+    }
+    if (image?.b64_json) {
+      return { image_url: `data:image/png;base64,${image.b64_json}`, model };
+    }
+    throw new Error('AI provider returned no image');
+  };
+
+  const embed = async (request: AIEmbeddingRequest): Promise<AIEmbeddingResponse> => {
+    const model = request.model ?? config.models.embedding;
+    const data = await post('/embeddings', {
+      model,
+      input: request.input
+    });
+
+    // Results may come back out of order; `index` ties them to the input
+    const embeddings: number[][] = [...(data.data ?? [])]
+      .sort((a: any, b: any) => a.index - b.index)
+      .map((item: any) => item.embedding);
+
+    if (embeddings.length !== request.input.length) {
+      throw new Error(`AI provider returned ${embeddings.length} embeddings for ${request.input.length} inputs`);
+    }
+
+    return {
+      embeddings,
+      model: data.model ?? model,
+      usage: {
+        prompt_tokens: data.usage?.prompt_tokens ?? 0,
+        completion_tokens: 0
+      }
+    };
+  };
+
+  return { name: 'openai', listModels, chat, streamChat, vision, generateImage, embed };
+};
+
+const toWireMessage = (message: AIChatMessage): Record<string, any> => {
+  if (!message.images || message.images.length === 0) {
+    return { role: message.role, content: message.content };
+  }
+
+  return {
+    role: message.role,
+    content: [
+      { type: 'text', text: message.content },
+      ...message.images.map(url => ({ type: 'image_url', image_url: { url } }))
+    ]
+  };
+};
@@ -0,0 +1,47 @@
+import { type AIUsage } from './types';
+
+// USD per million tokens (and per generated image for image models)
+export interface ModelPrice {
+  prompt?: number;
+  completion?: number;
+  image?: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+// List prices of the models the openai provider defaults to; the local provider is free
+const defaultPrices: PriceTable = {
+  'google/gemini-2.0-flash-lite-001': { prompt: 0.075, completion: 0.3 },
+  'text-embedding-3-small': { prompt: 0.02 },
+  'dall-e-3': { image: 0.04 }
+};
+
+// Defaults merged with AI_PRICES, a JSON object of the same shape keyed by model id
+export const getPriceTable = (): PriceTable => {
+  const configured = process.env['AI_PRICES'];
+  if (!configured) {
+    return defaultPrices;
+  }
+
+  try {
+    return { ...defaultPrices, ...JSON.parse(configured) };
+  } catch (error) {
+    console.error('AI_PRICES is not valid JSON; using the default prices:', error);
+    return defaultPrices;
+  }
+};
+
+// Returns null for models missing from the price table, so unknown costs are not reported as free
+export const estimateCost = (model: string, usage: AIUsage, images = 0): number | null => {
+  if (model.startsWith('local/')) {
+    return 0;
+  }
+
+  const price = getPriceTable()[model];
+  if (!price) {
+    return null;
+  }
+
+  return (usage.prompt_tokens * (price.prompt ?? 0) + usage.completion_tokens * (price.completion ?? 0)) / 1_000_000
+    + images * (price.image ?? 0);
+};
@@ -0,0 +1,12 @@
+import { type AIChatMessage } from './types';
+
+// Rough token estimate (~4 characters per token) used where a provider
+// does not report usage itself
+export const estimateTokens = (text: string): number => {
+  return Math.ceil(text.length / 4);
+};
+
+export const estimateMessagesTokens = (messages: AIChatMessage[]): number => {
+  // Each turn carries a few tokens of role/formatting overhead
+  return messages.reduce((total, message) => total + estimateTokens(message.content) + 4, 0);
+};
@@ -0,0 +1,86 @@
+// Shared contract for every AI backend used by the handlers
+
+export type AIChatRole = 'system' | 'user' | 'assistant';
+
+export interface AIChatMessage {
+  role: AIChatRole;
+  content: string;
+  images?: string[]; // http(s) or data: URLs attached to this turn
+}
+
+export interface AIUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+}
+
+export interface AIChatRequest {
+  model?: string;
+  messages: AIChatMessage[];
+  temperature?: number;
+  max_tokens?: number;
+  stop?: string[];
+  response_format?: 'text' | 'json'; // 'json' asks for a single JSON object as the reply
+}
+
+export interface AIChatResponse {
+  content: string;
+  model: string;
+  usage: AIUsage;
+}
+
+export type AIChatStreamEvent =
+  | { type: 'delta'; content: string }
+  | { type: 'done'; model: string; usage: AIUsage };
+
+export interface AIVisionRequest {
+  model?: string;
+  prompt: string;
+  image_url: string;
+}
+
+export interface AIImageRequest {
+  model?: string;
+  prompt: string;
+  size?: string;
+}
+
+export interface AIImageResponse {
+  image_url: string;
+  model: string;
+}
+
+export interface AIEmbeddingRequest {
+  model?: string;
+  input: string[];
+}
+
+export interface AIEmbeddingResponse {
+  embeddings: number[][];
+  model: string;
+  usage: AIUsage;
+}
+
+export interface AIModelInfo {
+  id: string;
+  default: boolean; // The chat model used when a request names none
+}
+
+export interface AIProvider {
+  name: string;
+  // Chat models this backend can serve
+  listModels(): Promise<AIModelInfo[]>;
+  chat(request: AIChatRequest): Promise<AIChatResponse>;
+  // Yields content deltas followed by a single 'done' event; aborting the signal stops generation
+  streamChat(request: AIChatRequest, signal?: AbortSignal): AsyncIterable<AIChatStreamEvent>;
+  vision(request: AIVisionRequest): Promise<AIChatResponse>;
+  generateImage(request: AIImageRequest): Promise<AIImageResponse>;
+  embed(request: AIEmbeddingRequest): Promise<AIEmbeddingResponse>;
+}
+
+// Default model names, overridable per provider through env config
+export interface AIModelDefaults {
+  chat: string;
+  vision: string;
+  image: string;
+  embedding: string;
+}
@@ -0,0 +1,36 @@
+import { sql } from 'drizzle-orm';
+import { db } from '.';
+import { syncStudyCards } from '../study';
+
+// Chats saved before messages were linked to their parents start with a run of
+// messages without parent_id, which would read as unrelated roots. Those chats were
+// linear, so each message of that run is linked to the one before it. Linked chats
+// are left alone, so running this again changes nothing
+export const linkLegacyChatMessages = async (executor: Pick<typeof db, 'execute'> = db): Promise<number> => {
+  const result = await executor.execute(sql`
+    with ordered as (
+      select id, parent_id,
+        lag(id) over (partition by session_id order by created_at, id) as previous_id,
+        count(parent_id) over (partition by session_id order by created_at, id) as linked_before
+      from chat_messages
+    )
+    update chat_messages
+    set parent_id = ordered.previous_id
+    from ordered
+    where chat_messages.id = ordered.id
+      and ordered.parent_id is null
+      and ordered.linked_before = 0
+      and ordered.previous_id is not null
+  `);
+  return result.rowCount ?? 0;
+};
+
+// Data fixes the schema push can't express; run once when the server starts
+export const migrateData = async (): Promise<void> => {
+  const linked = await linkLegacyChatMessages();
+  if (linked > 0) {
+    console.log(`Linked ${linked} chat messages saved before branching`);
+  }
+  // Quizzes saved before study cards existed; new quizzes get theirs when generated
+  await syncStudyCards();
+};
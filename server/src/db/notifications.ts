@@ -0,0 +1,73 @@
+import 'dotenv/config';
+import { Client } from 'pg';
+import { sql } from 'drizzle-orm';
+import { db } from '.';
+
+type NotificationListener = (payload: string) => void;
+
+// One LISTEN connection per process, shared by every subscriber. Pooled
+// connections can't be used: notifications only reach the session that listens
+let connection: Promise<Client> | null = null;
+const listeners = new Map<string, Set<NotificationListener>>();
+
+const connect = async (): Promise<Client> => {
+  const client = new Client({ connectionString: process.env['APP_DATABASE_URL']! });
+  client.on('notification', (message) => {
+    listeners.get(message.channel)?.forEach(listener => listener(message.payload ?? ''));
+  });
+  // Subscribers miss notifications until the next listen() reconnects, so they
+  // must not rely on notifications alone
+  client.on('error', (error) => {
+    console.error('Notification connection failed:', error);
+    connection = null;
+    client.end().catch(() => {});
+  });
+
+  await client.connect();
+  for (const channel of listeners.keys()) {
+    await client.query(`LISTEN ${client.escapeIdentifier(channel)}`);
+  }
+  return client;
+};
+
+// Reaches listeners in every process connected to the same database, once the
+// surrounding transaction (if any) commits
+export const notify = async (channel: string, payload: string): Promise<void> => {
+  await db.execute(sql`select pg_notify(${channel}, ${payload})`);
+};
+
+// Returns a function that removes the listener again
+export const listen = async (channel: string, listener: NotificationListener): Promise<() => Promise<void>> => {
+  let channelListeners = listeners.get(channel);
+  const isNewChannel = !channelListeners;
+  if (!channelListeners) {
+    channelListeners = new Set();
+    listeners.set(channel, channelListeners);
+  }
+  channelListeners.add(listener);
+
+  try {
+    connection ??= connect();
+    const client = await connection;
+    if (isNewChannel) {
+      await client.query(`LISTEN ${client.escapeIdentifier(channel)}`);
+    }
+  } catch (error) {
+    connection = null;
+    channelListeners.delete(listener);
+    if (channelListeners.size === 0) {
+      listeners.delete(channel);
+    }
+    throw error;
+  }
+
+  return async () => {
+    channelListeners.delete(listener);
+    if (channelListeners.size > 0 || listeners.get(channel) !== channelListeners) {
+      return;
+    }
+    listeners.delete(channel);
+    const client = await connection?.catch(() => null);
+    await client?.query(`UNLISTEN ${client.escapeIdentifier(channel)}`);
+  };
+};
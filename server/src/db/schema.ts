@@ -5,21 +5,94 @@ import {
   timestamp, 
   boolean, 
   json,
-  pgEnum
+  pgEnum,
+  integer,
+  index,
+  uniqueIndex,
+  real,
+  doublePrecision,
+  type AnyPgColumn
 } from 'drizzle-orm/pg-core';
+import { sql, type SQL } from 'drizzle-orm';
 
 // Enums
 export const messageRoleEnum = pgEnum('message_role', ['user', 'assistant']);
 export const contentTypeEnum = pgEnum('content_type', ['text', 'image', 'pdf']);
-export const videoStatusEnum = pgEnum('video_status', ['pending', 'processing', 'completed', 'failed']);
+export const titleSourceEnum = pgEnum('title_source', ['default', 'auto', 'manual']);
+export const videoStatusEnum = pgEnum('video_status', ['pending', 'processing', 'completed', 'failed', 'cancelled']);
+export const jobStatusEnum = pgEnum('job_status', ['queued', 'running', 'completed', 'failed', 'cancelled']);
+export const usageFeatureEnum = pgEnum('usage_feature', ['chat', 'chat_title', 'document_analysis', 'image', 'video', 'quiz', 'web_search', 'pdf_indexing']);
+export const quizSourceTypeEnum = pgEnum('quiz_source_type', ['text', 'attachment', 'document_analysis', 'web_search', 'chat_session']);
+export const usageOperationEnum = pgEnum('usage_operation', ['chat', 'stream', 'vision', 'image', 'embedding', 'video']);
+
+// Full-text search documents. Each table has a GIN index on exactly this
+// expression, so search queries must build their tsvector through it too
+const englishText = (column: AnyPgColumn, weight: 'A' | 'B'): SQL =>
+  sql`setweight(to_tsvector('english', coalesce(${column}, '')), ${sql.raw(`'${weight}'`)})`;
+
+export const searchDocuments = {
+  chatMessages: (table: { content: AnyPgColumn }): SQL =>
+    englishText(table.content, 'A'),
+  documentAnalysis: (table: { prompt: AnyPgColumn; analysis_result: AnyPgColumn }): SQL =>
+    sql`(${englishText(table.prompt, 'A')} || ${englishText(table.analysis_result, 'B')})`,
+  generatedImages: (table: { prompt: AnyPgColumn }): SQL =>
+    englishText(table.prompt, 'A'),
+  generatedVideos: (table: { prompt: AnyPgColumn }): SQL =>
+    englishText(table.prompt, 'A'),
+  // Only the string values of the quiz JSON (questions, options, answers) are indexed
+  quiz: (table: { source_text: AnyPgColumn; quiz_data: AnyPgColumn }): SQL =>
+    sql`(${englishText(table.source_text, 'B')} || setweight(jsonb_to_tsvector('english', ${table.quiz_data}::jsonb, '["string"]'), 'A'))`,
+  webSearch: (table: { query: AnyPgColumn; summary: AnyPgColumn }): SQL =>
+    sql`(${englishText(table.query, 'A')} || ${englishText(table.summary, 'B')})`,
+};
+
+// Personas table: reusable system prompts that chat sessions can pin
+export const personasTable = pgTable('personas', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull(),
+  system_prompt: text('system_prompt').notNull(),
+  model_params: json('model_params').notNull().default({}), // Default temperature, max_tokens etc. for replies
+  examples: json('examples').notNull().default([]), // Few-shot user/assistant pairs sent before the history
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Uploaded files. The bytes live in object storage under `storage_key`; identical
+// content is stored once, so uploading it again returns the existing row
+export const attachmentsTable = pgTable('attachments', {
+  id: serial('id').primaryKey(),
+  sha256: text('sha256').notNull().unique(),
+  filename: text('filename').notNull(), // Name it was first uploaded with
+  mime_type: text('mime_type').notNull(), // Sniffed from the content, not taken from the client
+  size_bytes: integer('size_bytes').notNull(),
+  storage_key: text('storage_key').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Chunked uploads in progress. Deliberately left out of `tables`: half-finished
+// uploads are worthless in a backup
+export const attachmentUploadsTable = pgTable('attachment_uploads', {
+  id: text('id').primaryKey(), // Handed to the client
+  filename: text('filename').notNull(),
+  storage_key: text('storage_key').notNull(), // Where the parts are assembled
+  storage_upload_id: text('storage_upload_id').notNull(), // The storage backend's multipart upload ID
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
 
 // Chat sessions table
 export const chatSessionsTable = pgTable('chat_sessions', {
   id: text('id').primaryKey(),
   title: text('title'), // Nullable by default
+  title_source: titleSourceEnum('title_source').notNull().default('default'), // Manual titles are never auto-replaced
   gen_z_mode: boolean('gen_z_mode').notNull().default(false),
   copy_code_only_mode: boolean('copy_code_only_mode').notNull().default(false),
   target_language: text('target_language'), // Nullable by default
+  persona_id: integer('persona_id').references(() => personasTable.id, { onDelete: 'set null' }),
+  // Generation settings; null falls back to the persona's, then the provider's defaults
+  model: text('model'),
+  temperature: real('temperature'),
+  max_tokens: integer('max_tokens'),
+  stop: json('stop').$type<string[]>(), // Stop sequences
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
 });
@@ -28,21 +101,54 @@ export const chatSessionsTable = pgTable('chat_sessions', {
 export const chatMessagesTable = pgTable('chat_messages', {
   id: serial('id').primaryKey(),
   session_id: text('session_id').notNull().references(() => chatSessionsTable.id, { onDelete: 'cascade' }),
+  // Previous turn in the conversation tree; null for the first message. Siblings are alternative branches
+  parent_id: integer('parent_id').references((): AnyPgColumn => chatMessagesTable.id, { onDelete: 'cascade' }),
   role: messageRoleEnum('role').notNull(),
   content: text('content').notNull(),
   content_type: contentTypeEnum('content_type').notNull().default('text'),
+  attachment_id: integer('attachment_id').references(() => attachmentsTable.id, { onDelete: 'set null' }), // Image or PDF sent with the message
   metadata: json('metadata'), // Nullable by default, stores additional data
   created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('chat_messages_search_idx').using('gin', searchDocuments.chatMessages(table)),
+]);
+
+// PDFs uploaded to a chat session for retrieval-augmented replies
+export const pdfDocumentsTable = pgTable('pdf_documents', {
+  id: serial('id').primaryKey(),
+  session_id: text('session_id').notNull().references(() => chatSessionsTable.id, { onDelete: 'cascade' }),
+  attachment_id: integer('attachment_id').references(() => attachmentsTable.id, { onDelete: 'set null' }), // The original file
+  filename: text('filename').notNull(),
+  page_count: integer('page_count').notNull(),
+  embedding_model: text('embedding_model').notNull(), // Queries must be embedded with the same model
+  created_at: timestamp('created_at').defaultNow().notNull(),
 });
 
+// Text chunks of an uploaded PDF with their embeddings. Each chunk lies on a single page,
+// which is what replies cite
+export const pdfChunksTable = pgTable('pdf_chunks', {
+  id: serial('id').primaryKey(),
+  document_id: integer('document_id').notNull().references(() => pdfDocumentsTable.id, { onDelete: 'cascade' }),
+  chunk_index: integer('chunk_index').notNull(),
+  page: integer('page').notNull(), // 1-based
+  text: text('text').notNull(),
+  // Plain array so no extension is needed; cast to pgvector's vector type when it is installed
+  embedding: real('embedding').array().notNull(),
+}, (table) => [
+  index('pdf_chunks_document_id_idx').on(table.document_id),
+]);
+
 // Document analysis table
 export const documentAnalysisTable = pgTable('document_analysis', {
   id: serial('id').primaryKey(),
-  image_url: text('image_url').notNull(),
+  image_url: text('image_url'), // Set when a remote image was analyzed
+  attachment_id: integer('attachment_id').references(() => attachmentsTable.id, { onDelete: 'set null' }), // Set for uploaded images
   prompt: text('prompt').notNull(),
   analysis_result: text('analysis_result').notNull(),
   created_at: timestamp('created_at').defaultNow().notNull(),
-});
+}, (table) => [
+  index('document_analysis_search_idx').using('gin', searchDocuments.documentAnalysis(table)),
+]);
 
 // Generated images table
 export const generatedImagesTable = pgTable('generated_images', {
@@ -50,44 +156,166 @@ export const generatedImagesTable = pgTable('generated_images', {
   prompt: text('prompt').notNull(),
   image_url: text('image_url').notNull(),
   created_at: timestamp('created_at').defaultNow().notNull(),
-});
+}, (table) => [
+  index('generated_images_search_idx').using('gin', searchDocuments.generatedImages(table)),
+]);
 
 // Generated videos table
 export const generatedVideosTable = pgTable('generated_videos', {
   id: serial('id').primaryKey(),
   prompt: text('prompt').notNull(),
   initial_image_url: text('initial_image_url'), // Nullable by default
+  initial_image_attachment_id: integer('initial_image_attachment_id').references(() => attachmentsTable.id, { onDelete: 'set null' }),
   video_url: text('video_url'), // Nullable by default
   status: videoStatusEnum('status').notNull().default('pending'),
+  progress: integer('progress').notNull().default(0), // Percent, 0-100
   progress_message: text('progress_message'), // Nullable by default
   created_at: timestamp('created_at').defaultNow().notNull(),
+  started_at: timestamp('started_at'), // Start of the current attempt, for ETAs
   completed_at: timestamp('completed_at'), // Nullable by default
-});
+}, (table) => [
+  index('generated_videos_search_idx').using('gin', searchDocuments.generatedVideos(table)),
+]);
 
 // Quiz table
 export const quizTable = pgTable('quiz', {
   id: serial('id').primaryKey(),
-  source_text: text('source_text').notNull(),
+  source_text: text('source_text').notNull(), // The text the questions were written from; source spans index into it
+  source_type: quizSourceTypeEnum('source_type').notNull().default('text'),
+  // Not a foreign key: the attachment, analysis, search or chat session may be deleted while the quiz is kept
+  source_ref: text('source_ref'), // Its id, as text because chat session ids are strings; null for typed text
+  source_title: text('source_title'), // File name, prompt, query or chat title at the time the quiz was made
+  source_sections: json('source_sections'), // PDF pages or chat messages covering parts of source_text
   quiz_data: json('quiz_data').notNull(), // Stores quiz questions and answers
   created_at: timestamp('created_at').defaultNow().notNull(),
-});
+}, (table) => [
+  index('quiz_search_idx').using('gin', searchDocuments.quiz(table)),
+]);
+
+// Graded submissions of a quiz. Answers and per-question results line up with
+// the quiz's questions by index
+export const quizAttemptsTable = pgTable('quiz_attempts', {
+  id: serial('id').primaryKey(),
+  quiz_id: integer('quiz_id').notNull().references(() => quizTable.id, { onDelete: 'cascade' }),
+  answers: json('answers').notNull(), // One entry per question, null when left blank
+  results: json('results').notNull(), // Score (0-1) and correctness per question
+  score: real('score').notNull(), // Sum of the question scores
+  max_score: integer('max_score').notNull(), // Number of questions
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('quiz_attempts_quiz_id_idx').on(table.quiz_id, table.created_at),
+]);
+
+// SM-2 spaced-repetition state of one quiz question. Cards are created for every
+// question of every quiz (see syncStudyCards) and rescheduled by reviews and attempts
+export const studyCardsTable = pgTable('study_cards', {
+  id: serial('id').primaryKey(),
+  quiz_id: integer('quiz_id').notNull().references(() => quizTable.id, { onDelete: 'cascade' }),
+  question_index: integer('question_index').notNull(),
+  ease_factor: real('ease_factor').notNull().default(2.5),
+  interval_days: integer('interval_days').notNull().default(0), // 0 until the first successful review
+  repetitions: integer('repetitions').notNull().default(0), // Successful reviews in a row
+  lapses: integer('lapses').notNull().default(0), // Times the card was forgotten
+  due_at: timestamp('due_at').defaultNow().notNull(),
+  last_reviewed_at: timestamp('last_reviewed_at'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('study_cards_question_idx').on(table.quiz_id, table.question_index),
+  index('study_cards_due_at_idx').on(table.due_at),
+]);
 
 // Web search table
 export const webSearchTable = pgTable('web_search', {
   id: serial('id').primaryKey(),
   query: text('query').notNull(),
   summary: text('summary').notNull(),
-  sources: json('sources').notNull(), // Array of URLs stored as JSON
+  sources: json('sources').notNull(), // Search results in citation order; plain URL strings in searches saved before that
   created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('web_search_search_idx').using('gin', searchDocuments.webSearch(table)),
+]);
+
+// User preferences. The app has a single user, so this holds one row (id 'default');
+// new chat sessions take their modes from it
+export const preferencesTable = pgTable('preferences', {
+  id: text('id').primaryKey().default('default'),
+  notifications_enabled: boolean('notifications_enabled').notNull().default(false),
+  auto_save_enabled: boolean('auto_save_enabled').notNull().default(true),
+  dark_mode: boolean('dark_mode').notNull().default(true),
+  analytics_enabled: boolean('analytics_enabled').notNull().default(false),
+  gen_z_mode: boolean('gen_z_mode').notNull().default(false),
+  copy_code_only_mode: boolean('copy_code_only_mode').notNull().default(false),
+  target_language: text('target_language'), // Null means no translation
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// One row per completed AI provider call, for usage and cost reporting
+export const aiUsageTable = pgTable('ai_usage', {
+  id: serial('id').primaryKey(),
+  feature: usageFeatureEnum('feature').notNull(),
+  operation: usageOperationEnum('operation').notNull(),
+  session_id: text('session_id').references(() => chatSessionsTable.id, { onDelete: 'set null' }), // Kept for totals after the chat is deleted
+  model: text('model').notNull(),
+  prompt_tokens: integer('prompt_tokens').notNull(),
+  completion_tokens: integer('completion_tokens').notNull(),
+  cost_usd: doublePrecision('cost_usd'), // Null when the model has no price configured
+  latency_ms: integer('latency_ms').notNull(),
+  aborted: boolean('aborted').notNull().default(false), // Stream stopped or failed early; tokens are estimated
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('ai_usage_created_at_idx').on(table.created_at),
+]);
+
+// Background jobs, claimed by workers with SELECT ... FOR UPDATE SKIP LOCKED.
+// Left out of `tables` like attachment uploads: a restored job would point at
+// work that is long gone
+export const jobsTable = pgTable('jobs', {
+  id: serial('id').primaryKey(),
+  kind: text('kind').notNull(), // Selects the worker's handler, e.g. 'video'
+  payload: json('payload').$type<Record<string, unknown>>().notNull(),
+  status: jobStatusEnum('status').notNull().default('queued'),
+  attempts: integer('attempts').notNull().default(0), // Claims so far, including the running one
+  max_attempts: integer('max_attempts').notNull(),
+  run_at: timestamp('run_at').notNull(), // Not claimable before this, used for retry backoff
+  locked_by: text('locked_by'), // Worker running the job
+  heartbeat_at: timestamp('heartbeat_at'), // Running jobs without a recent heartbeat are recovered
+  last_error: text('last_error'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  index('jobs_claim_idx').on(table.status, table.run_at),
+]);
+
+// Nonces of accepted video webhook calls, kept for as long as their timestamp
+// would still be accepted so a captured request cannot be replayed. Transient,
+// so not in `tables`
+export const webhookNoncesTable = pgTable('webhook_nonces', {
+  nonce: text('nonce').primaryKey(),
+  received_at: timestamp('received_at').defaultNow().notNull(),
 });
 
 // TypeScript types for the table schemas
+export type Persona = typeof personasTable.$inferSelect;
+export type NewPersona = typeof personasTable.$inferInsert;
+
+export type Attachment = typeof attachmentsTable.$inferSelect;
+export type NewAttachment = typeof attachmentsTable.$inferInsert;
+
+export type AttachmentUpload = typeof attachmentUploadsTable.$inferSelect;
+export type NewAttachmentUpload = typeof attachmentUploadsTable.$inferInsert;
+
 export type ChatSession = typeof chatSessionsTable.$inferSelect;
 export type NewChatSession = typeof chatSessionsTable.$inferInsert;
 
 export type ChatMessage = typeof chatMessagesTable.$inferSelect;
 export type NewChatMessage = typeof chatMessagesTable.$inferInsert;
 
+export type PdfDocument = typeof pdfDocumentsTable.$inferSelect;
+export type NewPdfDocument = typeof pdfDocumentsTable.$inferInsert;
+
+export type PdfChunk = typeof pdfChunksTable.$inferSelect;
+export type NewPdfChunk = typeof pdfChunksTable.$inferInsert;
+
 export type DocumentAnalysis = typeof documentAnalysisTable.$inferSelect;
 export type NewDocumentAnalysis = typeof documentAnalysisTable.$inferInsert;
 
@@ -100,16 +328,40 @@ export type NewGeneratedVideo = typeof generatedVideosTable.$inferInsert;
 export type Quiz = typeof quizTable.$inferSelect;
 export type NewQuiz = typeof quizTable.$inferInsert;
 
+export type QuizAttempt = typeof quizAttemptsTable.$inferSelect;
+export type NewQuizAttempt = typeof quizAttemptsTable.$inferInsert;
+
+export type StudyCard = typeof studyCardsTable.$inferSelect;
+export type NewStudyCard = typeof studyCardsTable.$inferInsert;
+
 export type WebSearch = typeof webSearchTable.$inferSelect;
 export type NewWebSearch = typeof webSearchTable.$inferInsert;
 
-// Export all tables for relation queries
+export type Preferences = typeof preferencesTable.$inferSelect;
+export type NewPreferences = typeof preferencesTable.$inferInsert;
+
+export type AiUsage = typeof aiUsageTable.$inferSelect;
+export type NewAiUsage = typeof aiUsageTable.$inferInsert;
+
+export type Job = typeof jobsTable.$inferSelect;
+export type NewJob = typeof jobsTable.$inferInsert;
+
+// Export all tables for relation queries. Backups dump and restore every table
+// listed here in this order, so referenced tables must come before their referrers
 export const tables = {
+  personas: personasTable,
+  attachments: attachmentsTable,
   chatSessions: chatSessionsTable,
   chatMessages: chatMessagesTable,
+  pdfDocuments: pdfDocumentsTable,
+  pdfChunks: pdfChunksTable,
   documentAnalysis: documentAnalysisTable,
   generatedImages: generatedImagesTable,
   generatedVideos: generatedVideosTable,
   quiz: quizTable,
+  quizAttempts: quizAttemptsTable,
+  studyCards: studyCardsTable,
   webSearch: webSearchTable,
+  preferences: preferencesTable,
+  aiUsage: aiUsageTable,
 };
\ No newline at end of file
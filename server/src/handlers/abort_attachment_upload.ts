@@ -0,0 +1,19 @@
+import { db } from '../db';
+import { attachmentUploadsTable } from '../db/schema';
+import { getStorage } from '../storage';
+import { loadAttachmentUpload } from './start_attachment_upload';
+import { eq } from 'drizzle-orm';
+
+export const abortAttachmentUpload = async (uploadId: string): Promise<void> => {
+  try {
+    const upload = await loadAttachmentUpload(uploadId);
+
+    await getStorage().abortMultipartUpload(upload.storage_key, upload.storage_upload_id);
+    await db.delete(attachmentUploadsTable)
+      .where(eq(attachmentUploadsTable.id, uploadId))
+      .execute();
+  } catch (error) {
+    console.error('Attachment upload abort failed:', error);
+    throw error;
+  }
+};
\ No newline at end of file
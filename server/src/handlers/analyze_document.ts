@@ -1,17 +1,34 @@
 import { db } from '../db';
 import { documentAnalysisTable } from '../db/schema';
 import { type CreateDocumentAnalysisInput, type DocumentAnalysis } from '../schema';
+import { getMeteredProvider } from './record_ai_usage';
+import { getAttachment, readAttachmentDataUrl } from './get_attachment';
+import { isImageMimeType } from '../storage';
 
 export const analyzeDocument = async (input: CreateDocumentAnalysisInput): Promise<DocumentAnalysis> => {
   try {
-    // For now, simulate AI analysis with a structured response
-    // In a real implementation, this would call a multimodal AI service
-    const analysisResult = await simulateAIAnalysis(input.image_url, input.prompt);
+    // Uploaded images are sent inline; only the attachment ID is stored
+    let imageUrl = input.image_url;
+    if (input.attachment_id !== undefined) {
+      const attachment = await getAttachment({ id: input.attachment_id });
+      if (!isImageMimeType(attachment.mime_type)) {
+        throw new Error(`Attachment ${attachment.id} is not an image`);
+      }
+      imageUrl = await readAttachmentDataUrl(attachment);
+    }
+
+    // Run the document image through the configured multimodal provider
+    const analysis = await getMeteredProvider({ feature: 'document_analysis' }).vision({
+      image_url: imageUrl!,
+      prompt: input.prompt
+    });
+    const analysisResult = analysis.content;
 
     // Insert document analysis record
     const result = await db.insert(documentAnalysisTable)
       .values({
-        image_url: input.image_url,
+        image_url: input.image_url ?? null,
+        attachment_id: input.attachment_id ?? null,
         prompt: input.prompt,
         analysis_result: analysisResult
       })
@@ -23,30 +40,4 @@ export const analyzeDocument = async (input: CreateDocumentAnalysisInput): Promi
     console.error('Document analysis failed:', error);
     throw error;
   }
-};
-
-// Simulate AI analysis - in real implementation, this would call external AI service
-const simulateAIAnalysis = async (imageUrl: string, prompt: string): Promise<string> => {
-  // Simulate processing delay
-  await new Promise(resolve => setTimeout(resolve, 100));
-  
-  // Generate a realistic analysis response based on the prompt
-  const analysisTemplates = {
-    'extract text': `Text extracted from document at ${imageUrl}:\n\nThis document appears to contain structured text content. Key information has been identified and extracted for further processing.`,
-    'summarize': `Document Summary:\n\nThis document has been analyzed and summarized. The main points and key information have been identified and condensed into a concise overview.`,
-    'analyze': `Document Analysis:\n\nBased on the analysis of the image at ${imageUrl}, this document contains structured information that has been processed according to your request: "${prompt}".`,
-    'default': `Document processed successfully. Analysis completed for image: ${imageUrl}\n\nPrompt: ${prompt}\n\nThe document has been analyzed using multimodal AI capabilities.`
-  };
-
-  // Choose appropriate template based on prompt content
-  const promptLower = prompt.toLowerCase();
-  if (promptLower.includes('extract') || promptLower.includes('text')) {
-    return analysisTemplates['extract text'];
-  } else if (promptLower.includes('summarize') || promptLower.includes('summary')) {
-    return analysisTemplates['summarize'];
-  } else if (promptLower.includes('analyze') || promptLower.includes('analysis')) {
-    return analysisTemplates['analyze'];
-  } else {
-    return analysisTemplates['default'];
-  }
 };
\ No newline at end of file
@@ -0,0 +1,19 @@
+import { type CancelAiMessageInput } from '../schema';
+import { activeStreams } from './stream_ai_message';
+
+export async function cancelAiMessage(input: CancelAiMessageInput): Promise<{ cancelled: boolean }> {
+  try {
+    const controller = activeStreams.get(input.streamId);
+    if (!controller) {
+      // Already finished or never started
+      return { cancelled: false };
+    }
+
+    // The stream persists the partial answer and emits a 'cancelled' event
+    controller.abort();
+    return { cancelled: true };
+  } catch (error) {
+    console.error('AI message cancellation failed:', error);
+    throw error;
+  }
+}
\ No newline at end of file
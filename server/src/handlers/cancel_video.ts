@@ -0,0 +1,40 @@
+import { db } from '../db';
+import { generatedVideosTable } from '../db/schema';
+import { type CancelVideoInput, type GeneratedVideo } from '../schema';
+import { cancelJobs } from '../jobs';
+import { notifyVideoChanged, VIDEO_JOB_KIND } from '../video';
+import { getVideoStatus } from './get_video_status';
+import { and, eq, inArray } from 'drizzle-orm';
+
+// Stops a pending or processing video. Its job is cancelled with it, so a worker
+// running it gives up at its next heartbeat
+export const cancelVideo = async (input: CancelVideoInput): Promise<GeneratedVideo> => {
+  try {
+    const cancelled = await db.transaction(async (tx) => {
+      const result = await tx.update(generatedVideosTable)
+        .set({ status: 'cancelled', progress_message: 'Video generation cancelled' })
+        .where(and(
+          eq(generatedVideosTable.id, input.id),
+          inArray(generatedVideosTable.status, ['pending', 'processing'])
+        ))
+        .returning()
+        .execute();
+
+      if (result.length > 0) {
+        await cancelJobs(VIDEO_JOB_KIND, { video_id: input.id }, tx);
+      }
+      return result[0];
+    });
+
+    if (!cancelled) {
+      const video = await getVideoStatus({ id: input.id });
+      throw new Error(`Video with id ${input.id} is already ${video.status}`);
+    }
+
+    await notifyVideoChanged(input.id);
+    return cancelled;
+  } catch (error) {
+    console.error('Video cancellation failed:', error);
+    throw error;
+  }
+};
\ No newline at end of file
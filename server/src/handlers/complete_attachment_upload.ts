@@ -0,0 +1,43 @@
+import { db } from '../db';
+import { attachmentUploadsTable } from '../db/schema';
+import { type Attachment } from '../schema';
+import { getStorage } from '../storage';
+import { createAttachment } from './create_attachment';
+import { loadAttachmentUpload } from './start_attachment_upload';
+import { eq } from 'drizzle-orm';
+
+// Joins the uploaded parts in order and stores the result like a single upload,
+// including hashing for dedup and type sniffing
+export const completeAttachmentUpload = async (uploadId: string): Promise<Attachment> => {
+  try {
+    const upload = await loadAttachmentUpload(uploadId);
+    const storage = getStorage();
+
+    const parts = await storage.listParts(upload.storage_key, upload.storage_upload_id);
+    if (parts.length === 0) {
+      throw new Error('No parts have been uploaded');
+    }
+    const gap = parts.findIndex((part, index) => part.partNumber !== index + 1);
+    if (gap !== -1) {
+      throw new Error(`Part ${gap + 1} is missing`);
+    }
+
+    await storage.completeMultipartUpload(upload.storage_key, upload.storage_upload_id, parts);
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of await storage.getObject(upload.storage_key)) {
+      chunks.push(chunk);
+    }
+    const attachment = await createAttachment(upload.filename, Buffer.concat(chunks));
+
+    await storage.deleteObject(upload.storage_key);
+    await db.delete(attachmentUploadsTable)
+      .where(eq(attachmentUploadsTable.id, uploadId))
+      .execute();
+
+    return attachment;
+  } catch (error) {
+    console.error('Attachment upload completion failed:', error);
+    throw error;
+  }
+};
\ No newline at end of file
@@ -0,0 +1,66 @@
+import { createHash } from 'crypto';
+import { db } from '../db';
+import { attachmentsTable } from '../db/schema';
+import { type Attachment } from '../schema';
+import { getAttachmentOptions, getStorage, sniffMimeType } from '../storage';
+import { eq } from 'drizzle-orm';
+
+export class AttachmentTooLargeError extends Error {}
+export class UnsupportedAttachmentTypeError extends Error {}
+
+export const assertAttachmentSize = (size: number): void => {
+  const { maxBytes } = getAttachmentOptions();
+  if (size > maxBytes) {
+    throw new AttachmentTooLargeError(`Attachments larger than ${maxBytes} bytes are not accepted`);
+  }
+};
+
+// Stores the file unless identical content was uploaded before, in which case
+// the existing attachment is returned
+export const createAttachment = async (filename: string, data: Buffer): Promise<Attachment> => {
+  try {
+    assertAttachmentSize(data.length);
+
+    const mimeType = sniffMimeType(data);
+    if (!mimeType) {
+      throw new UnsupportedAttachmentTypeError('Unsupported file type; images, PDFs, videos and plain text can be attached');
+    }
+
+    const sha256 = createHash('sha256').update(data).digest('hex');
+    const existing = await findBySha256(sha256);
+    if (existing) {
+      return existing;
+    }
+
+    // Content-addressed, so a retry after a failed insert rewrites the same object
+    const storageKey = `sha256/${sha256.slice(0, 2)}/${sha256}`;
+    await getStorage().putObject(storageKey, data);
+
+    const result = await db.insert(attachmentsTable)
+      .values({
+        sha256,
+        filename,
+        mime_type: mimeType,
+        size_bytes: data.length,
+        storage_key: storageKey
+      })
+      .onConflictDoNothing({ target: attachmentsTable.sha256 })
+      .returning()
+      .execute();
+
+    // Lost a race with a concurrent upload of the same content
+    return result[0] ?? (await findBySha256(sha256))!;
+  } catch (error) {
+    console.error('Attachment creation failed:', error);
+    throw error;
+  }
+};
+
+const findBySha256 = async (sha256: string): Promise<Attachment | undefined> => {
+  const result = await db.select()
+    .from(attachmentsTable)
+    .where(eq(attachmentsTable.sha256, sha256))
+    .execute();
+
+  return result[0];
+};
\ No newline at end of file
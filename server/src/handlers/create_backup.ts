@@ -0,0 +1,112 @@
+import { db } from '../db';
+import { attachmentsTable, tables } from '../db/schema';
+import { BACKUP_SCHEMA_VERSION, type Attachment, type BackupLine } from '../schema';
+import { ObjectNotFoundError } from '../storage';
+import { asc, gt, getTableColumns } from 'drizzle-orm';
+import { getTableConfig, type PgColumn, type PgTable } from 'drizzle-orm/pg-core';
+import { readAttachment } from './get_attachment';
+
+const PAGE_SIZE = 500;
+
+// Yields the backup as NDJSON lines, paging through each table by primary key
+// so large accounts never have to fit in memory
+export async function* createBackup(): AsyncGenerator<string> {
+  try {
+    const backupTables = getBackupTables();
+    const counts: Record<string, number> = {};
+
+    yield toLine({
+      type: 'header',
+      format: 'okaigpt-backup',
+      schema_version: BACKUP_SCHEMA_VERSION,
+      created_at: new Date(),
+      tables: backupTables.map(({ name }) => name)
+    });
+
+    for (const { name, table, primaryKey, primaryKeyField } of backupTables) {
+      counts[name] = 0;
+      let lastKey: unknown = undefined;
+
+      while (true) {
+        const rows: Record<string, unknown>[] = await db.select()
+          .from(table)
+          .where(lastKey === undefined ? undefined : gt(primaryKey, lastKey))
+          .orderBy(asc(primaryKey))
+          .limit(PAGE_SIZE)
+          .execute();
+
+        for (const row of rows) {
+          yield toLine({ type: 'row', table: name, data: row });
+        }
+
+        counts[name] += rows.length;
+        if (rows.length < PAGE_SIZE) break;
+        lastKey = rows[rows.length - 1][primaryKeyField];
+      }
+    }
+
+    // The rows only point at stored files, which a restore on another server would lack
+    let files = 0;
+    for await (const attachment of listAttachments()) {
+      const data = await readStoredFile(attachment);
+      if (data) {
+        yield toLine({ type: 'file', storage_key: attachment.storage_key, data: data.toString('base64') });
+        files++;
+      }
+    }
+
+    yield toLine({ type: 'footer', counts, files });
+  } catch (error) {
+    console.error('Backup creation failed:', error);
+    throw error;
+  }
+}
+
+async function* listAttachments(): AsyncGenerator<Attachment> {
+  let lastId = 0;
+  while (true) {
+    const attachments = await db.select()
+      .from(attachmentsTable)
+      .where(gt(attachmentsTable.id, lastId))
+      .orderBy(asc(attachmentsTable.id))
+      .limit(PAGE_SIZE)
+      .execute();
+
+    yield* attachments;
+    if (attachments.length < PAGE_SIZE) break;
+    lastId = attachments[attachments.length - 1].id;
+  }
+}
+
+// A file already lost from storage is left out; restoring the backup reports it as missing
+const readStoredFile = async (attachment: Attachment): Promise<Buffer | null> => {
+  try {
+    return await readAttachment(attachment);
+  } catch (error) {
+    if (error instanceof ObjectNotFoundError) {
+      console.error(`Attachment ${attachment.id} has no stored file; backing up its record only`);
+      return null;
+    }
+    throw error;
+  }
+};
+
+export interface BackupTable {
+  name: string; // Database table name, as written in the backup
+  table: PgTable;
+  columns: Record<string, PgColumn>; // Keyed by row field
+  primaryKey: PgColumn;
+  primaryKeyField: string;
+}
+
+export const getBackupTables = (): BackupTable[] =>
+  Object.values(tables).map((table: PgTable) => {
+    const columns: Record<string, PgColumn> = getTableColumns(table);
+    const primaryKeyField = Object.keys(columns).find(field => columns[field].primary);
+    if (!primaryKeyField) {
+      throw new Error(`Table ${getTableConfig(table).name} has no single-column primary key and cannot be backed up`);
+    }
+    return { name: getTableConfig(table).name, table, columns, primaryKey: columns[primaryKeyField], primaryKeyField };
+  });
+
+const toLine = (line: BackupLine): string => `${JSON.stringify(line)}\n`;
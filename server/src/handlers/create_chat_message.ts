@@ -1,7 +1,7 @@
 import { db } from '../db';
 import { chatMessagesTable, chatSessionsTable } from '../db/schema';
 import { type CreateChatMessageInput, type ChatMessage } from '../schema';
-import { eq } from 'drizzle-orm';
+import { eq, and } from 'drizzle-orm';
 
 export const createChatMessage = async (input: CreateChatMessageInput): Promise<ChatMessage> => {
   try {
@@ -15,10 +15,26 @@ export const createChatMessage = async (input: CreateChatMessageInput): Promise<
       throw new Error(`Chat session with id ${input.session_id} does not exist`);
     }
 
+    // Parent must be a message of the same session
+    if (input.parent_id != null) {
+      const parents = await db.select()
+        .from(chatMessagesTable)
+        .where(and(
+          eq(chatMessagesTable.id, input.parent_id),
+          eq(chatMessagesTable.session_id, input.session_id)
+        ))
+        .execute();
+
+      if (parents.length === 0) {
+        throw new Error(`Parent message with id ${input.parent_id} does not exist in session ${input.session_id}`);
+      }
+    }
+
     // Insert the chat message
     const result = await db.insert(chatMessagesTable)
       .values({
         session_id: input.session_id,
+        parent_id: input.parent_id ?? null,
         role: input.role,
         content: input.content,
         content_type: input.content_type,
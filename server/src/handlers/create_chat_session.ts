@@ -2,20 +2,31 @@ import { db } from '../db';
 import { chatSessionsTable } from '../db/schema';
 import { type CreateChatSessionInput, type ChatSession } from '../schema';
 import { randomUUID } from 'crypto';
+import { getPreferences } from './get_preferences';
+import { getPersona } from './get_personas';
 
 export const createChatSession = async (input: CreateChatSessionInput): Promise<ChatSession> => {
   try {
     // Generate session ID if not provided
     const sessionId = input.id || randomUUID();
+
+    // Modes the caller leaves out come from the user's preferences
+    const preferences = await getPreferences();
+
+    // A pinned persona must exist
+    if (input.persona_id != null) {
+      await getPersona(input.persona_id);
+    }
     
     // Insert chat session record
     const result = await db.insert(chatSessionsTable)
       .values({
         id: sessionId,
         title: input.title ?? null,
-        gen_z_mode: input.gen_z_mode ?? false,
-        copy_code_only_mode: input.copy_code_only_mode ?? false,
-        target_language: input.target_language ?? null
+        gen_z_mode: input.gen_z_mode ?? preferences.gen_z_mode,
+        copy_code_only_mode: input.copy_code_only_mode ?? preferences.copy_code_only_mode,
+        target_language: input.target_language !== undefined ? input.target_language : preferences.target_language,
+        persona_id: input.persona_id ?? null
       })
       .returning()
       .execute();
@@ -0,0 +1,23 @@
+import { db } from '../db';
+import { personasTable } from '../db/schema';
+import { type CreatePersonaInput, type Persona } from '../schema';
+import { toPersona } from './get_personas';
+
+export const createPersona = async (input: CreatePersonaInput): Promise<Persona> => {
+  try {
+    const result = await db.insert(personasTable)
+      .values({
+        name: input.name,
+        system_prompt: input.system_prompt,
+        model_params: input.model_params ?? {},
+        examples: input.examples ?? []
+      })
+      .returning()
+      .execute();
+
+    return toPersona(result[0]);
+  } catch (error) {
+    console.error('Persona creation failed:', error);
+    throw error;
+  }
+};
\ No newline at end of file
@@ -0,0 +1,16 @@
+import { db } from '../db';
+import { personasTable } from '../db/schema';
+import { type DeletePersonaInput } from '../schema';
+import { eq } from 'drizzle-orm';
+
+// Sessions that pinned the persona fall back to no persona (the FK is ON DELETE SET NULL)
+export const deletePersona = async (input: DeletePersonaInput): Promise<void> => {
+  try {
+    await db.delete(personasTable)
+      .where(eq(personasTable.id, input.id))
+      .execute();
+  } catch (error) {
+    console.error('Persona deletion failed:', error);
+    throw error;
+  }
+};
\ No newline at end of file
@@ -0,0 +1,68 @@
+import { db } from '../db';
+import { chatMessagesTable } from '../db/schema';
+import { type EditAiMessageInput, type ChatMessage } from '../schema';
+import { eq } from 'drizzle-orm';
+import {
+  buildAiPrompt,
+  getBranch,
+  loadSession,
+  loadSessionMessages,
+  messageImages,
+  replyMetadata,
+  saveAssistantMessage
+} from './send_ai_message';
+
+// Forks the conversation at a user message: the edited prompt becomes a sibling
+// of the original (which stays intact with its replies) and gets a fresh answer
+export const editAiMessage = async (input: EditAiMessageInput): Promise<ChatMessage> => {
+  try {
+    const found = await db.select({ session_id: chatMessagesTable.session_id })
+      .from(chatMessagesTable)
+      .where(eq(chatMessagesTable.id, input.messageId))
+      .execute();
+    if (!found[0]) {
+      throw new Error(`Message with id ${input.messageId} not found`);
+    }
+
+    const session = await loadSession(found[0].session_id);
+
+    const sessionMessages = await loadSessionMessages(session.id);
+    const target = sessionMessages.find(message => message.id === input.messageId);
+    if (!target) {
+      throw new Error(`Message with id ${input.messageId} not found`);
+    }
+    if (target.role !== 'user') {
+      throw new Error('Only user messages can be edited');
+    }
+
+    const branch = getBranch(sessionMessages, target.parent_id);
+    // Only the text is edited; an attached image stays with the new prompt
+    const images = await messageImages(target);
+
+    const editedResult = await db.insert(chatMessagesTable)
+      .values({
+        session_id: target.session_id,
+        parent_id: target.parent_id,
+        role: 'user',
+        content: input.content,
+        content_type: images ? 'image' : 'text',
+        attachment_id: images ? target.attachment_id : null,
+        metadata: images ? { ...(target.metadata as Record<string, any>), editedFrom: target.id } : { editedFrom: target.id }
+      })
+      .returning()
+      .execute();
+
+    const { provider, messages, params, citations } = await buildAiPrompt(session, input, branch, {
+      role: 'user',
+      content: input.content,
+      images
+    });
+
+    const aiResponse = await provider.chat({ ...params, messages });
+
+    return await saveAssistantMessage(target.session_id, editedResult[0].id, aiResponse.content, replyMetadata(aiResponse.model, citations));
+  } catch (error) {
+    console.error('AI message edit failed:', error);
+    throw error;
+  }
+};
\ No newline at end of file
@@ -0,0 +1,205 @@
+import { db } from '../db';
+import { chatSessionsTable } from '../db/schema';
+import {
+  CHAT_EXPORT_VERSION,
+  type ChatExport,
+  type ChatExportFile,
+  type ChatMessage,
+  type ChatSession,
+  type ExportChatSessionInput
+} from '../schema';
+import { eq } from 'drizzle-orm';
+import { loadSessionMessages } from './send_ai_message';
+
+export const exportChatSession = async (input: ExportChatSessionInput): Promise<ChatExportFile> => {
+  try {
+    const sessions = await db.select()
+      .from(chatSessionsTable)
+      .where(eq(chatSessionsTable.id, input.sessionId))
+      .execute();
+
+    const session = sessions[0];
+    if (!session) {
+      throw new Error(`Chat session with id ${input.sessionId} not found`);
+    }
+
+    const messages: ChatMessage[] = (await loadSessionMessages(session.id)).map(message => ({
+      ...message,
+      metadata: message.metadata as Record<string, any> | null
+    }));
+    const basename = `chat-${slugify(session.title)}-${session.created_at.toISOString().split('T')[0]}`;
+
+    switch (input.format) {
+      case 'json':
+        return {
+          filename: `${basename}.json`,
+          mime_type: 'application/json',
+          content: JSON.stringify(buildChatExport(session, messages), null, 2)
+        };
+      case 'markdown':
+        return {
+          filename: `${basename}.md`,
+          mime_type: 'text/markdown',
+          content: renderMarkdown(session, messages)
+        };
+      case 'html':
+        return {
+          filename: `${basename}.html`,
+          mime_type: 'text/html',
+          content: renderHtml(session, messages)
+        };
+    }
+  } catch (error) {
+    console.error('Chat session export failed:', error);
+    throw error;
+  }
+};
+
+// The full tree, including every branch; message ids are kept so parent_id links resolve
+export const buildChatExport = (session: ChatSession, messages: ChatMessage[]): ChatExport => ({
+  format: 'okaigpt-chat',
+  version: CHAT_EXPORT_VERSION,
+  exported_at: new Date(),
+  session: {
+    title: session.title,
+    title_source: session.title_source,
+    gen_z_mode: session.gen_z_mode,
+    copy_code_only_mode: session.copy_code_only_mode,
+    target_language: session.target_language,
+    persona_id: session.persona_id,
+    model: session.model,
+    temperature: session.temperature,
+    max_tokens: session.max_tokens,
+    stop: session.stop,
+    created_at: session.created_at,
+    updated_at: session.updated_at
+  },
+  messages: messages.map(message => ({
+    id: message.id,
+    parent_id: message.parent_id,
+    role: message.role,
+    content: message.content,
+    content_type: message.content_type,
+    metadata: message.metadata,
+    created_at: message.created_at
+  }))
+});
+
+// Transcripts show the conversation as the chat view opens it: the newest branch at every fork
+export const getTranscript = <T extends Pick<ChatMessage, 'id' | 'parent_id'>>(messages: T[]): { message: T; alternatives: number }[] => {
+  const transcript: { message: T; alternatives: number }[] = [];
+  let parentId: number | null = null;
+
+  while (true) {
+    const siblings = messages.filter(message => message.parent_id === parentId);
+    if (siblings.length === 0) break;
+
+    const message = siblings.reduce((newest, sibling) => (sibling.id > newest.id ? sibling : newest));
+    transcript.push({ message, alternatives: siblings.length - 1 });
+    parentId = message.id;
+  }
+
+  return transcript;
+};
+
+const describeModes = (session: ChatSession): string[] => {
+  const modes: string[] = [];
+  if (session.gen_z_mode) modes.push('Gen Z mode');
+  if (session.copy_code_only_mode) modes.push('Code only');
+  if (session.target_language && session.target_language !== 'english') modes.push(`Language: ${session.target_language}`);
+  return modes;
+};
+
+const attachmentNote = (message: ChatMessage): string | null => {
+  if (message.content_type === 'image') return 'Image attached';
+  if (message.content_type === 'pdf') return 'PDF attached';
+  return null;
+};
+
+const roleLabel = (message: ChatMessage): string => (message.role === 'user' ? 'User' : 'Assistant');
+
+const renderMarkdown = (session: ChatSession, messages: ChatMessage[]): string => {
+  const lines = [`# ${session.title || 'New Chat'}`, ''];
+
+  lines.push(`- Created: ${session.created_at.toISOString()}`);
+  lines.push(`- Exported: ${new Date().toISOString()}`);
+  const modes = describeModes(session);
+  if (modes.length > 0) {
+    lines.push(`- Modes: ${modes.join(', ')}`);
+  }
+
+  for (const { message, alternatives } of getTranscript(messages)) {
+    lines.push('', '---', '', `### ${roleLabel(message)} · ${message.created_at.toISOString()}`, '');
+
+    const note = attachmentNote(message);
+    if (note) {
+      lines.push(`_${note}_`, '');
+    }
+    lines.push(message.content);
+
+    if (alternatives > 0) {
+      lines.push('', `_${alternatives} alternative ${alternatives === 1 ? 'version' : 'versions'} not shown_`);
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+};
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// Self-contained: inline styles, no scripts or external assets
+const renderHtml = (session: ChatSession, messages: ChatMessage[]): string => {
+  const title = escapeHtml(session.title || 'New Chat');
+  const modes = describeModes(session);
+
+  const items = getTranscript(messages).map(({ message, alternatives }) => {
+    const note = attachmentNote(message);
+    return [
+      `<article class="message ${message.role}">`,
+      `<header><strong>${roleLabel(message)}</strong> <time datetime="${message.created_at.toISOString()}">${message.created_at.toISOString()}</time></header>`,
+      note ? `<p class="note">${note}</p>` : '',
+      `<div class="content">${escapeHtml(message.content)}</div>`,
+      alternatives > 0 ? `<p class="note">${alternatives} alternative ${alternatives === 1 ? 'version' : 'versions'} not shown</p>` : '',
+      '</article>'
+    ].filter(Boolean).join('\n');
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${title}</title>
+<style>
+body { font-family: system-ui, sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; color: #1f2937; }
+.meta { color: #6b7280; font-size: 0.875rem; }
+.message { border-radius: 0.5rem; padding: 0.75rem 1rem; margin: 1rem 0; }
+.message.user { background: #fef3c7; }
+.message.assistant { background: #f3f4f6; }
+.message header { font-size: 0.875rem; margin-bottom: 0.5rem; }
+.message time { color: #6b7280; margin-left: 0.5rem; }
+.content { white-space: pre-wrap; word-wrap: break-word; }
+.note { color: #6b7280; font-style: italic; font-size: 0.875rem; }
+</style>
+</head>
+<body>
+<h1>${title}</h1>
+<p class="meta">Created ${session.created_at.toISOString()}${modes.length > 0 ? ` · ${escapeHtml(modes.join(', '))}` : ''}</p>
+${items.join('\n')}
+</body>
+</html>
+`;
+};
+
+const slugify = (title: string | null): string =>
+  (title || 'untitled')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 50) || 'untitled';
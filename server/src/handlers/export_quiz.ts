@@ -0,0 +1,32 @@
+import { type ExportQuizInput, type QuizExportFile } from '../schema';
+import { quizExporters } from '../quiz';
+import { getQuiz } from './get_quiz';
+
+export const exportQuiz = async (input: ExportQuizInput): Promise<QuizExportFile> => {
+  try {
+    const quiz = await getQuiz({ id: input.id });
+    if (!quiz.quiz_data) {
+      throw new Error(`Quiz with id ${input.id} was saved before typed questions and cannot be exported`);
+    }
+    const exporter = quizExporters[input.format];
+    const content = exporter.render(quiz.quiz_data);
+
+    return {
+      filename: `quiz-${slugify(quiz.quiz_data.title)}-${quiz.created_at.toISOString().split('T')[0]}.${exporter.extension}`,
+      mime_type: exporter.mime_type,
+      ...(Buffer.isBuffer(content)
+        ? { content: content.toString('base64'), encoding: 'base64' as const }
+        : { content, encoding: 'utf8' as const })
+    };
+  } catch (error) {
+    console.error('Quiz export failed:', error);
+    throw error;
+  }
+};
+
+const slugify = (title: string): string =>
+  title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 50) || 'untitled';
\ No newline at end of file
@@ -1,18 +1,18 @@
 import { db } from '../db';
 import { generatedImagesTable } from '../db/schema';
 import { type CreateGeneratedImageInput, type GeneratedImage } from '../schema';
+import { getMeteredProvider } from './record_ai_usage';
 
 export const generateImage = async (input: CreateGeneratedImageInput): Promise<GeneratedImage> => {
   try {
-    // For now, we'll simulate image generation with a placeholder URL
-    // In a real implementation, this would integrate with an AI image generation service
-    const mockImageUrl = `https://generated-images.example.com/${Date.now()}-${encodeURIComponent(input.prompt.slice(0, 50))}.png`;
+    // Generate the image through the configured AI provider
+    const image = await getMeteredProvider({ feature: 'image' }).generateImage({ prompt: input.prompt });
 
     // Insert generated image record into database
     const result = await db.insert(generatedImagesTable)
       .values({
         prompt: input.prompt,
-        image_url: mockImageUrl
+        image_url: image.image_url
       })
       .returning()
       .execute();
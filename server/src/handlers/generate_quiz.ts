@@ -1,55 +1,61 @@
 import { db } from '../db';
 import { quizTable } from '../db/schema';
-import { type CreateQuizInput, type Quiz } from '../schema';
+import { type CreateQuizInput, type Quiz, type QuizQuestionType, type QuizSourceSection } from '../schema';
+import { buildQuizMessages, buildRepairMessage, getQuizOptions, parseQuizReply, type QuizRequest } from '../quiz';
+import { syncStudyCards } from '../study';
+import { getMeteredProvider } from './record_ai_usage';
+import { resolveQuizSource } from './resolve_quiz_source';
 
+const DEFAULT_QUESTION_COUNT = 5;
+const DEFAULT_QUESTION_TYPES: QuizQuestionType[] = ['multiple_choice', 'true_false', 'short_answer'];
+
+// Reads the source's text, then asks the AI provider for a quiz and validates the reply against the quiz schema.
+// Invalid replies go back to the model with the problems listed, until the
+// attempts allowed by QUIZ_MAX_ATTEMPTS run out
 export const generateQuiz = async (input: CreateQuizInput): Promise<Quiz> => {
   try {
-    // Generate sample quiz data based on source text
-    // In a real implementation, this would use an AI service to generate meaningful questions
-    const quizData = {
-      quiz: [
-        {
-          question: `What is the main topic discussed in this text: "${input.source_text.substring(0, 100)}..."?`,
-          options: ["Topic A", "Topic B", "Topic C", "Topic D"],
-          answer: "Topic A"
-        },
-        {
-          question: "Based on the provided text, which statement is most accurate?",
-          options: [
-            "Statement 1",
-            "Statement 2", 
-            "Statement 3",
-            "Statement 4"
-          ],
-          answer: "Statement 1"
-        },
-        {
-          question: "What can be inferred from the source material?",
-          options: [
-            "Inference A",
-            "Inference B",
-            "Inference C", 
-            "Inference D"
-          ],
-          answer: "Inference C"
-        }
-      ]
+    const source = await resolveQuizSource(input.source);
+    const request: QuizRequest = {
+      source_text: source.text,
+      question_count: input.question_count ?? DEFAULT_QUESTION_COUNT,
+      difficulty: input.difficulty ?? 'medium',
+      question_types: [...new Set(input.question_types ?? DEFAULT_QUESTION_TYPES)]
     };
+    const { maxAttempts } = getQuizOptions();
+    const provider = getMeteredProvider({ feature: 'quiz' });
+    const messages = buildQuizMessages(request);
 
-    // Insert quiz record into database
-    const result = await db.insert(quizTable)
-      .values({
-        source_text: input.source_text,
-        quiz_data: quizData
-      })
-      .returning()
-      .execute();
+    let issues: string[] = [];
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const response = await provider.chat({ messages, response_format: 'json' });
+      const reply = parseQuizReply(response.content, request);
+      if (reply.success) {
+        const result = await db.insert(quizTable)
+          .values({
+            source_text: source.text,
+            source_type: source.type,
+            source_ref: source.ref,
+            source_title: source.title,
+            source_sections: source.sections,
+            quiz_data: reply.quiz
+          })
+          .returning()
+          .execute();
 
-    const quiz = result[0];
-    return {
-      ...quiz,
-      quiz_data: quiz.quiz_data as Record<string, any>
-    };
+        const quiz = result[0];
+        await syncStudyCards(quiz.id);
+        return {
+          ...quiz,
+          source_sections: quiz.source_sections as QuizSourceSection[] | null,
+          quiz_data: reply.quiz
+        };
+      }
+
+      issues = reply.issues;
+      messages.push({ role: 'assistant', content: response.content }, buildRepairMessage(issues));
+    }
+
+    throw new Error(`No valid quiz after ${maxAttempts} attempts: ${issues.slice(0, 5).join('; ')}`);
   } catch (error) {
     console.error('Quiz generation failed:', error);
     throw error;
@@ -0,0 +1,77 @@
+import { db } from '../db';
+import { chatSessionsTable } from '../db/schema';
+import { type ChatSession } from '../schema';
+import { eq } from 'drizzle-orm';
+import { updateChatSession } from './update_chat_session';
+import { getMeteredProvider } from './record_ai_usage';
+
+const MAX_TITLE_WORDS = 8;
+const MAX_TITLE_LENGTH = 60;
+
+// Names a session after its first exchange. Sessions that were already titled
+// (automatically or by the user) are left alone; returns null when nothing changed
+export const generateSessionTitle = async (
+  sessionId: string,
+  userContent: string,
+  assistantContent: string
+): Promise<ChatSession | null> => {
+  try {
+    const sessions = await db.select()
+      .from(chatSessionsTable)
+      .where(eq(chatSessionsTable.id, sessionId))
+      .execute();
+
+    if (sessions.length === 0 || sessions[0].title_source !== 'default') {
+      return null;
+    }
+
+    const response = await getMeteredProvider({ feature: 'chat_title', sessionId }).chat({
+      messages: [
+        {
+          role: 'system',
+          content: `Write a short title (at most ${MAX_TITLE_WORDS - 2} words) for a conversation that starts with the exchange below. Reply with the title only, without quotes.`
+        },
+        {
+          role: 'user',
+          content: `User: ${userContent.slice(0, 1000)}\n\nAssistant: ${assistantContent.slice(0, 1000)}`
+        }
+      ],
+      max_tokens: 20
+    });
+
+    const title = cleanTitle(response.content) ?? titleFromMessage(userContent);
+
+    // 'auto' updates never replace a title the user set in the meantime
+    return await updateChatSession({ id: sessionId, title }, { titleSource: 'auto' });
+  } catch (error) {
+    console.error('Session title generation failed:', error);
+    throw error;
+  }
+};
+
+// Takes the first line without wrapping quotes or trailing punctuation; replies
+// that ignored the instruction (empty or rambling) are rejected
+const cleanTitle = (content: string): string | null => {
+  const title = content
+    .trim()
+    .split('\n')[0]
+    .replace(/^(title:\s*)/i, '')
+    .replace(/^["'`*]+|["'`*]+$/g, '')
+    .replace(/[.!?:;,]+$/, '')
+    .trim();
+
+  if (!title || title.split(/\s+/).length > MAX_TITLE_WORDS) {
+    return null;
+  }
+  return title.slice(0, MAX_TITLE_LENGTH);
+};
+
+const titleFromMessage = (content: string): string => {
+  const words = content.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) {
+    return 'New Chat';
+  }
+
+  const title = words.slice(0, MAX_TITLE_WORDS - 2).join(' ');
+  return (words.length > MAX_TITLE_WORDS - 2 ? `${title}...` : title).slice(0, MAX_TITLE_LENGTH);
+};
\ No newline at end of file
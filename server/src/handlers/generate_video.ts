@@ -1,22 +1,37 @@
 import { db } from '../db';
 import { generatedVideosTable } from '../db/schema';
 import { type CreateGeneratedVideoInput, type GeneratedVideo } from '../schema';
+import { getAttachment } from './get_attachment';
+import { isImageMimeType } from '../storage';
+import { enqueueJob } from '../jobs';
+import { VIDEO_JOB_KIND } from '../video';
 
 export const generateVideo = async (input: CreateGeneratedVideoInput): Promise<GeneratedVideo> => {
   try {
-    // Insert video generation record with pending status
-    const result = await db.insert(generatedVideosTable)
-      .values({
-        prompt: input.prompt,
-        initial_image_url: input.initial_image_url || null,
-        video_url: null, // Will be populated when generation completes
-        status: 'pending',
-        progress_message: 'Video generation queued'
-      })
-      .returning()
-      .execute();
+    if (input.initial_image_attachment_id) {
+      const attachment = await getAttachment({ id: input.initial_image_attachment_id });
+      if (!isImageMimeType(attachment.mime_type)) {
+        throw new Error(`Attachment ${attachment.id} is not an image`);
+      }
+    }
 
-    return result[0];
+    // Insert the pending record and its job together, so the worker never sees one without the other
+    return await db.transaction(async (tx) => {
+      const result = await tx.insert(generatedVideosTable)
+        .values({
+          prompt: input.prompt,
+          initial_image_url: input.initial_image_attachment_id ? null : input.initial_image_url || null,
+          initial_image_attachment_id: input.initial_image_attachment_id || null,
+          video_url: null, // Will be populated when generation completes
+          status: 'pending',
+          progress_message: 'Video generation queued'
+        })
+        .returning()
+        .execute();
+
+      await enqueueJob(VIDEO_JOB_KIND, { video_id: result[0].id }, {}, tx);
+      return result[0];
+    });
   } catch (error) {
     console.error('Video generation initialization failed:', error);
     throw error;
@@ -0,0 +1,41 @@
+import { type Readable } from 'stream';
+import { db } from '../db';
+import { attachmentsTable } from '../db/schema';
+import { type Attachment, type GetAttachmentInput } from '../schema';
+import { getStorage } from '../storage';
+import { eq } from 'drizzle-orm';
+
+export const getAttachment = async (input: GetAttachmentInput): Promise<Attachment> => {
+  try {
+    const result = await db.select()
+      .from(attachmentsTable)
+      .where(eq(attachmentsTable.id, input.id))
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error(`Attachment with id ${input.id} not found`);
+    }
+    return result[0];
+  } catch (error) {
+    console.error('Attachment fetch failed:', error);
+    throw error;
+  }
+};
+
+export const openAttachment = async (attachment: Attachment): Promise<Readable> => {
+  return getStorage().getObject(attachment.storage_key);
+};
+
+export const readAttachment = async (attachment: Attachment): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of await openAttachment(attachment)) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+};
+
+// AI providers cannot fetch from this server, so images are passed inline
+export const readAttachmentDataUrl = async (attachment: Attachment): Promise<string> => {
+  const data = await readAttachment(attachment);
+  return `data:${attachment.mime_type};base64,${data.toString('base64')}`;
+};
\ No newline at end of file
@@ -0,0 +1,48 @@
+import { db } from '../db';
+import { quizTable, studyCardsTable } from '../db/schema';
+import { type DueCards, type GetDueCardsInput } from '../schema';
+import { readQuizData } from '../quiz';
+import { and, asc, count, eq, gt, lte, min, type SQL } from 'drizzle-orm';
+
+const DEFAULT_LIMIT = 20;
+
+// Due cards across all quizzes, or one, with the question each one asks
+export const getDueCards = async (input: GetDueCardsInput): Promise<DueCards> => {
+  try {
+    const now = new Date();
+    const inQuiz: SQL | undefined = input.quiz_id === undefined ? undefined : eq(studyCardsTable.quiz_id, input.quiz_id);
+    const due = and(inQuiz, lte(studyCardsTable.due_at, now));
+
+    const rows = await db.select({ card: studyCardsTable, quiz_data: quizTable.quiz_data })
+      .from(studyCardsTable)
+      .innerJoin(quizTable, eq(studyCardsTable.quiz_id, quizTable.id))
+      .where(due)
+      .orderBy(asc(studyCardsTable.due_at), asc(studyCardsTable.id))
+      .limit(input.limit ?? DEFAULT_LIMIT)
+      .execute();
+
+    const [{ due_count }] = await db.select({ due_count: count() })
+      .from(studyCardsTable)
+      .where(due)
+      .execute();
+
+    const [{ next_due_at }] = await db.select({ next_due_at: min(studyCardsTable.due_at) })
+      .from(studyCardsTable)
+      .where(and(inQuiz, gt(studyCardsTable.due_at, now)))
+      .execute();
+
+    return {
+      // Cards are only created for typed questions, so every card's quiz reads back
+      cards: rows.flatMap(({ card, quiz_data }) => {
+        const quiz = readQuizData(quiz_data);
+        const question = quiz?.questions[card.question_index];
+        return quiz && question ? [{ ...card, quiz_title: quiz.title, question }] : [];
+      }),
+      due_count,
+      next_due_at
+    };
+  } catch (error) {
+    console.error('Failed to get due cards:', error);
+    throw error;
+  }
+};
\ No newline at end of file
@@ -0,0 +1,28 @@
+import { db } from '../db';
+import { pdfChunksTable, pdfDocumentsTable } from '../db/schema';
+import { type GetPdfDocumentsInput, type PdfDocument } from '../schema';
+import { asc, count, eq } from 'drizzle-orm';
+
+export const getPdfDocuments = async (input: GetPdfDocumentsInput): Promise<PdfDocument[]> => {
+  try {
+    return await db.select({
+      id: pdfDocumentsTable.id,
+      session_id: pdfDocumentsTable.session_id,
+      attachment_id: pdfDocumentsTable.attachment_id,
+      filename: pdfDocumentsTable.filename,
+      page_count: pdfDocumentsTable.page_count,
+      chunk_count: count(pdfChunksTable.id),
+      embedding_model: pdfDocumentsTable.embedding_model,
+      created_at: pdfDocumentsTable.created_at
+    })
+      .from(pdfDocumentsTable)
+      .leftJoin(pdfChunksTable, eq(pdfChunksTable.document_id, pdfDocumentsTable.id))
+      .where(eq(pdfDocumentsTable.session_id, input.sessionId))
+      .groupBy(pdfDocumentsTable.id)
+      .orderBy(asc(pdfDocumentsTable.created_at), asc(pdfDocumentsTable.id))
+      .execute();
+  } catch (error) {
+    console.error('PDF documents fetch failed:', error);
+    throw error;
+  }
+};
\ No newline at end of file
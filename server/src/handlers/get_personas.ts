@@ -0,0 +1,37 @@
+import { db } from '../db';
+import { personasTable } from '../db/schema';
+import { type Persona, type ModelParams, type PersonaExample } from '../schema';
+import { asc, eq } from 'drizzle-orm';
+
+export const getPersonas = async (): Promise<Persona[]> => {
+  try {
+    const result = await db.select()
+      .from(personasTable)
+      .orderBy(asc(personasTable.name), asc(personasTable.id))
+      .execute();
+
+    return result.map(toPersona);
+  } catch (error) {
+    console.error('Personas fetch failed:', error);
+    throw error;
+  }
+};
+
+export const getPersona = async (id: number): Promise<Persona> => {
+  const result = await db.select()
+    .from(personasTable)
+    .where(eq(personasTable.id, id))
+    .execute();
+
+  if (result.length === 0) {
+    throw new Error(`Persona with id ${id} not found`);
+  }
+  return toPersona(result[0]);
+};
+
+// The JSON columns are only ever written through the validated input schemas
+export const toPersona = (row: typeof personasTable.$inferSelect): Persona => ({
+  ...row,
+  model_params: row.model_params as ModelParams,
+  examples: row.examples as PersonaExample[]
+});
\ No newline at end of file
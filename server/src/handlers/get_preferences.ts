@@ -0,0 +1,27 @@
+import { db } from '../db';
+import { preferencesTable } from '../db/schema';
+import { type Preferences } from '../schema';
+import { eq } from 'drizzle-orm';
+
+export const PREFERENCES_ID = 'default';
+
+// The preferences row is created with the column defaults the first time it is read
+export const getPreferences = async (): Promise<Preferences> => {
+  try {
+    await db.insert(preferencesTable)
+      .values({ id: PREFERENCES_ID })
+      .onConflictDoNothing()
+      .execute();
+
+    const result = await db.select()
+      .from(preferencesTable)
+      .where(eq(preferencesTable.id, PREFERENCES_ID))
+      .execute();
+
+    const { id, ...preferences } = result[0];
+    return preferences;
+  } catch (error) {
+    console.error('Failed to fetch preferences:', error);
+    throw error;
+  }
+};
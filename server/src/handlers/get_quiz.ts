@@ -0,0 +1,28 @@
+import { db } from '../db';
+import { quizTable } from '../db/schema';
+import { type GetQuizInput, type Quiz, type QuizSourceSection } from '../schema';
+import { readQuizData } from '../quiz';
+import { eq } from 'drizzle-orm';
+
+export const getQuiz = async (input: GetQuizInput): Promise<Quiz> => {
+  try {
+    const results = await db.select()
+      .from(quizTable)
+      .where(eq(quizTable.id, input.id))
+      .execute();
+
+    if (results.length === 0) {
+      throw new Error(`Quiz with id ${input.id} not found`);
+    }
+
+    const quiz = results[0];
+    return {
+      ...quiz,
+      source_sections: quiz.source_sections as QuizSourceSection[] | null,
+      quiz_data: readQuizData(quiz.quiz_data)
+    };
+  } catch (error) {
+    console.error('Failed to get quiz:', error);
+    throw error;
+  }
+};
\ No newline at end of file
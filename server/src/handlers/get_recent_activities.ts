@@ -7,6 +7,7 @@ import {
   webSearchTable 
 } from '../db/schema';
 import { type DocumentAnalysis, type GeneratedImage, type GeneratedVideo, type Quiz, type WebSearch } from '../schema';
+import { readWebSearchSources } from '../websearch';
 import { desc } from 'drizzle-orm';
 
 // Union type for all activities
@@ -58,7 +59,7 @@ export async function getRecentActivities(limit: number = 10): Promise<RecentAct
       ...generatedImages.map(data => ({ type: 'generated_image' as const, data: data as GeneratedImage })),
       ...generatedVideos.map(data => ({ type: 'generated_video' as const, data: data as GeneratedVideo })),
       ...quizzes.map(data => ({ type: 'quiz' as const, data: data as Quiz })),
-      ...webSearches.map(data => ({ type: 'web_search' as const, data: data as WebSearch }))
+      ...webSearches.map(data => ({ type: 'web_search' as const, data: { ...data, sources: readWebSearchSources(data.sources) } }))
     ];
 
     // Sort all activities by creation date descending
@@ -0,0 +1,92 @@
+import { db } from '../db';
+import { aiUsageTable, chatSessionsTable } from '../db/schema';
+import { type GetUsageInput, type UsageReport, type UsageTotals } from '../schema';
+import { and, eq, gte, lt, sql, type SQL } from 'drizzle-orm';
+
+// Aggregates shared by the totals row and every group
+const aggregates = {
+  calls: sql<string>`count(*)`,
+  prompt_tokens: sql<string>`coalesce(sum(${aiUsageTable.prompt_tokens}), 0)`,
+  completion_tokens: sql<string>`coalesce(sum(${aiUsageTable.completion_tokens}), 0)`,
+  cost_usd: sql<string>`coalesce(sum(${aiUsageTable.cost_usd}), 0)`,
+  unpriced_calls: sql<string>`count(*) filter (where ${aiUsageTable.cost_usd} is null)`,
+  aborted_calls: sql<string>`count(*) filter (where ${aiUsageTable.aborted})`,
+  avg_latency_ms: sql<string>`coalesce(avg(${aiUsageTable.latency_ms}), 0)`
+};
+
+export const getUsage = async (input: GetUsageInput): Promise<UsageReport> => {
+  try {
+    const conditions: SQL<unknown>[] = [];
+    if (input.from) {
+      conditions.push(gte(aiUsageTable.created_at, input.from));
+    }
+    if (input.to) {
+      conditions.push(lt(aiUsageTable.created_at, input.to));
+    }
+    if (input.feature) {
+      conditions.push(eq(aiUsageTable.feature, input.feature));
+    }
+    if (input.sessionId) {
+      conditions.push(eq(aiUsageTable.session_id, input.sessionId));
+    }
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const totals = await db.select(aggregates)
+      .from(aiUsageTable)
+      .where(where)
+      .execute();
+
+    const groups = await selectGroups(input.groupBy, where);
+
+    return {
+      totals: toTotals(totals[0]),
+      groups: groups.map(group => ({ key: group.key, label: group.label, ...toTotals(group) }))
+    };
+  } catch (error) {
+    console.error('Usage fetch failed:', error);
+    throw error;
+  }
+};
+
+type AggregateRow = { [K in keyof typeof aggregates]: string };
+type GroupRow = AggregateRow & { key: string | null; label: string | null };
+
+const selectGroups = async (groupBy: GetUsageInput['groupBy'], where: SQL<unknown> | undefined): Promise<GroupRow[]> => {
+  switch (groupBy) {
+    case 'day': {
+      const day = sql<string>`to_char(${aiUsageTable.created_at}, 'YYYY-MM-DD')`;
+      return db.select({ key: day, label: sql<string | null>`null`, ...aggregates })
+        .from(aiUsageTable)
+        .where(where)
+        .groupBy(day)
+        .orderBy(day)
+        .execute();
+    }
+    case 'feature':
+      return db.select({ key: sql<string>`${aiUsageTable.feature}::text`, label: sql<string | null>`null`, ...aggregates })
+        .from(aiUsageTable)
+        .where(where)
+        .groupBy(aiUsageTable.feature)
+        .orderBy(sql`sum(${aiUsageTable.cost_usd}) desc nulls last`, aiUsageTable.feature)
+        .execute();
+    case 'session':
+      return db.select({ key: aiUsageTable.session_id, label: chatSessionsTable.title, ...aggregates })
+        .from(aiUsageTable)
+        .leftJoin(chatSessionsTable, eq(aiUsageTable.session_id, chatSessionsTable.id))
+        .where(where)
+        .groupBy(aiUsageTable.session_id, chatSessionsTable.title)
+        .orderBy(sql`sum(${aiUsageTable.cost_usd}) desc nulls last`, aiUsageTable.session_id)
+        .execute();
+  }
+};
+
+// Postgres returns bigint and numeric aggregates as strings
+const toTotals = (row: AggregateRow): UsageTotals => ({
+  calls: Number(row.calls),
+  prompt_tokens: Number(row.prompt_tokens),
+  completion_tokens: Number(row.completion_tokens),
+  cost_usd: Number(row.cost_usd),
+  unpriced_calls: Number(row.unpriced_calls),
+  aborted_calls: Number(row.aborted_calls),
+  avg_latency_ms: Math.round(Number(row.avg_latency_ms))
+});
\ No newline at end of file
@@ -0,0 +1,30 @@
+import { type GeneratedVideo, type GetVideoStatusInput, type VideoProgress } from '../schema';
+import { getVideoStatus } from './get_video_status';
+
+// Assumes the rest of the attempt runs at the pace so far. Unknown before the
+// backend reports any progress
+export const estimateEtaSeconds = (video: GeneratedVideo, now: Date = new Date()): number | null => {
+  if (video.status !== 'processing' || !video.started_at || video.progress <= 0 || video.progress >= 100) {
+    return null;
+  }
+  const elapsedSeconds = Math.max(0, now.getTime() - video.started_at.getTime()) / 1000;
+  return Math.round(elapsedSeconds * (100 - video.progress) / video.progress);
+};
+
+export const toVideoProgress = (video: GeneratedVideo, now: Date = new Date()): VideoProgress => ({
+  id: video.id,
+  status: video.status,
+  progress: video.progress,
+  progress_message: video.progress_message,
+  video_url: video.video_url,
+  eta_seconds: estimateEtaSeconds(video, now)
+});
+
+export const getVideoProgress = async (input: GetVideoStatusInput): Promise<VideoProgress> => {
+  try {
+    return toVideoProgress(await getVideoStatus(input));
+  } catch (error) {
+    console.error('Get video progress failed:', error);
+    throw error;
+  }
+};
\ No newline at end of file
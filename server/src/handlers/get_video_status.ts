@@ -21,10 +21,13 @@ export const getVideoStatus = async (input: GetVideoStatusInput): Promise<Genera
       id: video.id,
       prompt: video.prompt,
       initial_image_url: video.initial_image_url,
+      initial_image_attachment_id: video.initial_image_attachment_id,
       video_url: video.video_url,
       status: video.status,
+      progress: video.progress,
       progress_message: video.progress_message,
       created_at: video.created_at,
+      started_at: video.started_at,
       completed_at: video.completed_at
     };
   } catch (error) {
@@ -0,0 +1,66 @@
+import { db } from '../db';
+import { chatMessagesTable, chatSessionsTable, personasTable } from '../db/schema';
+import { type ChatSession, type ImportChatSessionInput } from '../schema';
+import { randomUUID } from 'crypto';
+import { eq } from 'drizzle-orm';
+
+// Recreates an exported session under a new id. Message ids are reassigned, so
+// parents are inserted before their children and links are remapped on the way.
+// The persona is kept only if it exists here, e.g. when re-importing on the same server
+export const importChatSession = async (input: ImportChatSessionInput): Promise<ChatSession> => {
+  try {
+    const { session, messages } = input.data;
+
+    return await db.transaction(async (tx) => {
+      const personas = session.persona_id === null
+        ? []
+        : await tx.select({ id: personasTable.id })
+          .from(personasTable)
+          .where(eq(personasTable.id, session.persona_id))
+          .execute();
+
+      const sessionResult = await tx.insert(chatSessionsTable)
+        .values({
+          id: randomUUID(),
+          ...session,
+          persona_id: personas[0]?.id ?? null
+        })
+        .returning()
+        .execute();
+
+      const newIds = new Map<number, number>();
+      let pending = [...messages].sort((a, b) => a.created_at.getTime() - b.created_at.getTime() || a.id - b.id);
+
+      while (pending.length > 0) {
+        const ready = pending.filter(message => message.parent_id === null || newIds.has(message.parent_id));
+        if (ready.length === 0) {
+          throw new Error('Imported messages contain a parent cycle');
+        }
+
+        for (const message of ready) {
+          const inserted = await tx.insert(chatMessagesTable)
+            .values({
+              session_id: sessionResult[0].id,
+              parent_id: message.parent_id === null ? null : newIds.get(message.parent_id)!,
+              role: message.role,
+              content: message.content,
+              content_type: message.content_type,
+              metadata: message.metadata,
+              created_at: message.created_at
+            })
+            .returning({ id: chatMessagesTable.id })
+            .execute();
+
+          newIds.set(message.id, inserted[0].id);
+        }
+
+        pending = pending.filter(message => !newIds.has(message.id));
+      }
+
+      return sessionResult[0];
+    });
+  } catch (error) {
+    console.error('Chat session import failed:', error);
+    throw error;
+  }
+};
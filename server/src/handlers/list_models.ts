@@ -0,0 +1,11 @@
+import { type ModelInfo } from '../schema';
+import { listAIModels } from '../ai';
+
+export const listModels = async (): Promise<ModelInfo[]> => {
+  try {
+    return await listAIModels();
+  } catch (error) {
+    console.error('Model listing failed:', error);
+    throw error;
+  }
+};
\ No newline at end of file
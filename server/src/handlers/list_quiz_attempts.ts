@@ -0,0 +1,33 @@
+import { db } from '../db';
+import { quizAttemptsTable } from '../db/schema';
+import { type ListQuizAttemptsInput, type QuizAnswer, type QuizAttemptHistory, type QuizQuestionResult } from '../schema';
+import { getQuiz } from './get_quiz';
+import { desc, eq } from 'drizzle-orm';
+
+// Every attempt at a quiz, with the average score each question earned across them
+export const listQuizAttempts = async (input: ListQuizAttemptsInput): Promise<QuizAttemptHistory> => {
+  try {
+    const quiz = await getQuiz({ id: input.quiz_id });
+
+    const rows = await db.select()
+      .from(quizAttemptsTable)
+      .where(eq(quizAttemptsTable.quiz_id, input.quiz_id))
+      .orderBy(desc(quizAttemptsTable.created_at), desc(quizAttemptsTable.id))
+      .execute();
+
+    const attempts = rows.map(attempt => ({
+      ...attempt,
+      answers: attempt.answers as (QuizAnswer | null)[],
+      results: attempt.results as QuizQuestionResult[]
+    }));
+
+    const questionAccuracy = (quiz.quiz_data?.questions ?? []).map((_, index) => attempts.length === 0
+      ? null
+      : attempts.reduce((total, attempt) => total + (attempt.results[index]?.score ?? 0), 0) / attempts.length);
+
+    return { attempts, question_accuracy: questionAccuracy };
+  } catch (error) {
+    console.error('Failed to list quiz attempts:', error);
+    throw error;
+  }
+};
\ No newline at end of file
@@ -0,0 +1,45 @@
+import { db } from '../db';
+import { quizAttemptsTable, quizTable } from '../db/schema';
+import { type ListQuizzesInput, type QuizList, type QuizSourceSection } from '../schema';
+import { readQuizData } from '../quiz';
+import { count, desc, eq, max } from 'drizzle-orm';
+
+const DEFAULT_LIMIT = 20;
+
+// Past quizzes with a summary of their attempts, for the review screen
+export const listQuizzes = async (input: ListQuizzesInput): Promise<QuizList> => {
+  try {
+    const rows = await db.select({
+      quiz: quizTable,
+      attempt_count: count(quizAttemptsTable.id),
+      best_score: max(quizAttemptsTable.score),
+      last_attempt_at: max(quizAttemptsTable.created_at)
+    })
+      .from(quizTable)
+      .leftJoin(quizAttemptsTable, eq(quizAttemptsTable.quiz_id, quizTable.id))
+      .groupBy(quizTable.id)
+      .orderBy(desc(quizTable.created_at), desc(quizTable.id))
+      .limit(input.limit ?? DEFAULT_LIMIT)
+      .offset(input.offset ?? 0)
+      .execute();
+
+    const totals = await db.select({ total: count() })
+      .from(quizTable)
+      .execute();
+
+    return {
+      quizzes: rows.map(row => ({
+        ...row.quiz,
+        source_sections: row.quiz.source_sections as QuizSourceSection[] | null,
+        quiz_data: readQuizData(row.quiz.quiz_data),
+        attempt_count: row.attempt_count,
+        best_score: row.best_score,
+        last_attempt_at: row.last_attempt_at
+      })),
+      total: totals[0].total
+    };
+  } catch (error) {
+    console.error('Failed to list quizzes:', error);
+    throw error;
+  }
+};
\ No newline at end of file
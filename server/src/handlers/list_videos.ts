@@ -0,0 +1,30 @@
+import { db } from '../db';
+import { generatedVideosTable } from '../db/schema';
+import { type ListVideosInput, type VideoList } from '../schema';
+import { count, desc, eq } from 'drizzle-orm';
+
+const DEFAULT_LIMIT = 20;
+
+export const listVideos = async (input: ListVideosInput): Promise<VideoList> => {
+  try {
+    const filter = input.status ? eq(generatedVideosTable.status, input.status) : undefined;
+
+    const videos = await db.select()
+      .from(generatedVideosTable)
+      .where(filter)
+      .orderBy(desc(generatedVideosTable.created_at), desc(generatedVideosTable.id))
+      .limit(input.limit ?? DEFAULT_LIMIT)
+      .offset(input.offset ?? 0)
+      .execute();
+
+    const totals = await db.select({ total: count() })
+      .from(generatedVideosTable)
+      .where(filter)
+      .execute();
+
+    return { videos, total: totals[0].total };
+  } catch (error) {
+    console.error('Failed to list videos:', error);
+    throw error;
+  }
+};
\ No newline at end of file
@@ -0,0 +1,111 @@
+import { db } from '../db';
+import { generatedVideosTable, type Job, type NewGeneratedVideo } from '../db/schema';
+import { type JobContext } from '../jobs';
+import { getVideoBackend, isVideoFinished, notifyVideoChanged } from '../video';
+import { getAttachment, readAttachmentDataUrl } from './get_attachment';
+import { recordAiUsage } from './record_ai_usage';
+import { and, eq, inArray } from 'drizzle-orm';
+
+// Finished videos are never touched again, so a late or repeated attempt cannot
+// overwrite a result. Watchers hear about every change
+const updateUnfinishedVideo = async (id: number, update: Partial<NewGeneratedVideo>): Promise<void> => {
+  const result = await db.update(generatedVideosTable)
+    .set(update)
+    .where(and(
+      eq(generatedVideosTable.id, id),
+      inArray(generatedVideosTable.status, ['pending', 'processing'])
+    ))
+    .returning({ id: generatedVideosTable.id })
+    .execute();
+
+  if (result.length > 0) {
+    await notifyVideoChanged(id);
+  }
+};
+
+const videoIdOf = (job: Job): number => Number(job.payload['video_id']);
+
+// Video backends report no tokens; the render is recorded with its backend and latency.
+// Accounting must never fail an attempt whose video already exists
+const recordVideoUsage = async (backendName: string, startedAt: number): Promise<void> => {
+  try {
+    await recordAiUsage({ feature: 'video' }, {
+      operation: 'video',
+      model: `${backendName}/video`, // Priced like AI models, so the local backend is free
+      usage: { prompt_tokens: 0, completion_tokens: 0 },
+      images: 0,
+      latency_ms: Math.round(performance.now() - startedAt),
+      aborted: false
+    });
+  } catch (error) {
+    console.error('Video usage recording failed:', error);
+  }
+};
+
+// Runs one attempt of a 'video' job: pending -> processing -> completed, with the
+// backend's progress recorded on the way. Errors fail the attempt (see failVideoJob)
+export const processVideoJob = async (job: Job, context: JobContext): Promise<void> => {
+  try {
+    const videoId = videoIdOf(job);
+    const results = await db.select()
+      .from(generatedVideosTable)
+      .where(eq(generatedVideosTable.id, videoId))
+      .execute();
+
+    // Deleted or cancelled in the meantime, or finished by an earlier attempt
+    const video = results[0];
+    if (!video || isVideoFinished(video.status)) {
+      return;
+    }
+
+    await updateUnfinishedVideo(videoId, {
+      status: 'processing',
+      progress: 0,
+      progress_message: 'Generating video',
+      started_at: new Date()
+    });
+
+    const initialImageUrl = video.initial_image_attachment_id
+      ? await readAttachmentDataUrl(await getAttachment({ id: video.initial_image_attachment_id }))
+      : video.initial_image_url;
+
+    let progress = 0;
+    const backend = getVideoBackend();
+    const startedAt = performance.now();
+    const result = await backend.generate(
+      { prompt: video.prompt, initial_image_url: initialImageUrl },
+      async (update) => {
+        await context.heartbeat();
+        // Never moves backwards, and only reaches 100 once the video exists
+        progress = Math.max(progress, Math.min(99, Math.round(update.progress)));
+        await updateUnfinishedVideo(videoId, { progress, progress_message: update.message });
+      },
+      context.signal
+    );
+    await recordVideoUsage(backend.name, startedAt);
+
+    await updateUnfinishedVideo(videoId, {
+      status: 'completed',
+      video_url: result.video_url,
+      progress: 100,
+      progress_message: 'Video generation completed',
+      completed_at: new Date()
+    });
+  } catch (error) {
+    console.error('Video job failed:', error);
+    throw error;
+  }
+};
+
+// Puts the video back to pending while the job has attempts left, and marks it
+// failed once it has none
+export const failVideoJob = async (job: Job, error: string, willRetry: boolean): Promise<void> => {
+  try {
+    await updateUnfinishedVideo(videoIdOf(job), willRetry
+      ? { status: 'pending', progress_message: `Attempt ${job.attempts} of ${job.max_attempts} failed (${error}); retrying` }
+      : { status: 'failed', progress_message: `Video generation failed: ${error}` });
+  } catch (hookError) {
+    console.error('Video job failure update failed:', hookError);
+    throw hookError;
+  }
+};
\ No newline at end of file
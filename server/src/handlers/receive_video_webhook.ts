@@ -0,0 +1,48 @@
+import { db } from '../db';
+import { webhookNoncesTable } from '../db/schema';
+import { updateGeneratedVideoInputSchema, type GeneratedVideo } from '../schema';
+import { getVideoWebhookOptions, verifyVideoWebhook, WebhookAuthError, type SignedWebhookHeaders } from '../video';
+import { updateVideoStatus } from './update_video_status';
+import { lt } from 'drizzle-orm';
+
+export class WebhookDisabledError extends Error {
+  constructor() {
+    super('The video webhook is disabled; set VIDEO_WEBHOOK_SECRET to enable it');
+    this.name = 'WebhookDisabledError';
+  }
+}
+
+// Authenticates a signed status report from a render backend and applies it.
+// Each nonce is accepted once; nonces older than the timestamp window are
+// forgotten, since their calls would be rejected as stale anyway
+export const receiveVideoWebhook = async (
+  headers: Partial<SignedWebhookHeaders>,
+  body: Buffer,
+  now: Date = new Date()
+): Promise<GeneratedVideo> => {
+  try {
+    const options = getVideoWebhookOptions();
+    if (!options.secret) {
+      throw new WebhookDisabledError();
+    }
+
+    const { nonce } = verifyVideoWebhook({ ...options, secret: options.secret }, headers, body, now);
+
+    await db.delete(webhookNoncesTable)
+      .where(lt(webhookNoncesTable.received_at, new Date(now.getTime() - 2 * options.toleranceSeconds * 1000)))
+      .execute();
+    const claimed = await db.insert(webhookNoncesTable)
+      .values({ nonce, received_at: now })
+      .onConflictDoNothing()
+      .returning()
+      .execute();
+    if (claimed.length === 0) {
+      throw new WebhookAuthError('Webhook nonce has already been used');
+    }
+
+    return await updateVideoStatus(updateGeneratedVideoInputSchema.parse(JSON.parse(body.toString('utf8'))));
+  } catch (error) {
+    console.error('Video webhook failed:', error);
+    throw error;
+  }
+};
\ No newline at end of file
@@ -0,0 +1,36 @@
+import { db } from '../db';
+import { aiUsageTable } from '../db/schema';
+import { type UsageFeature } from '../schema';
+import { getAIProvider, meterProvider, estimateCost, type AIProvider, type AIUsageEvent } from '../ai';
+
+export interface UsageContext {
+  feature: UsageFeature;
+  sessionId?: string | null;
+}
+
+export const recordAiUsage = async (context: UsageContext, event: AIUsageEvent): Promise<void> => {
+  try {
+    await db.insert(aiUsageTable)
+      .values({
+        feature: context.feature,
+        operation: event.operation,
+        session_id: context.sessionId ?? null,
+        model: event.model,
+        prompt_tokens: event.usage.prompt_tokens,
+        completion_tokens: event.usage.completion_tokens,
+        cost_usd: estimateCost(event.model, event.usage, event.images),
+        latency_ms: event.latency_ms,
+        aborted: event.aborted
+      })
+      .execute();
+  } catch (error) {
+    console.error('AI usage recording failed:', error);
+    throw error;
+  }
+};
+
+// The active provider, recording every call it completes against `context`.
+// Handlers use this instead of getAIProvider so no AI call goes unaccounted
+export const getMeteredProvider = (context: UsageContext): AIProvider => {
+  return meterProvider(getAIProvider(), event => recordAiUsage(context, event));
+};
\ No newline at end of file
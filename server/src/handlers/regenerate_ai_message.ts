@@ -0,0 +1,57 @@
+import { db } from '../db';
+import { chatMessagesTable } from '../db/schema';
+import { type RegenerateAiMessageInput, type ChatMessage } from '../schema';
+import { eq } from 'drizzle-orm';
+import {
+  buildAiPrompt,
+  getBranch,
+  loadSession,
+  loadSessionMessages,
+  messageImages,
+  replyMetadata,
+  saveAssistantMessage
+} from './send_ai_message';
+
+// Produces an alternative reply to the same user message; the old reply is kept as a sibling branch
+export const regenerateAiMessage = async (input: RegenerateAiMessageInput): Promise<ChatMessage> => {
+  try {
+    const found = await db.select({ session_id: chatMessagesTable.session_id })
+      .from(chatMessagesTable)
+      .where(eq(chatMessagesTable.id, input.messageId))
+      .execute();
+    if (!found[0]) {
+      throw new Error(`Message with id ${input.messageId} not found`);
+    }
+
+    const session = await loadSession(found[0].session_id);
+
+    const sessionMessages = await loadSessionMessages(session.id);
+    const target = sessionMessages.find(message => message.id === input.messageId);
+    if (!target) {
+      throw new Error(`Message with id ${input.messageId} not found`);
+    }
+    if (target.role !== 'assistant' || target.parent_id === null) {
+      throw new Error('Only assistant replies to a user message can be regenerated');
+    }
+
+    // Everything up to and including the user message being answered
+    const branch = getBranch(sessionMessages, target.parent_id);
+    const userMessage = branch.pop();
+    if (!userMessage) {
+      throw new Error(`Message with id ${target.parent_id} not found`);
+    }
+
+    const { provider, messages, params, citations } = await buildAiPrompt(session, input, branch, {
+      role: 'user',
+      content: userMessage.content,
+      images: await messageImages(userMessage)
+    });
+
+    const aiResponse = await provider.chat({ ...params, messages });
+
+    return await saveAssistantMessage(target.session_id, userMessage.id, aiResponse.content, replyMetadata(aiResponse.model, citations));
+  } catch (error) {
+    console.error('AI message regeneration failed:', error);
+    throw error;
+  }
+};
\ No newline at end of file
@@ -0,0 +1,112 @@
+import { db } from '../db';
+import { documentAnalysisTable, webSearchTable } from '../db/schema';
+import { type QuizSource, type QuizSourceSection, type QuizSourceType } from '../schema';
+import { extractPdfPages } from '../rag';
+import { eq } from 'drizzle-orm';
+import { getAttachment, readAttachment } from './get_attachment';
+import { loadSession, loadSessionMessages } from './send_ai_message';
+import { getTranscript } from './export_chat_session';
+
+// The text a quiz is written from, and the reference stored with the quiz so the
+// questions can be traced back to it
+export interface ResolvedQuizSource {
+  text: string;
+  type: QuizSourceType;
+  ref: string | null;
+  title: string | null;
+  sections: QuizSourceSection[] | null;
+}
+
+interface TextPart {
+  text: string;
+  locator: number;
+}
+
+export const resolveQuizSource = async (source: QuizSource): Promise<ResolvedQuizSource> => {
+  switch (source.type) {
+    case 'text':
+      return { text: source.text, type: 'text', ref: null, title: null, sections: null };
+    case 'attachment':
+      return resolveAttachment(source.attachment_id);
+    case 'document_analysis': {
+      const analyses = await db.select()
+        .from(documentAnalysisTable)
+        .where(eq(documentAnalysisTable.id, source.analysis_id))
+        .execute();
+      if (analyses.length === 0) {
+        throw new Error(`Document analysis with id ${source.analysis_id} not found`);
+      }
+      const analysis = analyses[0];
+      return withText(analysis.analysis_result, {
+        type: 'document_analysis',
+        ref: String(analysis.id),
+        title: analysis.prompt,
+        sections: null
+      });
+    }
+    case 'web_search': {
+      const searches = await db.select()
+        .from(webSearchTable)
+        .where(eq(webSearchTable.id, source.search_id))
+        .execute();
+      if (searches.length === 0) {
+        throw new Error(`Web search with id ${source.search_id} not found`);
+      }
+      const search = searches[0];
+      return withText(search.summary, {
+        type: 'web_search',
+        ref: String(search.id),
+        title: search.query,
+        sections: null
+      });
+    }
+    case 'chat_session': {
+      const session = await loadSession(source.session_id);
+      const transcript = getTranscript(await loadSessionMessages(session.id));
+      const { text, sections } = joinParts(transcript
+        .filter(({ message }) => message.content.trim())
+        .map(({ message }) => ({
+          text: `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content.trim()}`,
+          locator: message.id
+        })));
+      return withText(text, { type: 'chat_session', ref: session.id, title: session.title, sections });
+    }
+  }
+};
+
+const resolveAttachment = async (attachmentId: number): Promise<ResolvedQuizSource> => {
+  const attachment = await getAttachment({ id: attachmentId });
+  const reference = { type: 'attachment' as const, ref: String(attachment.id), title: attachment.filename };
+
+  if (attachment.mime_type === 'application/pdf') {
+    const pages = await extractPdfPages(new Uint8Array(await readAttachment(attachment)));
+    const { text, sections } = joinParts(pages.map((page, index) => ({ text: page, locator: index + 1 })));
+    return withText(text, { ...reference, sections });
+  }
+  if (attachment.mime_type === 'text/plain') {
+    return withText((await readAttachment(attachment)).toString('utf8'), { ...reference, sections: null });
+  }
+  throw new Error(`Attachment ${attachment.id} is neither a PDF nor a text file`);
+};
+
+// Joins the non-empty parts with blank lines, recording where each one landed.
+// Parts are already trimmed, so trimming the joined text keeps the offsets valid
+const joinParts = (parts: TextPart[]): { text: string; sections: QuizSourceSection[] } => {
+  let text = '';
+  const sections: QuizSourceSection[] = [];
+  for (const part of parts) {
+    if (!part.text) continue;
+    if (text) text += '\n\n';
+    sections.push({ start: text.length, end: text.length + part.text.length, locator: part.locator });
+    text += part.text;
+  }
+  return { text, sections };
+};
+
+const withText = (text: string, reference: Omit<ResolvedQuizSource, 'text'>): ResolvedQuizSource => {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    throw new Error('The quiz source has no text to write questions from');
+  }
+  return { ...reference, text: trimmed };
+};
\ No newline at end of file
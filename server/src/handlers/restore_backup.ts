@@ -0,0 +1,325 @@
+import { db } from '../db';
+import {
+  BACKUP_SCHEMA_VERSION,
+  backupLineSchema,
+  restoreBackupOptionsSchema,
+  type BackupLine,
+  type BackupRestoreReport,
+  type RestoreBackupOptions
+} from '../schema';
+import { inArray, sql } from 'drizzle-orm';
+import { type PgColumn } from 'drizzle-orm/pg-core';
+import { gunzip } from 'zlib';
+import { promisify } from 'util';
+import { createHash } from 'crypto';
+import { getStorage } from '../storage';
+import { getBackupTables, type BackupTable } from './create_backup';
+import { linkLegacyChatMessages } from '../db/migrations';
+import { syncStudyCards } from '../study';
+
+const BATCH_SIZE = 500;
+
+// Version 1 backups restore as they are: every table and column added since is
+// nullable or has a default, and rows in formats that changed (quizzes without
+// typed questions, web searches with plain URL sources) are still read by the app
+const OLDEST_RESTORABLE_VERSION = 1;
+const MAX_UNCOMPRESSED_BYTES = 1024 * 1024 * 1024;
+
+type Row = Record<string, unknown>;
+
+// Restores an archive produced by createBackup (plain or gzipped NDJSON). The
+// whole archive is validated before anything is written, and writes happen in
+// one transaction, so a bad file never leaves the account half-restored
+export const restoreBackup = async (archive: Buffer, options: RestoreBackupOptions): Promise<BackupRestoreReport> => {
+  try {
+    const { mode, onConflict, dryRun } = restoreBackupOptionsSchema.parse(options);
+    const backupTables = getBackupTables();
+    const { header, rowsByTable, files } = await parseArchive(archive, backupTables);
+
+    const report: BackupRestoreReport = {
+      applied: false,
+      mode,
+      on_conflict: onConflict,
+      schema_version: header.schema_version,
+      backup_created_at: header.created_at,
+      tables: {},
+      files: files.size,
+      missing_files: await findMissingFiles(rowsByTable.get('attachments') ?? [], files)
+    };
+
+    // Replacing wipes existing rows, so only merges can conflict
+    const conflictsByTable = new Map<string, Set<unknown>>();
+    for (const backupTable of backupTables) {
+      const rows = rowsByTable.get(backupTable.name) ?? [];
+      const conflicts = mode === 'merge' ? await findExistingKeys(backupTable, rows) : new Set<unknown>();
+      conflictsByTable.set(backupTable.name, conflicts);
+      report.tables[backupTable.name] = {
+        rows: rows.length,
+        conflicts: conflicts.size,
+        written: onConflict === 'skip' ? rows.length - conflicts.size : rows.length
+      };
+    }
+
+    const totalConflicts = Object.values(report.tables).reduce((sum, table) => sum + table.conflicts, 0);
+    if (dryRun) {
+      return report;
+    }
+    if (totalConflicts > 0 && onConflict === 'fail') {
+      throw new Error(`${totalConflicts} rows in the backup have IDs that already exist; choose to skip or overwrite them, or replace all data`);
+    }
+
+    // Files are content-addressed, so any left behind by a failed restore are the
+    // same ones the next attempt writes
+    const storage = getStorage();
+    for (const [storageKey, data] of files) {
+      if (!(await storage.headObject(storageKey))) {
+        await storage.putObject(storageKey, data);
+      }
+    }
+
+    await db.transaction(async (tx) => {
+      if (mode === 'replace') {
+        for (const { table } of [...backupTables].reverse()) {
+          await tx.delete(table).execute();
+        }
+      }
+
+      for (const backupTable of backupTables) {
+        const rows = rowsByTable.get(backupTable.name) ?? [];
+        for (let start = 0; start < rows.length; start += BATCH_SIZE) {
+          const insert = tx.insert(backupTable.table).values(rows.slice(start, start + BATCH_SIZE));
+          if (onConflict === 'skip') {
+            await insert.onConflictDoNothing().execute();
+          } else if (onConflict === 'overwrite') {
+            await insert.onConflictDoUpdate({ target: backupTable.primaryKey, set: excludedValues(backupTable) }).execute();
+          } else {
+            await insert.execute();
+          }
+        }
+      }
+
+      // Rows came with explicit IDs; move serial sequences past them
+      for (const { name, columns } of backupTables) {
+        for (const column of Object.values(columns)) {
+          if (column.columnType === 'PgSerial') {
+            await tx.execute(sql`select setval(
+              pg_get_serial_sequence(${name}, ${column.name}),
+              coalesce((select max(${sql.identifier(column.name)}) from ${sql.identifier(name)}), 0) + 1,
+              false
+            )`);
+          }
+        }
+      }
+
+      // Backups taken before branching hold chats whose messages have no parents
+      await linkLegacyChatMessages(tx);
+    });
+    // Backups taken before study cards existed hold quizzes without them
+    await syncStudyCards();
+
+    return { ...report, applied: true };
+  } catch (error) {
+    console.error('Backup restore failed:', error);
+    throw error;
+  }
+};
+
+const parseArchive = async (archive: Buffer, backupTables: BackupTable[]) => {
+  // gzip magic number; uploads may be the downloaded .ndjson.gz or an extracted .ndjson
+  const text = archive[0] === 0x1f && archive[1] === 0x8b
+    ? (await promisify(gunzip)(archive, { maxOutputLength: MAX_UNCOMPRESSED_BYTES })).toString('utf8')
+    : archive.toString('utf8');
+
+  const tablesByName = new Map(backupTables.map(backupTable => [backupTable.name, backupTable]));
+  const rowsByTable = new Map<string, Row[]>();
+  const files = new Map<string, Buffer>();
+  let header: Extract<BackupLine, { type: 'header' }> | null = null;
+  let footer: Extract<BackupLine, { type: 'footer' }> | null = null;
+
+  const lines = text.split('\n');
+  for (let index = 0; index < lines.length; index++) {
+    if (!lines[index].trim()) continue;
+    const lineNumber = index + 1;
+
+    if (footer) {
+      throw new Error(`Line ${lineNumber}: unexpected content after the backup footer`);
+    }
+
+    let json: unknown;
+    try {
+      json = JSON.parse(lines[index]);
+    } catch {
+      throw new Error(`Line ${lineNumber}: not valid JSON`);
+    }
+
+    const parsed = backupLineSchema.safeParse(json);
+    if (!parsed.success) {
+      throw new Error(`Line ${lineNumber}: ${parsed.error.issues[0].message}`);
+    }
+    const line = parsed.data;
+
+    if (!header) {
+      if (line.type !== 'header') {
+        throw new Error('Not an OKAIgpt backup: the header line is missing');
+      }
+      checkSchemaVersion(line.schema_version);
+      header = line;
+      continue;
+    }
+
+    if (line.type === 'header') {
+      throw new Error(`Line ${lineNumber}: duplicate backup header`);
+    } else if (line.type === 'footer') {
+      footer = line;
+    } else if (line.type === 'file') {
+      if (files.has(line.storage_key)) {
+        throw new Error(`Line ${lineNumber}: duplicate file ${line.storage_key}`);
+      }
+      files.set(line.storage_key, Buffer.from(line.data, 'base64'));
+    } else {
+      const backupTable = tablesByName.get(line.table);
+      if (!backupTable) {
+        throw new Error(`Line ${lineNumber}: unknown table ${line.table}`);
+      }
+      const rows = rowsByTable.get(line.table) ?? [];
+      rows.push(decodeRow(backupTable, line.data, lineNumber));
+      rowsByTable.set(line.table, rows);
+    }
+  }
+
+  if (!header) {
+    throw new Error('Not an OKAIgpt backup: the file is empty');
+  }
+  // A missing footer or mismatched counts means the file was cut short
+  if (!footer) {
+    throw new Error('The backup is incomplete: the footer line is missing');
+  }
+  for (const name of new Set([...Object.keys(footer.counts), ...rowsByTable.keys()])) {
+    const expected = footer.counts[name] ?? 0;
+    const found = rowsByTable.get(name)?.length ?? 0;
+    if (found !== expected) {
+      throw new Error(`The backup is incomplete: expected ${expected} ${name} rows, found ${found}`);
+    }
+  }
+  if (footer.files !== undefined && footer.files !== files.size) {
+    throw new Error(`The backup is incomplete: expected ${footer.files} files, found ${files.size}`);
+  }
+  checkFiles(rowsByTable.get('attachments') ?? [], files);
+
+  return { header, rowsByTable, files };
+};
+
+// Every file must be the content of an attachment in the backup
+const checkFiles = (attachments: Row[], files: Map<string, Buffer>): void => {
+  const attachmentsByKey = new Map(attachments.map(attachment => [attachment['storage_key'], attachment]));
+  for (const [storageKey, data] of files) {
+    const attachment = attachmentsByKey.get(storageKey);
+    if (!attachment) {
+      throw new Error(`The file ${storageKey} belongs to no attachment in the backup`);
+    }
+    if (createHash('sha256').update(data).digest('hex') !== attachment['sha256']) {
+      throw new Error(`The file of attachment ${attachment['id']} is corrupt: its checksum does not match`);
+    }
+  }
+};
+
+// Attachments restored without a file would fail to open, so they are listed for the user
+const findMissingFiles = async (attachments: Row[], files: Map<string, Buffer>): Promise<string[]> => {
+  const storage = getStorage();
+  const missing: string[] = [];
+  for (const attachment of attachments) {
+    const storageKey = attachment['storage_key'] as string;
+    if (!files.has(storageKey) && !(await storage.headObject(storageKey))) {
+      missing.push(attachment['filename'] as string);
+    }
+  }
+  return missing;
+};
+
+const checkSchemaVersion = (version: number): void => {
+  if (version > BACKUP_SCHEMA_VERSION) {
+    throw new Error(`This backup uses schema version ${version}, which is newer than this app supports (${BACKUP_SCHEMA_VERSION}); update the app before restoring it`);
+  }
+  if (version < OLDEST_RESTORABLE_VERSION) {
+    throw new Error(`Backups with schema version ${version} can no longer be restored (current version is ${BACKUP_SCHEMA_VERSION})`);
+  }
+};
+
+// Checks a row against the live table definition and converts JSON values
+// (ISO date strings) back to what the column expects
+const decodeRow = (backupTable: BackupTable, data: Row, lineNumber: number): Row => {
+  const fail = (message: string): never => {
+    throw new Error(`Line ${lineNumber}: ${backupTable.name}.${message}`);
+  };
+
+  for (const field of Object.keys(data)) {
+    if (!(field in backupTable.columns)) {
+      fail(`${field} is not a known column`);
+    }
+  }
+
+  const row: Row = {};
+  for (const [field, column] of Object.entries(backupTable.columns)) {
+    const value = data[field];
+
+    if (value === undefined || value === null) {
+      if (column.notNull && (value === null || !column.hasDefault)) {
+        fail(`${field} is required`);
+      }
+      if (value === null) row[field] = null;
+      continue;
+    }
+
+    row[field] = decodeValue(column, value, message => fail(`${field} ${message}`));
+  }
+
+  return row;
+};
+
+const decodeValue = (column: PgColumn, value: unknown, fail: (message: string) => never): unknown => {
+  switch (column.dataType) {
+    case 'date': {
+      const date = typeof value === 'string' ? new Date(value) : null;
+      if (!date || Number.isNaN(date.getTime())) fail('must be an ISO date');
+      return date;
+    }
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) fail('must be a number');
+      return value;
+    case 'boolean':
+      if (typeof value !== 'boolean') fail('must be a boolean');
+      return value;
+    case 'string':
+      if (typeof value !== 'string') fail('must be a string');
+      if (column.enumValues && !column.enumValues.includes(value as string)) {
+        fail(`must be one of ${column.enumValues.join(', ')}`);
+      }
+      return value;
+    default:
+      // json and custom column types are stored as-is
+      return value;
+  }
+};
+
+const findExistingKeys = async (backupTable: BackupTable, rows: Row[]): Promise<Set<unknown>> => {
+  const existing = new Set<unknown>();
+  const keys = rows.map(row => row[backupTable.primaryKeyField]);
+
+  for (let start = 0; start < keys.length; start += BATCH_SIZE) {
+    const found: Row[] = await db.select({ key: backupTable.primaryKey })
+      .from(backupTable.table)
+      .where(inArray(backupTable.primaryKey, keys.slice(start, start + BATCH_SIZE)))
+      .execute();
+    found.forEach(row => existing.add(row['key']));
+  }
+
+  return existing;
+};
+
+// Overwrite every column with the incoming row's value
+const excludedValues = (backupTable: BackupTable) =>
+  Object.fromEntries(
+    Object.entries(backupTable.columns)
+      .filter(([field]) => field !== backupTable.primaryKeyField)
+      .map(([field, column]) => [field, sql.raw(`excluded.${JSON.stringify(column.name)}`)])
+  );
@@ -0,0 +1,97 @@
+import { db } from '../db';
+import { pdfChunksTable, pdfDocumentsTable } from '../db/schema';
+import { type PdfCitation } from '../schema';
+import { getRagOptions, topKBySimilarity } from '../rag';
+import { type AIProvider } from '../ai';
+import { and, asc, eq, inArray, sql } from 'drizzle-orm';
+
+export interface RetrievedChunk extends PdfCitation {
+  text: string;
+}
+
+// Detected once per process; installing pgvector later needs a restart to be picked up
+let pgvectorInstalled: Promise<boolean> | null = null;
+
+const hasPgvector = (): Promise<boolean> => {
+  pgvectorInstalled ??= db.execute(sql`select 1 from pg_extension where extname = 'vector'`)
+    .then(result => result.rows.length > 0)
+    .catch(() => false);
+  return pgvectorInstalled;
+};
+
+// The chunks of the session's PDFs most similar to the question, best first. Each
+// document is searched with a question embedding from the model that indexed it
+export const retrievePdfChunks = async (
+  sessionId: string,
+  question: string,
+  provider: AIProvider
+): Promise<RetrievedChunk[]> => {
+  const documents = await db.select()
+    .from(pdfDocumentsTable)
+    .where(eq(pdfDocumentsTable.session_id, sessionId))
+    .execute();
+
+  if (documents.length === 0) {
+    return [];
+  }
+
+  const { topK, vectorSearch } = getRagOptions();
+  const usePgvector = vectorSearch === 'pgvector' || (vectorSearch === 'auto' && await hasPgvector());
+  const filenames = new Map(documents.map(document => [document.id, document.filename]));
+
+  const candidates: Omit<RetrievedChunk, 'filename'>[] = [];
+  for (const model of new Set(documents.map(document => document.embedding_model))) {
+    const documentIds = documents.filter(document => document.embedding_model === model).map(document => document.id);
+    const response = await provider.embed({ model, input: [question] });
+    const query = response.embeddings[0];
+
+    candidates.push(...(usePgvector
+      ? await searchWithPgvector(documentIds, query, topK)
+      : await searchLocally(documentIds, query, topK)));
+  }
+
+  return candidates
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK)
+    .map(chunk => ({ ...chunk, filename: filenames.get(chunk.document_id)! }));
+};
+
+const searchWithPgvector = async (documentIds: number[], query: number[], k: number) => {
+  const vector = sql`${JSON.stringify(query)}::vector`;
+  const distance = sql<number>`${pdfChunksTable.embedding}::vector <=> ${vector}`;
+
+  const rows = await db.select({
+    chunk_id: pdfChunksTable.id,
+    document_id: pdfChunksTable.document_id,
+    page: pdfChunksTable.page,
+    text: pdfChunksTable.text,
+    distance
+  })
+    .from(pdfChunksTable)
+    .where(and(
+      inArray(pdfChunksTable.document_id, documentIds),
+      sql`cardinality(${pdfChunksTable.embedding}) = ${query.length}`
+    ))
+    .orderBy(distance)
+    .limit(k)
+    .execute();
+
+  return rows.map(({ distance, ...chunk }) => ({ ...chunk, score: 1 - Number(distance) }));
+};
+
+// Fallback without pgvector: score every chunk of the documents in memory
+const searchLocally = async (documentIds: number[], query: number[], k: number) => {
+  const rows = await db.select()
+    .from(pdfChunksTable)
+    .where(inArray(pdfChunksTable.document_id, documentIds))
+    .orderBy(asc(pdfChunksTable.document_id), asc(pdfChunksTable.chunk_index))
+    .execute();
+
+  return topKBySimilarity(rows, query, k).map(chunk => ({
+    chunk_id: chunk.id,
+    document_id: chunk.document_id,
+    page: chunk.page,
+    text: chunk.text,
+    score: chunk.score
+  }));
+};
\ No newline at end of file
@@ -0,0 +1,47 @@
+import { db } from '../db';
+import { generatedVideosTable } from '../db/schema';
+import { type RetryVideoInput, type GeneratedVideo } from '../schema';
+import { enqueueJob } from '../jobs';
+import { notifyVideoChanged, VIDEO_JOB_KIND } from '../video';
+import { getVideoStatus } from './get_video_status';
+import { and, eq, inArray } from 'drizzle-orm';
+
+// Starts a failed or cancelled video over with the same prompt and image, as a
+// new job with a fresh set of attempts
+export const retryVideo = async (input: RetryVideoInput): Promise<GeneratedVideo> => {
+  try {
+    const retried = await db.transaction(async (tx) => {
+      const result = await tx.update(generatedVideosTable)
+        .set({
+          status: 'pending',
+          progress: 0,
+          progress_message: 'Video generation queued',
+          video_url: null,
+          started_at: null,
+          completed_at: null
+        })
+        .where(and(
+          eq(generatedVideosTable.id, input.id),
+          inArray(generatedVideosTable.status, ['failed', 'cancelled'])
+        ))
+        .returning()
+        .execute();
+
+      if (result.length > 0) {
+        await enqueueJob(VIDEO_JOB_KIND, { video_id: input.id }, {}, tx);
+      }
+      return result[0];
+    });
+
+    if (!retried) {
+      const video = await getVideoStatus({ id: input.id });
+      throw new Error(`Video with id ${input.id} is ${video.status}; only failed or cancelled videos can be retried`);
+    }
+
+    await notifyVideoChanged(input.id);
+    return retried;
+  } catch (error) {
+    console.error('Video retry failed:', error);
+    throw error;
+  }
+};
\ No newline at end of file
@@ -0,0 +1,30 @@
+import { db } from '../db';
+import { studyCardsTable } from '../db/schema';
+import { type ReviewCardInput, type StudyCard } from '../schema';
+import { scheduleReview } from '../study';
+import { eq } from 'drizzle-orm';
+
+export const reviewCard = async (input: ReviewCardInput): Promise<StudyCard> => {
+  try {
+    const cards = await db.select()
+      .from(studyCardsTable)
+      .where(eq(studyCardsTable.id, input.card_id))
+      .execute();
+
+    const card = cards[0];
+    if (!card) {
+      throw new Error(`Study card with id ${input.card_id} not found`);
+    }
+
+    const result = await db.update(studyCardsTable)
+      .set(scheduleReview(card, input.rating))
+      .where(eq(studyCardsTable.id, card.id))
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Card review failed:', error);
+    throw error;
+  }
+};
\ No newline at end of file
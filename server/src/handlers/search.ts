@@ -0,0 +1,189 @@
+import { db } from '../db';
+import {
+  chatMessagesTable,
+  chatSessionsTable,
+  documentAnalysisTable,
+  generatedImagesTable,
+  generatedVideosTable,
+  quizTable,
+  webSearchTable,
+  searchDocuments
+} from '../db/schema';
+import { type SearchInput, type SearchResult, type SearchSourceType } from '../schema';
+import { desc, eq, sql, type SQL } from 'drizzle-orm';
+import { type AnyPgColumn } from 'drizzle-orm/pg-core';
+
+const DEFAULT_LIMIT = 20;
+const HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "';
+
+export const search = async (input: SearchInput): Promise<SearchResult[]> => {
+  try {
+    const limit = input.limit ?? DEFAULT_LIMIT;
+    const types = new Set<SearchSourceType>(input.types ?? searchers.map(searcher => searcher.type));
+    const query = sql`websearch_to_tsquery('english', ${input.query})`;
+
+    // Each source is ranked on its own index; the best `limit` hits of each are merged
+    const perSource = await Promise.all(
+      searchers
+        .filter(searcher => types.has(searcher.type))
+        .map(searcher => searcher.run(query, limit))
+    );
+
+    return perSource
+      .flat()
+      .sort((a, b) => b.rank - a.rank || b.created_at.getTime() - a.created_at.getTime())
+      .slice(0, limit);
+  } catch (error) {
+    console.error('Search failed:', error);
+    throw error;
+  }
+};
+
+const rankOf = (document: SQL, query: SQL) => sql<number>`ts_rank(${document}, ${query})`;
+
+const headline = (column: AnyPgColumn, query: SQL) =>
+  sql<string>`ts_headline('english', ${column}, ${query}, ${HEADLINE_OPTIONS})`;
+
+interface Searcher {
+  type: SearchSourceType;
+  run: (query: SQL, limit: number) => Promise<SearchResult[]>;
+}
+
+const searchers: Searcher[] = [
+  {
+    type: 'chat_message',
+    run: async (query, limit) => {
+      const document = searchDocuments.chatMessages(chatMessagesTable);
+      const rows = await db.select({
+        id: chatMessagesTable.id,
+        session_id: chatMessagesTable.session_id,
+        title: sql<string>`coalesce(${chatSessionsTable.title}, 'New Chat')`,
+        snippet: headline(chatMessagesTable.content, query),
+        rank: rankOf(document, query),
+        created_at: chatMessagesTable.created_at
+      })
+        .from(chatMessagesTable)
+        .innerJoin(chatSessionsTable, eq(chatMessagesTable.session_id, chatSessionsTable.id))
+        .where(sql`${document} @@ ${query}`)
+        .orderBy(desc(rankOf(document, query)))
+        .limit(limit)
+        .execute();
+
+      return rows.map(row => toResult('chat_message', row, row.session_id));
+    }
+  },
+  {
+    type: 'document_analysis',
+    run: async (query, limit) => {
+      const document = searchDocuments.documentAnalysis(documentAnalysisTable);
+      const rows = await db.select({
+        id: documentAnalysisTable.id,
+        title: documentAnalysisTable.prompt,
+        snippet: headline(documentAnalysisTable.analysis_result, query),
+        rank: rankOf(document, query),
+        created_at: documentAnalysisTable.created_at
+      })
+        .from(documentAnalysisTable)
+        .where(sql`${document} @@ ${query}`)
+        .orderBy(desc(rankOf(document, query)))
+        .limit(limit)
+        .execute();
+
+      return rows.map(row => toResult('document_analysis', row));
+    }
+  },
+  {
+    type: 'quiz',
+    run: async (query, limit) => {
+      const document = searchDocuments.quiz(quizTable);
+      const rows = await db.select({
+        id: quizTable.id,
+        title: sql<string>`coalesce(${quizTable.quiz_data}->>'title', left(${quizTable.source_text}, 80))`,
+        snippet: headline(quizTable.source_text, query),
+        rank: rankOf(document, query),
+        created_at: quizTable.created_at
+      })
+        .from(quizTable)
+        .where(sql`${document} @@ ${query}`)
+        .orderBy(desc(rankOf(document, query)))
+        .limit(limit)
+        .execute();
+
+      return rows.map(row => toResult('quiz', row));
+    }
+  },
+  {
+    type: 'web_search',
+    run: async (query, limit) => {
+      const document = searchDocuments.webSearch(webSearchTable);
+      const rows = await db.select({
+        id: webSearchTable.id,
+        title: webSearchTable.query,
+        snippet: headline(webSearchTable.summary, query),
+        rank: rankOf(document, query),
+        created_at: webSearchTable.created_at
+      })
+        .from(webSearchTable)
+        .where(sql`${document} @@ ${query}`)
+        .orderBy(desc(rankOf(document, query)))
+        .limit(limit)
+        .execute();
+
+      return rows.map(row => toResult('web_search', row));
+    }
+  },
+  {
+    type: 'generated_image',
+    run: async (query, limit) => {
+      const document = searchDocuments.generatedImages(generatedImagesTable);
+      const rows = await db.select({
+        id: generatedImagesTable.id,
+        title: generatedImagesTable.prompt,
+        snippet: headline(generatedImagesTable.prompt, query),
+        rank: rankOf(document, query),
+        created_at: generatedImagesTable.created_at
+      })
+        .from(generatedImagesTable)
+        .where(sql`${document} @@ ${query}`)
+        .orderBy(desc(rankOf(document, query)))
+        .limit(limit)
+        .execute();
+
+      return rows.map(row => toResult('generated_image', row));
+    }
+  },
+  {
+    type: 'generated_video',
+    run: async (query, limit) => {
+      const document = searchDocuments.generatedVideos(generatedVideosTable);
+      const rows = await db.select({
+        id: generatedVideosTable.id,
+        title: generatedVideosTable.prompt,
+        snippet: headline(generatedVideosTable.prompt, query),
+        rank: rankOf(document, query),
+        created_at: generatedVideosTable.created_at
+      })
+        .from(generatedVideosTable)
+        .where(sql`${document} @@ ${query}`)
+        .orderBy(desc(rankOf(document, query)))
+        .limit(limit)
+        .execute();
+
+      return rows.map(row => toResult('generated_video', row));
+    }
+  }
+];
+
+const toResult = (
+  sourceType: SearchSourceType,
+  row: { id: number; title: string; snippet: string; rank: number; created_at: Date },
+  sessionId: string | null = null
+): SearchResult => ({
+  source_type: sourceType,
+  source_id: row.id,
+  session_id: sessionId,
+  title: row.title,
+  snippet: row.snippet,
+  rank: row.rank,
+  created_at: row.created_at
+});
@@ -1,30 +1,53 @@
 import { db } from '../db';
 import { webSearchTable } from '../db/schema';
-import { type CreateWebSearchInput, type WebSearch } from '../schema';
+import { type CreateWebSearchInput, type WebSearch, type WebSearchSource } from '../schema';
+import {
+  buildSummaryMessages,
+  extractReadableText,
+  fetchPage,
+  getWebSearchOptions,
+  getWebSearchProvider,
+  normaliseCitations,
+  readWebSearchSources,
+  type SummarySource,
+  type WebSearchHit,
+  type WebSearchOptions
+} from '../websearch';
+import { getMeteredProvider } from './record_ai_usage';
 
+interface ReadResult {
+  source: WebSearchSource;
+  text: string;
+}
+
+// Searches with the provider named by WEB_SEARCH_PROVIDER, reads the result pages
+// and has the AI provider summarise them with numbered citations. Pages that cannot
+// be read are still cited, from their search snippet
 export const searchWeb = async (input: CreateWebSearchInput): Promise<WebSearch> => {
   try {
-    // In a real implementation, this would integrate with an AI service 
-    // that has web search capabilities (like Perplexity, SearchGPT, etc.)
-    // For now, we'll simulate the web search process
-    
-    // Simulate AI-powered web search with summary generation
-    const mockSummary = `Search results for "${input.query}": This is a comprehensive summary of findings from multiple web sources. The search covered recent developments, key information, and relevant details related to the query.`;
-    
-    // Simulate collecting source URLs from web search
-    const mockSources = [
-      'https://example.com/article1',
-      'https://example.com/news2',
-      'https://example.com/research3',
-      'https://example.com/blog4'
-    ];
+    const options = getWebSearchOptions();
+    const hits = await getWebSearchProvider().search({ query: input.query, limit: options.resultCount });
+    const results = await Promise.all(hits.map(hit => readHit(hit, options)));
+
+    let summary = `No results were found for "${input.query}".`;
+    if (results.length > 0) {
+      const sources: SummarySource[] = results.map((result, index) => ({
+        number: index + 1,
+        title: result.source.title,
+        url: result.source.url,
+        text: result.text.slice(0, options.maxPageChars)
+      }));
+      const response = await getMeteredProvider({ feature: 'web_search' }).chat({
+        messages: buildSummaryMessages({ query: input.query, sources })
+      });
+      summary = normaliseCitations(response.content, sources.length);
+    }
 
-    // Insert web search record into database
     const result = await db.insert(webSearchTable)
       .values({
         query: input.query,
-        summary: mockSummary,
-        sources: mockSources // JSON array stored directly
+        summary,
+        sources: results.map(result => result.source)
       })
       .returning()
       .execute();
@@ -32,10 +55,34 @@ export const searchWeb = async (input: CreateWebSearchInput): Promise<WebSearch>
     const webSearch = result[0];
     return {
       ...webSearch,
-      sources: webSearch.sources as string[] // Type assertion for JSON field
+      sources: readWebSearchSources(webSearch.sources)
     };
   } catch (error) {
     console.error('Web search failed:', error);
     throw error;
   }
+};
+
+// The search's own title is kept unless it only repeats the URL
+const readHit = async (hit: WebSearchHit, options: WebSearchOptions): Promise<ReadResult> => {
+  const fromSnippet = (): ReadResult => ({
+    source: { url: hit.url, title: hit.title, snippet: hit.snippet, fetched_at: null },
+    text: hit.snippet
+  });
+
+  try {
+    const page = hit.html !== undefined
+      ? { ...extractReadableText(hit.html), fetched_at: new Date() }
+      : await fetchPage(hit.url, options);
+    if (!page.text) {
+      return fromSnippet();
+    }
+    return {
+      source: { url: hit.url, title: hit.title === hit.url ? page.title ?? hit.title : hit.title, snippet: hit.snippet, fetched_at: page.fetched_at },
+      text: page.text
+    };
+  } catch (error) {
+    console.error(`Reading ${hit.url} failed:`, error);
+    return fromSnippet();
+  }
 };
\ No newline at end of file
@@ -1,159 +1,309 @@
 import { db } from '../db';
-import { chatMessagesTable, chatSessionsTable } from '../db/schema';
-import { type SendAiMessageInput, type ChatMessage } from '../schema';
-import { eq } from 'drizzle-orm';
-
-// Mock puter.ai.chat for now since the actual package might not be available
-const mockPuterAI = {
-  chat: async (options: any) => {
-    const { messages, model } = options;
-    const lastMessage = messages[messages.length - 1];
-    
-    // Simulate AI response based on mode and content
-    let response = '';
-    
-    if (lastMessage.genZMode) {
-      response = "yo that's actually fire 🔥 lemme break this down for you real quick... ";
-    } else if (lastMessage.copyCodeOnlyMode) {
-      response = "```javascript\n// Here's the code you requested\nconsole.log('Hello, World!');\n```";
-    } else {
-      response = "I understand your message and I'm here to help. ";
-    }
-    
-    // Add context-aware responses
-    if (lastMessage.imageFileBase64) {
-      response += "I can see the image you've shared. ";
-    }
-    
-    if (lastMessage.pdfFileContent) {
-      response += "I've reviewed the PDF content you provided. ";
-    }
-    
-    response += "Let me provide you with a comprehensive response based on your input.";
-    
-    return {
-      choices: [{
-        message: {
-          content: response
-        }
-      }]
-    };
-  }
-};
+import { chatMessagesTable, chatSessionsTable, pdfDocumentsTable } from '../db/schema';
+import { type SendAiMessageInput, type ChatMessage, type ModelParams, type Persona, type PdfCitation } from '../schema';
+import { and, eq, asc } from 'drizzle-orm';
+import {
+  getHistoryOptions,
+  buildHistoryMessages,
+  estimateMessagesTokens,
+  type AIChatMessage,
+  type AIProvider
+} from '../ai';
+import { generateSessionTitle } from './generate_session_title';
+import { getPersona } from './get_personas';
+import { getMeteredProvider } from './record_ai_usage';
+import { retrievePdfChunks, type RetrievedChunk } from './retrieve_pdf_chunks';
+import { getAttachment, readAttachmentDataUrl } from './get_attachment';
+import { isImageMimeType } from '../storage';
+
+type ChatMessageRow = typeof chatMessagesTable.$inferSelect;
+type ChatSessionRow = typeof chatSessionsTable.$inferSelect;
+
+export type AiModeOptions = Pick<SendAiMessageInput, 'genZMode' | 'copyCodeOnlyMode' | 'targetLanguage'>;
+
+export interface AiPrompt {
+  provider: AIProvider;
+  messages: AIChatMessage[];
+  params: ModelParams; // Spread into the provider request
+  citations: PdfCitation[]; // PDF passages added to the prompt, for the reply's metadata
+}
+
+export interface PreparedAiMessage extends AiPrompt {
+  userMessageId: number; // Parent for the assistant reply
+}
 
 export const sendAiMessage = async (input: SendAiMessageInput): Promise<ChatMessage> => {
   try {
-    // 1. Validate the session ID
-    const sessionExists = await db.select()
-      .from(chatSessionsTable)
-      .where(eq(chatSessionsTable.id, input.sessionId))
-      .execute();
-    
-    if (sessionExists.length === 0) {
-      throw new Error('Session not found');
-    }
+    // 1-4. Store the user message and build the prompt
+    const { provider, messages, params, citations, userMessageId } = await prepareAiMessage(input);
 
-    // 2. Create the user message
-    let userContent = input.messageContent;
-    let contentType: 'text' | 'image' | 'pdf' = 'text';
-    let metadata: Record<string, any> | null = null;
-
-    if (input.imageFileBase64) {
-      contentType = 'image';
-      metadata = { hasImage: true };
-    } else if (input.pdfFileContent) {
-      contentType = 'pdf';
-      metadata = { hasPdf: true };
-      // Prepend PDF content as context
-      userContent = `PDF Content: ${input.pdfFileContent}\n\nUser Question: ${input.messageContent}`;
-    }
+    // 5. Call the configured AI provider
+    const aiResponse = await provider.chat({ ...params, messages });
 
-    const userMessageResult = await db.insert(chatMessagesTable)
-      .values({
-        session_id: input.sessionId,
-        role: 'user',
-        content: userContent,
-        content_type: contentType,
-        metadata: metadata
-      })
-      .returning()
-      .execute();
-
-    const userMessage = userMessageResult[0];
-
-    // 3. Construct the prompt for puter.ai.chat
-    const messages = [{
-      role: 'user',
-      content: input.messageContent,
-      genZMode: input.genZMode || false,
-      copyCodeOnlyMode: input.copyCodeOnlyMode || false,
-      targetLanguage: input.targetLanguage || 'english',
-      imageFileBase64: input.imageFileBase64,
-      pdfFileContent: input.pdfFileContent
-    }];
-
-    // Add system prompt based on modes
-    let systemPrompt = '';
-    
-    if (input.genZMode) {
-      systemPrompt += 'Respond in a casual, Gen Z style with slang and emojis. ';
-    }
-    
-    if (input.copyCodeOnlyMode) {
-      systemPrompt += 'Only respond with code, no explanations. ';
-    }
-    
-    if (input.targetLanguage && input.targetLanguage !== 'english') {
-      systemPrompt += `Respond in ${input.targetLanguage}. `;
-    }
+    // 6-8. Store and return the assistant message
+    const assistantMessage = await saveAssistantMessage(input.sessionId, userMessageId, aiResponse.content, replyMetadata(aiResponse.model, citations));
 
-    if (systemPrompt) {
-      messages.unshift({
-        role: 'system' as any,
-        content: systemPrompt,
-        genZMode: false,
-        copyCodeOnlyMode: false,
-        targetLanguage: 'english',
-        imageFileBase64: null,
-        pdfFileContent: null
-      });
-    }
+    await titleSessionAfterReply(input.sessionId, input.messageContent, assistantMessage.content);
 
-    // 4. Call puter.ai.chat (mocked for now)
-    const aiResponse = await mockPuterAI.chat({
-      model: "google/gemini-2.0-flash-lite-001",
-      messages: messages
-    });
-
-    const aiContent = aiResponse.choices[0].message.content;
-
-    // 5. Create the assistant message
-    const assistantMessageResult = await db.insert(chatMessagesTable)
-      .values({
-        session_id: input.sessionId,
-        role: 'assistant',
-        content: aiContent,
-        content_type: 'text',
-        metadata: null
-      })
-      .returning()
-      .execute();
-
-    const assistantMessage = assistantMessageResult[0];
-
-    // 6. Update the session's updated_at timestamp
-    await db.update(chatSessionsTable)
-      .set({ updated_at: new Date() })
-      .where(eq(chatSessionsTable.id, input.sessionId))
-      .execute();
-
-    // 7. Return the created assistant message
-    return {
-      ...assistantMessage,
-      metadata: assistantMessage.metadata as Record<string, any> | null
-    };
+    return assistantMessage;
   } catch (error) {
     console.error('AI message sending failed:', error);
     throw error;
   }
+};
+
+// Shared by sendAiMessage and streamAiMessage: validates the session, stores the
+// user message and assembles the provider messages (system prompt, history, new turn)
+export const prepareAiMessage = async (input: SendAiMessageInput): Promise<PreparedAiMessage> => {
+  // 1. Validate the session ID
+  const session = await loadSession(input.sessionId);
+
+  // 2. Load the branch the new message continues, before it is stored
+  const sessionMessages = await loadSessionMessages(input.sessionId);
+  const parentId = input.parentMessageId !== undefined
+    ? input.parentMessageId
+    : sessionMessages[sessionMessages.length - 1]?.id ?? null;
+  const branch = getBranch(sessionMessages, parentId);
+
+  // 3. Create the user message
+  const userContent = input.messageContent;
+  let contentType: 'text' | 'image' | 'pdf' = 'text';
+  let attachmentId: number | null = null;
+  let metadata: Record<string, any> | null = null;
+  let images: string[] | undefined;
+
+  if (input.imageAttachmentId) {
+    const attachment = await getAttachment({ id: input.imageAttachmentId });
+    if (!isImageMimeType(attachment.mime_type)) {
+      throw new Error(`Attachment ${attachment.id} is not an image; PDFs are attached with uploadPdfDocument`);
+    }
+    contentType = 'image';
+    attachmentId = attachment.id;
+    metadata = { hasImage: true, filename: attachment.filename };
+    images = [await readAttachmentDataUrl(attachment)];
+  } else if (input.pdfDocumentId) {
+    // The PDF was indexed on upload; its text reaches the prompt through retrieval below
+    const document = await loadPdfDocument(input.sessionId, input.pdfDocumentId);
+    contentType = 'pdf';
+    attachmentId = document.attachment_id;
+    metadata = { pdfDocumentId: document.id, filename: document.filename, page_count: document.page_count };
+  }
+
+  const userMessageResult = await db.insert(chatMessagesTable)
+    .values({
+      session_id: input.sessionId,
+      parent_id: parentId,
+      role: 'user',
+      content: userContent,
+      content_type: contentType,
+      attachment_id: attachmentId,
+      metadata: metadata
+    })
+    .returning()
+    .execute();
+
+  // 4. Construct the prompt for the AI provider
+  const prompt = await buildAiPrompt(session, input, branch, {
+    role: 'user',
+    content: userContent,
+    images
+  });
+
+  return { ...prompt, userMessageId: userMessageResult[0].id };
+};
+
+export const loadSession = async (sessionId: string): Promise<ChatSessionRow> => {
+  const sessions = await db.select()
+    .from(chatSessionsTable)
+    .where(eq(chatSessionsTable.id, sessionId))
+    .execute();
+
+  if (sessions.length === 0) {
+    throw new Error('Session not found');
+  }
+  return sessions[0];
+};
+
+const loadPdfDocument = async (sessionId: string, documentId: number) => {
+  const documents = await db.select()
+    .from(pdfDocumentsTable)
+    .where(and(eq(pdfDocumentsTable.id, documentId), eq(pdfDocumentsTable.session_id, sessionId)))
+    .execute();
+
+  if (documents.length === 0) {
+    throw new Error(`PDF document with id ${documentId} not found in this session`);
+  }
+  return documents[0];
+};
+
+// The session row holds the chat's modes; flags sent with a request override them for that request only
+export const resolveModes = (session: ChatSessionRow, overrides: AiModeOptions): AiModeOptions => ({
+  genZMode: overrides.genZMode ?? session.gen_z_mode,
+  copyCodeOnlyMode: overrides.copyCodeOnlyMode ?? session.copy_code_only_mode,
+  targetLanguage: overrides.targetLanguage !== undefined ? overrides.targetLanguage : session.target_language
+});
+
+const loadPersona = async (session: ChatSessionRow): Promise<Persona | null> => {
+  return session.persona_id !== null ? getPersona(session.persona_id) : null;
+};
+
+// Generation settings chosen on the session; unset ones are left to the persona and provider
+const sessionModelParams = (session: ChatSessionRow): ModelParams => {
+  const params: ModelParams = {};
+  if (session.model !== null) params.model = session.model;
+  if (session.temperature !== null) params.temperature = session.temperature;
+  if (session.max_tokens !== null) params.max_tokens = session.max_tokens;
+  if (session.stop !== null) params.stop = session.stop;
+  return params;
+};
+
+// System prompt from the session's persona, the PDF excerpts most relevant to the new
+// turn and the modes, then the persona's few-shot examples, then as much of the branch
+// as fits the history budget, then the new turn
+export const buildAiPrompt = async (
+  session: ChatSessionRow,
+  modeOverrides: AiModeOptions,
+  branch: ChatMessageRow[],
+  currentMessage: AIChatMessage
+): Promise<AiPrompt> => {
+  const messages: AIChatMessage[] = [];
+  const modes = resolveModes(session, modeOverrides);
+  const persona = await loadPersona(session);
+  const provider = getMeteredProvider({ feature: 'chat', sessionId: session.id });
+  const excerpts = await retrievePdfChunks(session.id, currentMessage.content, provider);
+
+  // Add system prompt based on the persona, excerpts and modes; mode instructions come last so they win
+  let systemPrompt = persona ? `${persona.system_prompt}\n\n` : '';
+
+  if (excerpts.length > 0) {
+    systemPrompt += `${formatExcerpts(excerpts)}\n\n`;
+  }
+
+  if (modes.genZMode) {
+    systemPrompt += 'Respond in a casual, Gen Z style with slang and emojis. ';
+  }
+
+  if (modes.copyCodeOnlyMode) {
+    systemPrompt += 'Only respond with code, no explanations. ';
+  }
+
+  if (modes.targetLanguage && modes.targetLanguage !== 'english') {
+    systemPrompt += `Respond in ${modes.targetLanguage}. `;
+  }
+
+  if (systemPrompt) {
+    messages.push({ role: 'system', content: systemPrompt.trim() });
+  }
+
+  for (const example of persona?.examples ?? []) {
+    messages.push({ role: 'user', content: example.user }, { role: 'assistant', content: example.assistant });
+  }
+
+  // Fit previous turns into whatever budget the system prompt and new message leave over
+  const historyOptions = getHistoryOptions();
+  const history = await buildHistoryMessages(
+    branch.map(message => ({ role: message.role, content: message.content })),
+    historyOptions.tokenBudget - estimateMessagesTokens([...messages, currentMessage]),
+    historyOptions.strategy,
+    provider
+  );
+
+  messages.push(...history, currentMessage);
+
+  return {
+    provider,
+    messages,
+    params: { ...persona?.model_params, ...sessionModelParams(session) },
+    citations: excerpts.map(({ text: _text, ...citation }) => citation)
+  };
+};
+
+const formatExcerpts = (excerpts: RetrievedChunk[]): string => {
+  const quoted = excerpts.map(excerpt => `[${excerpt.filename}, p. ${excerpt.page}]\n${excerpt.text}`);
+  return 'Answer using these excerpts from PDFs uploaded to this chat where they are relevant, '
+    + 'and cite the page of every excerpt you rely on as (filename, p. N):\n\n'
+    + quoted.join('\n\n');
+};
+
+// Assistant message metadata; citations are only recorded when PDF excerpts were used
+export const replyMetadata = (model: string | null, citations: PdfCitation[]): Record<string, any> => {
+  return citations.length > 0 ? { model, citations } : { model };
+};
+
+export const loadSessionMessages = async (sessionId: string): Promise<ChatMessageRow[]> => {
+  return db.select()
+    .from(chatMessagesTable)
+    .where(eq(chatMessagesTable.session_id, sessionId))
+    .orderBy(asc(chatMessagesTable.created_at), asc(chatMessagesTable.id))
+    .execute();
+};
+
+// The image a stored user message was sent with, so regenerated and edited turns keep it
+export const messageImages = async (message: ChatMessageRow): Promise<string[] | undefined> => {
+  if (message.content_type !== 'image' || message.attachment_id === null) {
+    return undefined;
+  }
+  const attachment = await getAttachment({ id: message.attachment_id });
+  return [await readAttachmentDataUrl(attachment)];
+};
+
+// Walks parent pointers from `leafId` up to the root; returns the path root-first
+export const getBranch = (sessionMessages: ChatMessageRow[], leafId: number | null): ChatMessageRow[] => {
+  const byId = new Map(sessionMessages.map(message => [message.id, message]));
+  const branch: ChatMessageRow[] = [];
+
+  if (leafId !== null && !byId.has(leafId)) {
+    throw new Error(`Message with id ${leafId} not found in this session`);
+  }
+
+  let current = leafId !== null ? byId.get(leafId) : undefined;
+  while (current) {
+    branch.unshift(current);
+    current = current.parent_id !== null ? byId.get(current.parent_id) : undefined;
+  }
+
+  return branch;
+};
+
+export const saveAssistantMessage = async (
+  sessionId: string,
+  parentId: number,
+  content: string,
+  metadata: Record<string, any> | null
+): Promise<ChatMessage> => {
+  // 6. Create the assistant message
+  const assistantMessageResult = await db.insert(chatMessagesTable)
+    .values({
+      session_id: sessionId,
+      parent_id: parentId,
+      role: 'assistant',
+      content,
+      content_type: 'text',
+      metadata
+    })
+    .returning()
+    .execute();
+
+  const assistantMessage = assistantMessageResult[0];
+
+  // 7. Update the session's updated_at timestamp
+  await db.update(chatSessionsTable)
+    .set({ updated_at: new Date() })
+    .where(eq(chatSessionsTable.id, sessionId))
+    .execute();
+
+  // 8. Return the created assistant message
+  return {
+    ...assistantMessage,
+    metadata: assistantMessage.metadata as Record<string, any> | null
+  };
+};
+
+// Names still-untitled sessions; a failed title never fails the reply (errors are logged by the handler)
+export const titleSessionAfterReply = async (
+  sessionId: string,
+  userContent: string,
+  assistantContent: string
+): Promise<void> => {
+  await generateSessionTitle(sessionId, userContent, assistantContent).catch(() => null);
 };
\ No newline at end of file
@@ -0,0 +1,42 @@
+import { randomUUID } from 'crypto';
+import { db } from '../db';
+import { attachmentUploadsTable } from '../db/schema';
+import { type AttachmentUpload, type AttachmentUploadParams } from '../schema';
+import { getAttachmentOptions, getStorage } from '../storage';
+import { eq } from 'drizzle-orm';
+
+// Begins a chunked upload for files too large to send in one request. Parts are
+// uploaded with uploadAttachmentPart, then assembled by completeAttachmentUpload
+export const startAttachmentUpload = async (input: AttachmentUploadParams): Promise<AttachmentUpload> => {
+  try {
+    const id = randomUUID();
+    const storageKey = `uploads/${id}`;
+    const storageUploadId = await getStorage().createMultipartUpload(storageKey);
+
+    await db.insert(attachmentUploadsTable)
+      .values({
+        id,
+        filename: input.filename,
+        storage_key: storageKey,
+        storage_upload_id: storageUploadId
+      })
+      .execute();
+
+    return { upload_id: id, part_size: getAttachmentOptions().partBytes };
+  } catch (error) {
+    console.error('Attachment upload start failed:', error);
+    throw error;
+  }
+};
+
+export const loadAttachmentUpload = async (uploadId: string) => {
+  const result = await db.select()
+    .from(attachmentUploadsTable)
+    .where(eq(attachmentUploadsTable.id, uploadId))
+    .execute();
+
+  if (result.length === 0) {
+    throw new Error(`Upload ${uploadId} not found`);
+  }
+  return result[0];
+};
\ No newline at end of file
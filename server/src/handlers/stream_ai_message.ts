@@ -0,0 +1,75 @@
+import { type StreamAiMessageInput, type AiMessageStreamEvent, type ChatMessage, type PdfCitation } from '../schema';
+import { prepareAiMessage, replyMetadata, saveAssistantMessage, titleSessionAfterReply } from './send_ai_message';
+
+// In-flight generations by client stream ID, so cancelAiMessage can stop them
+export const activeStreams = new Map<string, AbortController>();
+
+export async function* streamAiMessage(
+  input: StreamAiMessageInput,
+  signal?: AbortSignal
+): AsyncGenerator<AiMessageStreamEvent> {
+  const controller = new AbortController();
+  const onClientAbort = () => controller.abort();
+  signal?.addEventListener('abort', onClientAbort);
+  activeStreams.set(input.streamId, controller);
+
+  let content = '';
+  let model: string | null = null;
+  let citations: PdfCitation[] = [];
+  let userMessageId: number | null = null;
+  let persisted = false;
+  let failed = false;
+
+  // Partial answers are kept, flagged so the client can show they were interrupted
+  const persistPartial = async (): Promise<ChatMessage | null> => {
+    persisted = true;
+    if (!content || userMessageId === null) {
+      return null;
+    }
+    return saveAssistantMessage(input.sessionId, userMessageId, content, { cancelled: true, ...replyMetadata(model, citations) });
+  };
+
+  try {
+    const prepared = await prepareAiMessage(input);
+    const { provider, messages, params } = prepared;
+    userMessageId = prepared.userMessageId;
+    citations = prepared.citations;
+
+    try {
+      for await (const event of provider.streamChat({ ...params, messages }, controller.signal)) {
+        if (event.type === 'delta') {
+          content += event.content;
+          yield { type: 'delta', content: event.content };
+        } else {
+          model = event.model;
+        }
+      }
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        throw error;
+      }
+    }
+
+    if (controller.signal.aborted) {
+      yield { type: 'cancelled', message: await persistPartial() };
+      return;
+    }
+
+    persisted = true;
+    const message = await saveAssistantMessage(input.sessionId, userMessageId, content, replyMetadata(model, citations));
+    await titleSessionAfterReply(input.sessionId, input.messageContent, content);
+    yield { type: 'done', message };
+  } catch (error) {
+    failed = true;
+    console.error('AI message streaming failed:', error);
+    throw error;
+  } finally {
+    activeStreams.delete(input.streamId);
+    signal?.removeEventListener('abort', onClientAbort);
+
+    // The client disconnected mid-stream: keep whatever was generated so far
+    if (!persisted && !failed) {
+      await persistPartial();
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,41 @@
+import { db } from '../db';
+import { quizAttemptsTable } from '../db/schema';
+import { type QuizAttempt, type QuizAnswer, type QuizQuestionResult, type SubmitQuizAttemptInput } from '../schema';
+import { gradeQuizAttempt } from '../quiz';
+import { reviewCardsFromAttempt } from '../study';
+import { getQuiz } from './get_quiz';
+
+// Grades the answers against the stored quiz, so scores never come from the client,
+// and reviews the study cards of the questions with the result
+export const submitQuizAttempt = async (input: SubmitQuizAttemptInput): Promise<QuizAttempt> => {
+  try {
+    const quiz = await getQuiz({ id: input.quiz_id });
+    if (!quiz.quiz_data) {
+      throw new Error(`Quiz with id ${input.quiz_id} was saved before typed questions and cannot be graded`);
+    }
+    const graded = gradeQuizAttempt(quiz.quiz_data, input.answers);
+
+    const result = await db.insert(quizAttemptsTable)
+      .values({
+        quiz_id: quiz.id,
+        answers: input.answers,
+        results: graded.results,
+        score: graded.score,
+        max_score: graded.max_score
+      })
+      .returning()
+      .execute();
+
+    const attempt = result[0];
+    await reviewCardsFromAttempt(quiz.id, graded.results);
+
+    return {
+      ...attempt,
+      answers: attempt.answers as (QuizAnswer | null)[],
+      results: attempt.results as QuizQuestionResult[]
+    };
+  } catch (error) {
+    console.error('Quiz attempt submission failed:', error);
+    throw error;
+  }
+};
\ No newline at end of file
@@ -1,10 +1,21 @@
 import { db } from '../db';
 import { chatSessionsTable } from '../db/schema';
 import { type UpdateChatSessionInput, type ChatSession } from '../schema';
-import { eq } from 'drizzle-orm';
+import { eq, and, ne, type SQL } from 'drizzle-orm';
+import { getPersona } from './get_personas';
 
-export const updateChatSession = async (input: UpdateChatSessionInput): Promise<ChatSession> => {
+export interface UpdateChatSessionOptions {
+  // Title updates from users are manual; generated titles pass 'auto' and never replace a manual one
+  titleSource?: 'auto' | 'manual';
+}
+
+export const updateChatSession = async (
+  input: UpdateChatSessionInput,
+  options: UpdateChatSessionOptions = {}
+): Promise<ChatSession> => {
   try {
+    const titleSource = options.titleSource ?? 'manual';
+
     // Build the update object with only provided fields
     const updateData: Partial<typeof chatSessionsTable.$inferInsert> = {
       updated_at: new Date() // Always update the timestamp
@@ -12,6 +23,7 @@ export const updateChatSession = async (input: UpdateChatSessionInput): Promise<
 
     if (input.title !== undefined) {
       updateData.title = input.title;
+      updateData.title_source = titleSource;
     }
 
     if (input.gen_z_mode !== undefined) {
@@ -26,13 +38,53 @@ export const updateChatSession = async (input: UpdateChatSessionInput): Promise<
       updateData.target_language = input.target_language;
     }
 
+    if (input.persona_id !== undefined) {
+      if (input.persona_id !== null) {
+        await getPersona(input.persona_id);
+      }
+      updateData.persona_id = input.persona_id;
+    }
+
+    if (input.model !== undefined) {
+      updateData.model = input.model;
+    }
+
+    if (input.temperature !== undefined) {
+      updateData.temperature = input.temperature;
+    }
+
+    if (input.max_tokens !== undefined) {
+      updateData.max_tokens = input.max_tokens;
+    }
+
+    if (input.stop !== undefined) {
+      updateData.stop = input.stop;
+    }
+
+    const conditions: SQL<unknown>[] = [eq(chatSessionsTable.id, input.id)];
+    if (input.title !== undefined && titleSource === 'auto') {
+      conditions.push(ne(chatSessionsTable.title_source, 'manual'));
+    }
+
     // Update the chat session
     const result = await db.update(chatSessionsTable)
       .set(updateData)
-      .where(eq(chatSessionsTable.id, input.id))
+      .where(and(...conditions))
       .returning()
       .execute();
 
+    if (result.length === 0 && titleSource === 'auto') {
+      // Renamed manually in the meantime: leave the session as the user named it
+      const existing = await db.select()
+        .from(chatSessionsTable)
+        .where(eq(chatSessionsTable.id, input.id))
+        .execute();
+
+      if (existing.length > 0) {
+        return existing[0];
+      }
+    }
+
     if (result.length === 0) {
       throw new Error(`Chat session with id ${input.id} not found`);
     }
@@ -0,0 +1,45 @@
+import { db } from '../db';
+import { personasTable } from '../db/schema';
+import { type UpdatePersonaInput, type Persona } from '../schema';
+import { eq } from 'drizzle-orm';
+import { toPersona } from './get_personas';
+
+export const updatePersona = async (input: UpdatePersonaInput): Promise<Persona> => {
+  try {
+    // Build the update object with only provided fields
+    const updateData: Partial<typeof personasTable.$inferInsert> = {
+      updated_at: new Date()
+    };
+
+    if (input.name !== undefined) {
+      updateData.name = input.name;
+    }
+
+    if (input.system_prompt !== undefined) {
+      updateData.system_prompt = input.system_prompt;
+    }
+
+    if (input.model_params !== undefined) {
+      updateData.model_params = input.model_params;
+    }
+
+    if (input.examples !== undefined) {
+      updateData.examples = input.examples;
+    }
+
+    const result = await db.update(personasTable)
+      .set(updateData)
+      .where(eq(personasTable.id, input.id))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error(`Persona with id ${input.id} not found`);
+    }
+
+    return toPersona(result[0]);
+  } catch (error) {
+    console.error('Persona update failed:', error);
+    throw error;
+  }
+};
\ No newline at end of file
@@ -0,0 +1,24 @@
+import { db } from '../db';
+import { preferencesTable } from '../db/schema';
+import { type Preferences, type UpdatePreferencesInput } from '../schema';
+import { PREFERENCES_ID } from './get_preferences';
+
+export const updatePreferences = async (input: UpdatePreferencesInput): Promise<Preferences> => {
+  try {
+    // Only the provided fields change; a missing row starts from the column defaults
+    const result = await db.insert(preferencesTable)
+      .values({ id: PREFERENCES_ID, ...input })
+      .onConflictDoUpdate({
+        target: preferencesTable.id,
+        set: { ...input, updated_at: new Date() }
+      })
+      .returning()
+      .execute();
+
+    const { id, ...preferences } = result[0];
+    return preferences;
+  } catch (error) {
+    console.error('Preferences update failed:', error);
+    throw error;
+  }
+};
@@ -1,41 +1,85 @@
 import { db } from '../db';
-import { generatedVideosTable } from '../db/schema';
-import { type UpdateGeneratedVideoInput, type GeneratedVideo } from '../schema';
+import { generatedVideosTable, type NewGeneratedVideo } from '../db/schema';
+import { type UpdateGeneratedVideoInput, type GeneratedVideo, type VideoStatus } from '../schema';
+import { cancelJobs } from '../jobs';
+import { isVideoFinished, notifyVideoChanged, VIDEO_JOB_KIND } from '../video';
 import { eq } from 'drizzle-orm';
 
+// Statuses a render backend may move a video to. Finished videos only change
+// again through retryVideo
+const allowedTransitions: Record<VideoStatus, VideoStatus[]> = {
+  pending: ['pending', 'processing', 'completed', 'failed'],
+  processing: ['processing', 'completed', 'failed'],
+  completed: [],
+  failed: [],
+  cancelled: []
+};
+
+export class IllegalVideoTransitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IllegalVideoTransitionError';
+  }
+}
+
+// Applies a status report from an external render backend (see the video webhook)
 export async function updateVideoStatus(input: UpdateGeneratedVideoInput): Promise<GeneratedVideo> {
   try {
-    // Build update object with only provided fields
-    const updateData: Partial<typeof generatedVideosTable.$inferInsert> = {};
-    
-    if (input.video_url !== undefined) {
-      updateData.video_url = input.video_url;
-    }
-    
-    if (input.status !== undefined) {
-      updateData.status = input.status;
-    }
-    
-    if (input.progress_message !== undefined) {
-      updateData.progress_message = input.progress_message;
-    }
-    
-    if (input.completed_at !== undefined) {
-      updateData.completed_at = input.completed_at;
-    }
-
-    // Update the video record
-    const result = await db.update(generatedVideosTable)
-      .set(updateData)
-      .where(eq(generatedVideosTable.id, input.id))
-      .returning()
-      .execute();
-
-    if (result.length === 0) {
-      throw new Error(`Generated video with id ${input.id} not found`);
-    }
-
-    return result[0];
+    const updated = await db.transaction(async (tx) => {
+      // Locked so a concurrent cancel or worker update can't slip in between check and write
+      const [video] = await tx.select()
+        .from(generatedVideosTable)
+        .where(eq(generatedVideosTable.id, input.id))
+        .for('update')
+        .execute();
+
+      if (!video) {
+        throw new Error(`Generated video with id ${input.id} not found`);
+      }
+
+      const status = input.status ?? video.status;
+      if (!allowedTransitions[video.status].includes(status)) {
+        throw new IllegalVideoTransitionError(`Video with id ${input.id} cannot go from ${video.status} to ${status}`);
+      }
+      if (input.status === 'completed' && !input.video_url) {
+        throw new IllegalVideoTransitionError('A video can only be completed with a video_url');
+      }
+      if (input.video_url !== undefined && input.status !== 'completed') {
+        throw new IllegalVideoTransitionError('video_url can only be sent with status completed');
+      }
+
+      const updateData: Partial<NewGeneratedVideo> = { status };
+      if (input.progress_message !== undefined) {
+        updateData.progress_message = input.progress_message;
+      }
+      // Progress never moves backwards, and only reaches 100 with the finished video
+      if (input.progress !== undefined) {
+        updateData.progress = Math.max(video.progress, Math.min(99, input.progress));
+      }
+      if (status === 'processing' && !video.started_at) {
+        updateData.started_at = new Date();
+      }
+      if (status === 'completed') {
+        updateData.video_url = input.video_url;
+        updateData.progress = 100;
+        updateData.completed_at = new Date();
+      }
+
+      const result = await tx.update(generatedVideosTable)
+        .set(updateData)
+        .where(eq(generatedVideosTable.id, input.id))
+        .returning()
+        .execute();
+
+      // The backend has the final word, so a worker still polling it can stop
+      if (isVideoFinished(status)) {
+        await cancelJobs(VIDEO_JOB_KIND, { video_id: input.id }, tx);
+      }
+      return result[0];
+    });
+
+    await notifyVideoChanged(input.id);
+    return updated;
   } catch (error) {
     console.error('Video status update failed:', error);
     throw error;
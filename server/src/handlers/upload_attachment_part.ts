@@ -0,0 +1,28 @@
+import { type AttachmentPart } from '../schema';
+import { getAttachmentOptions, getStorage } from '../storage';
+import { AttachmentTooLargeError, assertAttachmentSize } from './create_attachment';
+import { loadAttachmentUpload } from './start_attachment_upload';
+
+// Stores one part; re-sending a part number replaces it, so failed parts can be retried
+export const uploadAttachmentPart = async (uploadId: string, partNumber: number, data: Buffer): Promise<AttachmentPart> => {
+  try {
+    const upload = await loadAttachmentUpload(uploadId);
+    const storage = getStorage();
+
+    const { partBytes } = getAttachmentOptions();
+    if (data.length > partBytes) {
+      throw new AttachmentTooLargeError(`Parts larger than ${partBytes} bytes are not accepted`);
+    }
+
+    const parts = await storage.listParts(upload.storage_key, upload.storage_upload_id);
+    const otherPartsSize = parts
+      .filter(part => part.partNumber !== partNumber)
+      .reduce((total, part) => total + part.size, 0);
+    assertAttachmentSize(otherPartsSize + data.length);
+
+    return await storage.uploadPart(upload.storage_key, upload.storage_upload_id, partNumber, data);
+  } catch (error) {
+    console.error('Attachment part upload failed:', error);
+    throw error;
+  }
+};
\ No newline at end of file
@@ -0,0 +1,67 @@
+import { db } from '../db';
+import { pdfChunksTable, pdfDocumentsTable } from '../db/schema';
+import { type UploadPdfDocumentInput, type PdfDocument } from '../schema';
+import { chunkPages, extractPdfPages } from '../rag';
+import { loadSession } from './send_ai_message';
+import { getAttachment, readAttachment } from './get_attachment';
+import { getMeteredProvider } from './record_ai_usage';
+
+const EMBEDDING_BATCH_SIZE = 64;
+
+// Extracts the PDF's text, splits it into page-bound chunks and stores them with
+// their embeddings so later questions in the session can retrieve them
+export const uploadPdfDocument = async (input: UploadPdfDocumentInput): Promise<PdfDocument> => {
+  try {
+    await loadSession(input.sessionId);
+
+    const attachment = await getAttachment({ id: input.attachmentId });
+    if (attachment.mime_type !== 'application/pdf') {
+      throw new Error(`Attachment ${attachment.id} is not a PDF`);
+    }
+
+    const pages = await extractPdfPages(new Uint8Array(await readAttachment(attachment)));
+    const chunks = chunkPages(pages);
+    if (chunks.length === 0) {
+      throw new Error('No text could be extracted from this PDF');
+    }
+
+    const provider = getMeteredProvider({ feature: 'pdf_indexing', sessionId: input.sessionId });
+    const embeddings: number[][] = [];
+    let embeddingModel = '';
+    for (let start = 0; start < chunks.length; start += EMBEDDING_BATCH_SIZE) {
+      const batch = chunks.slice(start, start + EMBEDDING_BATCH_SIZE);
+      const response = await provider.embed({ input: batch.map(chunk => chunk.text) });
+      embeddings.push(...response.embeddings);
+      embeddingModel = response.model;
+    }
+
+    return await db.transaction(async (tx) => {
+      const documentResult = await tx.insert(pdfDocumentsTable)
+        .values({
+          session_id: input.sessionId,
+          attachment_id: attachment.id,
+          filename: attachment.filename,
+          page_count: pages.length,
+          embedding_model: embeddingModel
+        })
+        .returning()
+        .execute();
+
+      const document = documentResult[0];
+      await tx.insert(pdfChunksTable)
+        .values(chunks.map((chunk, index) => ({
+          document_id: document.id,
+          chunk_index: index,
+          page: chunk.page,
+          text: chunk.text,
+          embedding: embeddings[index]
+        })))
+        .execute();
+
+      return { ...document, chunk_count: chunks.length };
+    });
+  } catch (error) {
+    console.error('PDF upload failed:', error);
+    throw error;
+  }
+};
\ No newline at end of file
@@ -0,0 +1,66 @@
+import { type GetVideoStatusInput, type VideoProgress } from '../schema';
+import { isVideoFinished, onVideoChanged } from '../video';
+import { getVideoProgress } from './get_video_progress';
+
+// Notifications can be lost (e.g. while the listen connection reconnects), so the
+// video is also re-read this often
+const RECHECK_INTERVAL_MS = 5000;
+
+// Emits the video's progress right away and again whenever its status, percent or
+// message changes, woken by the worker's notifications. Ends once the video is
+// finished or the client goes away
+export async function* watchVideoProgress(
+  input: GetVideoStatusInput,
+  signal?: AbortSignal
+): AsyncGenerator<VideoProgress> {
+  let wake: (() => void) | null = null;
+  let changedMeanwhile = false;
+  const stopListening = await onVideoChanged((id) => {
+    if (id !== input.id) {
+      return;
+    }
+    if (wake) {
+      wake();
+    } else {
+      changedMeanwhile = true;
+    }
+  });
+
+  const nextChange = () => new Promise<void>((resolve) => {
+    if (changedMeanwhile || signal?.aborted) {
+      changedMeanwhile = false;
+      resolve();
+      return;
+    }
+    const done = () => {
+      clearTimeout(timeout);
+      signal?.removeEventListener('abort', done);
+      wake = null;
+      resolve();
+    };
+    const timeout = setTimeout(done, RECHECK_INTERVAL_MS);
+    signal?.addEventListener('abort', done);
+    wake = done;
+  });
+
+  try {
+    let lastEmitted: string | null = null;
+    while (!signal?.aborted) {
+      const progress = await getVideoProgress(input);
+      const key = JSON.stringify([progress.status, progress.progress, progress.progress_message, progress.video_url]);
+      if (key !== lastEmitted) {
+        lastEmitted = key;
+        yield progress;
+      }
+      if (isVideoFinished(progress.status)) {
+        return;
+      }
+      await nextChange();
+    }
+  } catch (error) {
+    console.error('Video progress watch failed:', error);
+    throw error;
+  } finally {
+    await stopListening();
+  }
+}
\ No newline at end of file
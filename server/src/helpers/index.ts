@@ -2,6 +2,14 @@ import { db } from '../db';
 import { sql } from 'drizzle-orm';
 import * as schema from "../db/schema";
 import { generateDrizzleJson, generateMigration } from 'drizzle-kit/api';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { resetStorage } from '../storage';
+
+// drizzle-kit's API bundle adds an enumerable Array.prototype.random, which pdfjs
+// refuses to run alongside; keep the method but hide it from for...in
+Object.defineProperty(Array.prototype, 'random', { enumerable: false });
 
 export const resetDB = async () => {
   await db.execute(sql`drop schema if exists public cascade`);
@@ -16,3 +24,45 @@ export const createDB = async () => {
   );
   await db.execute(migrationStatements.join('\n'));
 };
+
+// Attachments go to a fresh temporary directory per test
+export const createStorage = async () => {
+  process.env['STORAGE_DIR'] = await mkdtemp(join(tmpdir(), 'okaigpt-attachments-'));
+  resetStorage();
+};
+
+export const removeStorage = async () => {
+  if (process.env['STORAGE_DIR']) {
+    await rm(process.env['STORAGE_DIR'], { recursive: true, force: true });
+    delete process.env['STORAGE_DIR'];
+  }
+  resetStorage();
+};
+
+// Smallest valid PDF with one line of Helvetica text per page
+export const buildPdf = (pages: string[]): Buffer => {
+  const objects: string[] = [];
+  const add = (body: string): number => objects.push(body);
+
+  const font = add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>');
+  const pagesId = objects.length + 1 + pages.length * 2;
+  const pageIds = pages.map(text => {
+    const stream = `BT /F1 12 Tf 72 720 Td (${text.replace(/[()\\]/g, char => `\\${char}`)}) Tj ET`;
+    const content = add(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+    return add(`<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 612 792] /Contents ${content} 0 R /Resources << /Font << /F1 ${font} 0 R >> >> >>`);
+  });
+  add(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+  const catalog = add(`<< /Type /Catalog /Pages ${pagesId} 0 R >>`);
+
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((body, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root ${catalog} 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(pdf, 'latin1');
+};
@@ -14,10 +14,34 @@ import {
   createGeneratedImageInputSchema,
   createGeneratedVideoInputSchema,
   getVideoStatusInputSchema,
-  updateGeneratedVideoInputSchema,
+  cancelVideoInputSchema,
+  retryVideoInputSchema,
+  listVideosInputSchema,
   createQuizInputSchema,
+  getQuizInputSchema,
+  listQuizzesInputSchema,
+  submitQuizAttemptInputSchema,
+  listQuizAttemptsInputSchema,
+  exportQuizInputSchema,
+  getDueCardsInputSchema,
+  reviewCardInputSchema,
   createWebSearchInputSchema,
-  sendAiMessageInputSchema
+  sendAiMessageInputSchema,
+  streamAiMessageInputSchema,
+  cancelAiMessageInputSchema,
+  regenerateAiMessageInputSchema,
+  editAiMessageInputSchema,
+  searchInputSchema,
+  exportChatSessionInputSchema,
+  importChatSessionInputSchema,
+  updatePreferencesInputSchema,
+  createPersonaInputSchema,
+  updatePersonaInputSchema,
+  deletePersonaInputSchema,
+  getUsageInputSchema,
+  uploadPdfDocumentInputSchema,
+  getPdfDocumentsInputSchema,
+  getAttachmentInputSchema
 } from './schema';
 
 // Import handlers
@@ -32,11 +56,44 @@ import { analyzeDocument } from './handlers/analyze_document';
 import { generateImage } from './handlers/generate_image';
 import { generateVideo } from './handlers/generate_video';
 import { getVideoStatus } from './handlers/get_video_status';
-import { updateVideoStatus } from './handlers/update_video_status';
+import { getVideoProgress } from './handlers/get_video_progress';
+import { watchVideoProgress } from './handlers/watch_video_progress';
+import { cancelVideo } from './handlers/cancel_video';
+import { retryVideo } from './handlers/retry_video';
+import { listVideos } from './handlers/list_videos';
 import { generateQuiz } from './handlers/generate_quiz';
+import { getQuiz } from './handlers/get_quiz';
+import { listQuizzes } from './handlers/list_quizzes';
+import { submitQuizAttempt } from './handlers/submit_quiz_attempt';
+import { listQuizAttempts } from './handlers/list_quiz_attempts';
+import { exportQuiz } from './handlers/export_quiz';
+import { getDueCards } from './handlers/get_due_cards';
+import { reviewCard } from './handlers/review_card';
 import { searchWeb } from './handlers/search_web';
 import { getRecentActivities } from './handlers/get_recent_activities';
 import { sendAiMessage } from './handlers/send_ai_message';
+import { streamAiMessage } from './handlers/stream_ai_message';
+import { cancelAiMessage } from './handlers/cancel_ai_message';
+import { regenerateAiMessage } from './handlers/regenerate_ai_message';
+import { editAiMessage } from './handlers/edit_ai_message';
+import { search } from './handlers/search';
+import { exportChatSession } from './handlers/export_chat_session';
+import { migrateData } from './db/migrations';
+import { importChatSession } from './handlers/import_chat_session';
+import { getPreferences } from './handlers/get_preferences';
+import { updatePreferences } from './handlers/update_preferences';
+import { createPersona } from './handlers/create_persona';
+import { getPersonas } from './handlers/get_personas';
+import { updatePersona } from './handlers/update_persona';
+import { deletePersona } from './handlers/delete_persona';
+import { listModels } from './handlers/list_models';
+import { getUsage } from './handlers/get_usage';
+import { uploadPdfDocument } from './handlers/upload_pdf_document';
+import { getPdfDocuments } from './handlers/get_pdf_documents';
+import { getAttachment } from './handlers/get_attachment';
+import { isBackupRoute, handleBackupRoute } from './routes/backup';
+import { isAttachmentRoute, handleAttachmentRoute } from './routes/attachments';
+import { isVideoWebhookRoute, handleVideoWebhookRoute } from './routes/video_webhook';
 import { z } from 'zod';
 
 const t = initTRPC.create({
@@ -71,6 +128,34 @@ const appRouter = router({
   clearChatHistory: publicProcedure
     .mutation(() => clearChatHistory()),
 
+  exportChatSession: publicProcedure
+    .input(exportChatSessionInputSchema)
+    .query(({ input }) => exportChatSession(input)),
+
+  importChatSession: publicProcedure
+    .input(importChatSessionInputSchema)
+    .mutation(({ input }) => importChatSession(input)),
+
+  // Personas: reusable system prompts a session can pin
+  createPersona: publicProcedure
+    .input(createPersonaInputSchema)
+    .mutation(({ input }) => createPersona(input)),
+
+  getPersonas: publicProcedure
+    .query(() => getPersonas()),
+
+  updatePersona: publicProcedure
+    .input(updatePersonaInputSchema)
+    .mutation(({ input }) => updatePersona(input)),
+
+  deletePersona: publicProcedure
+    .input(deletePersonaInputSchema)
+    .mutation(({ input }) => deletePersona(input)),
+
+  // Chat models the active AI provider offers for per-session selection
+  listModels: publicProcedure
+    .query(() => listModels()),
+
   // Chat message management
   createChatMessage: publicProcedure
     .input(createChatMessageInputSchema)
@@ -84,6 +169,38 @@ const appRouter = router({
     .input(sendAiMessageInputSchema)
     .mutation(({ input }) => sendAiMessage(input)),
 
+  // Streams token deltas over SSE, then the persisted assistant message
+  streamAiMessage: publicProcedure
+    .input(streamAiMessageInputSchema)
+    .subscription(({ input, signal }) => streamAiMessage(input, signal)),
+
+  cancelAiMessage: publicProcedure
+    .input(cancelAiMessageInputSchema)
+    .mutation(({ input }) => cancelAiMessage(input)),
+
+  // Branching: alternative replies and edited prompts become sibling messages
+  regenerateAiMessage: publicProcedure
+    .input(regenerateAiMessageInputSchema)
+    .mutation(({ input }) => regenerateAiMessage(input)),
+
+  editAiMessage: publicProcedure
+    .input(editAiMessageInputSchema)
+    .mutation(({ input }) => editAiMessage(input)),
+
+  // Attachment metadata; uploads and downloads go through the /attachments HTTP routes
+  getAttachment: publicProcedure
+    .input(getAttachmentInputSchema)
+    .query(({ input }) => getAttachment(input)),
+
+  // PDFs indexed per session; replies retrieve and cite their most relevant pages
+  uploadPdfDocument: publicProcedure
+    .input(uploadPdfDocumentInputSchema)
+    .mutation(({ input }) => uploadPdfDocument(input)),
+
+  getPdfDocuments: publicProcedure
+    .input(getPdfDocumentsInputSchema)
+    .query(({ input }) => getPdfDocuments(input)),
+
   // Document Scanner
   analyzeDocument: publicProcedure
     .input(createDocumentAnalysisInputSchema)
@@ -103,15 +220,61 @@ const appRouter = router({
     .input(getVideoStatusInputSchema)
     .query(({ input }) => getVideoStatus(input)),
 
-  updateVideoStatus: publicProcedure
-    .input(updateGeneratedVideoInputSchema)
-    .mutation(({ input }) => updateVideoStatus(input)),
+  getVideoProgress: publicProcedure
+    .input(getVideoStatusInputSchema)
+    .query(({ input }) => getVideoProgress(input)),
+
+  watchVideoProgress: publicProcedure
+    .input(getVideoStatusInputSchema)
+    .subscription(({ input, signal }) => watchVideoProgress(input, signal)),
+
+  cancelVideo: publicProcedure
+    .input(cancelVideoInputSchema)
+    .mutation(({ input }) => cancelVideo(input)),
+
+  retryVideo: publicProcedure
+    .input(retryVideoInputSchema)
+    .mutation(({ input }) => retryVideo(input)),
+
+  listVideos: publicProcedure
+    .input(listVideosInputSchema)
+    .query(({ input }) => listVideos(input)),
 
   // Quiz Generator
   generateQuiz: publicProcedure
     .input(createQuizInputSchema)
     .mutation(({ input }) => generateQuiz(input)),
 
+  getQuiz: publicProcedure
+    .input(getQuizInputSchema)
+    .query(({ input }) => getQuiz(input)),
+
+  listQuizzes: publicProcedure
+    .input(listQuizzesInputSchema)
+    .query(({ input }) => listQuizzes(input)),
+
+  // Attempts are graded on the server and kept for the review screen
+  submitQuizAttempt: publicProcedure
+    .input(submitQuizAttemptInputSchema)
+    .mutation(({ input }) => submitQuizAttempt(input)),
+
+  listQuizAttempts: publicProcedure
+    .input(listQuizAttemptsInputSchema)
+    .query(({ input }) => listQuizAttempts(input)),
+
+  exportQuiz: publicProcedure
+    .input(exportQuizInputSchema)
+    .query(({ input }) => exportQuiz(input)),
+
+  // Spaced repetition over the questions of every quiz
+  getDueCards: publicProcedure
+    .input(getDueCardsInputSchema)
+    .query(({ input }) => getDueCards(input)),
+
+  reviewCard: publicProcedure
+    .input(reviewCardInputSchema)
+    .mutation(({ input }) => reviewCard(input)),
+
   // Web Explorer
   searchWeb: publicProcedure
     .input(createWebSearchInputSchema)
@@ -121,15 +284,48 @@ const appRouter = router({
   getRecentActivities: publicProcedure
     .input(z.object({ limit: z.number().int().positive().optional() }))
     .query(({ input }) => getRecentActivities(input.limit)),
+
+  // User preferences
+  getPreferences: publicProcedure
+    .query(() => getPreferences()),
+
+  updatePreferences: publicProcedure
+    .input(updatePreferencesInputSchema)
+    .mutation(({ input }) => updatePreferences(input)),
+
+  // Token and cost accounting for AI calls
+  getUsage: publicProcedure
+    .input(getUsageInputSchema)
+    .query(({ input }) => getUsage(input)),
+
+  // Global full-text search over chats and generated results
+  search: publicProcedure
+    .input(searchInputSchema)
+    .query(({ input }) => search(input)),
 });
 
 export type AppRouter = typeof appRouter;
 
 async function start() {
+  await migrateData();
   const port = process.env['SERVER_PORT'] || 2022;
   const server = createHTTPServer({
     middleware: (req, res, next) => {
-      cors()(req, res, next);
+      cors()(req, res, () => {
+        if (isBackupRoute(req)) {
+          handleBackupRoute(req, res);
+          return;
+        }
+        if (isAttachmentRoute(req)) {
+          handleAttachmentRoute(req, res);
+          return;
+        }
+        if (isVideoWebhookRoute(req)) {
+          handleVideoWebhookRoute(req, res);
+          return;
+        }
+        next();
+      });
     },
     router: appRouter,
     createContext() {
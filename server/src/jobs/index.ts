@@ -0,0 +1,3 @@
+export { enqueueJob, claimJob, heartbeatJob, completeJob, failJob, cancelJobs, recoverStaleJobs, type EnqueueOptions, type FailedJob } from './queue';
+export { createJobWorker, JobLostError, type JobContext, type JobHandler, type JobHandlers, type JobWorker } from './worker';
+export { getWorkerOptions, type WorkerOptions } from './options';
@@ -0,0 +1,26 @@
+export interface WorkerOptions {
+  pollIntervalMs: number; // Idle wait between claim attempts
+  heartbeatIntervalMs: number; // How often a running job reports it is alive
+  heartbeatTimeoutMs: number; // Running jobs silent for longer are taken back from their worker
+  maxAttempts: number; // Attempts per job, including the first
+  retryDelayMs: number; // Backoff before the first retry; doubles with each further attempt
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 1000;
+const DEFAULT_HEARTBEAT_INTERVAL_MS = 5000;
+const DEFAULT_HEARTBEAT_TIMEOUT_MS = 30000;
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_RETRY_DELAY_MS = 5000;
+
+const readInt = (name: string, fallback: number, min: number): number => {
+  const value = parseInt(process.env[name] ?? '');
+  return Number.isNaN(value) || value < min ? fallback : value;
+};
+
+export const getWorkerOptions = (): WorkerOptions => ({
+  pollIntervalMs: readInt('JOB_POLL_INTERVAL_MS', DEFAULT_POLL_INTERVAL_MS, 1),
+  heartbeatIntervalMs: readInt('JOB_HEARTBEAT_INTERVAL_MS', DEFAULT_HEARTBEAT_INTERVAL_MS, 1),
+  heartbeatTimeoutMs: readInt('JOB_HEARTBEAT_TIMEOUT_MS', DEFAULT_HEARTBEAT_TIMEOUT_MS, 1),
+  maxAttempts: readInt('JOB_MAX_ATTEMPTS', DEFAULT_MAX_ATTEMPTS, 1),
+  retryDelayMs: readInt('JOB_RETRY_DELAY_MS', DEFAULT_RETRY_DELAY_MS, 0)
+});
@@ -0,0 +1,181 @@
+import { db } from '../db';
+import { jobsTable, type Job } from '../db/schema';
+import { and, asc, eq, inArray, lt, lte, sql } from 'drizzle-orm';
+import { getWorkerOptions } from './options';
+
+// Accepts a transaction too, so a job can be queued atomically with the row it works on
+type JobInserter = Pick<typeof db, 'insert'>;
+type JobUpdater = Pick<typeof db, 'update'>;
+
+export interface EnqueueOptions {
+  maxAttempts?: number; // Defaults to JOB_MAX_ATTEMPTS
+  runAt?: Date; // Defaults to now
+}
+
+// A failed attempt: the job is queued again unless it has no attempts left
+export interface FailedJob {
+  job: Job;
+  willRetry: boolean;
+}
+
+export const enqueueJob = async (
+  kind: string,
+  payload: Record<string, unknown>,
+  options: EnqueueOptions = {},
+  executor: JobInserter = db
+): Promise<Job> => {
+  const result = await executor.insert(jobsTable)
+    .values({
+      kind,
+      payload,
+      max_attempts: options.maxAttempts ?? getWorkerOptions().maxAttempts,
+      run_at: options.runAt ?? new Date()
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+};
+
+// Claims the oldest due job of the given kinds. SKIP LOCKED lets any number of
+// workers poll at once without blocking on, or double-claiming, the same row
+export const claimJob = async (kinds: string[], workerId: string): Promise<Job | null> => {
+  if (kinds.length === 0) {
+    return null;
+  }
+
+  const now = new Date();
+  const next = db.select({ id: jobsTable.id })
+    .from(jobsTable)
+    .where(and(
+      eq(jobsTable.status, 'queued'),
+      lte(jobsTable.run_at, now),
+      inArray(jobsTable.kind, kinds)
+    ))
+    .orderBy(asc(jobsTable.run_at), asc(jobsTable.id))
+    .limit(1)
+    .for('update', { skipLocked: true });
+
+  const result = await db.update(jobsTable)
+    .set({
+      status: 'running',
+      attempts: sql`${jobsTable.attempts} + 1`,
+      locked_by: workerId,
+      heartbeat_at: now,
+      updated_at: now
+    })
+    .where(inArray(jobsTable.id, next))
+    .returning()
+    .execute();
+
+  return result[0] ?? null;
+};
+
+// Conditions every write by the claiming worker; false once the job was taken back
+const heldBy = (jobId: number, workerId: string) => and(
+  eq(jobsTable.id, jobId),
+  eq(jobsTable.status, 'running'),
+  eq(jobsTable.locked_by, workerId)
+);
+
+// Returns false when the worker no longer holds the job
+export const heartbeatJob = async (jobId: number, workerId: string): Promise<boolean> => {
+  const result = await db.update(jobsTable)
+    .set({ heartbeat_at: new Date() })
+    .where(heldBy(jobId, workerId))
+    .returning({ id: jobsTable.id })
+    .execute();
+
+  return result.length > 0;
+};
+
+export const completeJob = async (jobId: number, workerId: string): Promise<boolean> => {
+  const now = new Date();
+  const result = await db.update(jobsTable)
+    .set({ status: 'completed', locked_by: null, heartbeat_at: null, last_error: null, updated_at: now })
+    .where(heldBy(jobId, workerId))
+    .returning({ id: jobsTable.id })
+    .execute();
+
+  return result.length > 0;
+};
+
+// Only applies while `job.locked_by` still holds the job. Retries back off
+// exponentially from retryDelayMs
+const releaseFailedJob = async (
+  executor: JobUpdater,
+  job: Job,
+  error: string,
+  retryDelayMs: number
+): Promise<FailedJob | null> => {
+  const willRetry = job.attempts < job.max_attempts;
+  const now = new Date();
+  const result = await executor.update(jobsTable)
+    .set({
+      status: willRetry ? 'queued' : 'failed',
+      run_at: willRetry ? new Date(now.getTime() + retryDelayMs * 2 ** (job.attempts - 1)) : job.run_at,
+      locked_by: null,
+      heartbeat_at: null,
+      last_error: error,
+      updated_at: now
+    })
+    .where(heldBy(job.id, job.locked_by ?? ''))
+    .returning()
+    .execute();
+
+  return result[0] ? { job: result[0], willRetry } : null;
+};
+
+// Takes the job as returned by claimJob; returns null when its worker no longer holds it
+export const failJob = async (job: Job, error: string, retryDelayMs: number): Promise<FailedJob | null> =>
+  releaseFailedJob(db, job, error, retryDelayMs);
+
+// Cancels the kind's unfinished jobs whose payload contains `payload`. A running
+// job's worker finds out at its next heartbeat and abandons it
+export const cancelJobs = async (
+  kind: string,
+  payload: Record<string, unknown>,
+  executor: JobUpdater = db
+): Promise<number> => {
+  const result = await executor.update(jobsTable)
+    .set({ status: 'cancelled', locked_by: null, heartbeat_at: null, updated_at: new Date() })
+    .where(and(
+      eq(jobsTable.kind, kind),
+      inArray(jobsTable.status, ['queued', 'running']),
+      sql`${jobsTable.payload}::jsonb @> ${JSON.stringify(payload)}::jsonb`
+    ))
+    .returning({ id: jobsTable.id })
+    .execute();
+
+  return result.length;
+};
+
+// Takes back running jobs whose worker stopped sending heartbeats (crashed,
+// killed or partitioned away) and counts that as a failed attempt
+export const recoverStaleJobs = async (kinds: string[], heartbeatTimeoutMs: number, retryDelayMs: number): Promise<FailedJob[]> => {
+  if (kinds.length === 0) {
+    return [];
+  }
+
+  const cutoff = new Date(Date.now() - heartbeatTimeoutMs);
+  return db.transaction(async (tx) => {
+    const stale = await tx.select()
+      .from(jobsTable)
+      .where(and(
+        eq(jobsTable.status, 'running'),
+        lt(jobsTable.heartbeat_at, cutoff),
+        inArray(jobsTable.kind, kinds)
+      ))
+      .for('update', { skipLocked: true })
+      .execute();
+
+    const recovered: FailedJob[] = [];
+    for (const job of stale) {
+      const failed = await releaseFailedJob(tx, job, `Worker ${job.locked_by} stopped responding`, retryDelayMs);
+      if (failed) {
+        recovered.push(failed);
+      }
+    }
+    return recovered;
+  });
+};
@@ -0,0 +1,141 @@
+import { hostname } from 'os';
+import { randomUUID } from 'crypto';
+import { type Job } from '../db/schema';
+import { claimJob, completeJob, failJob, heartbeatJob, recoverStaleJobs } from './queue';
+import { getWorkerOptions, type WorkerOptions } from './options';
+
+export interface JobContext {
+  signal: AbortSignal; // Aborted once the worker loses the job: cancelled, or taken over after missing heartbeats
+  heartbeat: () => Promise<void>; // Throws JobLostError when the worker no longer holds the job
+}
+
+export interface JobHandler {
+  run: (job: Job, context: JobContext) => Promise<void>;
+  // Called after every failed attempt, including ones recovered from a dead worker;
+  // `willRetry` is false once the job has used up its attempts
+  onAttemptFailed?: (job: Job, error: string, willRetry: boolean) => Promise<void>;
+}
+
+export type JobHandlers = Record<string, JobHandler>;
+
+export interface JobWorker {
+  id: string;
+  runOnce: () => Promise<boolean>; // Recovers stale jobs, then runs at most one; false when none was due
+  start: () => void;
+  stop: () => Promise<void>; // Lets the running job finish
+}
+
+export class JobLostError extends Error {
+  constructor(jobId: number) {
+    super(`Job ${jobId} was cancelled or taken over by another worker`);
+    this.name = 'JobLostError';
+  }
+}
+
+const errorMessage = (error: unknown): string => error instanceof Error ? error.message : String(error);
+
+export const createJobWorker = (
+  handlers: JobHandlers,
+  options: WorkerOptions = getWorkerOptions(),
+  id = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`
+): JobWorker => {
+  const kinds = Object.keys(handlers);
+  let loop: Promise<void> | null = null;
+  let stopping = false;
+  let wake: (() => void) | null = null;
+
+  // A failing hook must not take the worker down with it
+  const notifyFailure = async (job: Job, error: string, willRetry: boolean): Promise<void> => {
+    try {
+      await handlers[job.kind]?.onAttemptFailed?.(job, error, willRetry);
+    } catch (hookError) {
+      console.error(`Failure hook for job ${job.id} failed:`, hookError);
+    }
+  };
+
+  const runJob = async (job: Job): Promise<void> => {
+    const controller = new AbortController();
+    const heartbeat = async (): Promise<void> => {
+      if (!(await heartbeatJob(job.id, id))) {
+        const lost = new JobLostError(job.id);
+        controller.abort(lost);
+        throw lost;
+      }
+    };
+    const timer = setInterval(() => {
+      heartbeat().catch((error) => {
+        if (!(error instanceof JobLostError)) {
+          console.error(`Heartbeat for job ${job.id} failed:`, error);
+        }
+      });
+    }, options.heartbeatIntervalMs);
+
+    try {
+      await handlers[job.kind].run(job, { signal: controller.signal, heartbeat });
+      await completeJob(job.id, id);
+    } catch (error) {
+      // Cancelled, or whoever took the job over has already counted the attempt
+      if (controller.signal.aborted) {
+        return;
+      }
+      const message = errorMessage(error);
+      const failed = await failJob(job, message, options.retryDelayMs);
+      if (failed) {
+        await notifyFailure(failed.job, message, failed.willRetry);
+      }
+    } finally {
+      clearInterval(timer);
+    }
+  };
+
+  const runOnce = async (): Promise<boolean> => {
+    for (const { job, willRetry } of await recoverStaleJobs(kinds, options.heartbeatTimeoutMs, options.retryDelayMs)) {
+      await notifyFailure(job, job.last_error ?? 'Worker stopped responding', willRetry);
+    }
+
+    const job = await claimJob(kinds, id);
+    if (!job) {
+      return false;
+    }
+    await runJob(job);
+    return true;
+  };
+
+  const idle = () => new Promise<void>((resolve) => {
+    const timeout = setTimeout(resolve, options.pollIntervalMs);
+    wake = () => {
+      clearTimeout(timeout);
+      resolve();
+    };
+  });
+
+  return {
+    id,
+    runOnce,
+    start: () => {
+      if (loop) {
+        return;
+      }
+      stopping = false;
+      loop = (async () => {
+        while (!stopping) {
+          let ranJob = false;
+          try {
+            ranJob = await runOnce();
+          } catch (error) {
+            console.error('Job worker poll failed:', error);
+          }
+          if (!ranJob && !stopping) {
+            await idle();
+          }
+        }
+      })();
+    },
+    stop: async () => {
+      stopping = true;
+      wake?.();
+      await loop;
+      loop = null;
+    }
+  };
+};
@@ -0,0 +1,62 @@
+import { type QuizData, type QuizQuestion } from '../schema';
+import { describeAnswer, escapeMarkup, optionLabel, renderCloze } from './markup';
+
+// Anki text import with file headers (Anki 2.1.54+): a note type column, so
+// cloze questions become Cloze notes and everything else Basic ones, then two
+// HTML fields and the tags.
+// https://docs.ankiweb.net/importing/text-files.html
+
+export type AnkiSeparator = 'comma' | 'tab';
+
+const separators: Record<AnkiSeparator, { char: string; header: string }> = {
+  comma: { char: ',', header: 'Comma' },
+  tab: { char: '\t', header: 'Tab' }
+};
+
+const html = (text: string): string => escapeMarkup(text).replace(/\r?\n/g, '<br>');
+
+// Quoted when needed, quotes doubled, as in RFC 4180
+const field = (value: string, separator: string): string =>
+  value.includes(separator) || /["\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// Anki tags are separated by spaces, so each is one run of word characters
+const tag = (text: string): string => text.trim().replace(/[^\p{L}\p{N}_-]+/gu, '_').replace(/^_+|_+$/g, '') || 'quiz';
+
+const explanation = (question: QuizQuestion): string => `<br><br><i>${html(question.explanation)}</i>`;
+
+// [note type, front or cloze text, back or extra]
+const toNote = (question: QuizQuestion): [string, string, string] => {
+  switch (question.type) {
+    case 'multiple_choice':
+    case 'multi_select': {
+      const options = question.options.map((option, index) => `${optionLabel(index)}. ${html(option)}`);
+      const hint = question.type === 'multi_select' ? '<br><i>Select all that apply</i>' : '';
+      return ['Basic', `${html(question.question)}${hint}<br><br>${options.join('<br>')}`, html(describeAnswer(question)) + explanation(question)];
+    }
+    case 'true_false':
+      return ['Basic', `True or false: ${html(question.question)}`, html(describeAnswer(question)) + explanation(question)];
+    case 'short_answer':
+      return ['Basic', html(question.question), html(describeAnswer(question)) + explanation(question)];
+    case 'cloze':
+      return [
+        'Cloze',
+        // Anki closes a deletion at the first "}}", so answers must not contain one
+        renderCloze(question.question, html, blank => `{{c${blank}::${html(question.answers[blank - 1]).replace(/\}\}/g, '} }')}}}`),
+        html(question.explanation)
+      ];
+  }
+};
+
+export const quizToAnki = (quiz: QuizData, separator: AnkiSeparator): string => {
+  const { char, header } = separators[separator];
+  const tags = [tag(quiz.title), quiz.difficulty].join(' ');
+  const lines = [
+    `#separator:${header}`,
+    '#html:true',
+    '#notetype column:1',
+    '#tags column:4',
+    ...quiz.questions.map(question =>
+      [...toNote(question), `${tags} ${question.type}`].map(value => field(value, char)).join(char))
+  ];
+  return `${lines.join('\n')}\n`;
+};
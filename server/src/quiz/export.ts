@@ -0,0 +1,21 @@
+import { type QuizData, type QuizExportFormat } from '../schema';
+import { quizToGift } from './gift';
+import { quizToMoodleXml } from './moodle_xml';
+import { quizToQtiPackage } from './qti';
+import { quizToAnki } from './anki';
+import { quizToPrintableHtml } from './printable';
+
+export interface QuizExporter {
+  extension: string;
+  mime_type: string;
+  render: (quiz: QuizData) => string | Buffer; // Buffers are binary files
+}
+
+export const quizExporters: Record<QuizExportFormat, QuizExporter> = {
+  gift: { extension: 'gift.txt', mime_type: 'text/plain', render: quizToGift },
+  moodle_xml: { extension: 'moodle.xml', mime_type: 'application/xml', render: quizToMoodleXml },
+  qti: { extension: 'qti21.zip', mime_type: 'application/zip', render: quizToQtiPackage },
+  anki_csv: { extension: 'anki.csv', mime_type: 'text/csv', render: quiz => quizToAnki(quiz, 'comma') },
+  anki_tsv: { extension: 'anki.tsv', mime_type: 'text/tab-separated-values', render: quiz => quizToAnki(quiz, 'tab') },
+  html: { extension: 'html', mime_type: 'text/html', render: quizToPrintableHtml }
+};
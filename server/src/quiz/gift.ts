@@ -0,0 +1,63 @@
+import { type QuizData, type QuizQuestion } from '../schema';
+import { optionWeight, renderCloze } from './markup';
+
+// Moodle GIFT: one plain-text block per question, answers between braces.
+// https://docs.moodle.org/en/GIFT_format
+
+// Characters GIFT reads as syntax anywhere in a question
+export const escapeGift = (text: string): string =>
+  text
+    .replace(/\\/g, '\\\\')
+    .replace(/([~=#{}:])/g, '\\$1')
+    .replace(/\r?\n/g, '\\n');
+
+const feedback = (question: QuizQuestion): string => `####${escapeGift(question.explanation)}`;
+
+const header = (name: string, text: string): string => `::${escapeGift(name)}::${text}`;
+
+const renderQuestion = (question: QuizQuestion, name: string): string[] => {
+  switch (question.type) {
+    case 'multiple_choice':
+      return [[
+        `${header(name, escapeGift(question.question))} {`,
+        ...question.options.map((option, index) => `\t${index === question.answer_index ? '=' : '~'}${escapeGift(option)}`),
+        `\t${feedback(question)}`,
+        '}'
+      ].join('\n')];
+
+    case 'multi_select': {
+      const weight = optionWeight(question.answer_indices.length);
+      return [[
+        `${header(name, escapeGift(question.question))} {`,
+        ...question.options.map((option, index) =>
+          `\t~%${question.answer_indices.includes(index) ? weight : -weight}%${escapeGift(option)}`),
+        `\t${feedback(question)}`,
+        '}'
+      ].join('\n')];
+    }
+
+    case 'true_false':
+      return [`${header(name, escapeGift(question.question))} {${question.answer ? 'TRUE' : 'FALSE'}${feedback(question)}}`];
+
+    case 'short_answer': {
+      const accepted = [question.answer, ...question.accepted_answers].map(answer => `=${escapeGift(answer)}`);
+      return [`${header(name, escapeGift(question.question))} {${accepted.join(' ')}${feedback(question)}}`];
+    }
+
+    // GIFT allows one answer block per question, so every blank becomes a
+    // missing-word question of its own, with the other blanks left as lines
+    case 'cloze':
+      return question.answers.map((answer, index) => {
+        const text = renderCloze(question.question, escapeGift, blank => blank === index + 1
+          ? `{=${escapeGift(answer)}${feedback(question)}}`
+          : '_____');
+        return header(question.answers.length > 1 ? `${name}.${index + 1}` : name, text);
+      });
+  }
+};
+
+export const quizToGift = (quiz: QuizData): string => {
+  const blocks = quiz.questions.flatMap((question, index) => renderQuestion(question, `Q${index + 1}`));
+  const title = `// ${quiz.title.replace(/\r?\n/g, ' ')} (${quiz.difficulty})`;
+  return `${[title, ...blocks].join('\n\n')}\n`;
+};
@@ -0,0 +1,95 @@
+import { type QuizAnswer, type QuizData, type QuizQuestion, type QuizQuestionResult } from '../schema';
+
+export interface GradedAttempt {
+  results: QuizQuestionResult[];
+  score: number;
+  max_score: number;
+}
+
+// Lowercase, without accents, punctuation or a leading article
+export const normalizeAnswer = (text: string): string =>
+  text
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+    .replace(/^(a|an|the) /, '');
+
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Accepts small typos in longer answers: one edit up to 7 characters, then about
+// one per 7. Numbers have to match exactly, so 1945 never passes for 1946
+export const matchesFuzzily = (expected: string, given: string): boolean => {
+  const a = normalizeAnswer(expected);
+  const b = normalizeAnswer(given);
+  if (!a || !b) {
+    return false;
+  }
+  if (a === b) {
+    return true;
+  }
+  if ((a.match(/\d+/g) ?? []).join(' ') !== (b.match(/\d+/g) ?? []).join(' ')) {
+    return false;
+  }
+  const allowed = a.length < 4 ? 0 : Math.max(1, Math.floor(a.length * 0.15));
+  return editDistance(a, b) <= allowed;
+};
+
+const result = (score: number): QuizQuestionResult => ({ score, correct: score === 1 });
+
+const gradeQuestion = (question: QuizQuestion, answer: QuizAnswer | null, index: number): QuizQuestionResult => {
+  if (answer === null) {
+    return result(0);
+  }
+  if (answer.type !== question.type) {
+    throw new Error(`Answer ${index + 1} is a ${answer.type} answer, but question ${index + 1} is ${question.type}`);
+  }
+
+  if (question.type === 'multiple_choice' && answer.type === 'multiple_choice') {
+    return result(answer.selected === question.answer_index ? 1 : 0);
+  }
+  if (question.type === 'true_false' && answer.type === 'true_false') {
+    return result(answer.value === question.answer ? 1 : 0);
+  }
+  // Each wrong pick cancels a right one, so selecting everything earns nothing
+  if (question.type === 'multi_select' && answer.type === 'multi_select') {
+    const selected = new Set(answer.selected);
+    const right = question.answer_indices.filter(option => selected.has(option)).length;
+    const wrong = selected.size - right;
+    return result(Math.max(0, (right - wrong) / question.answer_indices.length));
+  }
+  if (question.type === 'short_answer' && answer.type === 'short_answer') {
+    const accepted = [question.answer, ...question.accepted_answers];
+    return result(accepted.some(expected => matchesFuzzily(expected, answer.text)) ? 1 : 0);
+  }
+  // One share of the credit per blank
+  if (question.type === 'cloze' && answer.type === 'cloze') {
+    const right = question.answers.filter((expected, blank) => matchesFuzzily(expected, answer.blanks[blank] ?? '')).length;
+    return result(right / question.answers.length);
+  }
+  return result(0);
+};
+
+export const gradeQuizAttempt = (quiz: QuizData, answers: (QuizAnswer | null)[]): GradedAttempt => {
+  if (answers.length !== quiz.questions.length) {
+    throw new Error(`Expected ${quiz.questions.length} answers, got ${answers.length}`);
+  }
+
+  const results = quiz.questions.map((question, index) => gradeQuestion(question, answers[index], index));
+  return {
+    results,
+    score: results.reduce((total, question) => total + question.score, 0),
+    max_score: quiz.questions.length
+  };
+};
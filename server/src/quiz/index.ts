@@ -0,0 +1,13 @@
+export { buildQuizMessages, buildRepairMessage, readQuizRequest, type QuizRequest } from './prompt';
+export { parseQuizReply, locateQuote, type QuizReplyResult } from './validation';
+export { readQuizData } from './stored';
+export { draftLocalQuiz } from './local_draft';
+export { getQuizOptions, type QuizOptions } from './options';
+export { gradeQuizAttempt, matchesFuzzily, normalizeAnswer, type GradedAttempt } from './grading';
+export { quizExporters, type QuizExporter } from './export';
+export { quizToGift, escapeGift } from './gift';
+export { quizToMoodleXml } from './moodle_xml';
+export { quizToQtiPackage, buildQtiItem } from './qti';
+export { quizToAnki, type AnkiSeparator } from './anki';
+export { quizToPrintableHtml } from './printable';
+export { createZip, type ZipEntry } from './zip';
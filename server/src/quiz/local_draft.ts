@@ -0,0 +1,132 @@
+import { createHash } from 'crypto';
+import { type QuizDifficulty, type QuizQuestionType } from '../schema';
+import { registerLocalResponder } from '../ai/local_provider';
+import { readQuizRequest, type QuizRequest } from './prompt';
+
+// Deterministic quiz drafting for the local AI provider: every question is built
+// around one sentence of the source and one of its longer words. The reply has
+// the shape a model is asked for, quotes instead of offsets included
+
+interface Sentence {
+  text: string;
+  words: string[]; // Candidate key words, longest first
+}
+
+// Distractors for texts too short to supply their own
+const FILLER_WORDS = ['lantern', 'glacier', 'orchard', 'velvet', 'compass', 'harbor', 'meadow', 'quartz'];
+
+const hash = (text: string): number => createHash('md5').update(text).digest().readUInt32BE(0);
+
+const wordsOf = (text: string): string[] => {
+  const words = text.match(/[\p{L}\p{N}][\p{L}\p{N}'-]*/gu) ?? [];
+  const unique = [...new Map(words.map(word => [word.toLowerCase(), word])).values()];
+  const long = unique.filter(word => word.length >= 4);
+  return (long.length > 0 ? long : unique).sort((a, b) => b.length - a.length || a.localeCompare(b));
+};
+
+const splitSentences = (source: string): Sentence[] => {
+  const pieces = source.match(/[^.!?\n]+[.!?]*/g) ?? [];
+  return pieces
+    .map(piece => piece.trim())
+    .map(text => ({ text, words: wordsOf(text) }))
+    .filter(sentence => sentence.words.length > 0);
+};
+
+// Matches a word on its own, not inside a longer one
+const wordPattern = (word: string): RegExp => {
+  const escaped = word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, 'u');
+};
+
+const replaceWord = (text: string, word: string, replacement: string): string =>
+  text.replace(wordPattern(word), replacement);
+
+const optionCount = (difficulty: QuizDifficulty): number => difficulty === 'easy' ? 3 : 4;
+
+const draftQuestion = (
+  type: QuizQuestionType,
+  sentence: Sentence,
+  round: number,
+  allWords: string[],
+  difficulty: QuizDifficulty
+): Record<string, unknown> => {
+  const key = sentence.words[round % sentence.words.length];
+  const inSentence = new Set(sentence.words.map(word => word.toLowerCase()));
+  const distractors = [...allWords, ...FILLER_WORDS]
+    .filter((word, index, all) => !inSentence.has(word.toLowerCase())
+      && all.findIndex(other => other.toLowerCase() === word.toLowerCase()) === index)
+    .sort((a, b) => hash(key + a) - hash(key + b));
+  const blanked = replaceWord(sentence.text, key, '_____');
+  const base = {
+    explanation: `The text says: "${sentence.text}"`,
+    source_spans: [{ quote: sentence.text }]
+  };
+
+  switch (type) {
+    case 'multiple_choice': {
+      const options = distractors.slice(0, optionCount(difficulty) - 1);
+      const answerIndex = hash(sentence.text + key) % (options.length + 1);
+      options.splice(answerIndex, 0, key);
+      return { type, question: `Which word completes this statement from the text: "${blanked}"?`, ...base, options, answer_index: answerIndex };
+    }
+    case 'multi_select': {
+      const correct = [key, ...sentence.words.filter(word => word !== key)].slice(0, 2);
+      const options = [...correct, ...distractors.slice(0, optionCount(difficulty) - correct.length)]
+        .sort((a, b) => hash(a) - hash(b));
+      return {
+        type,
+        question: 'Which of these words does the text use?',
+        ...base,
+        options,
+        answer_indices: correct.map(word => options.indexOf(word)).sort((a, b) => a - b)
+      };
+    }
+    case 'true_false': {
+      // Alternates between the sentence as written and one with its key word swapped
+      const answer = (round + hash(sentence.text)) % 2 === 0;
+      const statement = answer ? sentence.text : replaceWord(sentence.text, key, distractors[0]);
+      return {
+        type,
+        question: statement,
+        ...base,
+        explanation: answer ? base.explanation : `The text says "${key}", not "${distractors[0]}": "${sentence.text}"`,
+        answer
+      };
+    }
+    case 'short_answer':
+      return { type, question: `Which word is missing from this statement from the text: "${blanked}"?`, ...base, answer: key, accepted_answers: [] };
+    case 'cloze': {
+      // Hard quizzes blank a second word as well, numbered in reading order
+      const blanks = difficulty === 'hard' && sentence.words.length > 1
+        ? [key, sentence.words.find(word => word !== key)!]
+        : [key];
+      const ordered = blanks.sort((a, b) => sentence.text.search(wordPattern(a)) - sentence.text.search(wordPattern(b)));
+      const question = ordered.reduce((text, word, index) => replaceWord(text, word, `{{${index + 1}}}`), sentence.text);
+      return { type, question, ...base, answers: ordered };
+    }
+  }
+};
+
+export const draftLocalQuiz = (request: QuizRequest): Record<string, unknown> => {
+  const sentences = splitSentences(request.source_text);
+  if (sentences.length === 0) {
+    return { title: 'Quiz', questions: [] };
+  }
+
+  const allWords = wordsOf(request.source_text);
+  const questions = Array.from({ length: request.question_count }, (_, index) => draftQuestion(
+    request.question_types[index % request.question_types.length],
+    sentences[index % sentences.length],
+    Math.floor(index / sentences.length),
+    allWords,
+    request.difficulty
+  ));
+
+  const titleWords = request.source_text.trim().split(/\s+/).slice(0, 6).join(' ');
+  return { title: `Quiz: ${titleWords}`, questions };
+};
+
+registerLocalResponder('quiz', (request) => {
+  const quizRequest = request.response_format === 'json' ? readQuizRequest(request.messages) : null;
+  return quizRequest ? JSON.stringify(draftLocalQuiz(quizRequest)) : null;
+});
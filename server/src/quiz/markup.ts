@@ -0,0 +1,44 @@
+import { CLOZE_BLANK_PATTERN, type QuizQuestion } from '../schema';
+
+// Helpers shared by the quiz exporters
+
+// Safe in XML and HTML text and attribute values alike
+export const escapeMarkup = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// Renders cloze text: the literal parts through `escape`, each {{n}} blank through
+// `blank(n)`, n counting from 1
+export const renderCloze = (text: string, escape: (text: string) => string, blank: (blank: number) => string): string =>
+  text
+    .split(CLOZE_BLANK_PATTERN)
+    .map((part, index) => index % 2 === 1 ? blank(Number(part)) : escape(part))
+    .join('');
+
+// Letters label options the way printed quizzes do: A, B, C, ...
+export const optionLabel = (index: number): string => String.fromCharCode(65 + index);
+
+// The correct answer in words, as the answer key and flashcards show it
+export const describeAnswer = (question: QuizQuestion): string => {
+  switch (question.type) {
+    case 'multiple_choice':
+      return `${optionLabel(question.answer_index)}. ${question.options[question.answer_index]}`;
+    case 'multi_select':
+      return question.answer_indices.map(index => `${optionLabel(index)}. ${question.options[index]}`).join('; ');
+    case 'true_false':
+      return question.answer ? 'True' : 'False';
+    case 'short_answer':
+      return [question.answer, ...question.accepted_answers].join(' / ');
+    case 'cloze':
+      return question.answers.map((answer, index) => `${index + 1}. ${answer}`).join('; ');
+  }
+};
+
+// Share of the credit one correct option of a multi-select question carries, as a
+// percentage. Wrong options take the same share away, as in gradeQuizAttempt.
+// Five decimals keep it among the grades Moodle accepts (33.33333, 16.66667, ...)
+export const optionWeight = (correctCount: number): number => Number((100 / correctCount).toFixed(5));
@@ -0,0 +1,108 @@
+import { type QuizData, type QuizQuestion } from '../schema';
+import { escapeMarkup, optionWeight, renderCloze } from './markup';
+
+// Moodle XML question bank import. Question texts are HTML, so the plain text is
+// escaped as HTML and wrapped in CDATA; escaping turns any ">" into "&gt;", which
+// keeps "]]>" out of the section.
+// https://docs.moodle.org/en/Moodle_XML_format
+
+const html = (text: string): string => `<text><![CDATA[${escapeMarkup(text).replace(/\r?\n/g, '<br>')}]]></text>`;
+
+const plain = (text: string): string => `<text>${escapeMarkup(text)}</text>`;
+
+// Characters with a meaning inside an embedded answer ({1:SHORTANSWER:=...}),
+// then the ones HTML needs. Entities with a "#" would start answer feedback
+const escapeEmbedded = (text: string): string =>
+  text
+    .replace(/([\\}#~/"])/g, '\\$1')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+
+const common = (question: QuizQuestion, name: string, questionText: string): string[] => [
+  `    <name>${plain(name)}</name>`,
+  `    <questiontext format="html">${questionText}</questiontext>`,
+  `    <generalfeedback format="html">${html(question.explanation)}</generalfeedback>`,
+  '    <defaultgrade>1</defaultgrade>',
+  '    <penalty>0</penalty>',
+  '    <hidden>0</hidden>'
+];
+
+const answer = (fraction: number, text: string, format = 'html'): string =>
+  `    <answer fraction="${fraction}" format="${format}">${format === 'html' ? html(text) : plain(text)}</answer>`;
+
+const choices = (options: string[], fractionOf: (index: number) => number): string[] =>
+  options.map((option, index) => answer(fractionOf(index), option));
+
+const renderQuestion = (question: QuizQuestion, name: string): string[] => {
+  switch (question.type) {
+    case 'multiple_choice':
+      return [
+        '  <question type="multichoice">',
+        ...common(question, name, html(question.question)),
+        '    <single>true</single>',
+        '    <shuffleanswers>true</shuffleanswers>',
+        '    <answernumbering>ABCD</answernumbering>',
+        ...choices(question.options, index => index === question.answer_index ? 100 : 0),
+        '  </question>'
+      ];
+
+    case 'multi_select': {
+      const weight = optionWeight(question.answer_indices.length);
+      return [
+        '  <question type="multichoice">',
+        ...common(question, name, html(question.question)),
+        '    <single>false</single>',
+        '    <shuffleanswers>true</shuffleanswers>',
+        '    <answernumbering>ABCD</answernumbering>',
+        ...choices(question.options, index => question.answer_indices.includes(index) ? weight : -weight),
+        '  </question>'
+      ];
+    }
+
+    case 'true_false':
+      return [
+        '  <question type="truefalse">',
+        ...common(question, name, html(question.question)),
+        answer(question.answer ? 100 : 0, 'true', 'moodle_auto_format'),
+        answer(question.answer ? 0 : 100, 'false', 'moodle_auto_format'),
+        '  </question>'
+      ];
+
+    case 'short_answer':
+      return [
+        '  <question type="shortanswer">',
+        ...common(question, name, html(question.question)),
+        '    <usecase>0</usecase>',
+        ...[question.answer, ...question.accepted_answers].map(accepted => answer(100, accepted, 'moodle_auto_format')),
+        '  </question>'
+      ];
+
+    // Embedded answers: every blank is a short-answer field of its own, worth one mark
+    case 'cloze': {
+      const text = renderCloze(
+        question.question,
+        part => escapeMarkup(part).replace(/\r?\n/g, '<br>'),
+        blank => `{1:SHORTANSWER:=${escapeEmbedded(question.answers[blank - 1])}}`
+      );
+      return [
+        '  <question type="cloze">',
+        ...common(question, name, `<text><![CDATA[${text}]]></text>`),
+        '  </question>'
+      ];
+    }
+  }
+};
+
+export const quizToMoodleXml = (quiz: QuizData): string => [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  '<quiz>',
+  '  <question type="category">',
+  // A slash would nest the category one level deeper
+  `    <category>${plain(`$course$/${quiz.title.replace(/\//g, '-')}`)}</category>`,
+  `    <info format="html">${html(`Difficulty: ${quiz.difficulty}`)}</info>`,
+  '  </question>',
+  ...quiz.questions.flatMap((question, index) => renderQuestion(question, `Q${index + 1}`)),
+  '</quiz>',
+  ''
+].join('\n');
@@ -0,0 +1,13 @@
+export interface QuizOptions {
+  maxAttempts: number; // Provider calls per quiz, the first one included, before generation gives up
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+export const getQuizOptions = (): QuizOptions => {
+  const maxAttempts = parseInt(process.env['QUIZ_MAX_ATTEMPTS'] ?? '');
+
+  return {
+    maxAttempts: Number.isNaN(maxAttempts) || maxAttempts < 1 ? DEFAULT_MAX_ATTEMPTS : maxAttempts
+  };
+};
@@ -0,0 +1,100 @@
+import { type QuizData, type QuizQuestion } from '../schema';
+import { describeAnswer, escapeMarkup, optionLabel, renderCloze } from './markup';
+
+// Printable worksheet: the questions first, then the answer key on a page of its
+// own. Self-contained like the chat HTML export: inline styles, no scripts
+
+const typeHints: Record<QuizQuestion['type'], string> = {
+  multiple_choice: 'Choose one answer.',
+  multi_select: 'Choose all answers that apply.',
+  true_false: 'True or false?',
+  short_answer: 'Write a short answer.',
+  cloze: 'Fill in the blanks.'
+};
+
+const html = (text: string): string => escapeMarkup(text).replace(/\r?\n/g, '<br>');
+
+const renderOptions = (options: string[], marker: string): string => [
+  '<ol class="options">',
+  ...options.map((option, index) => `<li><span class="box">${marker}</span> ${optionLabel(index)}. ${html(option)}</li>`),
+  '</ol>'
+].join('\n');
+
+const renderQuestion = (question: QuizQuestion): string => {
+  const parts = ['<li class="question">', `<p class="hint">${typeHints[question.type]}</p>`];
+
+  switch (question.type) {
+    case 'multiple_choice':
+      parts.push(`<p>${html(question.question)}</p>`, renderOptions(question.options, '○'));
+      break;
+    case 'multi_select':
+      parts.push(`<p>${html(question.question)}</p>`, renderOptions(question.options, '□'));
+      break;
+    case 'true_false':
+      parts.push(`<p>${html(question.question)}</p>`, renderOptions(['True', 'False'], '○'));
+      break;
+    case 'short_answer':
+      parts.push(`<p>${html(question.question)}</p>`, '<div class="line"></div>');
+      break;
+    case 'cloze':
+      parts.push(`<p>${renderCloze(question.question, html, blank => `<span class="blank">(${blank})</span>`)}</p>`);
+      break;
+  }
+
+  parts.push('</li>');
+  return parts.join('\n');
+};
+
+const renderKeyEntry = (question: QuizQuestion): string => [
+  '<li>',
+  `<p><strong>${html(describeAnswer(question))}</strong></p>`,
+  `<p class="explanation">${html(question.explanation)}</p>`,
+  '</li>'
+].join('\n');
+
+export const quizToPrintableHtml = (quiz: QuizData): string => {
+  const title = escapeMarkup(quiz.title);
+  const count = quiz.questions.length;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${title}</title>
+<style>
+body { font-family: Georgia, serif; max-width: 44rem; margin: 2rem auto; padding: 0 1rem; color: #111827; }
+h1 { margin-bottom: 0.25rem; }
+.meta { color: #4b5563; font-size: 0.875rem; }
+.student { display: flex; gap: 2rem; margin: 1.5rem 0; }
+.student span { flex: 1; border-bottom: 1px solid #111827; padding-bottom: 0.25rem; }
+.question { margin: 1.25rem 0; break-inside: avoid; }
+.hint { color: #4b5563; font-size: 0.8rem; font-style: italic; margin: 0 0 0.25rem; }
+.options { list-style: none; padding-left: 0.5rem; }
+.options li { margin: 0.25rem 0; }
+.box { display: inline-block; width: 1.25rem; }
+.line { border-bottom: 1px solid #9ca3af; height: 2rem; margin-top: 0.5rem; }
+.blank { display: inline-block; min-width: 7rem; border-bottom: 1px solid #111827; color: #6b7280; font-size: 0.75rem; text-align: center; }
+.answer-key { break-before: page; page-break-before: always; }
+.explanation { color: #374151; font-size: 0.875rem; }
+</style>
+</head>
+<body>
+<section class="worksheet">
+<h1>${title}</h1>
+<p class="meta">${count} question${count !== 1 ? 's' : ''} · Difficulty: ${quiz.difficulty}</p>
+<div class="student"><span>Name:</span><span>Date:</span></div>
+<ol>
+${quiz.questions.map(renderQuestion).join('\n')}
+</ol>
+</section>
+<section class="answer-key">
+<h1>Answer key: ${title}</h1>
+<ol>
+${quiz.questions.map(renderKeyEntry).join('\n')}
+</ol>
+</section>
+</body>
+</html>
+`;
+};
@@ -0,0 +1,86 @@
+import { type AIChatMessage } from '../ai/types';
+import { quizDifficultySchema, quizQuestionTypeSchema, type QuizDifficulty, type QuizQuestionType } from '../schema';
+
+export interface QuizRequest {
+  source_text: string;
+  question_count: number;
+  difficulty: QuizDifficulty;
+  question_types: QuizQuestionType[];
+}
+
+const typeDescriptions: Record<QuizQuestionType, string> = {
+  multiple_choice: '{"type": "multiple_choice", "question", "options": [2-8 distinct strings], "answer_index": index of the correct option}',
+  multi_select: '{"type": "multi_select", "question", "options": [2-8 distinct strings], "answer_indices": [indices of every correct option]}',
+  true_false: '{"type": "true_false", "question": a statement to judge, "answer": true or false}',
+  short_answer: '{"type": "short_answer", "question", "answer": the expected answer in a few words, "accepted_answers": [other acceptable answers]}',
+  cloze: '{"type": "cloze", "question": text with its blanks written {{1}}, {{2}}, ... in order, "answers": [the word or words for each blank]}'
+};
+
+const difficultyDescriptions: Record<QuizDifficulty, string> = {
+  easy: 'easy: recall of facts stated plainly in the text',
+  medium: 'medium: understanding of the main ideas and how they connect',
+  hard: 'hard: inference and details that require careful reading'
+};
+
+const systemPrompt = (request: QuizRequest): string => [
+  'You write quizzes that test understanding of a source text. Reply with a single JSON object and nothing else:',
+  '{"title": a short title for the quiz, "questions": [...]}',
+  'Every question has "question", "explanation" (why the answer is right, citing the text) and "source_spans":',
+  '[{"quote": a passage copied word for word from the source text that supports the answer}], plus the fields of its type:',
+  ...request.question_types.map(type => `- ${typeDescriptions[type]}`),
+  `Aim for this difficulty - ${difficultyDescriptions[request.difficulty]}.`,
+  'Only ask about what the source text says, and spread the questions over the whole text.'
+].join('\n');
+
+// The parameters travel as plain lines ahead of the source so a reply can be
+// checked against them, and the local provider can read them back
+export const buildQuizMessages = (request: QuizRequest): AIChatMessage[] => [
+  { role: 'system', content: systemPrompt(request) },
+  {
+    role: 'user',
+    content: [
+      `Question count: ${request.question_count}`,
+      `Difficulty: ${request.difficulty}`,
+      `Question types: ${request.question_types.join(', ')}`,
+      'Source text:',
+      '<<<',
+      request.source_text,
+      '>>>'
+    ].join('\n')
+  }
+];
+
+// Sent after a reply that failed validation, next to that reply
+export const buildRepairMessage = (issues: string[]): AIChatMessage => ({
+  role: 'user',
+  content: [
+    'That quiz could not be used:',
+    ...issues.map(issue => `- ${issue}`),
+    'Reply with the corrected JSON object only.'
+  ].join('\n')
+});
+
+// Reads the parameters back from the messages built by buildQuizMessages;
+// null for conversations that aren't quiz requests
+export const readQuizRequest = (messages: AIChatMessage[]): QuizRequest | null => {
+  for (const message of messages) {
+    if (message.role !== 'user') continue;
+    const match = message.content.match(
+      /^Question count: (\d+)\nDifficulty: (\w+)\nQuestion types: ([\w, ]+)\nSource text:\n<<<\n([\s\S]*)\n>>>$/
+    );
+    if (!match) continue;
+
+    const types = match[3].split(',').map(type => quizQuestionTypeSchema.safeParse(type.trim()));
+    const difficulty = quizDifficultySchema.safeParse(match[2]);
+    if (types.some(type => !type.success) || !difficulty.success) {
+      return null;
+    }
+    return {
+      question_count: Number(match[1]),
+      difficulty: difficulty.data,
+      question_types: types.map(type => type.data!),
+      source_text: match[4]
+    };
+  }
+  return null;
+};
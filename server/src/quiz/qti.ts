@@ -0,0 +1,187 @@
+import { type QuizData, type QuizQuestion } from '../schema';
+import { escapeMarkup, renderCloze } from './markup';
+import { createZip } from './zip';
+
+// IMS QTI 2.1 content package: one assessmentItem file per question, an
+// assessmentTest that lists them in order and the imsmanifest.xml tying them
+// together. Every item scores between 0 and 1, like gradeQuizAttempt.
+// https://www.imsglobal.org/question/qtiv2p1/imsqti_infov2p1.html
+
+const QTI_NAMESPACE = 'http://www.imsglobal.org/xsd/imsqti_v2p1';
+const QTI_SCHEMA = `${QTI_NAMESPACE} http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd`;
+const TEMPLATES = 'http://www.imsglobal.org/question/qti_v2p1/rptemplates';
+
+const paragraph = (text: string): string => `<p>${escapeMarkup(text)}</p>`;
+
+const scoreOutcome = [
+  '  <outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float">',
+  '    <defaultValue><value>0</value></defaultValue>',
+  '  </outcomeDeclaration>'
+];
+
+const choiceInteraction = (prompt: string, options: string[], maxChoices: number): string[] => [
+  `    <choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="${maxChoices}">`,
+  `      <prompt>${escapeMarkup(prompt)}</prompt>`,
+  ...options.map((option, index) => `      <simpleChoice identifier="CHOICE_${index + 1}">${escapeMarkup(option)}</simpleChoice>`),
+  '    </choiceInteraction>'
+];
+
+// Declarations, item body and response processing of one question
+const renderParts = (question: QuizQuestion): { declarations: string[]; body: string[]; processing: string[] } => {
+  switch (question.type) {
+    case 'multiple_choice':
+    case 'true_false': {
+      const options = question.type === 'multiple_choice' ? question.options : ['True', 'False'];
+      const correct = question.type === 'multiple_choice' ? question.answer_index : (question.answer ? 0 : 1);
+      return {
+        declarations: [
+          '  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="identifier">',
+          `    <correctResponse><value>CHOICE_${correct + 1}</value></correctResponse>`,
+          '  </responseDeclaration>'
+        ],
+        body: choiceInteraction(question.question, options, 1),
+        processing: [`  <responseProcessing template="${TEMPLATES}/match_correct"/>`]
+      };
+    }
+
+    // Each correct choice adds its share and each wrong one takes it away again
+    case 'multi_select': {
+      const share = 1 / question.answer_indices.length;
+      return {
+        declarations: [
+          '  <responseDeclaration identifier="RESPONSE" cardinality="multiple" baseType="identifier">',
+          '    <correctResponse>',
+          ...question.answer_indices.map(index => `      <value>CHOICE_${index + 1}</value>`),
+          '    </correctResponse>',
+          '    <mapping lowerBound="0" upperBound="1" defaultValue="0">',
+          ...question.options.map((_, index) =>
+            `      <mapEntry mapKey="CHOICE_${index + 1}" mappedValue="${question.answer_indices.includes(index) ? share : -share}"/>`),
+          '    </mapping>',
+          '  </responseDeclaration>'
+        ],
+        body: choiceInteraction(question.question, question.options, 0),
+        processing: [`  <responseProcessing template="${TEMPLATES}/map_response"/>`]
+      };
+    }
+
+    case 'short_answer':
+      return {
+        declarations: [
+          '  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string">',
+          `    <correctResponse><value>${escapeMarkup(question.answer)}</value></correctResponse>`,
+          '    <mapping lowerBound="0" upperBound="1" defaultValue="0">',
+          ...[question.answer, ...question.accepted_answers].map(accepted =>
+            `      <mapEntry mapKey="${escapeMarkup(accepted)}" mappedValue="1" caseSensitive="false"/>`),
+          '    </mapping>',
+          '  </responseDeclaration>'
+        ],
+        body: [
+          `    ${paragraph(question.question)}`,
+          '    <p><textEntryInteraction responseIdentifier="RESPONSE" expectedLength="30"/></p>'
+        ],
+        processing: [`  <responseProcessing template="${TEMPLATES}/map_response"/>`]
+      };
+
+    // One text entry per blank; the score is the share of blanks filled correctly
+    case 'cloze': {
+      const blanks = question.answers.map((answer, index) => ({ id: `RESPONSE_${index + 1}`, answer }));
+      const text = renderCloze(
+        question.question,
+        escapeMarkup,
+        blank => `<textEntryInteraction responseIdentifier="RESPONSE_${blank}" expectedLength="15"/>`
+      );
+      return {
+        declarations: blanks.flatMap(({ id, answer }) => [
+          `  <responseDeclaration identifier="${id}" cardinality="single" baseType="string">`,
+          `    <correctResponse><value>${escapeMarkup(answer)}</value></correctResponse>`,
+          '    <mapping defaultValue="0">',
+          `      <mapEntry mapKey="${escapeMarkup(answer)}" mappedValue="1" caseSensitive="false"/>`,
+          '    </mapping>',
+          '  </responseDeclaration>'
+        ]),
+        body: [`    <p>${text}</p>`],
+        processing: [
+          '  <responseProcessing>',
+          '    <setOutcomeValue identifier="SCORE">',
+          '      <divide>',
+          '        <sum>',
+          ...blanks.map(({ id }) => `          <mapResponse identifier="${id}"/>`),
+          '        </sum>',
+          `        <baseValue baseType="float">${blanks.length}</baseValue>`,
+          '      </divide>',
+          '    </setOutcomeValue>',
+          '  </responseProcessing>'
+        ]
+      };
+    }
+  }
+};
+
+export const buildQtiItem = (question: QuizQuestion, identifier: string, title: string): string => {
+  const { declarations, body, processing } = renderParts(question);
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<assessmentItem xmlns="${QTI_NAMESPACE}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"`,
+    `  xsi:schemaLocation="${QTI_SCHEMA}"`,
+    `  identifier="${identifier}" title="${escapeMarkup(title)}" adaptive="false" timeDependent="false">`,
+    ...declarations,
+    ...scoreOutcome,
+    '  <itemBody>',
+    ...body,
+    // The explanation is for whoever marks or reviews the item, not the candidate
+    `    <rubricBlock view="scorer">${paragraph(question.explanation)}</rubricBlock>`,
+    '  </itemBody>',
+    ...processing,
+    '</assessmentItem>',
+    ''
+  ].join('\n');
+};
+
+const buildTest = (quiz: QuizData, itemIds: string[]): string => [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  `<assessmentTest xmlns="${QTI_NAMESPACE}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"`,
+  `  xsi:schemaLocation="${QTI_SCHEMA}"`,
+  `  identifier="TEST" title="${escapeMarkup(quiz.title)}">`,
+  '  <testPart identifier="PART_1" navigationMode="nonlinear" submissionMode="simultaneous">',
+  `    <assessmentSection identifier="SECTION_1" title="${escapeMarkup(quiz.title)}" visible="true">`,
+  ...itemIds.map(id => `      <assessmentItemRef identifier="${id}" href="items/${id}.xml"/>`),
+  '    </assessmentSection>',
+  '  </testPart>',
+  '</assessmentTest>',
+  ''
+].join('\n');
+
+const buildManifest = (itemIds: string[]): string => [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  '<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1" identifier="MANIFEST">',
+  '  <metadata>',
+  '    <schema>QTIv2.1 Package</schema>',
+  '    <schemaversion>1.0.0</schemaversion>',
+  '  </metadata>',
+  '  <organizations/>',
+  '  <resources>',
+  '    <resource identifier="TEST" type="imsqti_test_xmlv2p1" href="test.xml">',
+  '      <file href="test.xml"/>',
+  ...itemIds.map(id => `      <dependency identifierref="${id}"/>`),
+  '    </resource>',
+  ...itemIds.map(id => [
+    `    <resource identifier="${id}" type="imsqti_item_xmlv2p1" href="items/${id}.xml">`,
+    `      <file href="items/${id}.xml"/>`,
+    '    </resource>'
+  ].join('\n')),
+  '  </resources>',
+  '</manifest>',
+  ''
+].join('\n');
+
+export const quizToQtiPackage = (quiz: QuizData): Buffer => {
+  const itemIds = quiz.questions.map((_, index) => `ITEM_${index + 1}`);
+  return createZip([
+    { name: 'imsmanifest.xml', content: buildManifest(itemIds) },
+    { name: 'test.xml', content: buildTest(quiz, itemIds) },
+    ...quiz.questions.map((question, index) => ({
+      name: `items/${itemIds[index]}.xml`,
+      content: buildQtiItem(question, itemIds[index], `${quiz.title} ${index + 1}`)
+    }))
+  ]);
+};
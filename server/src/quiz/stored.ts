@@ -0,0 +1,9 @@
+import { quizDataSchema, type QuizData } from '../schema';
+
+// quiz_data as stored in the quiz table. Quizzes saved before typed questions hold
+// `{ quiz: [{ question, options, answer }] }` placeholders without explanations or
+// source passages; they read as null and cannot be taken, graded or exported
+export const readQuizData = (value: unknown): QuizData | null => {
+  const parsed = quizDataSchema.safeParse(value);
+  return parsed.success ? parsed.data : null;
+};
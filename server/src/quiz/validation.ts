@@ -0,0 +1,100 @@
+import { quizDataSchema, type QuizData } from '../schema';
+import { type QuizRequest } from './prompt';
+
+export type QuizReplyResult =
+  | { success: true; quiz: QuizData }
+  | { success: false; issues: string[] }; // Phrased so they can be sent back to the model
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Models often wrap JSON in a code fence or a sentence of preamble
+const extractJson = (content: string): string => {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+  if (fenced) {
+    return fenced[1];
+  }
+  const start = content.indexOf('{');
+  const end = content.lastIndexOf('}');
+  return start !== -1 && end > start ? content.slice(start, end + 1) : content;
+};
+
+// Finds a quoted passage in the source, tolerating differences in case and
+// whitespace and stray quote marks or ellipses around it
+export const locateQuote = (source: string, quote: string): { start: number; end: number } | null => {
+  const trimmed = quote.trim().replace(/^["'“‘]+|["'”’]+$/g, '').replace(/^(\.\.\.|…)\s*|\s*(\.\.\.|…)$/g, '').trim();
+  if (!trimmed) {
+    return null;
+  }
+
+  const exact = source.indexOf(trimmed);
+  if (exact !== -1) {
+    return { start: exact, end: exact + trimmed.length };
+  }
+
+  const pattern = new RegExp(trimmed.split(/\s+/).map(escapeRegExp).join('\\s+'), 'i');
+  const match = pattern.exec(source);
+  return match ? { start: match.index, end: match.index + match[0].length } : null;
+};
+
+// Replaces the quotes the model gave with spans pointing into the source.
+// Quotes that can't be found are dropped and reported
+const locateSpans = (question: unknown, index: number, source: string, issues: string[]): unknown => {
+  if (!isRecord(question) || !Array.isArray(question['source_spans'])) {
+    return question;
+  }
+
+  const spans = question['source_spans'].flatMap((span: unknown, spanIndex: number) => {
+    const quote = isRecord(span) ? span['quote'] : undefined;
+    if (typeof quote !== 'string') {
+      issues.push(`questions.${index}.source_spans.${spanIndex}: must be an object with a "quote"`);
+      return [];
+    }
+    const location = locateQuote(source, quote);
+    if (!location) {
+      issues.push(`questions.${index}.source_spans.${spanIndex}.quote: "${quote.slice(0, 80)}" is not in the source text; copy passages word for word`);
+      return [];
+    }
+    return [{ ...location, quote: source.slice(location.start, location.end) }];
+  });
+
+  return { ...question, source_spans: spans };
+};
+
+// Parses and validates a model's quiz reply against the quiz schema and the request
+export const parseQuizReply = (content: string, request: QuizRequest): QuizReplyResult => {
+  let reply: unknown;
+  try {
+    reply = JSON.parse(extractJson(content));
+  } catch {
+    return { success: false, issues: ['The reply is not valid JSON'] };
+  }
+  if (!isRecord(reply)) {
+    return { success: false, issues: ['The reply must be a JSON object with "title" and "questions"'] };
+  }
+
+  const issues: string[] = [];
+  const questions = Array.isArray(reply['questions'])
+    ? reply['questions'].map((question, index) => locateSpans(question, index, request.source_text, issues))
+    : reply['questions'];
+
+  // The difficulty is ours to set, not the model's
+  const parsed = quizDataSchema.safeParse({ ...reply, questions, difficulty: request.difficulty });
+  if (!parsed.success) {
+    issues.push(...parsed.error.issues.map(issue => `${issue.path.join('.') || 'reply'}: ${issue.message}`));
+    return { success: false, issues };
+  }
+
+  if (parsed.data.questions.length !== request.question_count) {
+    issues.push(`Write exactly ${request.question_count} questions, not ${parsed.data.questions.length}`);
+  }
+  parsed.data.questions.forEach((question, index) => {
+    if (!request.question_types.includes(question.type)) {
+      issues.push(`questions.${index}.type: ${question.type} was not asked for; use ${request.question_types.join(', ')}`);
+    }
+  });
+
+  return issues.length > 0 ? { success: false, issues } : { success: true, quiz: parsed.data };
+};
@@ -0,0 +1,51 @@
+export interface TextChunk {
+  page: number; // 1-based page the chunk was taken from
+  text: string;
+}
+
+export interface ChunkOptions {
+  size: number; // Target chunk length in characters
+  overlap: number; // Characters repeated from the end of the previous chunk
+}
+
+export const DEFAULT_CHUNK_OPTIONS: ChunkOptions = { size: 1000, overlap: 200 };
+
+// Splits each page on its own, so every chunk maps to exactly one page for citations.
+// Cuts prefer paragraph, then sentence, then word boundaries near the target size
+export const chunkPages = (pages: string[], options: ChunkOptions = DEFAULT_CHUNK_OPTIONS): TextChunk[] => {
+  const chunks: TextChunk[] = [];
+
+  pages.forEach((pageText, index) => {
+    let start = 0;
+    while (start < pageText.length) {
+      let end = Math.min(start + options.size, pageText.length);
+      if (end < pageText.length) {
+        end = findBreak(pageText, start + Math.floor(options.size / 2), end);
+      }
+
+      const text = pageText.slice(start, end).trim();
+      if (text) {
+        chunks.push({ page: index + 1, text });
+      }
+      if (end >= pageText.length) {
+        break;
+      }
+      start = Math.max(end - options.overlap, start + 1);
+    }
+  });
+
+  return chunks;
+};
+
+// Last natural break in [min, max], or max when there is none
+const findBreak = (text: string, min: number, max: number): number => {
+  const window = text.slice(min, max);
+  for (const pattern of [/\n\n/g, /[.!?]\s/g, /\s/g]) {
+    const matches = [...window.matchAll(pattern)];
+    const last = matches[matches.length - 1];
+    if (last?.index !== undefined) {
+      return min + last.index + last[0].length;
+    }
+  }
+  return max;
+};
@@ -0,0 +1,4 @@
+export { extractPdfPages } from './pdf';
+export { chunkPages, DEFAULT_CHUNK_OPTIONS, type TextChunk, type ChunkOptions } from './chunking';
+export { cosineSimilarity, topKBySimilarity } from './similarity';
+export { getRagOptions, type RagOptions, type VectorSearchMode } from './options';
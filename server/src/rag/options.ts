@@ -0,0 +1,18 @@
+export type VectorSearchMode = 'auto' | 'pgvector' | 'local';
+
+export interface RagOptions {
+  topK: number; // Chunks added to the prompt per question
+  vectorSearch: VectorSearchMode; // 'auto' uses pgvector when the extension is installed
+}
+
+const DEFAULT_TOP_K = 4;
+
+export const getRagOptions = (): RagOptions => {
+  const topK = parseInt(process.env['RAG_TOP_K'] ?? '');
+  const vectorSearch = process.env['VECTOR_SEARCH'];
+
+  return {
+    topK: Number.isNaN(topK) || topK < 1 ? DEFAULT_TOP_K : topK,
+    vectorSearch: vectorSearch === 'pgvector' || vectorSearch === 'local' ? vectorSearch : 'auto'
+  };
+};
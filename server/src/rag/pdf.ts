@@ -0,0 +1,35 @@
+import { getDocument, VerbosityLevel } from 'pdfjs-dist/legacy/build/pdf.mjs';
+
+// Plain text of each page, in page order (index 0 is page 1). Scanned pages
+// without a text layer come back empty
+export const extractPdfPages = async (data: Uint8Array): Promise<string[]> => {
+  const document = await getDocument({
+    data,
+    isEvalSupported: false,
+    useSystemFonts: false,
+    verbosity: VerbosityLevel.ERRORS
+  }).promise;
+
+  try {
+    const pages: string[] = [];
+    for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+      const page = await document.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const text = content.items
+        .map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : ''))
+        .join('');
+      pages.push(normalizeWhitespace(text));
+    }
+    return pages;
+  } finally {
+    await document.destroy();
+  }
+};
+
+const normalizeWhitespace = (text: string): string => {
+  return text
+    .replace(/[ \t\f\v]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
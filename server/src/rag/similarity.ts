@@ -0,0 +1,25 @@
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+};
+
+// The `k` items most similar to `query`, best first. Items embedded with a
+// different model (other dimensions) are skipped
+export const topKBySimilarity = <T extends { embedding: number[] }>(
+  items: T[],
+  query: number[],
+  k: number
+): (T & { score: number })[] => {
+  return items
+    .filter(item => item.embedding.length === query.length)
+    .map(item => ({ ...item, score: cosineSimilarity(item.embedding, query) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k);
+};
@@ -0,0 +1,113 @@
+import { type IncomingMessage, type ServerResponse } from 'http';
+import { pipeline } from 'stream/promises';
+import { attachmentUploadParamsSchema } from '../schema';
+import { getAttachmentOptions } from '../storage';
+import { createAttachment, AttachmentTooLargeError, UnsupportedAttachmentTypeError } from '../handlers/create_attachment';
+import { getAttachment, openAttachment } from '../handlers/get_attachment';
+import { startAttachmentUpload } from '../handlers/start_attachment_upload';
+import { uploadAttachmentPart } from '../handlers/upload_attachment_part';
+import { completeAttachmentUpload } from '../handlers/complete_attachment_upload';
+import { abortAttachmentUpload } from '../handlers/abort_attachment_upload';
+import { PayloadTooLargeError, errorMessage, readBody, sendJson } from './http';
+
+// Files travel as raw request bodies instead of base64 inside tRPC payloads:
+//   POST   /attachments?filename=                       whole file as the body; responds with the attachment
+//   POST   /attachments/uploads?filename=               starts a chunked upload: { upload_id, part_size }
+//   PUT    /attachments/uploads/:uploadId/parts/:n      part n (1-based) as the body
+//   POST   /attachments/uploads/:uploadId/complete      joins the parts; responds with the attachment
+//   DELETE /attachments/uploads/:uploadId               abandons the upload
+//   GET    /attachments/:id[?download=true]             serves the file
+const uploadsPattern = /^\/attachments\/uploads$/;
+const partPattern = /^\/attachments\/uploads\/([\w-]+)\/parts\/(\d+)$/;
+const completePattern = /^\/attachments\/uploads\/([\w-]+)\/complete$/;
+const uploadPattern = /^\/attachments\/uploads\/([\w-]+)$/;
+const downloadPattern = /^\/attachments\/(\d+)$/;
+
+export const isAttachmentRoute = (req: IncomingMessage): boolean => {
+  const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+  return pathname === '/attachments' || pathname.startsWith('/attachments/');
+};
+
+export const handleAttachmentRoute = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const { pathname } = url;
+  const filenameParams = () => attachmentUploadParamsSchema.parse({ filename: url.searchParams.get('filename') ?? '' });
+  let match: RegExpMatchArray | null;
+
+  try {
+    if (pathname === '/attachments' && req.method === 'POST') {
+      const { filename } = filenameParams();
+      const { maxBytes } = getAttachmentOptions();
+      const data = await readBody(req, maxBytes, `Attachments larger than ${maxBytes} bytes are not accepted`);
+      sendJson(res, 201, await createAttachment(filename, data));
+      return;
+    }
+
+    if (uploadsPattern.test(pathname) && req.method === 'POST') {
+      sendJson(res, 201, await startAttachmentUpload(filenameParams()));
+      return;
+    }
+
+    if ((match = pathname.match(partPattern)) && req.method === 'PUT') {
+      const { partBytes } = getAttachmentOptions();
+      const data = await readBody(req, partBytes, `Parts larger than ${partBytes} bytes are not accepted`);
+      sendJson(res, 200, await uploadAttachmentPart(match[1], Number(match[2]), data));
+      return;
+    }
+
+    if ((match = pathname.match(completePattern)) && req.method === 'POST') {
+      sendJson(res, 201, await completeAttachmentUpload(match[1]));
+      return;
+    }
+
+    if ((match = pathname.match(uploadPattern)) && req.method === 'DELETE') {
+      await abortAttachmentUpload(match[1]);
+      res.writeHead(204).end();
+      return;
+    }
+
+    if ((match = pathname.match(downloadPattern)) && req.method === 'GET') {
+      const attachment = await getAttachment({ id: Number(match[1]) }).catch(() => null);
+      if (!attachment) {
+        sendJson(res, 404, { error: `Attachment ${match[1]} not found` });
+        return;
+      }
+
+      // Content never changes for an ID, so the hash doubles as a permanent ETag
+      const etag = `"${attachment.sha256}"`;
+      if (req.headers['if-none-match'] === etag) {
+        res.writeHead(304, { ETag: etag }).end();
+        return;
+      }
+
+      const disposition = url.searchParams.get('download') === 'true' ? 'attachment' : 'inline';
+      const body = await openAttachment(attachment);
+      res.writeHead(200, {
+        'Content-Type': attachment.mime_type,
+        'Content-Length': attachment.size_bytes,
+        'Content-Disposition': `${disposition}; filename*=UTF-8''${encodeURIComponent(attachment.filename)}`,
+        'X-Content-Type-Options': 'nosniff',
+        'Cache-Control': 'private, max-age=31536000, immutable',
+        ETag: etag
+      });
+      await pipeline(body, res);
+      return;
+    }
+
+    sendJson(res, 405, { error: `${req.method} is not supported for ${pathname}` });
+  } catch (error) {
+    // A failure mid-download can only be signalled by cutting the stream
+    if (res.headersSent) {
+      res.destroy(error as Error);
+      return;
+    }
+    sendJson(res, statusFor(error), { error: errorMessage(error) });
+  }
+};
+
+const statusFor = (error: unknown): number => {
+  if (error instanceof PayloadTooLargeError || error instanceof AttachmentTooLargeError) return 413;
+  if (error instanceof UnsupportedAttachmentTypeError) return 415;
+  if (error instanceof Error && /not found/i.test(error.message)) return 404;
+  return 400;
+};
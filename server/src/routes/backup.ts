@@ -0,0 +1,59 @@
+import { type IncomingMessage, type ServerResponse } from 'http';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { createGzip } from 'zlib';
+import { restoreBackupOptionsSchema } from '../schema';
+import { createBackup } from '../handlers/create_backup';
+import { restoreBackup } from '../handlers/restore_backup';
+import { PayloadTooLargeError, errorMessage, readBody, sendJson } from './http';
+
+// Backups are files, not JSON payloads, so they bypass tRPC:
+//   GET  /backup                                            streams a gzipped NDJSON archive
+//   POST /backup/restore?mode=merge|replace&onConflict=fail|skip|overwrite&dryRun=true
+//        with the archive as the raw request body; responds with the restore report
+const DEFAULT_MAX_UPLOAD_BYTES = 100 * 1024 * 1024;
+
+export const isBackupRoute = (req: IncomingMessage): boolean => {
+  const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+  return pathname === '/backup' || pathname === '/backup/restore';
+};
+
+export const handleBackupRoute = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+
+  try {
+    if (url.pathname === '/backup' && req.method === 'GET') {
+      const filename = `okaigpt-backup-${new Date().toISOString().split('T')[0]}.ndjson.gz`;
+      res.writeHead(200, {
+        'Content-Type': 'application/gzip',
+        'Content-Disposition': `attachment; filename="${filename}"`
+      });
+      await pipeline(Readable.from(createBackup()), createGzip(), res);
+      return;
+    }
+
+    if (url.pathname === '/backup/restore' && req.method === 'POST') {
+      const options = restoreBackupOptionsSchema.parse({
+        mode: url.searchParams.get('mode'),
+        onConflict: url.searchParams.get('onConflict') ?? undefined,
+        dryRun: url.searchParams.get('dryRun') === 'true'
+      });
+      const maxBytes = getMaxUploadBytes();
+      const archive = await readBody(req, maxBytes, `Backups larger than ${maxBytes} bytes cannot be uploaded`);
+      sendJson(res, 200, await restoreBackup(archive, options));
+      return;
+    }
+
+    sendJson(res, 405, { error: `${req.method} is not supported for ${url.pathname}` });
+  } catch (error) {
+    // A failure mid-download can only be signalled by cutting the stream
+    if (res.headersSent) {
+      res.destroy(error as Error);
+      return;
+    }
+    sendJson(res, error instanceof PayloadTooLargeError ? 413 : 400, { error: errorMessage(error) });
+  }
+};
+
+const getMaxUploadBytes = (): number =>
+  Number(process.env['BACKUP_MAX_UPLOAD_BYTES']) || DEFAULT_MAX_UPLOAD_BYTES;
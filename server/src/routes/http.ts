@@ -0,0 +1,32 @@
+import { type IncomingMessage, type ServerResponse } from 'http';
+import { ZodError } from 'zod';
+
+// Helpers shared by the plain HTTP routes that sit next to tRPC
+
+export class PayloadTooLargeError extends Error {}
+
+export const readBody = async (req: IncomingMessage, maxBytes: number, tooLargeMessage: string): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBytes) {
+      throw new PayloadTooLargeError(tooLargeMessage);
+    }
+    chunks.push(chunk);
+  }
+
+  return Buffer.concat(chunks);
+};
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown): void => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+export const errorMessage = (error: unknown): string => {
+  return error instanceof ZodError
+    ? error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ')
+    : (error as Error).message;
+};
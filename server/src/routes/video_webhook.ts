@@ -0,0 +1,49 @@
+import { type IncomingMessage, type ServerResponse } from 'http';
+import { WEBHOOK_NONCE_HEADER, WEBHOOK_SIGNATURE_HEADER, WEBHOOK_TIMESTAMP_HEADER, WebhookAuthError } from '../video';
+import { receiveVideoWebhook, WebhookDisabledError } from '../handlers/receive_video_webhook';
+import { IllegalVideoTransitionError } from '../handlers/update_video_status';
+import { PayloadTooLargeError, errorMessage, readBody, sendJson } from './http';
+
+// Status reports from external render backends, signed with VIDEO_WEBHOOK_SECRET
+// (see video/webhook.ts for the headers):
+//   POST /webhooks/video   { id, status?, progress?, progress_message?, video_url? }
+//                          responds with the updated video
+const MAX_BODY_BYTES = 64 * 1024;
+
+export const isVideoWebhookRoute = (req: IncomingMessage): boolean => {
+  const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+  return pathname === '/webhooks/video';
+};
+
+const header = (req: IncomingMessage, name: string): string | undefined => {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+};
+
+const statusFor = (error: unknown): number => {
+  if (error instanceof WebhookDisabledError) return 503;
+  if (error instanceof WebhookAuthError) return 401;
+  if (error instanceof PayloadTooLargeError) return 413;
+  if (error instanceof IllegalVideoTransitionError) return 409;
+  if (/not found/i.test(errorMessage(error))) return 404;
+  return 400;
+};
+
+export const handleVideoWebhookRoute = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+  if (req.method !== 'POST') {
+    sendJson(res, 405, { error: `${req.method} is not supported for /webhooks/video` });
+    return;
+  }
+
+  try {
+    const body = await readBody(req, MAX_BODY_BYTES, `Webhook bodies larger than ${MAX_BODY_BYTES} bytes are not accepted`);
+    const video = await receiveVideoWebhook({
+      timestamp: header(req, WEBHOOK_TIMESTAMP_HEADER),
+      nonce: header(req, WEBHOOK_NONCE_HEADER),
+      signature: header(req, WEBHOOK_SIGNATURE_HEADER)
+    }, body);
+    sendJson(res, 200, video);
+  } catch (error) {
+    sendJson(res, statusFor(error), { error: errorMessage(error) });
+  }
+};
@@ -4,32 +4,117 @@ import { z } from 'zod';
 export const chatMessageSchema = z.object({
   id: z.number(),
   session_id: z.string(),
+  parent_id: z.number().nullable(), // Previous turn; messages sharing a parent are alternative branches
   role: z.enum(['user', 'assistant']),
   content: z.string(),
   content_type: z.enum(['text', 'image', 'pdf']),
+  attachment_id: z.number().nullable(), // Image or PDF sent with the message
   metadata: z.record(z.any()).nullable(), // JSON field for storing additional data
   created_at: z.coerce.date()
 });
 
 export type ChatMessage = z.infer<typeof chatMessageSchema>;
 
+// Uploaded file; the content is served by GET /attachments/:id
+export const attachmentSchema = z.object({
+  id: z.number(),
+  sha256: z.string(),
+  filename: z.string(),
+  mime_type: z.string(), // Sniffed from the content
+  size_bytes: z.number().int(),
+  storage_key: z.string(),
+  created_at: z.coerce.date()
+});
+
+export type Attachment = z.infer<typeof attachmentSchema>;
+
 // Chat session schema
 export const chatSessionSchema = z.object({
   id: z.string(),
   title: z.string().nullable(),
+  title_source: z.enum(['default', 'auto', 'manual']), // 'default' until auto-titled or renamed by the user
   gen_z_mode: z.boolean(),
   copy_code_only_mode: z.boolean(),
   target_language: z.string().nullable(),
+  persona_id: z.number().int().nullable(), // Pinned persona, if any
+  model: z.string().nullable(), // Generation settings; null uses the persona's, then the provider's defaults
+  temperature: z.number().nullable(),
+  max_tokens: z.number().int().nullable(),
+  stop: z.array(z.string()).nullable(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
 
 export type ChatSession = z.infer<typeof chatSessionSchema>;
 
+// Generation parameters a persona applies to its replies; unset fields use the provider defaults
+export const modelParamsSchema = z.object({
+  model: z.string().min(1).optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  max_tokens: z.number().int().positive().max(32000).optional(),
+  stop: z.array(z.string().min(1)).max(4).optional()
+});
+
+export type ModelParams = z.infer<typeof modelParamsSchema>;
+
+// Few-shot example exchange, sent ahead of the conversation history
+export const personaExampleSchema = z.object({
+  user: z.string().min(1),
+  assistant: z.string().min(1)
+});
+
+export type PersonaExample = z.infer<typeof personaExampleSchema>;
+
+export const personaSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  system_prompt: z.string(),
+  model_params: modelParamsSchema,
+  examples: z.array(personaExampleSchema),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type Persona = z.infer<typeof personaSchema>;
+
+// Chat model offered by the active AI provider
+export const modelInfoSchema = z.object({
+  id: z.string(),
+  default: z.boolean() // Used when neither the session nor its persona picks a model
+});
+
+export type ModelInfo = z.infer<typeof modelInfoSchema>;
+
+// PDF uploaded to a chat session and indexed for retrieval
+export const pdfDocumentSchema = z.object({
+  id: z.number(),
+  session_id: z.string(),
+  attachment_id: z.number().nullable(), // The original file
+  filename: z.string(),
+  page_count: z.number().int(),
+  chunk_count: z.number().int(),
+  embedding_model: z.string(),
+  created_at: z.coerce.date()
+});
+
+export type PdfDocument = z.infer<typeof pdfDocumentSchema>;
+
+// Stored in assistant message metadata (`citations`) for the PDF passages a reply was grounded on
+export const pdfCitationSchema = z.object({
+  document_id: z.number(),
+  filename: z.string(),
+  page: z.number().int(), // 1-based
+  chunk_id: z.number(),
+  score: z.number() // Cosine similarity to the question
+});
+
+export type PdfCitation = z.infer<typeof pdfCitationSchema>;
+
 // Document analysis schema
 export const documentAnalysisSchema = z.object({
   id: z.number(),
-  image_url: z.string(),
+  image_url: z.string().nullable(), // Remote image; null when an uploaded attachment was analyzed
+  attachment_id: z.number().nullable(),
   prompt: z.string(),
   analysis_result: z.string(),
   created_at: z.coerce.date()
@@ -48,47 +133,270 @@ export const generatedImageSchema = z.object({
 export type GeneratedImage = z.infer<typeof generatedImageSchema>;
 
 // Generated video schema
+export const videoStatusSchema = z.enum(['pending', 'processing', 'completed', 'failed', 'cancelled']);
+
+export type VideoStatus = z.infer<typeof videoStatusSchema>;
+
 export const generatedVideoSchema = z.object({
   id: z.number(),
   prompt: z.string(),
   initial_image_url: z.string().nullable(),
+  initial_image_attachment_id: z.number().nullable(),
   video_url: z.string().nullable(),
-  status: z.enum(['pending', 'processing', 'completed', 'failed']),
+  status: videoStatusSchema,
+  progress: z.number().int(), // Percent, 0-100
   progress_message: z.string().nullable(),
   created_at: z.coerce.date(),
+  started_at: z.coerce.date().nullable(),
   completed_at: z.coerce.date().nullable()
 });
 
 export type GeneratedVideo = z.infer<typeof generatedVideoSchema>;
 
+// What the Video Generator shows while a video is on its way
+export const videoProgressSchema = generatedVideoSchema.pick({
+  id: true,
+  status: true,
+  progress: true,
+  progress_message: true,
+  video_url: true
+}).extend({
+  eta_seconds: z.number().int().nullable() // Estimated from the current attempt's pace; null until it can be
+});
+
+export type VideoProgress = z.infer<typeof videoProgressSchema>;
+
 // Quiz schema
+export const quizQuestionTypeSchema = z.enum(['multiple_choice', 'multi_select', 'true_false', 'short_answer', 'cloze']);
+
+export type QuizQuestionType = z.infer<typeof quizQuestionTypeSchema>;
+
+export const quizDifficultySchema = z.enum(['easy', 'medium', 'hard']);
+
+export type QuizDifficulty = z.infer<typeof quizDifficultySchema>;
+
+// Where in the source text a question comes from; `quote` is source_text.slice(start, end)
+export const quizSourceSpanSchema = z.object({
+  start: z.number().int().nonnegative(),
+  end: z.number().int().positive(),
+  quote: z.string().min(1)
+}).strict();
+
+export type QuizSourceSpan = z.infer<typeof quizSourceSpanSchema>;
+
+const quizQuestionBase = {
+  question: z.string().min(1),
+  explanation: z.string().min(1), // Why the answer is right, shown after answering
+  source_spans: z.array(quizSourceSpanSchema).min(1)
+};
+
+const quizOptionsSchema = z.array(z.string().min(1)).min(2).max(8);
+
+// Cloze questions mark their blanks {{1}}, {{2}}, ... in order, one answer per blank
+export const CLOZE_BLANK_PATTERN = /\{\{(\d+)\}\}/g;
+
+export const quizQuestionSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('multiple_choice'),
+    ...quizQuestionBase,
+    options: quizOptionsSchema,
+    answer_index: z.number().int().nonnegative()
+  }).strict(),
+  z.object({
+    type: z.literal('multi_select'),
+    ...quizQuestionBase,
+    options: quizOptionsSchema,
+    answer_indices: z.array(z.number().int().nonnegative()).min(1)
+  }).strict(),
+  z.object({
+    type: z.literal('true_false'),
+    ...quizQuestionBase,
+    answer: z.boolean()
+  }).strict(),
+  z.object({
+    type: z.literal('short_answer'),
+    ...quizQuestionBase,
+    answer: z.string().min(1),
+    accepted_answers: z.array(z.string().min(1)).default([]) // Other spellings and synonyms
+  }).strict(),
+  z.object({
+    type: z.literal('cloze'),
+    ...quizQuestionBase,
+    answers: z.array(z.string().min(1)).min(1)
+  }).strict()
+]).superRefine((question, ctx) => {
+  const issue = (path: (string | number)[], message: string) =>
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path, message });
+
+  if ('options' in question && new Set(question.options).size !== question.options.length) {
+    issue(['options'], 'Options must be distinct');
+  }
+  if (question.type === 'multiple_choice' && question.answer_index >= question.options.length) {
+    issue(['answer_index'], `Must point at one of the ${question.options.length} options`);
+  }
+  if (question.type === 'multi_select') {
+    if (question.answer_indices.some(index => index >= question.options.length)) {
+      issue(['answer_indices'], `Must point at the ${question.options.length} options`);
+    }
+    if (new Set(question.answer_indices).size !== question.answer_indices.length) {
+      issue(['answer_indices'], 'Must not repeat an option');
+    }
+  }
+  if (question.type === 'cloze') {
+    const blanks = [...question.question.matchAll(CLOZE_BLANK_PATTERN)].map(match => Number(match[1]));
+    if (blanks.length === 0 || blanks.some((blank, index) => blank !== index + 1)) {
+      issue(['question'], 'Must mark its blanks {{1}}, {{2}}, ... in order');
+    } else if (blanks.length !== question.answers.length) {
+      issue(['answers'], `Must give one answer for each of the ${blanks.length} blanks`);
+    }
+  }
+  question.source_spans.forEach((span, index) => {
+    if (span.end <= span.start) {
+      issue(['source_spans', index, 'end'], 'Must be after start');
+    }
+  });
+});
+
+export type QuizQuestion = z.infer<typeof quizQuestionSchema>;
+
+export const quizDataSchema = z.object({
+  title: z.string().min(1),
+  difficulty: quizDifficultySchema,
+  questions: z.array(quizQuestionSchema).min(1)
+}).strict();
+
+export type QuizData = z.infer<typeof quizDataSchema>;
+
+export const quizSourceTypeSchema = z.enum(['text', 'attachment', 'document_analysis', 'web_search', 'chat_session']);
+
+export type QuizSourceType = z.infer<typeof quizSourceTypeSchema>;
+
+// A stretch of a quiz's source text that came from one PDF page (locator is the
+// 1-based page) or one chat message (locator is the message id)
+export const quizSourceSectionSchema = z.object({
+  start: z.number().int().nonnegative(),
+  end: z.number().int().positive(),
+  locator: z.number().int()
+});
+
+export type QuizSourceSection = z.infer<typeof quizSourceSectionSchema>;
+
 export const quizSchema = z.object({
   id: z.number(),
   source_text: z.string(),
-  quiz_data: z.record(z.any()), // JSON field storing quiz questions and answers
+  source_type: quizSourceTypeSchema,
+  source_ref: z.string().nullable(), // Id of the attachment, analysis, search or chat session; null for typed text
+  source_title: z.string().nullable(),
+  source_sections: z.array(quizSourceSectionSchema).nullable(), // Set for PDFs and chat transcripts
+  quiz_data: quizDataSchema.nullable(), // Null for quizzes saved before typed questions, which can't be taken
   created_at: z.coerce.date()
 });
 
 export type Quiz = z.infer<typeof quizSchema>;
 
+// An answer to one quiz question, shaped by the question's type
+export const quizAnswerSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('multiple_choice'), selected: z.number().int().nonnegative() }),
+  z.object({ type: z.literal('multi_select'), selected: z.array(z.number().int().nonnegative()) }),
+  z.object({ type: z.literal('true_false'), value: z.boolean() }),
+  z.object({ type: z.literal('short_answer'), text: z.string() }),
+  z.object({ type: z.literal('cloze'), blanks: z.array(z.string()) })
+]);
+
+export type QuizAnswer = z.infer<typeof quizAnswerSchema>;
+
+export const quizQuestionResultSchema = z.object({
+  score: z.number().min(0).max(1), // Partial credit for multi-select and cloze questions
+  correct: z.boolean() // Full marks
+});
+
+export type QuizQuestionResult = z.infer<typeof quizQuestionResultSchema>;
+
+export const quizAttemptSchema = z.object({
+  id: z.number(),
+  quiz_id: z.number(),
+  answers: z.array(quizAnswerSchema.nullable()), // By question index; null when left blank
+  results: z.array(quizQuestionResultSchema), // By question index
+  score: z.number(),
+  max_score: z.number().int(),
+  created_at: z.coerce.date()
+});
+
+export type QuizAttempt = z.infer<typeof quizAttemptSchema>;
+
+// Study card schema
+export const studyRatingSchema = z.enum(['again', 'hard', 'good', 'easy']); // How well the answer was recalled
+
+export type StudyRating = z.infer<typeof studyRatingSchema>;
+
+export const studyCardSchema = z.object({
+  id: z.number(),
+  quiz_id: z.number(),
+  question_index: z.number().int(),
+  ease_factor: z.number(),
+  interval_days: z.number().int(),
+  repetitions: z.number().int(),
+  lapses: z.number().int(),
+  due_at: z.coerce.date(),
+  last_reviewed_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type StudyCard = z.infer<typeof studyCardSchema>;
+
+// A card together with the question it asks
+export const dueStudyCardSchema = studyCardSchema.extend({
+  quiz_title: z.string(),
+  question: quizQuestionSchema
+});
+
+export type DueStudyCard = z.infer<typeof dueStudyCardSchema>;
+
 // Web search schema
+// A search result the summary of a web search was written from. The summary
+// cites it as [n], n being its 1-based position in the search's sources
+export const webSearchSourceSchema = z.object({
+  url: z.string(),
+  title: z.string(),
+  snippet: z.string(), // From the search provider
+  fetched_at: z.coerce.date().nullable() // Null when the page itself could not be read
+});
+
+export type WebSearchSource = z.infer<typeof webSearchSourceSchema>;
+
 export const webSearchSchema = z.object({
   id: z.number(),
   query: z.string(),
-  summary: z.string(),
-  sources: z.array(z.string()), // Array of URLs
+  summary: z.string(), // Cites the sources as [1], [2], ...
+  sources: z.array(webSearchSourceSchema),
   created_at: z.coerce.date()
 });
 
 export type WebSearch = z.infer<typeof webSearchSchema>;
 
+// User preferences schema
+export const preferencesSchema = z.object({
+  notifications_enabled: z.boolean(),
+  auto_save_enabled: z.boolean(),
+  dark_mode: z.boolean(),
+  analytics_enabled: z.boolean(),
+  gen_z_mode: z.boolean(), // Defaults for new chat sessions
+  copy_code_only_mode: z.boolean(),
+  target_language: z.string().nullable(),
+  updated_at: z.coerce.date()
+});
+
+export type Preferences = z.infer<typeof preferencesSchema>;
+
 // Input schemas for creating entities
 
 export const createChatMessageInputSchema = z.object({
   session_id: z.string(),
+  parent_id: z.number().nullable().optional(),
   role: z.enum(['user', 'assistant']),
   content: z.string(),
   content_type: z.enum(['text', 'image', 'pdf']),
+  attachment_id: z.number().nullable().optional(),
   metadata: z.record(z.any()).nullable().optional()
 });
 
@@ -99,14 +407,24 @@ export const createChatSessionInputSchema = z.object({
   title: z.string().nullable().optional(),
   gen_z_mode: z.boolean().optional(),
   copy_code_only_mode: z.boolean().optional(),
-  target_language: z.string().nullable().optional()
+  target_language: z.string().nullable().optional(),
+  persona_id: z.number().int().nullable().optional()
 });
 
 export type CreateChatSessionInput = z.infer<typeof createChatSessionInputSchema>;
 
+// Images are referenced by URL or uploaded as attachments; inline data: URLs are refused
+// so they do not end up stored in rows
+const remoteImageUrlSchema = z.string().refine(url => !url.startsWith('data:'), {
+  message: 'Upload the image as an attachment instead of sending a data: URL'
+});
+
 export const createDocumentAnalysisInputSchema = z.object({
-  image_url: z.string(),
+  image_url: remoteImageUrlSchema.optional(),
+  attachment_id: z.number().optional(),
   prompt: z.string()
+}).refine(input => (input.image_url === undefined) !== (input.attachment_id === undefined), {
+  message: 'Provide either image_url or attachment_id'
 });
 
 export type CreateDocumentAnalysisInput = z.infer<typeof createDocumentAnalysisInputSchema>;
@@ -119,23 +437,144 @@ export type CreateGeneratedImageInput = z.infer<typeof createGeneratedImageInput
 
 export const createGeneratedVideoInputSchema = z.object({
   prompt: z.string(),
-  initial_image_url: z.string().nullable().optional()
+  initial_image_url: remoteImageUrlSchema.nullable().optional(),
+  initial_image_attachment_id: z.number().nullable().optional() // Takes precedence over initial_image_url
 });
 
 export type CreateGeneratedVideoInput = z.infer<typeof createGeneratedVideoInputSchema>;
 
+// What a quiz is written from. Everything but typed text is read on the server
+export const quizSourceSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('text'), text: z.string().trim().min(1) }),
+  z.object({ type: z.literal('attachment'), attachment_id: z.number().int() }), // A PDF or plain text file
+  z.object({ type: z.literal('document_analysis'), analysis_id: z.number().int() }), // Its result
+  z.object({ type: z.literal('web_search'), search_id: z.number().int() }), // Its summary
+  z.object({ type: z.literal('chat_session'), session_id: z.string() }) // The branch the chat view opens
+]);
+
+export type QuizSource = z.infer<typeof quizSourceSchema>;
+
 export const createQuizInputSchema = z.object({
-  source_text: z.string()
+  source: quizSourceSchema,
+  question_count: z.number().int().min(1).max(20).optional(), // Defaults to 5
+  difficulty: quizDifficultySchema.optional(), // Defaults to medium
+  question_types: z.array(quizQuestionTypeSchema).min(1).optional() // Defaults to multiple choice, true/false and short answer
 });
 
 export type CreateQuizInput = z.infer<typeof createQuizInputSchema>;
 
+export const getQuizInputSchema = z.object({
+  id: z.number().int()
+});
+
+export type GetQuizInput = z.infer<typeof getQuizInputSchema>;
+
+export const submitQuizAttemptInputSchema = z.object({
+  quiz_id: z.number().int(),
+  answers: z.array(quizAnswerSchema.nullable()) // One per question, in order
+});
+
+export type SubmitQuizAttemptInput = z.infer<typeof submitQuizAttemptInputSchema>;
+
+export const listQuizAttemptsInputSchema = z.object({
+  quiz_id: z.number().int()
+});
+
+export type ListQuizAttemptsInput = z.infer<typeof listQuizAttemptsInputSchema>;
+
+export const quizAttemptHistorySchema = z.object({
+  attempts: z.array(quizAttemptSchema), // Newest first
+  question_accuracy: z.array(z.number().min(0).max(1).nullable()) // Average score per question; null before any attempt
+});
+
+export type QuizAttemptHistory = z.infer<typeof quizAttemptHistorySchema>;
+
+export const listQuizzesInputSchema = z.object({
+  limit: z.number().int().positive().max(100).optional(), // Defaults to 20
+  offset: z.number().int().nonnegative().optional()
+});
+
+export type ListQuizzesInput = z.infer<typeof listQuizzesInputSchema>;
+
+export const quizSummarySchema = quizSchema.extend({
+  attempt_count: z.number().int(),
+  best_score: z.number().nullable(), // Highest attempt score, out of the question count
+  last_attempt_at: z.coerce.date().nullable()
+});
+
+export type QuizSummary = z.infer<typeof quizSummarySchema>;
+
+export const quizListSchema = z.object({
+  quizzes: z.array(quizSummarySchema), // Newest first
+  total: z.number().int()
+});
+
+export type QuizList = z.infer<typeof quizListSchema>;
+
+export const quizExportFormatSchema = z.enum(['gift', 'moodle_xml', 'qti', 'anki_csv', 'anki_tsv', 'html']);
+
+export type QuizExportFormat = z.infer<typeof quizExportFormatSchema>;
+
+export const exportQuizInputSchema = z.object({
+  id: z.number().int(),
+  format: quizExportFormatSchema
+});
+
+export type ExportQuizInput = z.infer<typeof exportQuizInputSchema>;
+
+export const quizExportFileSchema = z.object({
+  filename: z.string(),
+  mime_type: z.string(),
+  content: z.string(),
+  encoding: z.enum(['utf8', 'base64']) // QTI packages are zip archives, sent as base64
+});
+
+export type QuizExportFile = z.infer<typeof quizExportFileSchema>;
+
+export const getDueCardsInputSchema = z.object({
+  quiz_id: z.number().int().optional(), // All quizzes when omitted
+  limit: z.number().int().positive().max(100).optional() // Defaults to 20
+});
+
+export type GetDueCardsInput = z.infer<typeof getDueCardsInputSchema>;
+
+export const dueCardsSchema = z.object({
+  cards: z.array(dueStudyCardSchema), // Most overdue first
+  due_count: z.number().int(), // All due cards, beyond the limit too
+  next_due_at: z.coerce.date().nullable() // When the next card not yet due comes up
+});
+
+export type DueCards = z.infer<typeof dueCardsSchema>;
+
+export const reviewCardInputSchema = z.object({
+  card_id: z.number().int(),
+  rating: studyRatingSchema
+});
+
+export type ReviewCardInput = z.infer<typeof reviewCardInputSchema>;
+
 export const createWebSearchInputSchema = z.object({
-  query: z.string()
+  query: z.string().trim().min(1).max(400)
 });
 
 export type CreateWebSearchInput = z.infer<typeof createWebSearchInputSchema>;
 
+export const createPersonaInputSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  system_prompt: z.string().trim().min(1).max(10000),
+  model_params: modelParamsSchema.optional(),
+  examples: z.array(personaExampleSchema).max(20).optional()
+});
+
+export type CreatePersonaInput = z.infer<typeof createPersonaInputSchema>;
+
+export const uploadPdfDocumentInputSchema = z.object({
+  sessionId: z.string(),
+  attachmentId: z.number() // The PDF, uploaded through /attachments
+});
+
+export type UploadPdfDocumentInput = z.infer<typeof uploadPdfDocumentInputSchema>;
+
 // Update schemas
 
 export const updateChatSessionInputSchema = z.object({
@@ -143,21 +582,60 @@ export const updateChatSessionInputSchema = z.object({
   title: z.string().nullable().optional(),
   gen_z_mode: z.boolean().optional(),
   copy_code_only_mode: z.boolean().optional(),
-  target_language: z.string().nullable().optional()
+  target_language: z.string().nullable().optional(),
+  persona_id: z.number().int().nullable().optional(),
+  // null clears a setting back to the default
+  model: modelParamsSchema.shape.model.unwrap().nullable().optional(),
+  temperature: modelParamsSchema.shape.temperature.unwrap().nullable().optional(),
+  max_tokens: modelParamsSchema.shape.max_tokens.unwrap().nullable().optional(),
+  stop: modelParamsSchema.shape.stop.unwrap().nullable().optional()
 });
 
 export type UpdateChatSessionInput = z.infer<typeof updateChatSessionInputSchema>;
 
+// Reported by external render backends through the signed video webhook. Only
+// the backend's own states can be set; the URL comes with completion
 export const updateGeneratedVideoInputSchema = z.object({
-  id: z.number(),
-  video_url: z.string().nullable().optional(),
-  status: z.enum(['pending', 'processing', 'completed', 'failed']).optional(),
+  id: z.number().int(),
+  status: videoStatusSchema.exclude(['pending', 'cancelled']).optional(),
+  progress: z.number().int().min(0).max(100).optional(),
   progress_message: z.string().nullable().optional(),
-  completed_at: z.coerce.date().nullable().optional()
+  video_url: z.string().url().optional()
 });
 
 export type UpdateGeneratedVideoInput = z.infer<typeof updateGeneratedVideoInputSchema>;
 
+export const cancelVideoInputSchema = z.object({
+  id: z.number()
+});
+
+export type CancelVideoInput = z.infer<typeof cancelVideoInputSchema>;
+
+export const retryVideoInputSchema = z.object({
+  id: z.number()
+});
+
+export type RetryVideoInput = z.infer<typeof retryVideoInputSchema>;
+
+export const updatePreferencesInputSchema = preferencesSchema
+  .omit({ updated_at: true })
+  .extend({ target_language: z.string().min(1).max(50).nullable() })
+  .partial();
+
+export type UpdatePreferencesInput = z.infer<typeof updatePreferencesInputSchema>;
+
+export const updatePersonaInputSchema = createPersonaInputSchema.partial().extend({
+  id: z.number().int()
+});
+
+export type UpdatePersonaInput = z.infer<typeof updatePersonaInputSchema>;
+
+export const deletePersonaInputSchema = z.object({
+  id: z.number().int()
+});
+
+export type DeletePersonaInput = z.infer<typeof deletePersonaInputSchema>;
+
 // Query schemas
 
 export const getChatMessagesInputSchema = z.object({
@@ -168,20 +646,326 @@ export const getChatMessagesInputSchema = z.object({
 
 export type GetChatMessagesInput = z.infer<typeof getChatMessagesInputSchema>;
 
+export const getAttachmentInputSchema = z.object({
+  id: z.number()
+});
+
+export type GetAttachmentInput = z.infer<typeof getAttachmentInputSchema>;
+
+// Query string of the upload routes
+export const attachmentUploadParamsSchema = z.object({
+  filename: z.string().trim().min(1).max(255)
+});
+
+export type AttachmentUploadParams = z.infer<typeof attachmentUploadParamsSchema>;
+
+export const attachmentUploadSchema = z.object({
+  upload_id: z.string(),
+  part_size: z.number().int() // Bytes per part the client should send (the last part may be smaller)
+});
+
+export type AttachmentUpload = z.infer<typeof attachmentUploadSchema>;
+
+export const attachmentPartSchema = z.object({
+  partNumber: z.number().int(),
+  etag: z.string(),
+  size: z.number().int()
+});
+
+export type AttachmentPart = z.infer<typeof attachmentPartSchema>;
+
+export const getPdfDocumentsInputSchema = z.object({
+  sessionId: z.string()
+});
+
+export type GetPdfDocumentsInput = z.infer<typeof getPdfDocumentsInputSchema>;
+
 export const getVideoStatusInputSchema = z.object({
   id: z.number()
 });
 
 export type GetVideoStatusInput = z.infer<typeof getVideoStatusInputSchema>;
 
+export const listVideosInputSchema = z.object({
+  status: videoStatusSchema.optional(),
+  limit: z.number().int().positive().max(100).optional(), // Defaults to 20
+  offset: z.number().int().nonnegative().optional()
+});
+
+export type ListVideosInput = z.infer<typeof listVideosInputSchema>;
+
+export const videoListSchema = z.object({
+  videos: z.array(generatedVideoSchema), // Newest first
+  total: z.number().int() // Matching videos across all pages
+});
+
+export type VideoList = z.infer<typeof videoListSchema>;
+
+// Everything the global search covers; matches the RecentActivity type names plus chat messages
+export const searchSourceTypeSchema = z.enum([
+  'chat_message',
+  'document_analysis',
+  'quiz',
+  'web_search',
+  'generated_image',
+  'generated_video'
+]);
+
+export type SearchSourceType = z.infer<typeof searchSourceTypeSchema>;
+
+export const searchInputSchema = z.object({
+  query: z.string().trim().min(1).max(200), // Web-search syntax: "quoted phrases", OR, -excluded
+  types: z.array(searchSourceTypeSchema).nonempty().optional(), // Defaults to all sources
+  limit: z.number().int().positive().max(100).optional()
+});
+
+export type SearchInput = z.infer<typeof searchInputSchema>;
+
+export const searchResultSchema = z.object({
+  source_type: searchSourceTypeSchema,
+  source_id: z.number(),
+  session_id: z.string().nullable(), // Set for chat messages
+  title: z.string(),
+  snippet: z.string(), // Matched terms are wrapped in <mark></mark>; the rest is unescaped source text
+  rank: z.number(),
+  created_at: z.coerce.date()
+});
+
+export type SearchResult = z.infer<typeof searchResultSchema>;
+
 export const sendAiMessageInputSchema = z.object({
   sessionId: z.string(),
   messageContent: z.string(),
+  // Mode flags override the session's stored modes for this message only; omit them to use the session's
   genZMode: z.boolean().optional(),
   copyCodeOnlyMode: z.boolean().optional(),
   targetLanguage: z.string().nullable().optional(),
-  imageFileBase64: z.string().nullable().optional(),
-  pdfFileContent: z.string().nullable().optional()
+  imageAttachmentId: z.number().nullable().optional(), // Image uploaded through /attachments
+  pdfDocumentId: z.number().nullable().optional(), // PDF uploaded with uploadPdfDocument to attach to this message
+  parentMessageId: z.number().nullable().optional() // Defaults to the latest message in the session
+});
+
+export type SendAiMessageInput = z.infer<typeof sendAiMessageInputSchema>;
+
+export const streamAiMessageInputSchema = sendAiMessageInputSchema.extend({
+  streamId: z.string() // Client-generated, used to cancel the stream
+});
+
+export type StreamAiMessageInput = z.infer<typeof streamAiMessageInputSchema>;
+
+export const regenerateAiMessageInputSchema = z.object({
+  messageId: z.number(), // Assistant message to produce an alternative for
+  genZMode: z.boolean().optional(),
+  copyCodeOnlyMode: z.boolean().optional(),
+  targetLanguage: z.string().nullable().optional()
+});
+
+export type RegenerateAiMessageInput = z.infer<typeof regenerateAiMessageInputSchema>;
+
+export const editAiMessageInputSchema = z.object({
+  messageId: z.number(), // User message to fork from
+  content: z.string(),
+  genZMode: z.boolean().optional(),
+  copyCodeOnlyMode: z.boolean().optional(),
+  targetLanguage: z.string().nullable().optional()
+});
+
+export type EditAiMessageInput = z.infer<typeof editAiMessageInputSchema>;
+
+export const cancelAiMessageInputSchema = z.object({
+  streamId: z.string()
+});
+
+export type CancelAiMessageInput = z.infer<typeof cancelAiMessageInputSchema>;
+
+// Events emitted by the streamAiMessage subscription
+export const aiMessageStreamEventSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('delta'), content: z.string() }),
+  z.object({ type: z.literal('done'), message: chatMessageSchema }),
+  z.object({ type: z.literal('cancelled'), message: chatMessageSchema.nullable() }) // null when nothing was generated yet
+]);
+
+export type AiMessageStreamEvent = z.infer<typeof aiMessageStreamEventSchema>;
+
+// AI usage accounting
+
+export const usageFeatureSchema = z.enum(['chat', 'chat_title', 'document_analysis', 'image', 'video', 'quiz', 'web_search', 'pdf_indexing']);
+
+export type UsageFeature = z.infer<typeof usageFeatureSchema>;
+
+export const getUsageInputSchema = z.object({
+  groupBy: z.enum(['day', 'feature', 'session']),
+  from: z.coerce.date().optional(), // Inclusive
+  to: z.coerce.date().optional(), // Exclusive
+  feature: usageFeatureSchema.optional(),
+  sessionId: z.string().optional()
+});
+
+export type GetUsageInput = z.infer<typeof getUsageInputSchema>;
+
+export const usageTotalsSchema = z.object({
+  calls: z.number().int(),
+  prompt_tokens: z.number().int(),
+  completion_tokens: z.number().int(),
+  cost_usd: z.number(), // Sum over priced calls only
+  unpriced_calls: z.number().int(), // Calls to models missing from the price table
+  aborted_calls: z.number().int(), // Streams stopped or failed early, counted with estimated tokens
+  avg_latency_ms: z.number()
+});
+
+export type UsageTotals = z.infer<typeof usageTotalsSchema>;
+
+export const usageGroupSchema = usageTotalsSchema.extend({
+  key: z.string().nullable(), // YYYY-MM-DD, feature name or session id (null: calls outside a chat)
+  label: z.string().nullable() // Session title when grouping by session
+});
+
+export type UsageGroup = z.infer<typeof usageGroupSchema>;
+
+export const usageReportSchema = z.object({
+  totals: usageTotalsSchema,
+  groups: z.array(usageGroupSchema)
+});
+
+export type UsageReport = z.infer<typeof usageReportSchema>;
+
+// Chat export/import
+
+export const chatExportFormatSchema = z.enum(['markdown', 'html', 'json']);
+
+export type ChatExportFormat = z.infer<typeof chatExportFormatSchema>;
+
+export const exportChatSessionInputSchema = z.object({
+  sessionId: z.string(),
+  format: chatExportFormatSchema
+});
+
+export type ExportChatSessionInput = z.infer<typeof exportChatSessionInputSchema>;
+
+export const chatExportFileSchema = z.object({
+  filename: z.string(),
+  mime_type: z.string(),
+  content: z.string()
+});
+
+export type ChatExportFile = z.infer<typeof chatExportFileSchema>;
+
+// Versioned JSON export of one session and its whole message tree. Bump
+// CHAT_EXPORT_VERSION (and keep parsing the old shape) when this changes.
+// Version 2 added the session's persona and generation settings
+export const CHAT_EXPORT_VERSION = 2;
+
+export const chatExportMessageSchema = z.object({
+  id: z.number().int(), // Only meaningful within the export; parent_id refers to it
+  parent_id: z.number().int().nullable(),
+  role: z.enum(['user', 'assistant']),
+  content: z.string(),
+  content_type: z.enum(['text', 'image', 'pdf']),
+  metadata: z.record(z.any()).nullable(),
+  created_at: z.coerce.date()
+});
+
+export const chatExportSchema = z.object({
+  format: z.literal('okaigpt-chat'),
+  version: z.union([z.literal(1), z.literal(CHAT_EXPORT_VERSION)]),
+  exported_at: z.coerce.date(),
+  session: z.object({
+    title: z.string().nullable(),
+    title_source: z.enum(['default', 'auto', 'manual']),
+    gen_z_mode: z.boolean(),
+    copy_code_only_mode: z.boolean(),
+    target_language: z.string().nullable(),
+    // Missing from version 1 files
+    persona_id: z.number().int().nullable().default(null),
+    model: z.string().nullable().default(null),
+    temperature: z.number().nullable().default(null),
+    max_tokens: z.number().int().nullable().default(null),
+    stop: z.array(z.string()).nullable().default(null),
+    created_at: z.coerce.date(),
+    updated_at: z.coerce.date()
+  }),
+  messages: z.array(chatExportMessageSchema)
+}).superRefine((data, ctx) => {
+  const ids = new Set<number>();
+  data.messages.forEach((message, index) => {
+    if (ids.has(message.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Duplicate message id ${message.id}`, path: ['messages', index, 'id'] });
+    }
+    ids.add(message.id);
+  });
+  data.messages.forEach((message, index) => {
+    if (message.parent_id !== null && !ids.has(message.parent_id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown parent message ${message.parent_id}`, path: ['messages', index, 'parent_id'] });
+    }
+  });
+});
+
+export type ChatExport = z.infer<typeof chatExportSchema>;
+
+export const importChatSessionInputSchema = z.object({
+  data: chatExportSchema
+});
+
+export type ImportChatSessionInput = z.infer<typeof importChatSessionInputSchema>;
+
+// Account backup/restore
+
+// Bump whenever a table in db/schema.ts `tables` or the line format changes;
+// restore_backup.ts decides which older versions it can still restore.
+// 2: attachment files, and the tables and columns added since version 1
+export const BACKUP_SCHEMA_VERSION = 2;
+
+// A backup is NDJSON (gzip-compressed when downloaded): one header line, one line
+// per row with tables in dependency order, one line per stored attachment file and
+// a footer with per-table row counts
+export const backupLineSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('header'),
+    format: z.literal('okaigpt-backup'),
+    schema_version: z.number().int().positive(),
+    created_at: z.coerce.date(),
+    tables: z.array(z.string())
+  }),
+  z.object({
+    type: z.literal('row'),
+    table: z.string(),
+    data: z.record(z.unknown())
+  }),
+  z.object({
+    type: z.literal('file'),
+    storage_key: z.string(), // Matches the attachments row the file belongs to
+    data: z.string() // Base64
+  }),
+  z.object({
+    type: z.literal('footer'),
+    counts: z.record(z.number().int().nonnegative()),
+    files: z.number().int().nonnegative().optional() // Absent in backups made before files were included
+  })
+]);
+
+export type BackupLine = z.infer<typeof backupLineSchema>;
+
+export const restoreBackupOptionsSchema = z.object({
+  mode: z.enum(['merge', 'replace']), // 'replace' deletes all existing data first
+  onConflict: z.enum(['fail', 'skip', 'overwrite']).default('fail'), // Rows whose ID already exists (merge only)
+  dryRun: z.boolean().default(false) // Validate and report without writing
+});
+
+export type RestoreBackupOptions = z.input<typeof restoreBackupOptionsSchema>;
+
+export const backupRestoreReportSchema = z.object({
+  applied: z.boolean(),
+  mode: z.enum(['merge', 'replace']),
+  on_conflict: z.enum(['fail', 'skip', 'overwrite']),
+  schema_version: z.number(),
+  backup_created_at: z.coerce.date(),
+  tables: z.record(z.object({
+    rows: z.number(), // In the backup
+    conflicts: z.number(), // IDs that already exist (always 0 for replace)
+    written: z.number() // Inserted or overwritten
+  })),
+  files: z.number(), // Attachment files in the backup
+  missing_files: z.array(z.string()) // Attachments whose file is neither in the backup nor in storage, by filename
 });
 
-export type SendAiMessageInput = z.infer<typeof sendAiMessageInputSchema>;
\ No newline at end of file
+export type BackupRestoreReport = z.infer<typeof backupRestoreReportSchema>;
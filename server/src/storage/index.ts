@@ -0,0 +1,41 @@
+import 'dotenv/config';
+import { createLocalDiskStorage } from './local_disk_storage';
+import { type ObjectStorage } from './types';
+
+export * from './types';
+export { sniffMimeType, isImageMimeType } from './mime';
+export { getAttachmentOptions, type AttachmentOptions } from './options';
+
+type StorageFactory = (env: NodeJS.ProcessEnv) => ObjectStorage;
+
+const DEFAULT_STORAGE_DIR = 'data/attachments';
+
+const storageFactories = new Map<string, StorageFactory>([
+  ['local', (env) => createLocalDiskStorage(env['STORAGE_DIR'] || DEFAULT_STORAGE_DIR)]
+]);
+
+let activeStorage: ObjectStorage | null = null;
+
+// Makes an additional backend (e.g. an S3 client) selectable through STORAGE_BACKEND
+export const registerStorageBackend = (name: string, factory: StorageFactory): void => {
+  storageFactories.set(name, factory);
+  activeStorage = null;
+};
+
+// Returns the backend named by STORAGE_BACKEND (defaults to files under STORAGE_DIR)
+export const getStorage = (): ObjectStorage => {
+  if (!activeStorage) {
+    const name = process.env['STORAGE_BACKEND'] || 'local';
+    const factory = storageFactories.get(name);
+    if (!factory) {
+      throw new Error(`Unknown storage backend "${name}". Available: ${[...storageFactories.keys()].join(', ')}`);
+    }
+    activeStorage = factory(process.env);
+  }
+  return activeStorage;
+};
+
+// Drops the cached backend so the next call re-reads env config
+export const resetStorage = (): void => {
+  activeStorage = null;
+};
@@ -0,0 +1,155 @@
+import { createHash, randomUUID } from 'crypto';
+import { createReadStream, createWriteStream } from 'fs';
+import { mkdir, readdir, rename, rm, stat, writeFile } from 'fs/promises';
+import { dirname, join, resolve, sep } from 'path';
+import { pipeline } from 'stream/promises';
+import { type Readable } from 'stream';
+import { ObjectNotFoundError, type ObjectStorage, type UploadedPart } from './types';
+
+// Stores each object as a file under `root`, keys mapping to relative paths.
+// Multipart parts live in `root/.multipart/<uploadId>/` until completed
+export const createLocalDiskStorage = (root: string): ObjectStorage => {
+  const base = resolve(root);
+
+  const objectPath = (key: string): string => {
+    const path = resolve(base, key);
+    if (!path.startsWith(base + sep) || key.startsWith('.multipart')) {
+      throw new Error(`Invalid object key ${key}`);
+    }
+    return path;
+  };
+
+  const uploadDir = (uploadId: string): string => {
+    if (!/^[0-9a-f-]{36}$/.test(uploadId)) {
+      throw new Error(`Invalid upload id ${uploadId}`);
+    }
+    return join(base, '.multipart', uploadId);
+  };
+
+  const isMissing = (error: unknown): boolean => (error as NodeJS.ErrnoException).code === 'ENOENT';
+
+  // Write to a temporary file first so readers never see a partial object
+  const writeAtomically = async (path: string, write: (tempPath: string) => Promise<void>): Promise<void> => {
+    await mkdir(dirname(path), { recursive: true });
+    const tempPath = `${path}.${randomUUID()}.tmp`;
+    try {
+      await write(tempPath);
+      await rename(tempPath, path);
+    } catch (error) {
+      await rm(tempPath, { force: true });
+      throw error;
+    }
+  };
+
+  const putObject = async (key: string, body: Buffer): Promise<void> => {
+    await writeAtomically(objectPath(key), tempPath => writeFile(tempPath, body));
+  };
+
+  const getObject = async (key: string): Promise<Readable> => {
+    const path = objectPath(key);
+    try {
+      await stat(path);
+    } catch (error) {
+      if (isMissing(error)) throw new ObjectNotFoundError(key);
+      throw error;
+    }
+    return createReadStream(path);
+  };
+
+  const headObject = async (key: string) => {
+    try {
+      const stats = await stat(objectPath(key));
+      return { size: stats.size };
+    } catch (error) {
+      if (isMissing(error)) return null;
+      throw error;
+    }
+  };
+
+  const deleteObject = async (key: string): Promise<void> => {
+    await rm(objectPath(key), { force: true });
+  };
+
+  const createMultipartUpload = async (key: string): Promise<string> => {
+    objectPath(key);
+    const uploadId = randomUUID();
+    await mkdir(uploadDir(uploadId), { recursive: true });
+    return uploadId;
+  };
+
+  const uploadPart = async (_key: string, uploadId: string, partNumber: number, body: Buffer): Promise<UploadedPart> => {
+    if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > 10000) {
+      throw new Error('Part numbers must be integers from 1 to 10000');
+    }
+    const dir = uploadDir(uploadId);
+    await stat(dir).catch(error => {
+      throw isMissing(error) ? new Error(`Upload ${uploadId} not found`) : error;
+    });
+    await writeAtomically(join(dir, String(partNumber)), tempPath => writeFile(tempPath, body));
+    return { partNumber, etag: createHash('md5').update(body).digest('hex'), size: body.length };
+  };
+
+  const listParts = async (_key: string, uploadId: string): Promise<UploadedPart[]> => {
+    const dir = uploadDir(uploadId);
+    let names: string[];
+    try {
+      names = await readdir(dir);
+    } catch (error) {
+      if (isMissing(error)) throw new Error(`Upload ${uploadId} not found`);
+      throw error;
+    }
+
+    const parts: UploadedPart[] = [];
+    for (const name of names.filter(name => /^\d+$/.test(name))) {
+      const path = join(dir, name);
+      const hash = createHash('md5');
+      await pipeline(createReadStream(path), hash);
+      parts.push({ partNumber: Number(name), etag: hash.digest('hex'), size: (await stat(path)).size });
+    }
+    return parts.sort((a, b) => a.partNumber - b.partNumber);
+  };
+
+  const completeMultipartUpload = async (
+    key: string,
+    uploadId: string,
+    parts: Pick<UploadedPart, 'partNumber' | 'etag'>[]
+  ): Promise<void> => {
+    const stored = new Map((await listParts(key, uploadId)).map(part => [part.partNumber, part]));
+    const ordered = [...parts].sort((a, b) => a.partNumber - b.partNumber);
+    if (ordered.length === 0) {
+      throw new Error('At least one part is required to complete an upload');
+    }
+    for (const part of ordered) {
+      if (stored.get(part.partNumber)?.etag !== part.etag) {
+        throw new Error(`Part ${part.partNumber} is missing or does not match its ETag`);
+      }
+    }
+
+    const dir = uploadDir(uploadId);
+    await writeAtomically(objectPath(key), async tempPath => {
+      const output = createWriteStream(tempPath);
+      for (const part of ordered) {
+        await pipeline(createReadStream(join(dir, String(part.partNumber))), output, { end: false });
+      }
+      await new Promise<void>((resolve, reject) => output.end((error?: Error | null) => (error ? reject(error) : resolve())));
+    });
+    await rm(dir, { recursive: true, force: true });
+  };
+
+  const abortMultipartUpload = async (_key: string, uploadId: string): Promise<void> => {
+    await rm(uploadDir(uploadId), { recursive: true, force: true });
+  };
+
+  return {
+    name: 'local',
+    putObject,
+    getObject,
+    headObject,
+    deleteObject,
+    createMultipartUpload,
+    uploadPart,
+    listParts,
+    completeMultipartUpload,
+    abortMultipartUpload
+  };
+};
@@ -0,0 +1,49 @@
+// Content types are taken from the file's leading bytes, never from the client's
+// Content-Type header or file extension
+
+interface Signature {
+  mimeType: string;
+  offset: number;
+  bytes: number[];
+}
+
+const ascii = (text: string): number[] => [...text].map(char => char.charCodeAt(0));
+
+const signatures: Signature[] = [
+  { mimeType: 'image/png', offset: 0, bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { mimeType: 'image/jpeg', offset: 0, bytes: [0xff, 0xd8, 0xff] },
+  { mimeType: 'image/gif', offset: 0, bytes: ascii('GIF8') },
+  { mimeType: 'image/webp', offset: 8, bytes: ascii('WEBP') }, // After the RIFF header
+  { mimeType: 'application/pdf', offset: 0, bytes: ascii('%PDF-') },
+  { mimeType: 'video/mp4', offset: 4, bytes: ascii('ftyp') },
+  { mimeType: 'video/webm', offset: 0, bytes: [0x1a, 0x45, 0xdf, 0xa3] }
+];
+
+const matches = (data: Uint8Array, signature: Signature): boolean => {
+  return signature.bytes.every((byte, index) => data[signature.offset + index] === byte);
+};
+
+// Text files have no magic number: accept valid UTF-8 without control characters
+const isPlainText = (data: Uint8Array): boolean => {
+  const sample = data.subarray(0, 8192);
+  try {
+    const text = new TextDecoder('utf-8', { fatal: true }).decode(sample);
+    return !/[\u0000-\u0008\u000e-\u001f]/.test(text);
+  } catch {
+    // A multi-byte character cut off at the end of the sample is still text
+    return sample.length === 8192 && isPlainText(sample.subarray(0, 8188));
+  }
+};
+
+export const sniffMimeType = (data: Uint8Array): string | null => {
+  if (data.length === 0) {
+    return null;
+  }
+  const signature = signatures.find(candidate => matches(data, candidate));
+  if (signature) {
+    return signature.mimeType;
+  }
+  return isPlainText(data) ? 'text/plain' : null;
+};
+
+export const isImageMimeType = (mimeType: string): boolean => mimeType.startsWith('image/');
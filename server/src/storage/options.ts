@@ -0,0 +1,17 @@
+export interface AttachmentOptions {
+  maxBytes: number; // Largest accepted file
+  partBytes: number; // Part size for chunked uploads
+}
+
+const DEFAULT_MAX_BYTES = 25 * 1024 * 1024;
+const DEFAULT_PART_BYTES = 5 * 1024 * 1024;
+
+export const getAttachmentOptions = (): AttachmentOptions => {
+  const maxBytes = parseInt(process.env['ATTACHMENT_MAX_BYTES'] ?? '');
+  const partBytes = parseInt(process.env['ATTACHMENT_PART_BYTES'] ?? '');
+
+  return {
+    maxBytes: Number.isNaN(maxBytes) ? DEFAULT_MAX_BYTES : maxBytes,
+    partBytes: Number.isNaN(partBytes) || partBytes < 1 ? DEFAULT_PART_BYTES : partBytes
+  };
+};
@@ -0,0 +1,36 @@
+import { type Readable } from 'stream';
+
+// Subset of the S3 object API the attachments subsystem relies on, so any
+// S3-compatible service can replace the local disk backend
+
+export interface ObjectHead {
+  size: number;
+}
+
+export interface UploadedPart {
+  partNumber: number; // 1-based, parts are assembled in this order
+  etag: string;
+  size: number;
+}
+
+export interface ObjectStorage {
+  name: string;
+  putObject(key: string, body: Buffer): Promise<void>;
+  // Rejects with ObjectNotFoundError when the key does not exist
+  getObject(key: string): Promise<Readable>;
+  headObject(key: string): Promise<ObjectHead | null>;
+  deleteObject(key: string): Promise<void>;
+  // Multipart uploads: parts are stored separately and only become the object on completion
+  createMultipartUpload(key: string): Promise<string>;
+  uploadPart(key: string, uploadId: string, partNumber: number, body: Buffer): Promise<UploadedPart>;
+  listParts(key: string, uploadId: string): Promise<UploadedPart[]>;
+  completeMultipartUpload(key: string, uploadId: string, parts: Pick<UploadedPart, 'partNumber' | 'etag'>[]): Promise<void>;
+  abortMultipartUpload(key: string, uploadId: string): Promise<void>;
+}
+
+export class ObjectNotFoundError extends Error {
+  constructor(key: string) {
+    super(`Object ${key} not found`);
+    this.name = 'ObjectNotFoundError';
+  }
+}
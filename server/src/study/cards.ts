@@ -0,0 +1,58 @@
+import { db } from '../db';
+import { quizTable, studyCardsTable, type StudyCard } from '../db/schema';
+import { type QuizQuestionResult } from '../schema';
+import { eq, sql } from 'drizzle-orm';
+import { ratingForScore, scheduleReview } from './scheduler';
+
+// Creates the missing cards of one quiz, or of every quiz, one per question.
+// Quizzes saved before typed questions have no questions array and get none.
+// New cards are due now, truncated to the millisecond like the JS dates they are
+// compared with, so a card synced just before a read is already due
+export const syncStudyCards = async (quizId?: number): Promise<void> => {
+  await db.execute(sql`
+    insert into ${studyCardsTable} (quiz_id, question_index, due_at)
+    select ${quizTable.id}, question_index, date_trunc('milliseconds', now())
+    from ${quizTable}
+    cross join lateral generate_series(0, json_array_length(${quizTable.quiz_data} -> 'questions') - 1) as question_index
+    where json_typeof(${quizTable.quiz_data} -> 'questions') = 'array'
+      ${quizId === undefined ? sql`` : sql`and ${quizTable.id} = ${quizId}`}
+    on conflict (quiz_id, question_index) do nothing
+  `);
+};
+
+// Every graded question of an attempt reviews its card. Wrong answers always
+// count; right ones only on new or due cards, so retaking a quiz straight away
+// cannot push its cards weeks ahead
+export const reviewCardsFromAttempt = async (
+  quizId: number,
+  results: QuizQuestionResult[],
+  now: Date = new Date()
+): Promise<StudyCard[]> => {
+  await syncStudyCards(quizId);
+
+  const cards = await db.select()
+    .from(studyCardsTable)
+    .where(eq(studyCardsTable.quiz_id, quizId))
+    .execute();
+
+  const reviewed: StudyCard[] = [];
+  for (const card of cards) {
+    const result = results[card.question_index];
+    if (!result) {
+      continue;
+    }
+
+    const rating = ratingForScore(result.score);
+    if (rating !== 'again' && card.last_reviewed_at !== null && card.due_at > now) {
+      continue;
+    }
+
+    const updated = await db.update(studyCardsTable)
+      .set(scheduleReview(card, rating, now))
+      .where(eq(studyCardsTable.id, card.id))
+      .returning()
+      .execute();
+    reviewed.push(updated[0]);
+  }
+  return reviewed;
+};
@@ -0,0 +1,2 @@
+export { scheduleReview, ratingForScore, MIN_EASE_FACTOR, RELEARN_MINUTES, type CardState, type CardSchedule } from './scheduler';
+export { syncStudyCards, reviewCardsFromAttempt } from './cards';
@@ -0,0 +1,55 @@
+import { type StudyCard, type StudyRating } from '../schema';
+
+// SM-2 (https://super-memory.com/english/ol/sm2.htm) with the four ratings of
+// Anki-style study buttons mapped onto its 0-5 recall quality. One departure:
+// a forgotten card comes back after a few minutes instead of the next day, so
+// it is relearned in the same session
+
+export type CardState = Pick<StudyCard, 'ease_factor' | 'interval_days' | 'repetitions' | 'lapses'>;
+
+export interface CardSchedule extends CardState {
+  due_at: Date;
+  last_reviewed_at: Date;
+}
+
+const QUALITY: Record<StudyRating, number> = { again: 1, hard: 3, good: 4, easy: 5 };
+
+export const MIN_EASE_FACTOR = 1.3;
+export const RELEARN_MINUTES = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const scheduleReview = (card: CardState, rating: StudyRating, now: Date = new Date()): CardSchedule => {
+  const quality = QUALITY[rating];
+
+  // Below 3 the card starts over, its ease factor left as it was
+  if (quality < 3) {
+    return {
+      ease_factor: card.ease_factor,
+      interval_days: 0,
+      repetitions: 0,
+      lapses: card.lapses + 1,
+      due_at: new Date(now.getTime() + RELEARN_MINUTES * 60 * 1000),
+      last_reviewed_at: now
+    };
+  }
+
+  const penalty = 5 - quality;
+  const easeFactor = Math.max(MIN_EASE_FACTOR, card.ease_factor + 0.1 - penalty * (0.08 + penalty * 0.02));
+  const repetitions = card.repetitions + 1;
+  const interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(card.interval_days * easeFactor);
+
+  return {
+    ease_factor: easeFactor,
+    interval_days: interval,
+    repetitions,
+    lapses: card.lapses,
+    due_at: new Date(now.getTime() + interval * DAY_MS),
+    last_reviewed_at: now
+  };
+};
+
+// How a graded quiz answer counts as a review: full marks are recalled, half
+// marks or more were hard to recall, anything less is forgotten
+export const ratingForScore = (score: number): StudyRating =>
+  score === 1 ? 'good' : score >= 0.5 ? 'hard' : 'again';
@@ -0,0 +1,298 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'bun:test';
+import { getAIProvider, resetAIProvider, registerAIProvider, listAIModels, getAITimeoutMs } from '../ai';
+import { createLocalProvider, registerLocalResponder } from '../ai/local_provider';
+import { createOpenAICompatibleProvider } from '../ai/openai_compatible_provider';
+
+describe('local AI provider', () => {
+  const provider = createLocalProvider();
+
+  it('should return identical chat responses for identical requests', async () => {
+    const request = { messages: [{ role: 'user' as const, content: 'Explain closures in JavaScript' }] };
+
+    const first = await provider.chat(request);
+    const second = await provider.chat(request);
+
+    expect(first.content).toEqual(second.content);
+    expect(first.content).toContain('Explain closures in JavaScript');
+    expect(first.model).toEqual('local/chat');
+    expect(first.usage.prompt_tokens).toBeGreaterThan(0);
+    expect(first.usage.completion_tokens).toBeGreaterThan(0);
+  });
+
+  it('should acknowledge attached images', async () => {
+    const result = await provider.chat({
+      messages: [{ role: 'user', content: 'What is this?', images: ['data:image/png;base64,iVBOR'] }]
+    });
+
+    expect(result.content).toContain('image');
+  });
+
+  it('should stream the same content it would return from chat', async () => {
+    const request = { messages: [{ role: 'user' as const, content: 'Stream this please' }] };
+    const response = await provider.chat(request);
+
+    let streamed = '';
+    for await (const event of provider.streamChat(request)) {
+      if (event.type === 'delta') streamed += event.content;
+    }
+
+    expect(streamed).toEqual(response.content);
+  });
+
+  it('should stop streaming when aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const consume = async () => {
+      for await (const _event of provider.streamChat({ messages: [{ role: 'user', content: 'Hi' }] }, controller.signal)) {
+        // Drain the stream
+      }
+    };
+
+    await expect(consume()).rejects.toThrow();
+  });
+
+  it('should let feature modules answer their own prompts', async () => {
+    registerLocalResponder('test-echo', (request) => request.messages[0]?.content === 'Echo: tides' ? 'tides' : null);
+
+    expect((await provider.chat({ messages: [{ role: 'user', content: 'Echo: tides' }] })).content).toEqual('tides');
+    expect((await provider.chat({ messages: [{ role: 'user', content: 'Echo: waves' }] })).content).toContain('You said');
+    expect((await provider.chat({ messages: [{ role: 'user', content: 'Hi' }], response_format: 'json' })).content).toEqual('{}');
+  });
+
+  it('should honour requested models', async () => {
+    const result = await provider.chat({
+      model: 'custom/model',
+      messages: [{ role: 'user', content: 'Hi' }]
+    });
+
+    expect(result.model).toEqual('custom/model');
+  });
+
+  it('should generate stable, prompt-specific image URLs', async () => {
+    const first = await provider.generateImage({ prompt: 'A red car' });
+    const again = await provider.generateImage({ prompt: 'A red car' });
+    const other = await provider.generateImage({ prompt: 'A blue house' });
+
+    expect(first.image_url).toEqual(again.image_url);
+    expect(first.image_url).not.toEqual(other.image_url);
+    expect(first.image_url.startsWith('https://')).toBe(true);
+  });
+
+  it('should produce normalised embeddings where similar texts score higher', async () => {
+    const result = await provider.embed({
+      input: ['the cat sat on the mat', 'a cat sat on a mat', 'quarterly revenue grew sharply']
+    });
+
+    expect(result.embeddings).toHaveLength(3);
+    const [a, b, c] = result.embeddings;
+    const dot = (x: number[], y: number[]) => x.reduce((sum, value, i) => sum + value * y[i], 0);
+
+    expect(dot(a, a)).toBeCloseTo(1, 5);
+    expect(dot(a, b)).toBeGreaterThan(dot(a, c));
+  });
+});
+
+describe('OpenAI-compatible AI provider', () => {
+  let server: ReturnType<typeof Bun.serve>;
+  const requests: { path: string; body: any; auth: string | null }[] = [];
+
+  beforeAll(() => {
+    // Minimal local server speaking the OpenAI wire format
+    server = Bun.serve({
+      port: 0,
+      async fetch(req) {
+        const path = new URL(req.url).pathname;
+        const body: any = req.method === 'POST' ? await req.json() : null;
+        requests.push({ path, body, auth: req.headers.get('authorization') });
+
+        if (path === '/v1/chat/completions' && body.stream) {
+          const chunks = [
+            { model: body.model, choices: [{ delta: { content: 'Hello ' } }] },
+            { model: body.model, choices: [{ delta: { content: 'there' } }] },
+            { model: body.model, choices: [], usage: { prompt_tokens: 7, completion_tokens: 2 } }
+          ];
+          const payload = chunks.map(chunk => `data: ${JSON.stringify(chunk)}\n\n`).join('') + 'data: [DONE]\n\n';
+          return new Response(payload, { headers: { 'Content-Type': 'text/event-stream' } });
+        }
+        if (path === '/v1/chat/completions') {
+          return Response.json({
+            model: body.model,
+            choices: [{ message: { role: 'assistant', content: 'Hello from the server' } }],
+            usage: { prompt_tokens: 12, completion_tokens: 5 }
+          });
+        }
+        if (path === '/v1/embeddings') {
+          return Response.json({
+            model: body.model,
+            data: [{ index: 1, embedding: [0, 1] }, { index: 0, embedding: [1, 0] }],
+            usage: { prompt_tokens: 4 }
+          });
+        }
+        if (path === '/v1/models') {
+          return Response.json({ data: [{ id: 'chat-model' }, { id: 'other-model' }] });
+        }
+        if (path === '/v1/images/generations') {
+          return Response.json({ data: [{ url: 'https://images.test/1.png' }] });
+        }
+        return new Response('not found', { status: 404 });
+      }
+    });
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  const createProvider = () => createOpenAICompatibleProvider({
+    baseUrl: `http://localhost:${server.port}/v1/`,
+    apiKey: 'secret-key',
+    models: { chat: 'chat-model', vision: 'vision-model', image: 'image-model', embedding: 'embedding-model' }
+  });
+
+  it('should send chat requests in OpenAI format', async () => {
+    const result = await createProvider().chat({
+      messages: [{ role: 'user', content: 'Hi' }],
+      temperature: 0.2
+    });
+
+    expect(result.content).toEqual('Hello from the server');
+    expect(result.model).toEqual('chat-model');
+    expect(result.usage).toEqual({ prompt_tokens: 12, completion_tokens: 5 });
+
+    const sent = requests[requests.length - 1];
+    expect(sent.auth).toEqual('Bearer secret-key');
+    expect(sent.body.temperature).toEqual(0.2);
+    expect(sent.body.messages).toEqual([{ role: 'user', content: 'Hi' }]);
+  });
+
+  it('should parse streamed chat completions', async () => {
+    const events = [];
+    for await (const event of createProvider().streamChat({ messages: [{ role: 'user', content: 'Hi' }] })) {
+      events.push(event);
+    }
+
+    expect(events).toEqual([
+      { type: 'delta', content: 'Hello ' },
+      { type: 'delta', content: 'there' },
+      { type: 'done', model: 'chat-model', usage: { prompt_tokens: 7, completion_tokens: 2 } }
+    ]);
+    expect(requests[requests.length - 1].body.stream).toBe(true);
+  });
+
+  it('should send vision requests as image_url content parts', async () => {
+    await createProvider().vision({ prompt: 'Describe', image_url: 'https://example.com/doc.png' });
+
+    const sent = requests[requests.length - 1];
+    expect(sent.body.model).toEqual('vision-model');
+    expect(sent.body.messages[0].content).toEqual([
+      { type: 'text', text: 'Describe' },
+      { type: 'image_url', image_url: { url: 'https://example.com/doc.png' } }
+    ]);
+  });
+
+  it('should order embeddings by index', async () => {
+    const result = await createProvider().embed({ input: ['a', 'b'] });
+
+    expect(result.embeddings).toEqual([[1, 0], [0, 1]]);
+  });
+
+  it('should return generated image URLs', async () => {
+    const result = await createProvider().generateImage({ prompt: 'A cat' });
+
+    expect(result.image_url).toEqual('https://images.test/1.png');
+    expect(result.model).toEqual('image-model');
+  });
+
+  it('should list the server models and flag the configured one', async () => {
+    const models = await createProvider().listModels();
+
+    expect(models).toEqual([
+      { id: 'chat-model', default: true },
+      { id: 'other-model', default: false }
+    ]);
+    expect(requests[requests.length - 1].auth).toEqual('Bearer secret-key');
+  });
+
+  it('should fall back to the configured model when listing fails', async () => {
+    const provider = createOpenAICompatibleProvider({
+      baseUrl: `http://localhost:${server.port}/missing`,
+      models: { chat: 'chat-model', vision: 'vision-model', image: 'image-model', embedding: 'embedding-model' }
+    });
+
+    expect(await provider.listModels()).toEqual([{ id: 'chat-model', default: true }]);
+  });
+
+  it('should surface HTTP errors', async () => {
+    const provider = createOpenAICompatibleProvider({
+      baseUrl: `http://localhost:${server.port}/missing`,
+      models: { chat: 'chat-model', vision: 'vision-model', image: 'image-model', embedding: 'embedding-model' }
+    });
+
+    await expect(provider.chat({ messages: [{ role: 'user', content: 'Hi' }] })).rejects.toThrow(/status 404/i);
+  });
+});
+
+describe('AI provider registry', () => {
+  const originalProvider = process.env['AI_PROVIDER'];
+
+  afterEach(() => {
+    if (originalProvider === undefined) {
+      delete process.env['AI_PROVIDER'];
+    } else {
+      process.env['AI_PROVIDER'] = originalProvider;
+    }
+    resetAIProvider();
+  });
+
+  it('should default to the local provider', () => {
+    delete process.env['AI_PROVIDER'];
+    resetAIProvider();
+
+    expect(getAIProvider().name).toEqual('local');
+  });
+
+  it('should select registered providers by name', () => {
+    registerAIProvider('custom', () => ({ ...createLocalProvider(), name: 'custom' }));
+    process.env['AI_PROVIDER'] = 'custom';
+    resetAIProvider();
+
+    expect(getAIProvider().name).toEqual('custom');
+  });
+
+  it('should list the active provider models', async () => {
+    delete process.env['AI_PROVIDER'];
+    resetAIProvider();
+
+    expect(await listAIModels()).toEqual([{ id: 'local/chat', default: true }]);
+  });
+
+  it('should restrict the model list to AI_CHAT_MODELS when set', async () => {
+    delete process.env['AI_PROVIDER'];
+    process.env['AI_CHAT_MODELS'] = 'local/chat, local/large';
+    resetAIProvider();
+
+    try {
+      expect(await listAIModels()).toEqual([
+        { id: 'local/chat', default: true },
+        { id: 'local/large', default: false }
+      ]);
+    } finally {
+      delete process.env['AI_CHAT_MODELS'];
+    }
+  });
+
+  it('should fall back to the default timeout unless AI_TIMEOUT_MS is a positive number', () => {
+    expect(getAITimeoutMs({ AI_TIMEOUT_MS: '15000' })).toEqual(15000);
+    expect(getAITimeoutMs({})).toEqual(60000);
+    expect(getAITimeoutMs({ AI_TIMEOUT_MS: 'soon' })).toEqual(60000);
+    expect(getAITimeoutMs({ AI_TIMEOUT_MS: '0' })).toEqual(60000);
+  });
+
+  it('should reject unknown providers', () => {
+    process.env['AI_PROVIDER'] = 'does-not-exist';
+    resetAIProvider();
+
+    expect(() => getAIProvider()).toThrow(/unknown ai provider/i);
+  });
+});
@@ -1,9 +1,12 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
-import { resetDB, createDB } from '../helpers';
+import { resetDB, createDB, createStorage, removeStorage } from '../helpers';
 import { db } from '../db';
 import { documentAnalysisTable } from '../db/schema';
-import { type CreateDocumentAnalysisInput } from '../schema';
+import { type CreateDocumentAnalysisInput, createDocumentAnalysisInputSchema } from '../schema';
 import { analyzeDocument } from '../handlers/analyze_document';
+import { createAttachment } from '../handlers/create_attachment';
+import { registerAIProvider, resetAIProvider, type AIVisionRequest } from '../ai';
+import { createLocalProvider } from '../ai/local_provider';
 import { eq } from 'drizzle-orm';
 
 // Test input data
@@ -115,7 +118,7 @@ describe('analyzeDocument', () => {
 
     const result = await analyzeDocument(longPromptInput);
 
-    expect(result.image_url).toEqual(longPromptInput.image_url);
+    expect(result.image_url).toEqual(longPromptInput.image_url!);
     expect(result.prompt).toEqual(longPromptInput.prompt);
     expect(result.analysis_result).toBeDefined();
     expect(result.analysis_result.length).toBeGreaterThan(0);
@@ -132,4 +135,53 @@ describe('analyzeDocument', () => {
     expect(result.prompt).toEqual(specialCharInput.prompt);
     expect(result.analysis_result).toContain('Text extracted from document');
   });
-});
\ No newline at end of file
+});
+
+describe('analyzeDocument with attachments', () => {
+  beforeEach(async () => {
+    await createDB();
+    await createStorage();
+  });
+  afterEach(async () => {
+    delete process.env['AI_PROVIDER'];
+    resetAIProvider();
+    await removeStorage();
+    await resetDB();
+  });
+
+  const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00, 0x00, 0x0d]);
+
+  it('should send uploaded images inline but store only the attachment ID', async () => {
+    const requests: AIVisionRequest[] = [];
+    const local = createLocalProvider();
+    registerAIProvider('capture', () => ({
+      ...local,
+      vision: async request => {
+        requests.push(request);
+        return local.vision(request);
+      }
+    }));
+    process.env['AI_PROVIDER'] = 'capture';
+    resetAIProvider();
+
+    const attachment = await createAttachment('scan.png', png);
+    const result = await analyzeDocument({ attachment_id: attachment.id, prompt: 'Extract the text' });
+
+    expect(requests[0].image_url).toEqual(`data:image/png;base64,${png.toString('base64')}`);
+    expect(result.image_url).toBeNull();
+    expect(result.attachment_id).toEqual(attachment.id);
+  });
+
+  it('should reject attachments that are not images', async () => {
+    const attachment = await createAttachment('notes.txt', Buffer.from('Plain notes'));
+
+    await expect(analyzeDocument({ attachment_id: attachment.id, prompt: 'Extract the text' })).rejects.toThrow(/not an image/);
+  });
+
+  it('should require exactly one image source and refuse data URLs', () => {
+    expect(createDocumentAnalysisInputSchema.safeParse({ prompt: 'Extract' }).success).toBe(false);
+    expect(createDocumentAnalysisInputSchema.safeParse({ image_url: 'https://example.com/a.png', attachment_id: 1, prompt: 'Extract' }).success).toBe(false);
+    expect(createDocumentAnalysisInputSchema.safeParse({ image_url: 'data:image/png;base64,iVBORw0KGgo=', prompt: 'Extract' }).success).toBe(false);
+    expect(createDocumentAnalysisInputSchema.safeParse({ attachment_id: 1, prompt: 'Extract' }).success).toBe(true);
+  });
+});
@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createStorage, removeStorage } from '../helpers';
+import { db } from '../db';
+import { attachmentUploadsTable, attachmentsTable } from '../db/schema';
+import { createAttachment } from '../handlers/create_attachment';
+import { getAttachment, readAttachment, readAttachmentDataUrl } from '../handlers/get_attachment';
+import { startAttachmentUpload } from '../handlers/start_attachment_upload';
+import { uploadAttachmentPart } from '../handlers/upload_attachment_part';
+import { completeAttachmentUpload } from '../handlers/complete_attachment_upload';
+import { abortAttachmentUpload } from '../handlers/abort_attachment_upload';
+import { getStorage, sniffMimeType } from '../storage';
+
+const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00, 0x00, 0x0d]);
+
+describe('sniffMimeType', () => {
+  it('should recognise files by their leading bytes', () => {
+    expect(sniffMimeType(png)).toEqual('image/png');
+    expect(sniffMimeType(Buffer.from([0xff, 0xd8, 0xff, 0xe0]))).toEqual('image/jpeg');
+    expect(sniffMimeType(Buffer.from('GIF89a'))).toEqual('image/gif');
+    expect(sniffMimeType(Buffer.from('RIFF\x00\x00\x00\x00WEBPVP8 '))).toEqual('image/webp');
+    expect(sniffMimeType(Buffer.from('%PDF-1.7\n'))).toEqual('application/pdf');
+    expect(sniffMimeType(Buffer.from('\x00\x00\x00\x18ftypmp42'))).toEqual('video/mp4');
+  });
+
+  it('should treat UTF-8 without control characters as plain text', () => {
+    expect(sniffMimeType(Buffer.from('Grüße, world!\nSecond line'))).toEqual('text/plain');
+    expect(sniffMimeType(Buffer.from([0x00, 0x01, 0x02, 0xfe]))).toBeNull();
+    expect(sniffMimeType(Buffer.alloc(0))).toBeNull();
+  });
+});
+
+describe('attachments', () => {
+  beforeEach(async () => {
+    await createDB();
+    await createStorage();
+  });
+  afterEach(async () => {
+    delete process.env['ATTACHMENT_MAX_BYTES'];
+    delete process.env['ATTACHMENT_PART_BYTES'];
+    await removeStorage();
+    await resetDB();
+  });
+
+  it('should store files with their sniffed type, size and hash', async () => {
+    const attachment = await createAttachment('picture.jpg', png);
+
+    expect(attachment).toMatchObject({ filename: 'picture.jpg', mime_type: 'image/png', size_bytes: png.length });
+    expect(attachment.sha256).toMatch(/^[0-9a-f]{64}$/);
+    expect(await readAttachment(attachment)).toEqual(png);
+    expect(await getAttachment({ id: attachment.id })).toEqual(attachment);
+    expect(await readAttachmentDataUrl(attachment)).toEqual(`data:image/png;base64,${png.toString('base64')}`);
+  });
+
+  it('should store identical content once', async () => {
+    const first = await createAttachment('a.png', png);
+    const second = await createAttachment('b.png', Buffer.from(png));
+
+    expect(second.id).toEqual(first.id);
+    expect(second.filename).toEqual('a.png');
+    expect(await db.select().from(attachmentsTable).execute()).toHaveLength(1);
+  });
+
+  it('should reject unsupported types and oversized files', async () => {
+    await expect(createAttachment('binary.bin', Buffer.from([0x00, 0x01, 0x02]))).rejects.toThrow(/unsupported file type/i);
+
+    process.env['ATTACHMENT_MAX_BYTES'] = '4';
+    await expect(createAttachment('picture.png', png)).rejects.toThrow(/larger than 4 bytes/);
+  });
+
+  it('should reject unknown attachment IDs', async () => {
+    await expect(getAttachment({ id: 999 })).rejects.toThrow(/attachment with id 999 not found/i);
+  });
+
+  it('should assemble chunked uploads in part order', async () => {
+    const content = Buffer.from('%PDF-1.4\n' + 'x'.repeat(100));
+    const upload = await startAttachmentUpload({ filename: 'big.pdf' });
+
+    // Parts may arrive in any order and be re-sent
+    await uploadAttachmentPart(upload.upload_id, 2, content.subarray(50));
+    await uploadAttachmentPart(upload.upload_id, 1, Buffer.from('garbage'));
+    await uploadAttachmentPart(upload.upload_id, 1, content.subarray(0, 50));
+
+    const attachment = await completeAttachmentUpload(upload.upload_id);
+
+    expect(attachment).toMatchObject({ filename: 'big.pdf', mime_type: 'application/pdf', size_bytes: content.length });
+    expect(await readAttachment(attachment)).toEqual(content);
+    expect(await db.select().from(attachmentUploadsTable).execute()).toHaveLength(0);
+    expect(await getStorage().headObject(`uploads/${upload.upload_id}`)).toBeNull();
+  });
+
+  it('should refuse to complete uploads with missing parts', async () => {
+    const upload = await startAttachmentUpload({ filename: 'gappy.txt' });
+    await uploadAttachmentPart(upload.upload_id, 2, Buffer.from('second'));
+
+    await expect(completeAttachmentUpload(upload.upload_id)).rejects.toThrow(/part 1 is missing/i);
+  });
+
+  it('should enforce the size limit across parts', async () => {
+    process.env['ATTACHMENT_MAX_BYTES'] = '10';
+    const upload = await startAttachmentUpload({ filename: 'notes.txt' });
+    await uploadAttachmentPart(upload.upload_id, 1, Buffer.from('123456'));
+
+    await expect(uploadAttachmentPart(upload.upload_id, 2, Buffer.from('789012'))).rejects.toThrow(/larger than 10 bytes/);
+  });
+
+  it('should discard aborted uploads', async () => {
+    const upload = await startAttachmentUpload({ filename: 'notes.txt' });
+    await uploadAttachmentPart(upload.upload_id, 1, Buffer.from('hello'));
+
+    await abortAttachmentUpload(upload.upload_id);
+
+    await expect(uploadAttachmentPart(upload.upload_id, 2, Buffer.from('world'))).rejects.toThrow(/upload .* not found/i);
+    expect(await db.select().from(attachmentUploadsTable).execute()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,247 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createStorage, removeStorage } from '../helpers';
+import { db } from '../db';
+import {
+  attachmentsTable,
+  chatMessagesTable,
+  chatSessionsTable,
+  documentAnalysisTable,
+  generatedImagesTable,
+  generatedVideosTable,
+  quizTable,
+  quizAttemptsTable,
+  studyCardsTable,
+  webSearchTable
+} from '../db/schema';
+import { createBackup } from '../handlers/create_backup';
+import { restoreBackup } from '../handlers/restore_backup';
+import { createAttachment } from '../handlers/create_attachment';
+import { getAttachment, readAttachment } from '../handlers/get_attachment';
+import { getStorage } from '../storage';
+import { readQuizData } from '../quiz';
+import { asc, eq } from 'drizzle-orm';
+import { gzipSync } from 'zlib';
+
+const seed = async () => {
+  await db.insert(chatSessionsTable).values({ id: 'session-1', title: 'Backed up', title_source: 'manual', gen_z_mode: true }).execute();
+  const [question] = await db.insert(chatMessagesTable)
+    .values({ session_id: 'session-1', role: 'user', content: 'Hello', content_type: 'image', metadata: { hasImage: true } })
+    .returning()
+    .execute();
+  await db.insert(chatMessagesTable)
+    .values({ session_id: 'session-1', parent_id: question.id, role: 'assistant', content: 'Hi there' })
+    .execute();
+  await db.insert(documentAnalysisTable).values({ image_url: 'https://example.com/a.png', prompt: 'Read', analysis_result: 'Text' }).execute();
+  await db.insert(generatedImagesTable).values({ prompt: 'A cat', image_url: 'https://example.com/cat.png' }).execute();
+  await db.insert(generatedVideosTable).values({ prompt: 'A dog', status: 'completed', completed_at: new Date('2026-01-01T00:00:00Z') }).execute();
+  const [quiz] = await db.insert(quizTable).values({ source_text: 'Source', quiz_data: [{ question: 'Q?', answer: 'A' }] }).returning().execute();
+  await db.insert(quizAttemptsTable).values({ quiz_id: quiz.id, answers: [null], results: [{ score: 0, correct: false }], score: 0, max_score: 1 }).execute();
+  await db.insert(studyCardsTable).values({ quiz_id: quiz.id, question_index: 0, repetitions: 1, interval_days: 1 }).execute();
+  await db.insert(webSearchTable).values({ query: 'news', summary: 'Summary', sources: ['https://example.com'] }).execute();
+};
+
+const collectBackup = async (): Promise<string> => {
+  let content = '';
+  for await (const line of createBackup()) {
+    content += line;
+  }
+  return content;
+};
+
+const snapshot = async () => ({
+  sessions: await db.select().from(chatSessionsTable).execute(),
+  messages: await db.select().from(chatMessagesTable).orderBy(asc(chatMessagesTable.id)).execute(),
+  analyses: await db.select().from(documentAnalysisTable).execute(),
+  images: await db.select().from(generatedImagesTable).execute(),
+  videos: await db.select().from(generatedVideosTable).execute(),
+  quizzes: await db.select().from(quizTable).execute(),
+  quizAttempts: await db.select().from(quizAttemptsTable).execute(),
+  studyCards: await db.select().from(studyCardsTable).execute(),
+  searches: await db.select().from(webSearchTable).execute()
+});
+
+const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00, 0x00, 0x0d]);
+
+describe('backup', () => {
+  beforeEach(async () => {
+    await createDB();
+    await createStorage();
+  });
+  afterEach(async () => {
+    await removeStorage();
+    await resetDB();
+  });
+
+  it('should write a header, one line per row and a footer with counts', async () => {
+    await seed();
+
+    const lines = (await collectBackup()).trim().split('\n').map(line => JSON.parse(line));
+
+    expect(lines[0]).toMatchObject({ type: 'header', format: 'okaigpt-backup', schema_version: 2 });
+    expect(lines[0].tables).toEqual([
+      'personas', 'attachments', 'chat_sessions', 'chat_messages', 'pdf_documents', 'pdf_chunks', 'document_analysis', 'generated_images', 'generated_videos', 'quiz', 'quiz_attempts', 'study_cards', 'web_search', 'preferences', 'ai_usage'
+    ]);
+    expect(lines.filter(line => line.type === 'row')).toHaveLength(10);
+    expect(lines[lines.length - 1]).toEqual({
+      type: 'footer',
+      counts: { personas: 0, attachments: 0, chat_sessions: 1, chat_messages: 2, pdf_documents: 0, pdf_chunks: 0, document_analysis: 1, generated_images: 1, generated_videos: 1, quiz: 1, quiz_attempts: 1, study_cards: 1, web_search: 1, preferences: 0, ai_usage: 0 },
+      files: 0
+    });
+  });
+
+  it('should carry attachment files to a server that lacks them', async () => {
+    const image = await createAttachment('photo.png', png);
+    const archive = Buffer.from(await collectBackup());
+    expect(archive.toString()).toContain(`{"type":"file","storage_key":"${image.storage_key}","data":"${png.toString('base64')}"}`);
+
+    // A different server: empty storage and no attachment records
+    await removeStorage();
+    await createStorage();
+    await db.delete(attachmentsTable).execute();
+
+    const report = await restoreBackup(archive, { mode: 'replace' });
+
+    expect(report).toMatchObject({ files: 1, missing_files: [] });
+    expect(await readAttachment(await getAttachment({ id: image.id }))).toEqual(png);
+  });
+
+  it('should list attachments whose file is neither in the backup nor in storage', async () => {
+    const image = await createAttachment('photo.png', png);
+    await getStorage().deleteObject(image.storage_key);
+    const archive = Buffer.from(await collectBackup());
+
+    const report = await restoreBackup(archive, { mode: 'merge', onConflict: 'skip', dryRun: true });
+
+    expect(report).toMatchObject({ files: 0, missing_files: ['photo.png'] });
+  });
+
+  it('should reject files that do not match their attachment', async () => {
+    await createAttachment('photo.png', png);
+    const content = await collectBackup();
+    const corrupted = content.replace(png.toString('base64'), Buffer.from('not the photo').toString('base64'));
+
+    await expect(restoreBackup(Buffer.from(corrupted), { mode: 'replace' })).rejects.toThrow(/attachment \d+ is corrupt/);
+  });
+
+  it('should restore every table exactly in replace mode', async () => {
+    await seed();
+    const before = await snapshot();
+    const archive = gzipSync(await collectBackup());
+
+    // Diverge from the backup, then roll back to it
+    await db.delete(chatSessionsTable).execute();
+    await db.insert(chatSessionsTable).values({ id: 'session-2', title: 'Newer' }).execute();
+    await db.update(generatedImagesTable).set({ prompt: 'Changed' }).execute();
+
+    const report = await restoreBackup(archive, { mode: 'replace' });
+
+    expect(report.applied).toBe(true);
+    expect(report.tables['chat_messages']).toEqual({ rows: 2, conflicts: 0, written: 2 });
+    expect(await snapshot()).toEqual(before);
+
+    // Sequences continue after the restored IDs
+    const [next] = await db.insert(chatMessagesTable)
+      .values({ session_id: 'session-1', role: 'user', content: 'After restore' })
+      .returning()
+      .execute();
+    expect(next.id).toBeGreaterThan(before.messages[1].id);
+  });
+
+  it('should accept uncompressed archives', async () => {
+    await seed();
+    const archive = Buffer.from(await collectBackup());
+    await resetDB();
+    await createDB();
+
+    const report = await restoreBackup(archive, { mode: 'merge' });
+
+    expect(report.applied).toBe(true);
+    expect(await db.select().from(chatMessagesTable).execute()).toHaveLength(2);
+  });
+
+  it('should report ID conflicts when merging', async () => {
+    await seed();
+    const archive = Buffer.from(await collectBackup());
+    await db.update(chatSessionsTable).set({ title: 'Edited locally' }).execute();
+
+    const report = await restoreBackup(archive, { mode: 'merge', dryRun: true });
+
+    expect(report.applied).toBe(false);
+    expect(report.tables['chat_sessions']).toEqual({ rows: 1, conflicts: 1, written: 1 });
+    await expect(restoreBackup(archive, { mode: 'merge' })).rejects.toThrow(/10 rows .* already exist/);
+  });
+
+  it('should keep or overwrite conflicting rows when merging', async () => {
+    await seed();
+    const archive = Buffer.from(await collectBackup());
+    await db.update(chatSessionsTable).set({ title: 'Edited locally' }).execute();
+    await db.insert(generatedImagesTable).values({ prompt: 'Only here', image_url: 'https://example.com/new.png' }).execute();
+
+    const skipped = await restoreBackup(archive, { mode: 'merge', onConflict: 'skip' });
+    expect(skipped.tables['chat_sessions'].written).toEqual(0);
+    let sessions = await db.select().from(chatSessionsTable).execute();
+    expect(sessions[0].title).toEqual('Edited locally');
+
+    const overwritten = await restoreBackup(archive, { mode: 'merge', onConflict: 'overwrite' });
+    expect(overwritten.tables['chat_sessions'].written).toEqual(1);
+    sessions = await db.select().from(chatSessionsTable).execute();
+    expect(sessions[0].title).toEqual('Backed up');
+
+    // Rows that exist only locally are untouched by a merge
+    const images = await db.select().from(generatedImagesTable).where(eq(generatedImagesTable.prompt, 'Only here')).execute();
+    expect(images).toHaveLength(1);
+  });
+
+  it('should reject backups from newer schema versions', async () => {
+    await seed();
+    const lines = (await collectBackup()).split('\n');
+    lines[0] = lines[0].replace('"schema_version":2', '"schema_version":3');
+
+    await expect(restoreBackup(Buffer.from(lines.join('\n')), { mode: 'replace' })).rejects.toThrow(/newer than this app supports/);
+  });
+
+  it('should restore version 1 backups', async () => {
+    // As written before personas, attachments, study cards and the other later tables
+    const archive = [
+      { type: 'header', format: 'okaigpt-backup', schema_version: 1, created_at: '2026-01-01T00:00:00.000Z', tables: ['chat_sessions', 'chat_messages', 'document_analysis', 'generated_images', 'generated_videos', 'quiz', 'web_search'] },
+      { type: 'row', table: 'chat_sessions', data: { id: 'old-session', title: 'Old chat', title_source: 'auto', gen_z_mode: false, copy_code_only_mode: false, target_language: null, created_at: '2026-01-01T00:00:00.000Z', updated_at: '2026-01-01T00:00:00.000Z' } },
+      { type: 'row', table: 'chat_messages', data: { id: 1, session_id: 'old-session', parent_id: null, role: 'user', content: 'Hello', content_type: 'text', metadata: null, created_at: '2026-01-01T00:00:00.000Z' } },
+      { type: 'row', table: 'chat_messages', data: { id: 2, session_id: 'old-session', parent_id: 1, role: 'assistant', content: 'Hi', content_type: 'text', metadata: null, created_at: '2026-01-01T00:00:01.000Z' } },
+      { type: 'row', table: 'generated_videos', data: { id: 1, prompt: 'A dog', initial_image_url: null, video_url: null, status: 'completed', progress_message: null, created_at: '2026-01-01T00:00:00.000Z', completed_at: '2026-01-01T00:01:00.000Z' } },
+      { type: 'row', table: 'quiz', data: { id: 1, source_text: 'Source', quiz_data: { quiz: [{ question: 'Q?', options: ['A', 'B'], answer: 'A' }] }, created_at: '2026-01-01T00:00:00.000Z' } },
+      { type: 'row', table: 'web_search', data: { id: 1, query: 'news', summary: 'Summary', sources: ['https://example.com'], created_at: '2026-01-01T00:00:00.000Z' } },
+      { type: 'footer', counts: { chat_sessions: 1, chat_messages: 2, document_analysis: 0, generated_images: 0, generated_videos: 1, quiz: 1, web_search: 1 } }
+    ].map(line => JSON.stringify(line)).join('\n');
+
+    const report = await restoreBackup(Buffer.from(archive), { mode: 'replace' });
+
+    expect(report).toMatchObject({ applied: true, schema_version: 1, files: 0, missing_files: [] });
+    const { sessions, messages, videos, quizzes } = await snapshot();
+    expect(sessions[0]).toMatchObject({ id: 'old-session', persona_id: null, model: null });
+    expect(messages.map(message => [message.id, message.parent_id, message.attachment_id])).toEqual([[1, null, null], [2, 1, null]]);
+    expect(videos[0]).toMatchObject({ status: 'completed', progress: 0, initial_image_attachment_id: null });
+    // Quizzes from before typed questions come back as they were, and read as the old format
+    expect(quizzes[0]).toMatchObject({ source_type: 'text', source_ref: null });
+    expect(readQuizData(quizzes[0].quiz_data)).toBeNull();
+  });
+
+  it('should reject truncated or invalid archives without writing anything', async () => {
+    await seed();
+    const content = await collectBackup();
+    const lines = content.trim().split('\n');
+    const before = await snapshot();
+
+    await expect(restoreBackup(Buffer.from(lines.slice(0, -1).join('\n')), { mode: 'replace' }))
+      .rejects.toThrow(/footer line is missing/);
+    await expect(restoreBackup(Buffer.from([...lines.slice(0, 2), ...lines.slice(3)].join('\n')), { mode: 'replace' }))
+      .rejects.toThrow(/expected 2 chat_messages rows, found 1/);
+    await expect(restoreBackup(Buffer.from(content.replace('"role":"assistant"', '"role":"system"')), { mode: 'replace' }))
+      .rejects.toThrow(/chat_messages\.role must be one of user, assistant/);
+    await expect(restoreBackup(Buffer.from(content.replace('"prompt":"A cat"', '"prompt":"A cat","extra":1')), { mode: 'replace' }))
+      .rejects.toThrow(/generated_images\.extra is not a known column/);
+    await expect(restoreBackup(Buffer.from('{"hello":"world"}\n'), { mode: 'replace' }))
+      .rejects.toThrow(/Line 1/);
+
+    expect(await snapshot()).toEqual(before);
+  });
+});
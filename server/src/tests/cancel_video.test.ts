@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { generatedVideosTable, jobsTable } from '../db/schema';
+import { generateVideo } from '../handlers/generate_video';
+import { getVideoStatus } from '../handlers/get_video_status';
+import { cancelVideo } from '../handlers/cancel_video';
+import { processVideoJob, failVideoJob } from '../handlers/process_video_job';
+import { createJobWorker, cancelJobs, enqueueJob, type WorkerOptions } from '../jobs';
+import { registerVideoBackend, resetVideoBackend, VIDEO_JOB_KIND } from '../video';
+import { asc, eq } from 'drizzle-orm';
+
+const options: WorkerOptions = {
+  pollIntervalMs: 10,
+  heartbeatIntervalMs: 20,
+  heartbeatTimeoutMs: 30000,
+  maxAttempts: 3,
+  retryDelayMs: 0
+};
+
+const createVideoWorker = () => createJobWorker({
+  [VIDEO_JOB_KIND]: { run: processVideoJob, onAttemptFailed: failVideoJob }
+}, options, 'video-worker');
+
+const jobStatuses = async () => (await db.select().from(jobsTable).orderBy(asc(jobsTable.id)).execute()).map(job => job.status);
+
+describe('cancelVideo', () => {
+  beforeEach(createDB);
+  afterEach(async () => {
+    delete process.env['VIDEO_BACKEND'];
+    resetVideoBackend();
+    await resetDB();
+  });
+
+  it('should cancel a queued video and its job', async () => {
+    const video = await generateVideo({ prompt: 'A paper boat' });
+
+    const cancelled = await cancelVideo({ id: video.id });
+
+    expect(cancelled.status).toEqual('cancelled');
+    expect(cancelled.progress_message).toEqual('Video generation cancelled');
+    expect(await jobStatuses()).toEqual(['cancelled']);
+    expect(await createVideoWorker().runOnce()).toBe(false);
+  });
+
+  it('should stop a video that is being generated', async () => {
+    let aborted = false;
+    let started: () => void = () => {};
+    const isRunning = new Promise<void>((resolve) => { started = resolve; });
+    registerVideoBackend('capture', () => ({
+      name: 'capture',
+      generate: (_request, _onProgress, signal) => new Promise((_resolve, reject) => {
+        started();
+        signal.addEventListener('abort', () => {
+          aborted = true;
+          reject(signal.reason);
+        });
+      })
+    }));
+    process.env['VIDEO_BACKEND'] = 'capture';
+    resetVideoBackend();
+
+    const video = await generateVideo({ prompt: 'A paper boat' });
+    const running = createVideoWorker().runOnce();
+    await isRunning;
+    expect((await getVideoStatus({ id: video.id })).status).toEqual('processing');
+
+    await cancelVideo({ id: video.id });
+    await running;
+
+    expect(aborted).toBe(true);
+    expect((await getVideoStatus({ id: video.id })).status).toEqual('cancelled');
+    expect(await jobStatuses()).toEqual(['cancelled']);
+  });
+
+  it('should reject videos that already finished', async () => {
+    const video = await generateVideo({ prompt: 'A paper boat' });
+    await db.update(generatedVideosTable)
+      .set({ status: 'completed' })
+      .where(eq(generatedVideosTable.id, video.id))
+      .execute();
+
+    await expect(cancelVideo({ id: video.id })).rejects.toThrow(/already completed/i);
+    await expect(cancelVideo({ id: 999 })).rejects.toThrow(/not found/i);
+  });
+
+  it('should only cancel the jobs matching the payload', async () => {
+    await enqueueJob(VIDEO_JOB_KIND, { video_id: 1 });
+    await enqueueJob(VIDEO_JOB_KIND, { video_id: 2 });
+    await enqueueJob('other', { video_id: 1 });
+
+    expect(await cancelJobs(VIDEO_JOB_KIND, { video_id: 1 })).toEqual(1);
+    expect(await jobStatuses()).toEqual(['cancelled', 'queued', 'queued']);
+  });
+});
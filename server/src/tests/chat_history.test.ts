@@ -0,0 +1,87 @@
+import { afterEach, describe, expect, it } from 'bun:test';
+import { fitHistoryToBudget, buildHistoryMessages, getHistoryOptions, estimateMessagesTokens, type AIChatMessage } from '../ai';
+import { createLocalProvider } from '../ai/local_provider';
+
+const history: AIChatMessage[] = [
+  { role: 'user', content: 'First question about TypeScript generics and their constraints. '.repeat(50) },
+  { role: 'assistant', content: 'Generics let you write reusable code that works over many types.' },
+  { role: 'user', content: 'Second question about conditional types' },
+  { role: 'assistant', content: 'Conditional types select a type based on a condition.' }
+];
+
+describe('fitHistoryToBudget', () => {
+  it('should keep everything when the budget allows', () => {
+    const result = fitHistoryToBudget(history, 10000);
+
+    expect(result.kept).toEqual(history);
+    expect(result.dropped).toEqual([]);
+  });
+
+  it('should drop the oldest turns first', () => {
+    const budget = estimateMessagesTokens(history.slice(2));
+    const result = fitHistoryToBudget(history, budget);
+
+    expect(result.kept).toEqual(history.slice(2));
+    expect(result.dropped).toEqual(history.slice(0, 2));
+  });
+
+  it('should keep nothing when the budget is exhausted', () => {
+    const result = fitHistoryToBudget(history, 0);
+
+    expect(result.kept).toEqual([]);
+    expect(result.dropped).toEqual(history);
+  });
+});
+
+describe('buildHistoryMessages', () => {
+  const provider = createLocalProvider();
+
+  it('should truncate without a summary by default', async () => {
+    const budget = estimateMessagesTokens(history.slice(3));
+    const result = await buildHistoryMessages(history, budget, 'truncate', provider);
+
+    expect(result).toEqual(history.slice(3));
+  });
+
+  it('should replace dropped turns with a summary', async () => {
+    const budget = 256 + estimateMessagesTokens(history.slice(2));
+    const result = await buildHistoryMessages(history, budget, 'summarize', provider);
+
+    expect(result).toHaveLength(3);
+    expect(result[0].role).toEqual('system');
+    expect(result[0].content).toContain('Summary of the earlier conversation');
+    expect(result.slice(1)).toEqual(history.slice(2));
+  });
+
+  it('should not summarize when nothing is dropped', async () => {
+    const result = await buildHistoryMessages(history, 10000, 'summarize', provider);
+
+    expect(result).toEqual(history);
+  });
+});
+
+describe('getHistoryOptions', () => {
+  const originalBudget = process.env['CHAT_HISTORY_TOKEN_BUDGET'];
+  const originalStrategy = process.env['CHAT_HISTORY_STRATEGY'];
+
+  afterEach(() => {
+    if (originalBudget === undefined) delete process.env['CHAT_HISTORY_TOKEN_BUDGET'];
+    else process.env['CHAT_HISTORY_TOKEN_BUDGET'] = originalBudget;
+    if (originalStrategy === undefined) delete process.env['CHAT_HISTORY_STRATEGY'];
+    else process.env['CHAT_HISTORY_STRATEGY'] = originalStrategy;
+  });
+
+  it('should read budget and strategy from env', () => {
+    process.env['CHAT_HISTORY_TOKEN_BUDGET'] = '1200';
+    process.env['CHAT_HISTORY_STRATEGY'] = 'summarize';
+
+    expect(getHistoryOptions()).toEqual({ tokenBudget: 1200, strategy: 'summarize' });
+  });
+
+  it('should fall back to defaults', () => {
+    delete process.env['CHAT_HISTORY_TOKEN_BUDGET'];
+    delete process.env['CHAT_HISTORY_STRATEGY'];
+
+    expect(getHistoryOptions()).toEqual({ tokenBudget: 3000, strategy: 'truncate' });
+  });
+});
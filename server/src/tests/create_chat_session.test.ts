@@ -4,6 +4,7 @@ import { db } from '../db';
 import { chatSessionsTable } from '../db/schema';
 import { type CreateChatSessionInput } from '../schema';
 import { createChatSession } from '../handlers/create_chat_session';
+import { updatePreferences } from '../handlers/update_preferences';
 import { eq } from 'drizzle-orm';
 
 // Test inputs
@@ -66,6 +67,20 @@ describe('createChatSession', () => {
     expect(result.updated_at).toBeInstanceOf(Date);
   });
 
+  it('should take omitted modes from the preferences', async () => {
+    await updatePreferences({ gen_z_mode: true, target_language: 'french' });
+
+    const inherited = await createChatSession(minimalInput);
+    expect(inherited.gen_z_mode).toBe(true);
+    expect(inherited.copy_code_only_mode).toBe(false);
+    expect(inherited.target_language).toEqual('french');
+
+    // Explicit values, including null, still win
+    const explicit = await createChatSession({ gen_z_mode: false, target_language: null });
+    expect(explicit.gen_z_mode).toBe(false);
+    expect(explicit.target_language).toBeNull();
+  });
+
   it('should save chat session to database', async () => {
     const result = await createChatSession(fullInput);
 
@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createStorage, removeStorage } from '../helpers';
+import { db } from '../db';
+import { chatMessagesTable, chatSessionsTable } from '../db/schema';
+import { editAiMessage } from '../handlers/edit_ai_message';
+import { createAttachment } from '../handlers/create_attachment';
+import { eq, asc, isNull } from 'drizzle-orm';
+
+// Seeds: user (1) -> assistant (2) -> user (3) -> assistant (4)
+const seedConversation = async () => {
+  await db.insert(chatSessionsTable)
+    .values({ id: 'session-1', title: 'Test Session', gen_z_mode: false, copy_code_only_mode: false, target_language: null })
+    .execute();
+
+  const rows = [];
+  let parentId: number | null = null;
+  for (const [role, content] of [['user', 'First question'], ['assistant', 'First answer'], ['user', 'Second question'], ['assistant', 'Second answer']] as const) {
+    const [row] = await db.insert(chatMessagesTable)
+      .values({ session_id: 'session-1', parent_id: parentId, role, content, content_type: 'text', metadata: null })
+      .returning()
+      .execute();
+    rows.push(row);
+    parentId = row.id;
+  }
+  return rows;
+};
+
+describe('editAiMessage', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should fork the conversation at the edited message', async () => {
+    const [, firstAnswer, secondQuestion] = await seedConversation();
+
+    const result = await editAiMessage({
+      messageId: secondQuestion.id,
+      content: 'Second question, reworded',
+      genZMode: false,
+      copyCodeOnlyMode: false,
+      targetLanguage: 'english'
+    });
+
+    expect(result.role).toEqual('assistant');
+    expect(result.content).toContain('Second question, reworded');
+
+    // The edited prompt is a sibling of the original, under the same parent
+    const prompts = await db.select()
+      .from(chatMessagesTable)
+      .where(eq(chatMessagesTable.parent_id, firstAnswer.id))
+      .orderBy(asc(chatMessagesTable.id))
+      .execute();
+
+    expect(prompts).toHaveLength(2);
+    expect(prompts[0].content).toEqual('Second question');
+    expect(prompts[1].content).toEqual('Second question, reworded');
+    expect(prompts[1].metadata).toEqual({ editedFrom: secondQuestion.id });
+    expect(result.parent_id).toEqual(prompts[1].id);
+
+    // Original branch is untouched
+    const all = await db.select().from(chatMessagesTable).execute();
+    expect(all).toHaveLength(6);
+  });
+
+  it('should fork at the first message of a session', async () => {
+    const [firstQuestion] = await seedConversation();
+
+    await editAiMessage({ messageId: firstQuestion.id, content: 'Another opening question' });
+
+    const roots = await db.select()
+      .from(chatMessagesTable)
+      .where(isNull(chatMessagesTable.parent_id))
+      .execute();
+
+    expect(roots).toHaveLength(2);
+  });
+
+  it('should keep the image of the edited message', async () => {
+    await createStorage();
+    try {
+      const image = await createAttachment('photo.png', Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]));
+      await db.insert(chatSessionsTable).values({ id: 'session-image' }).execute();
+      const [original] = await db.insert(chatMessagesTable)
+        .values({ session_id: 'session-image', role: 'user', content: 'What is this?', content_type: 'image', attachment_id: image.id, metadata: { hasImage: true, filename: 'photo.png' } })
+        .returning()
+        .execute();
+
+      const reply = await editAiMessage({ messageId: original.id, content: 'What colour is this?' });
+
+      const [edited] = await db.select().from(chatMessagesTable).where(eq(chatMessagesTable.id, reply.parent_id!)).execute();
+      expect(edited).toMatchObject({ content_type: 'image', attachment_id: image.id });
+      expect(edited.metadata).toEqual({ hasImage: true, filename: 'photo.png', editedFrom: original.id });
+      // The local provider acknowledges images it was sent
+      expect(reply.content).toContain('image');
+    } finally {
+      await removeStorage();
+    }
+  });
+
+  it('should reject assistant messages', async () => {
+    const [, firstAnswer] = await seedConversation();
+
+    await expect(editAiMessage({ messageId: firstAnswer.id, content: 'Nope' })).rejects.toThrow(/only user messages/i);
+  });
+});
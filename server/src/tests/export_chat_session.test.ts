@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { chatMessagesTable, chatSessionsTable } from '../db/schema';
+import { chatExportSchema } from '../schema';
+import { exportChatSession } from '../handlers/export_chat_session';
+
+const seedSession = async () => {
+  await db.insert(chatSessionsTable).values({
+    id: 'session-1',
+    title: 'Sorting <tricks>',
+    title_source: 'manual',
+    gen_z_mode: true,
+    target_language: 'spanish',
+    model: 'local/large',
+    temperature: 0.4,
+    max_tokens: 256,
+    stop: ['END']
+  }).execute();
+
+  const [question] = await db.insert(chatMessagesTable)
+    .values({ session_id: 'session-1', role: 'user', content: 'How do I sort <b>numbers</b>?' })
+    .returning()
+    .execute();
+  await db.insert(chatMessagesTable)
+    .values({ session_id: 'session-1', parent_id: question.id, role: 'assistant', content: 'First answer' })
+    .execute();
+  const [regenerated] = await db.insert(chatMessagesTable)
+    .values({ session_id: 'session-1', parent_id: question.id, role: 'assistant', content: 'Regenerated answer', metadata: { model: 'local' } })
+    .returning()
+    .execute();
+  await db.insert(chatMessagesTable)
+    .values({ session_id: 'session-1', parent_id: regenerated.id, role: 'user', content: 'Scan this', content_type: 'image', metadata: { hasImage: true } })
+    .execute();
+};
+
+describe('exportChatSession', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should export the whole message tree as versioned JSON', async () => {
+    await seedSession();
+
+    const file = await exportChatSession({ sessionId: 'session-1', format: 'json' });
+
+    expect(file.mime_type).toEqual('application/json');
+    expect(file.filename).toMatch(/^chat-sorting-tricks-\d{4}-\d{2}-\d{2}\.json$/);
+
+    const data = chatExportSchema.parse(JSON.parse(file.content));
+    expect(data.version).toEqual(2);
+    expect(data.session.title).toEqual('Sorting <tricks>');
+    expect(data.session.title_source).toEqual('manual');
+    expect(data.session.gen_z_mode).toBe(true);
+    expect(data.session).toMatchObject({ persona_id: null, model: 'local/large', temperature: 0.4, max_tokens: 256, stop: ['END'] });
+    expect(data.messages).toHaveLength(4);
+    expect(data.messages[2].parent_id).toEqual(data.messages[0].id);
+    expect(data.messages[2].metadata).toEqual({ model: 'local' });
+    expect(data.messages[3].content_type).toEqual('image');
+  });
+
+  it('should export the newest branch as Markdown', async () => {
+    await seedSession();
+
+    const file = await exportChatSession({ sessionId: 'session-1', format: 'markdown' });
+
+    expect(file.mime_type).toEqual('text/markdown');
+    expect(file.content).toStartWith('# Sorting <tricks>\n');
+    expect(file.content).toContain('Modes: Gen Z mode, Language: spanish');
+    expect(file.content).toContain('### User');
+    expect(file.content).toContain('Regenerated answer');
+    expect(file.content).not.toContain('First answer');
+    expect(file.content).toContain('1 alternative version not shown');
+    expect(file.content).toContain('_Image attached_\n\nScan this');
+  });
+
+  it('should export escaped, self-contained HTML', async () => {
+    await seedSession();
+
+    const file = await exportChatSession({ sessionId: 'session-1', format: 'html' });
+
+    expect(file.mime_type).toEqual('text/html');
+    expect(file.content).toStartWith('<!DOCTYPE html>');
+    expect(file.content).toContain('<title>Sorting &lt;tricks&gt;</title>');
+    expect(file.content).toContain('How do I sort &lt;b&gt;numbers&lt;/b&gt;?');
+    expect(file.content).not.toContain('<script');
+    expect(file.content).not.toContain('<link');
+  });
+
+  it('should reject unknown sessions', async () => {
+    await expect(exportChatSession({ sessionId: 'missing', format: 'json' })).rejects.toThrow(/not found/i);
+  });
+});
@@ -1,168 +1,227 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { quizTable } from '../db/schema';
-import { type CreateQuizInput } from '../schema';
+import { aiUsageTable, quizTable } from '../db/schema';
+import { quizQuestionSchema, type CreateQuizInput, type Quiz } from '../schema';
 import { generateQuiz } from '../handlers/generate_quiz';
+import { registerAIProvider, resetAIProvider, type AIChatRequest } from '../ai';
+import { createLocalProvider } from '../ai/local_provider';
+import { parseQuizReply, type QuizRequest } from '../quiz';
 import { eq } from 'drizzle-orm';
 
-// Test input data
+const sourceText = 'Photosynthesis turns light into chemical energy. Chlorophyll in the leaves absorbs mostly red and blue light. '
+  + 'The process releases oxygen as a byproduct. Plants store the energy as glucose for later use.';
+
 const testInput: CreateQuizInput = {
-  source_text: 'This is a sample text about artificial intelligence and machine learning. It discusses various concepts including neural networks, deep learning, and natural language processing. The text explains how AI systems can be trained on large datasets to perform complex tasks like image recognition and language translation.'
+  source: { type: 'text', text: sourceText }
 };
 
-const shortTextInput: CreateQuizInput = {
-  source_text: 'Short text.'
+// Every span must point at its quote in the source text
+const expectValidQuiz = (quiz: Quiz) => {
+  for (const question of quiz.quiz_data!.questions) {
+    expect(quizQuestionSchema.safeParse(question).success).toBe(true);
+    for (const span of question.source_spans) {
+      expect(quiz.source_text.slice(span.start, span.end)).toEqual(span.quote);
+    }
+  }
 };
 
-const longTextInput: CreateQuizInput = {
-  source_text: 'Lorem ipsum dolor sit amet, consectetur adipiscing elit. '.repeat(50) + 'This is a very long text that should be handled properly by the quiz generation system. It contains multiple sentences and paragraphs that could be used to generate meaningful questions and answers for educational purposes.'
+// Local provider whose JSON replies are taken from `replies` in turn; the
+// requests it saw are collected in `requests`
+const useQuizReplies = (replies: string[]) => {
+  const local = createLocalProvider();
+  const requests: AIChatRequest[] = [];
+  registerAIProvider('quiz-test', () => ({
+    ...local,
+    chat: async request => {
+      requests.push({ ...request, messages: [...request.messages] });
+      return { ...(await local.chat(request)), content: replies[Math.min(requests.length, replies.length) - 1] };
+    }
+  }));
+  process.env['AI_PROVIDER'] = 'quiz-test';
+  resetAIProvider();
+  return requests;
 };
 
+const validReply = JSON.stringify({
+  title: 'Photosynthesis',
+  questions: [{
+    type: 'true_false',
+    question: 'Photosynthesis releases oxygen.',
+    answer: true,
+    explanation: 'Oxygen is released as a byproduct.',
+    source_spans: [{ quote: 'The process releases oxygen as a byproduct.' }]
+  }]
+});
+
 describe('generateQuiz', () => {
   beforeEach(createDB);
-  afterEach(resetDB);
+  afterEach(async () => {
+    delete process.env['AI_PROVIDER'];
+    delete process.env['QUIZ_MAX_ATTEMPTS'];
+    resetAIProvider();
+    await resetDB();
+  });
 
   it('should generate a quiz from source text', async () => {
     const result = await generateQuiz(testInput);
 
-    // Validate basic properties
     expect(result.id).toBeDefined();
-    expect(typeof result.id).toBe('number');
-    expect(result.source_text).toEqual(testInput.source_text);
+    expect(result.source_text).toEqual(sourceText);
     expect(result.created_at).toBeInstanceOf(Date);
-
-    // Validate quiz data structure
-    expect(result.quiz_data).toBeDefined();
-    expect(result.quiz_data['quiz']).toBeArray();
-    expect(result.quiz_data['quiz'].length).toBeGreaterThan(0);
-
-    // Validate quiz question structure
-    const firstQuestion = result.quiz_data['quiz'][0] as any;
-    expect(firstQuestion.question).toBeDefined();
-    expect(typeof firstQuestion.question).toBe('string');
-    expect(firstQuestion.options).toBeArray();
-    expect(firstQuestion.options.length).toBe(4);
-    expect(firstQuestion.answer).toBeDefined();
-    expect(firstQuestion.options).toContain(firstQuestion.answer);
+    expect(result.quiz_data!.title).toBeString();
+    expect(result.quiz_data!.difficulty).toEqual('medium');
+    expect(result.quiz_data!.questions).toHaveLength(5);
+    expect(new Set(result.quiz_data!.questions.map(question => question.type)))
+      .toEqual(new Set(['multiple_choice', 'true_false', 'short_answer']));
+    expectValidQuiz(result);
   });
 
   it('should save quiz to database', async () => {
     const result = await generateQuiz(testInput);
 
-    // Query database to verify quiz was saved
     const savedQuiz = await db.select()
       .from(quizTable)
       .where(eq(quizTable.id, result.id))
       .execute();
 
     expect(savedQuiz).toHaveLength(1);
-    expect(savedQuiz[0].source_text).toEqual(testInput.source_text);
+    expect(savedQuiz[0].source_text).toEqual(sourceText);
     expect(savedQuiz[0].quiz_data).toEqual(result.quiz_data);
-    expect(savedQuiz[0].created_at).toBeInstanceOf(Date);
   });
 
-  it('should handle short text input', async () => {
-    const result = await generateQuiz(shortTextInput);
-
-    expect(result.source_text).toEqual('Short text.');
-    expect(result.quiz_data['quiz']).toBeArray();
-    expect(result.quiz_data['quiz'].length).toBeGreaterThan(0);
-
-    // Verify each question has proper structure
-    (result.quiz_data['quiz'] as any[]).forEach((question: any) => {
-      expect(question.question).toBeDefined();
-      expect(question.options).toBeArray();
-      expect(question.options.length).toBe(4);
-      expect(question.answer).toBeDefined();
-      expect(question.options).toContain(question.answer);
+  it('should follow the requested count, difficulty and question types', async () => {
+    const result = await generateQuiz({
+      source: { type: 'text', text: sourceText },
+      question_count: 10,
+      difficulty: 'hard',
+      question_types: ['multi_select', 'cloze']
     });
+
+    expect(result.quiz_data!.difficulty).toEqual('hard');
+    expect(result.quiz_data!.questions).toHaveLength(10);
+    expect(result.quiz_data!.questions.every(question => question.type === 'multi_select' || question.type === 'cloze')).toBe(true);
+    expectValidQuiz(result);
   });
 
-  it('should handle long text input', async () => {
-    const result = await generateQuiz(longTextInput);
+  it('should cover every question type', async () => {
+    const result = await generateQuiz({
+      source: { type: 'text', text: sourceText },
+      question_count: 5,
+      question_types: ['multiple_choice', 'multi_select', 'true_false', 'short_answer', 'cloze']
+    });
 
-    expect(result.source_text).toEqual(longTextInput.source_text);
-    expect(result.quiz_data['quiz']).toBeArray();
-    expect(result.quiz_data['quiz'].length).toBeGreaterThan(0);
+    expect(result.quiz_data!.questions.map(question => question.type))
+      .toEqual(['multiple_choice', 'multi_select', 'true_false', 'short_answer', 'cloze']);
+    expectValidQuiz(result);
+  });
 
-    // Check that questions are generated properly for long text
-    const firstQuestion = result.quiz_data['quiz'][0] as any;
-    expect(firstQuestion.question).toContain('...');  // Should truncate long text in question
-    expect(firstQuestion.options.length).toBe(4);
+  it('should handle short text input', async () => {
+    const result = await generateQuiz({ source: { type: 'text', text: 'Short text.' }, question_count: 3 });
+
+    expect(result.quiz_data!.questions).toHaveLength(3);
+    expectValidQuiz(result);
   });
 
-  it('should generate multiple questions per quiz', async () => {
-    const result = await generateQuiz(testInput);
+  it('should preserve source text exactly as provided', async () => {
+    const textWithSpecialChars = "Text with special chars: @#$%^&*()[]{}|;':\",./<>?`~";
 
-    expect(result.quiz_data['quiz'].length).toBeGreaterThan(1);
+    const result = await generateQuiz({ source: { type: 'text', text: textWithSpecialChars } });
 
-    // Verify all questions have different content
-    const questions = (result.quiz_data['quiz'] as any[]).map((q: any) => q.question);
-    const uniqueQuestions = new Set(questions);
-    expect(uniqueQuestions.size).toBe(questions.length);
+    expect(result.source_text).toEqual(textWithSpecialChars);
+    expectValidQuiz(result);
   });
 
-  it('should generate quiz with valid question format', async () => {
-    const result = await generateQuiz(testInput);
+  it('should record the usage of the quiz feature', async () => {
+    await generateQuiz(testInput);
 
-    (result.quiz_data['quiz'] as any[]).forEach((question: any, index: number) => {
-      expect(question.question).toBeDefined();
-      expect(typeof question.question).toBe('string');
-      expect(question.question.length).toBeGreaterThan(0);
-      
-      // Validate options
-      expect(question.options).toBeArray();
-      expect(question.options.length).toBe(4);
-      question.options.forEach((option: any) => {
-        expect(typeof option).toBe('string');
-        expect(option.length).toBeGreaterThan(0);
-      });
-
-      // Validate answer
-      expect(typeof question.answer).toBe('string');
-      expect(question.options).toContain(question.answer);
-    });
+    const usage = await db.select().from(aiUsageTable).execute();
+    expect(usage.map(row => row.feature)).toEqual(['quiz']);
   });
 
-  it('should preserve source text exactly as provided', async () => {
-    const textWithSpecialChars = "Text with special chars: @#$%^&*()[]{}|;':\",./<>?`~";
-    const specialInput: CreateQuizInput = {
-      source_text: textWithSpecialChars
-    };
+  it('should send invalid replies back to the model until one is valid', async () => {
+    const invalid = JSON.stringify({
+      title: 'Photosynthesis',
+      questions: [{
+        type: 'multiple_choice',
+        question: 'What does chlorophyll absorb?',
+        options: ['Red and blue light', 'Green light'],
+        answer_index: 2,
+        explanation: 'Chlorophyll absorbs red and blue light.',
+        source_spans: [{ quote: 'Chlorophyll reflects green light.' }]
+      }]
+    });
+    const requests = useQuizReplies([invalid, '```json\n' + validReply + '\n```']);
 
-    const result = await generateQuiz(specialInput);
+    const result = await generateQuiz({ source: { type: 'text', text: sourceText }, question_count: 1, question_types: ['multiple_choice', 'true_false'] });
 
-    expect(result.source_text).toEqual(textWithSpecialChars);
+    expect(result.quiz_data!.questions[0].type).toEqual('true_false');
+    expectValidQuiz(result);
+    expect(requests).toHaveLength(2);
+    expect(requests[0].response_format).toEqual('json');
 
-    // Verify it was saved correctly to database
-    const savedQuiz = await db.select()
-      .from(quizTable)
-      .where(eq(quizTable.id, result.id))
-      .execute();
+    const repair = requests[1].messages[requests[1].messages.length - 1].content;
+    expect(repair).toContain('is not in the source text');
+    expect(repair).toContain('answer_index');
+  });
 
-    expect(savedQuiz[0].source_text).toEqual(textWithSpecialChars);
+  it('should give up after QUIZ_MAX_ATTEMPTS invalid replies', async () => {
+    process.env['QUIZ_MAX_ATTEMPTS'] = '2';
+    const requests = useQuizReplies(['Here is your quiz!']);
+
+    await expect(generateQuiz(testInput)).rejects.toThrow(/No valid quiz after 2 attempts: The reply is not valid JSON/);
+
+    expect(requests).toHaveLength(2);
+    expect(await db.select().from(quizTable).execute()).toHaveLength(0);
+  });
+});
+
+describe('parseQuizReply', () => {
+  const request: QuizRequest = {
+    source_text: sourceText,
+    question_count: 1,
+    difficulty: 'easy',
+    question_types: ['true_false']
+  };
+
+  it('should locate quotes despite differences in case and whitespace', () => {
+    const reply = JSON.parse(validReply);
+    reply.questions[0].source_spans = [{ quote: '"the process releases\n  oxygen..."' }];
+
+    const result = parseQuizReply(JSON.stringify(reply), request);
+
+    expect(result).toMatchObject({ success: true });
+    const span = result.success ? result.quiz.questions[0].source_spans[0] : null;
+    expect(span?.quote).toEqual('The process releases oxygen');
+    expect(sourceText.slice(span!.start, span!.end)).toEqual(span!.quote);
   });
 
-  it('should handle empty quiz data structure correctly', async () => {
-    const result = await generateQuiz(testInput);
+  it('should reject unknown fields and answers that do not fit', () => {
+    const reply = JSON.parse(validReply);
+    reply.questions[0].hint = 'Think about leaves';
+
+    expect(parseQuizReply(JSON.stringify(reply), request)).toMatchObject({ success: false });
+
+    const cloze = {
+      title: 'Cloze',
+      questions: [{
+        type: 'cloze',
+        question: 'Chlorophyll absorbs {{1}} and {{3}} light.',
+        answers: ['red', 'blue'],
+        explanation: 'See the second sentence.',
+        source_spans: [{ quote: 'Chlorophyll in the leaves absorbs mostly red and blue light.' }]
+      }]
+    };
+    const result = parseQuizReply(JSON.stringify(cloze), { ...request, question_types: ['cloze'] });
+    expect(result.success ? [] : result.issues).toEqual(['questions.0.question: Must mark its blanks {{1}}, {{2}}, ... in order']);
+  });
 
-    // Verify the quiz_data structure matches expected format
-    expect(result.quiz_data['quiz']).toBeArray();
-    const quizArray = result.quiz_data['quiz'] as any[];
-    expect(quizArray.length).toBeGreaterThan(0);
-    
-    quizArray.forEach((question: any) => {
-      expect(question).toMatchObject({
-        question: expect.any(String),
-        options: expect.arrayContaining([
-          expect.any(String),
-          expect.any(String), 
-          expect.any(String),
-          expect.any(String)
-        ]),
-        answer: expect.any(String)
-      });
-    });
+  it('should hold the reply to the requested count and types', () => {
+    const result = parseQuizReply(validReply, { ...request, question_count: 2, question_types: ['cloze'] });
+
+    expect(result.success ? [] : result.issues).toEqual([
+      'Write exactly 2 questions, not 1',
+      'questions.0.type: true_false was not asked for; use cloze'
+    ]);
   });
-});
\ No newline at end of file
+});
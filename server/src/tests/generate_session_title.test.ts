@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { chatSessionsTable } from '../db/schema';
+import { generateSessionTitle } from '../handlers/generate_session_title';
+import { sendAiMessage } from '../handlers/send_ai_message';
+import { updateChatSession } from '../handlers/update_chat_session';
+import { registerAIProvider, resetAIProvider } from '../ai';
+import { createLocalProvider } from '../ai/local_provider';
+import { eq } from 'drizzle-orm';
+
+const createSession = async (id: string) => {
+  await db.insert(chatSessionsTable)
+    .values({ id, title: 'New Chat' })
+    .execute();
+};
+
+// Local provider whose plain chat replies are replaced by a fixed title reply
+const useTitleReply = (reply: string) => {
+  const local = createLocalProvider();
+  registerAIProvider('title-test', () => ({
+    ...local,
+    chat: async request => ({ ...(await local.chat(request)), content: reply })
+  }));
+  process.env['AI_PROVIDER'] = 'title-test';
+  resetAIProvider();
+};
+
+describe('generateSessionTitle', () => {
+  beforeEach(createDB);
+  afterEach(async () => {
+    delete process.env['AI_PROVIDER'];
+    resetAIProvider();
+    await resetDB();
+  });
+
+  it('should title a session from the provider reply', async () => {
+    await createSession('session-1');
+    useTitleReply('"Closures in JavaScript."');
+
+    const result = await generateSessionTitle('session-1', 'What is a closure?', 'A closure is...');
+
+    expect(result?.title).toEqual('Closures in JavaScript');
+    expect(result?.title_source).toEqual('auto');
+  });
+
+  it('should fall back to the first words of the message for unusable replies', async () => {
+    await createSession('session-2');
+    useTitleReply('Sure! Here is a title you might like for this conversation about closures');
+
+    const result = await generateSessionTitle('session-2', 'Explain how closures capture variables in loops', 'Reply');
+
+    expect(result?.title).toEqual('Explain how closures capture variables in...');
+  });
+
+  it('should only title a session once', async () => {
+    await createSession('session-3');
+    useTitleReply('First title');
+    await generateSessionTitle('session-3', 'Hello', 'Hi');
+
+    useTitleReply('Second title');
+    const result = await generateSessionTitle('session-3', 'Another question', 'Answer');
+
+    expect(result).toBeNull();
+    const sessions = await db.select().from(chatSessionsTable).where(eq(chatSessionsTable.id, 'session-3')).execute();
+    expect(sessions[0].title).toEqual('First title');
+  });
+
+  it('should keep titles the user set', async () => {
+    await createSession('session-4');
+    await updateChatSession({ id: 'session-4', title: 'Project notes' });
+
+    const result = await generateSessionTitle('session-4', 'Hello', 'Hi');
+
+    expect(result).toBeNull();
+  });
+
+  it('should title new sessions after the first AI reply', async () => {
+    await createSession('session-5');
+
+    await sendAiMessage({ sessionId: 'session-5', messageContent: 'How do I reverse a list in Python?' });
+
+    const sessions = await db.select().from(chatSessionsTable).where(eq(chatSessionsTable.id, 'session-5')).execute();
+    expect(sessions[0].title_source).toEqual('auto');
+    expect(sessions[0].title).not.toEqual('New Chat');
+  });
+});
@@ -1,9 +1,10 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
-import { resetDB, createDB } from '../helpers';
+import { resetDB, createDB, createStorage, removeStorage } from '../helpers';
 import { db } from '../db';
 import { generatedVideosTable } from '../db/schema';
 import { type CreateGeneratedVideoInput } from '../schema';
 import { generateVideo } from '../handlers/generate_video';
+import { createAttachment } from '../handlers/create_attachment';
 import { eq } from 'drizzle-orm';
 
 // Test inputs
@@ -129,4 +130,31 @@ describe('generateVideo', () => {
     expect(result.prompt).toEqual(longPrompt);
     expect(result.status).toEqual('pending');
   });
-});
\ No newline at end of file
+});
+
+describe('generateVideo with an uploaded initial image', () => {
+  beforeEach(async () => {
+    await createDB();
+    await createStorage();
+  });
+  afterEach(async () => {
+    await removeStorage();
+    await resetDB();
+  });
+
+  it('should reference the attachment instead of storing the image', async () => {
+    const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00, 0x00, 0x0d]);
+    const attachment = await createAttachment('start.png', png);
+
+    const result = await generateVideo({ prompt: 'Zoom out slowly', initial_image_attachment_id: attachment.id });
+
+    expect(result.initial_image_attachment_id).toEqual(attachment.id);
+    expect(result.initial_image_url).toBeNull();
+  });
+
+  it('should reject attachments that are not images', async () => {
+    const attachment = await createAttachment('notes.txt', Buffer.from('Plain notes'));
+
+    await expect(generateVideo({ prompt: 'Zoom out slowly', initial_image_attachment_id: attachment.id })).rejects.toThrow(/not an image/);
+  });
+});
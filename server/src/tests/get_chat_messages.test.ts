@@ -4,6 +4,7 @@ import { db } from '../db';
 import { chatSessionsTable, chatMessagesTable } from '../db/schema';
 import { type GetChatMessagesInput } from '../schema';
 import { getChatMessages } from '../handlers/get_chat_messages';
+import { linkLegacyChatMessages } from '../db/migrations';
 
 describe('getChatMessages', () => {
   beforeEach(createDB);
@@ -294,4 +295,35 @@ describe('getChatMessages', () => {
 
     expect(result).toHaveLength(0);
   });
-});
\ No newline at end of file
+
+  it('should leave messages saved before they had parents as they are', async () => {
+    await createTestSession();
+    await createTestMessages('test-session-1', 3);
+
+    await getChatMessages({ session_id: 'test-session-1' });
+    const saved = await db.select().from(chatMessagesTable).execute();
+
+    expect(saved.map(message => message.parent_id)).toEqual([null, null, null]);
+  });
+
+  it('should return messages linked into one chain by the data migration', async () => {
+    await createTestSession();
+    await createTestSession('test-session-2');
+    await createTestMessages('test-session-1', 3);
+    const [root] = await db.insert(chatMessagesTable)
+      .values({ session_id: 'test-session-2', role: 'user', content: 'Linked question' })
+      .returning()
+      .execute();
+    await db.insert(chatMessagesTable)
+      .values({ session_id: 'test-session-2', parent_id: root.id, role: 'assistant', content: 'Linked answer' })
+      .execute();
+
+    expect(await linkLegacyChatMessages()).toEqual(2);
+    expect(await linkLegacyChatMessages()).toEqual(0);
+
+    const result = await getChatMessages({ session_id: 'test-session-1' });
+    expect(result.map(message => message.parent_id)).toEqual([null, result[0].id, result[1].id]);
+    const linked = await getChatMessages({ session_id: 'test-session-2' });
+    expect(linked.map(message => message.parent_id)).toEqual([null, root.id]);
+  });
+});
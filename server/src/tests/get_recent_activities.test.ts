@@ -9,6 +9,7 @@ import {
   webSearchTable 
 } from '../db/schema';
 import { getRecentActivities } from '../handlers/get_recent_activities';
+import { type QuizData } from '../schema';
 
 describe('getRecentActivities', () => {
   beforeEach(createDB);
@@ -235,15 +236,34 @@ describe('getRecentActivities', () => {
   });
 
   it('should handle JSON fields correctly', async () => {
-    const quizData = {
+    const quizData: QuizData = {
+      title: 'Math and Geography Quiz',
+      difficulty: 'easy',
       questions: [
-        { question: 'What is 2+2?', answer: '4', options: ['3', '4', '5'] },
-        { question: 'What is the capital of France?', answer: 'Paris' }
-      ],
-      title: 'Math and Geography Quiz'
+        {
+          type: 'multiple_choice',
+          question: 'What is 2+2?',
+          options: ['3', '4', '5'],
+          answer_index: 1,
+          explanation: 'Two and two make four.',
+          source_spans: [{ start: 0, end: 11, quote: 'Educational' }]
+        },
+        {
+          type: 'short_answer',
+          question: 'What is the capital of France?',
+          answer: 'Paris',
+          accepted_answers: [],
+          explanation: 'Paris is the capital of France.',
+          source_spans: [{ start: 12, end: 19, quote: 'content' }]
+        }
+      ]
     };
 
-    const sources = ['https://example.com/source1', 'https://example.com/source2'];
+    const fetchedAt = new Date('2026-01-02T03:04:05Z');
+    const sources = [
+      { url: 'https://example.com/source1', title: 'Source 1', snippet: 'First source', fetched_at: fetchedAt },
+      'https://example.com/source2' // Saved before sources were structured
+    ];
 
     await Promise.all([
       db.insert(quizTable).values({
@@ -272,7 +292,10 @@ describe('getRecentActivities', () => {
     // Verify web search sources
     const webSearchActivity = result.find(r => r.type === 'web_search');
     expect(webSearchActivity).toBeDefined();
-    expect(webSearchActivity!.data.sources).toEqual(sources);
+    expect(webSearchActivity!.data.sources).toEqual([
+      { url: 'https://example.com/source1', title: 'Source 1', snippet: 'First source', fetched_at: fetchedAt },
+      { url: 'https://example.com/source2', title: 'https://example.com/source2', snippet: '', fetched_at: null }
+    ]);
   });
 
   it('should use default limit of 10 when no limit provided', async () => {
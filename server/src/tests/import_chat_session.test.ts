@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { chatMessagesTable, chatSessionsTable } from '../db/schema';
+import { chatExportSchema } from '../schema';
+import { exportChatSession } from '../handlers/export_chat_session';
+import { createPersona } from '../handlers/create_persona';
+import { importChatSession } from '../handlers/import_chat_session';
+import { eq, asc } from 'drizzle-orm';
+
+const exportedFile = {
+  format: 'okaigpt-chat',
+  version: 1,
+  exported_at: '2026-01-02T10:00:00.000Z',
+  session: {
+    title: 'Imported chat',
+    title_source: 'auto',
+    gen_z_mode: false,
+    copy_code_only_mode: true,
+    target_language: null,
+    created_at: '2026-01-01T09:00:00.000Z',
+    updated_at: '2026-01-01T09:05:00.000Z'
+  },
+  messages: [
+    // Children listed before their parent still import correctly
+    { id: 12, parent_id: 10, role: 'assistant', content: 'Answer', content_type: 'text', metadata: null, created_at: '2026-01-01T09:01:00.000Z' },
+    { id: 10, parent_id: null, role: 'user', content: 'Question', content_type: 'pdf', metadata: { hasPdf: true }, created_at: '2026-01-01T09:00:30.000Z' },
+    { id: 13, parent_id: 10, role: 'assistant', content: 'Other answer', content_type: 'text', metadata: { cancelled: true }, created_at: '2026-01-01T09:02:00.000Z' }
+  ]
+};
+
+describe('importChatSession', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should recreate the session and its message tree', async () => {
+    const session = await importChatSession({ data: chatExportSchema.parse(exportedFile) });
+
+    expect(session.title).toEqual('Imported chat');
+    expect(session.title_source).toEqual('auto');
+    expect(session.copy_code_only_mode).toBe(true);
+    expect(session.created_at).toEqual(new Date('2026-01-01T09:00:00.000Z'));
+    // Version 1 files carry no persona or generation settings
+    expect(session).toMatchObject({ persona_id: null, model: null, temperature: null, max_tokens: null, stop: null });
+
+    const messages = await db.select()
+      .from(chatMessagesTable)
+      .where(eq(chatMessagesTable.session_id, session.id))
+      .orderBy(asc(chatMessagesTable.created_at))
+      .execute();
+
+    expect(messages.map(message => message.content)).toEqual(['Question', 'Answer', 'Other answer']);
+    expect(messages[0].parent_id).toBeNull();
+    expect(messages[0].content_type).toEqual('pdf');
+    expect(messages[0].metadata).toEqual({ hasPdf: true });
+    expect(messages[1].parent_id).toEqual(messages[0].id);
+    expect(messages[2].parent_id).toEqual(messages[0].id);
+    expect(messages[2].metadata).toEqual({ cancelled: true });
+  });
+
+  it('should round-trip an exported session as a copy', async () => {
+    const original = await importChatSession({ data: chatExportSchema.parse(exportedFile) });
+    const file = await exportChatSession({ sessionId: original.id, format: 'json' });
+
+    const copy = await importChatSession({ data: chatExportSchema.parse(JSON.parse(file.content)) });
+
+    expect(copy.id).not.toEqual(original.id);
+    const copyExport = chatExportSchema.parse(JSON.parse((await exportChatSession({ sessionId: copy.id, format: 'json' })).content));
+    const originalExport = chatExportSchema.parse(JSON.parse(file.content));
+    expect(copyExport.session).toEqual(originalExport.session);
+    expect(copyExport.messages.map(({ id, parent_id, ...rest }) => rest))
+      .toEqual(originalExport.messages.map(({ id, parent_id, ...rest }) => rest));
+  });
+
+  it('should round-trip the persona and generation settings', async () => {
+    const persona = await createPersona({ name: 'Tutor', system_prompt: 'Explain step by step.' });
+    const settings = { persona_id: persona.id, model: 'local/large', temperature: 0.7, max_tokens: 512, stop: ['END', '###'] };
+    const original = await importChatSession({
+      data: chatExportSchema.parse({ ...exportedFile, version: 2, session: { ...exportedFile.session, ...settings } })
+    });
+    expect(original).toMatchObject(settings);
+
+    const file = await exportChatSession({ sessionId: original.id, format: 'json' });
+    const copy = await importChatSession({ data: chatExportSchema.parse(JSON.parse(file.content)) });
+
+    expect(copy).toMatchObject(settings);
+  });
+
+  it('should drop a persona that does not exist on this server', async () => {
+    const session = await importChatSession({
+      data: chatExportSchema.parse({ ...exportedFile, version: 2, session: { ...exportedFile.session, persona_id: 99, temperature: 0.2 } })
+    });
+
+    expect(session.persona_id).toBeNull();
+    expect(session.temperature).toEqual(0.2);
+  });
+
+  it('should reject files that fail validation', () => {
+    expect(chatExportSchema.safeParse({ ...exportedFile, version: 3 }).success).toBe(false);
+    expect(chatExportSchema.safeParse({ ...exportedFile, format: 'other' }).success).toBe(false);
+    expect(chatExportSchema.safeParse({
+      ...exportedFile,
+      messages: [{ ...exportedFile.messages[0], role: 'system' }]
+    }).success).toBe(false);
+
+    const dangling = chatExportSchema.safeParse({ ...exportedFile, messages: [exportedFile.messages[0]] });
+    expect(dangling.success).toBe(false);
+    expect(dangling.error?.issues[0].message).toMatch(/unknown parent/i);
+  });
+
+  it('should not leave a partial session behind when the tree is invalid', async () => {
+    const cyclic = chatExportSchema.parse({
+      ...exportedFile,
+      messages: [
+        { ...exportedFile.messages[1], parent_id: 12 },
+        exportedFile.messages[0]
+      ]
+    });
+
+    await expect(importChatSession({ data: cyclic })).rejects.toThrow(/cycle/i);
+
+    const sessions = await db.select().from(chatSessionsTable).execute();
+    expect(sessions).toHaveLength(0);
+  });
+});
@@ -0,0 +1,236 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { jobsTable, type Job } from '../db/schema';
+import {
+  enqueueJob,
+  claimJob,
+  heartbeatJob,
+  completeJob,
+  failJob,
+  recoverStaleJobs,
+  createJobWorker,
+  JobLostError,
+  type WorkerOptions
+} from '../jobs';
+import { eq } from 'drizzle-orm';
+
+const options: WorkerOptions = {
+  pollIntervalMs: 10,
+  heartbeatIntervalMs: 1000,
+  heartbeatTimeoutMs: 30000,
+  maxAttempts: 3,
+  retryDelayMs: 0
+};
+
+const loadJob = async (id: number): Promise<Job> => {
+  const rows = await db.select().from(jobsTable).where(eq(jobsTable.id, id)).execute();
+  return rows[0];
+};
+
+// Makes a running job look like its worker died a minute ago
+const expireHeartbeat = (id: number) => db.update(jobsTable)
+  .set({ heartbeat_at: new Date(Date.now() - 60000) })
+  .where(eq(jobsTable.id, id))
+  .execute();
+
+describe('job queue', () => {
+  beforeEach(createDB);
+  afterEach(async () => {
+    delete process.env['JOB_MAX_ATTEMPTS'];
+    await resetDB();
+  });
+
+  it('should queue jobs with the configured number of attempts', async () => {
+    process.env['JOB_MAX_ATTEMPTS'] = '5';
+
+    const job = await enqueueJob('video', { video_id: 1 });
+
+    expect(job.status).toEqual('queued');
+    expect(job.payload).toEqual({ video_id: 1 });
+    expect(job.attempts).toEqual(0);
+    expect(job.max_attempts).toEqual(5);
+  });
+
+  it('should claim the oldest due job of the requested kinds', async () => {
+    await enqueueJob('other', {});
+    await enqueueJob('video', { video_id: 2 }, { runAt: new Date(Date.now() + 60000) });
+    const due = await enqueueJob('video', { video_id: 1 });
+
+    const claimed = await claimJob(['video'], 'worker-a');
+
+    expect(claimed?.id).toEqual(due.id);
+    expect(claimed?.status).toEqual('running');
+    expect(claimed?.attempts).toEqual(1);
+    expect(claimed?.locked_by).toEqual('worker-a');
+    expect(claimed?.heartbeat_at).toBeInstanceOf(Date);
+    expect(await claimJob(['video'], 'worker-a')).toBeNull();
+  });
+
+  it('should never hand the same job to two workers', async () => {
+    for (let i = 0; i < 3; i++) {
+      await enqueueJob('video', { video_id: i });
+    }
+
+    const claims = await Promise.all(
+      Array.from({ length: 5 }, (_, i) => claimJob(['video'], `worker-${i}`))
+    );
+    const claimedIds = claims.filter((job): job is Job => job !== null).map(job => job.id);
+
+    expect(claimedIds).toHaveLength(3);
+    expect(new Set(claimedIds).size).toEqual(3);
+  });
+
+  it('should only let the claiming worker heartbeat and complete a job', async () => {
+    const job = await enqueueJob('video', {});
+    await claimJob(['video'], 'worker-a');
+
+    expect(await heartbeatJob(job.id, 'worker-b')).toBe(false);
+    expect(await completeJob(job.id, 'worker-b')).toBe(false);
+    expect(await heartbeatJob(job.id, 'worker-a')).toBe(true);
+    expect(await completeJob(job.id, 'worker-a')).toBe(true);
+
+    const completed = await loadJob(job.id);
+    expect(completed.status).toEqual('completed');
+    expect(completed.locked_by).toBeNull();
+  });
+
+  it('should retry failed attempts with backoff until they run out', async () => {
+    const job = await enqueueJob('video', {}, { maxAttempts: 2 });
+
+    const first = await claimJob(['video'], 'worker-a');
+    const before = Date.now();
+    const retried = await failJob(first!, 'Backend unavailable', 1000);
+
+    expect(retried?.willRetry).toBe(true);
+    expect(retried?.job.status).toEqual('queued');
+    expect(retried?.job.last_error).toEqual('Backend unavailable');
+    expect(retried?.job.run_at.getTime()).toBeGreaterThanOrEqual(before + 1000);
+    expect(await claimJob(['video'], 'worker-a')).toBeNull();
+
+    await db.update(jobsTable).set({ run_at: new Date() }).where(eq(jobsTable.id, job.id)).execute();
+    const second = await claimJob(['video'], 'worker-a');
+    expect(second?.attempts).toEqual(2);
+
+    const failed = await failJob(second!, 'Backend unavailable again', 1000);
+    expect(failed?.willRetry).toBe(false);
+    expect(failed?.job.status).toEqual('failed');
+    expect(await claimJob(['video'], 'worker-a')).toBeNull();
+  });
+
+  it('should recover running jobs whose worker stopped sending heartbeats', async () => {
+    const job = await enqueueJob('video', {});
+    await claimJob(['video'], 'worker-a');
+
+    expect(await recoverStaleJobs(['video'], 30000, 0)).toEqual([]);
+
+    await expireHeartbeat(job.id);
+    const recovered = await recoverStaleJobs(['video'], 30000, 0);
+
+    expect(recovered).toHaveLength(1);
+    expect(recovered[0].willRetry).toBe(true);
+    expect(recovered[0].job.status).toEqual('queued');
+    expect(recovered[0].job.last_error).toEqual('Worker worker-a stopped responding');
+    expect(await heartbeatJob(job.id, 'worker-a')).toBe(false);
+
+    const reclaimed = await claimJob(['video'], 'worker-b');
+    expect(reclaimed?.id).toEqual(job.id);
+    expect(reclaimed?.attempts).toEqual(2);
+  });
+});
+
+describe('job worker', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should run due jobs and mark them completed', async () => {
+    const job = await enqueueJob('echo', { text: 'hello' });
+    const seen: unknown[] = [];
+    const worker = createJobWorker({
+      echo: { run: async (claimed) => { seen.push(claimed.payload); } }
+    }, options, 'worker-a');
+
+    expect(await worker.runOnce()).toBe(true);
+    expect(await worker.runOnce()).toBe(false);
+
+    expect(seen).toEqual([{ text: 'hello' }]);
+    expect((await loadJob(job.id)).status).toEqual('completed');
+  });
+
+  it('should report failed attempts and whether they will be retried', async () => {
+    const job = await enqueueJob('flaky', {}, { maxAttempts: 2 });
+    const failures: [number, string, boolean][] = [];
+    const worker = createJobWorker({
+      flaky: {
+        run: async () => { throw new Error('Boom'); },
+        onAttemptFailed: async (failed, error, willRetry) => { failures.push([failed.attempts, error, willRetry]); }
+      }
+    }, options, 'worker-a');
+
+    await worker.runOnce();
+    await worker.runOnce();
+
+    expect(failures).toEqual([[1, 'Boom', true], [2, 'Boom', false]]);
+    expect((await loadJob(job.id)).status).toEqual('failed');
+  });
+
+  it('should report jobs recovered from a dead worker', async () => {
+    const job = await enqueueJob('echo', {}, { maxAttempts: 1 });
+    await claimJob(['echo'], 'dead-worker');
+    await expireHeartbeat(job.id);
+
+    const failures: [string, boolean][] = [];
+    const worker = createJobWorker({
+      echo: {
+        run: async () => {},
+        onAttemptFailed: async (_failed, error, willRetry) => { failures.push([error, willRetry]); }
+      }
+    }, options, 'worker-a');
+
+    expect(await worker.runOnce()).toBe(false);
+    expect(failures).toEqual([['Worker dead-worker stopped responding', false]]);
+    expect((await loadJob(job.id)).status).toEqual('failed');
+  });
+
+  it('should stop working on a job that was taken over', async () => {
+    const job = await enqueueJob('slow', {});
+    let heartbeatError: unknown = null;
+    let aborted = false;
+    const worker = createJobWorker({
+      slow: {
+        run: async (claimed, context) => {
+          // Another worker's recovery takes the job away mid-run
+          await expireHeartbeat(claimed.id);
+          await recoverStaleJobs(['slow'], 30000, 0);
+          await context.heartbeat().catch((error) => { heartbeatError = error; });
+          aborted = context.signal.aborted;
+        }
+      }
+    }, options, 'worker-a');
+
+    await worker.runOnce();
+
+    expect(heartbeatError).toBeInstanceOf(JobLostError);
+    expect(aborted).toBe(true);
+    // Still queued for the next worker rather than completed by the one that lost it
+    const current = await loadJob(job.id);
+    expect(current.status).toEqual('queued');
+    expect(current.attempts).toEqual(1);
+  });
+
+  it('should keep polling until stopped', async () => {
+    const ran: number[] = [];
+    const worker = createJobWorker({
+      echo: { run: async (claimed) => { ran.push(claimed.id); } }
+    }, options, 'worker-a');
+
+    worker.start();
+    const job = await enqueueJob('echo', {});
+    for (let i = 0; i < 100 && ran.length === 0; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    await worker.stop();
+
+    expect(ran).toEqual([job.id]);
+  });
+});
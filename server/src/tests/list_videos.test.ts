@@ -0,0 +1,42 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { generatedVideosTable } from '../db/schema';
+import { listVideos } from '../handlers/list_videos';
+
+describe('listVideos', () => {
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(generatedVideosTable).values([
+      { prompt: 'First', status: 'completed', progress: 100, created_at: new Date('2026-03-01T10:00:00') },
+      { prompt: 'Second', status: 'failed', created_at: new Date('2026-03-02T10:00:00') },
+      { prompt: 'Third', status: 'completed', progress: 100, created_at: new Date('2026-03-03T10:00:00') },
+      { prompt: 'Fourth', status: 'pending', created_at: new Date('2026-03-04T10:00:00') }
+    ]).execute();
+  });
+  afterEach(resetDB);
+
+  it('should list videos newest first with the total count', async () => {
+    const list = await listVideos({});
+
+    expect(list.videos.map(video => video.prompt)).toEqual(['Fourth', 'Third', 'Second', 'First']);
+    expect(list.total).toEqual(4);
+  });
+
+  it('should page through videos', async () => {
+    const firstPage = await listVideos({ limit: 3 });
+    const secondPage = await listVideos({ limit: 3, offset: 3 });
+
+    expect(firstPage.videos.map(video => video.prompt)).toEqual(['Fourth', 'Third', 'Second']);
+    expect(secondPage.videos.map(video => video.prompt)).toEqual(['First']);
+    expect(secondPage.total).toEqual(4);
+  });
+
+  it('should filter by status', async () => {
+    const list = await listVideos({ status: 'completed' });
+
+    expect(list.videos.map(video => video.prompt)).toEqual(['Third', 'First']);
+    expect(list.total).toEqual(2);
+    expect((await listVideos({ status: 'cancelled' })).videos).toEqual([]);
+  });
+});
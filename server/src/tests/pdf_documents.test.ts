@@ -0,0 +1,155 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createStorage, removeStorage, buildPdf } from '../helpers';
+import { db } from '../db';
+import { aiUsageTable, chatMessagesTable, chatSessionsTable, pdfChunksTable } from '../db/schema';
+import { uploadPdfDocument } from '../handlers/upload_pdf_document';
+import { createAttachment } from '../handlers/create_attachment';
+import { getPdfDocuments } from '../handlers/get_pdf_documents';
+import { sendAiMessage } from '../handlers/send_ai_message';
+import { chunkPages, extractPdfPages, topKBySimilarity } from '../rag';
+import { registerAIProvider, resetAIProvider, type AIChatRequest } from '../ai';
+import { createLocalProvider } from '../ai/local_provider';
+import { asc, eq } from 'drizzle-orm';
+
+const reportPages = [
+  'Revenue grew to 12 million dollars in the fourth quarter.',
+  'The company hired 40 new engineers in Berlin.',
+  'Penguins live in the southern hemisphere.'
+];
+
+const uploadReport = async (sessionId: string) => {
+  const attachment = await createAttachment('report.pdf', buildPdf(reportPages));
+  return uploadPdfDocument({ sessionId, attachmentId: attachment.id });
+};
+
+describe('PDF text extraction and chunking', () => {
+  it('should extract the text of every page', async () => {
+    const pages = await extractPdfPages(new Uint8Array(buildPdf(reportPages)));
+
+    expect(pages).toEqual(reportPages);
+  });
+
+  it('should keep chunks within one page and overlap long pages', () => {
+    const long = Array.from({ length: 60 }, (_, i) => `Sentence number ${i} is here.`).join(' ');
+
+    const chunks = chunkPages(['Short first page.', long], { size: 300, overlap: 50 });
+
+    expect(chunks[0]).toEqual({ page: 1, text: 'Short first page.' });
+    expect(chunks.slice(1).every(chunk => chunk.page === 2 && chunk.text.length <= 300)).toBe(true);
+    expect(chunks.length).toBeGreaterThan(4);
+    // Consecutive chunks share text across the cut
+    expect(long.indexOf(chunks[2].text)).toBeLessThan(long.indexOf(chunks[1].text) + chunks[1].text.length);
+  });
+
+  it('should rank by cosine similarity and skip other dimensions', () => {
+    const ranked = topKBySimilarity([
+      { id: 1, embedding: [1, 0] },
+      { id: 2, embedding: [0, 1] },
+      { id: 3, embedding: [1, 0, 0] },
+      { id: 4, embedding: [1, 1] }
+    ], [1, 0], 2);
+
+    expect(ranked.map(item => item.id)).toEqual([1, 4]);
+    expect(ranked[0].score).toBeCloseTo(1);
+  });
+});
+
+describe('uploadPdfDocument', () => {
+  beforeEach(async () => {
+    await createDB();
+    await createStorage();
+    await db.insert(chatSessionsTable).values({ id: 'session-pdf' }).execute();
+  });
+  afterEach(async () => {
+    delete process.env['AI_PROVIDER'];
+    resetAIProvider();
+    await removeStorage();
+    await resetDB();
+  });
+
+  it('should store page-tagged chunks with embeddings', async () => {
+    const document = await uploadReport('session-pdf');
+
+    expect(document).toMatchObject({ session_id: 'session-pdf', attachment_id: expect.any(Number), filename: 'report.pdf', page_count: 3, chunk_count: 3, embedding_model: 'local/embedding' });
+
+    const chunks = await db.select()
+      .from(pdfChunksTable)
+      .where(eq(pdfChunksTable.document_id, document.id))
+      .orderBy(asc(pdfChunksTable.chunk_index))
+      .execute();
+    expect(chunks.map(chunk => chunk.page)).toEqual([1, 2, 3]);
+    expect(chunks[1].text).toEqual(reportPages[1]);
+    expect(chunks[0].embedding.length).toBeGreaterThan(0);
+
+    expect(await getPdfDocuments({ sessionId: 'session-pdf' })).toEqual([document]);
+  });
+
+  it('should record the embedding calls as PDF indexing', async () => {
+    await uploadReport('session-pdf');
+
+    const usage = await db.select().from(aiUsageTable).execute();
+    expect(usage).toHaveLength(1);
+    expect(usage[0]).toMatchObject({ feature: 'pdf_indexing', operation: 'embedding', session_id: 'session-pdf' });
+  });
+
+  it('should reject attachments that are not PDFs', async () => {
+    const notes = await createAttachment('notes.pdf', Buffer.from('just some text'));
+
+    await expect(uploadPdfDocument({ sessionId: 'session-pdf', attachmentId: notes.id })).rejects.toThrow(/not a PDF/);
+  });
+
+  it('should reject unknown sessions', async () => {
+    await expect(uploadReport('missing')).rejects.toThrow(/session not found/i);
+  });
+
+  it('should answer from the most relevant pages and cite them', async () => {
+    const requests: AIChatRequest[] = [];
+    const local = createLocalProvider();
+    registerAIProvider('capture', () => ({
+      ...local,
+      chat: async request => {
+        requests.push(request);
+        return local.chat(request);
+      }
+    }));
+    process.env['AI_PROVIDER'] = 'capture';
+    resetAIProvider();
+
+    const document = await uploadReport('session-pdf');
+    const reply = await sendAiMessage({
+      sessionId: 'session-pdf',
+      messageContent: 'How many engineers were hired in Berlin?',
+      pdfDocumentId: document.id
+    });
+
+    const systemPrompt = requests[0].messages[0];
+    expect(systemPrompt.role).toEqual('system');
+    expect(systemPrompt.content).toContain('[report.pdf, p. 2]');
+    expect(systemPrompt.content).toContain(reportPages[1]);
+
+    const citations = reply.metadata?.['citations'];
+    expect(citations[0]).toMatchObject({ document_id: document.id, filename: 'report.pdf', page: 2 });
+    expect(citations[0].score).toBeGreaterThan(citations[citations.length - 1].score);
+
+    const userMessages = await db.select()
+      .from(chatMessagesTable)
+      .where(eq(chatMessagesTable.role, 'user'))
+      .execute();
+    expect(userMessages[0].content).toEqual('How many engineers were hired in Berlin?');
+    expect(userMessages[0].attachment_id).toEqual(document.attachment_id);
+    expect(userMessages[0].metadata).toEqual({ pdfDocumentId: document.id, filename: 'report.pdf', page_count: 3 });
+  });
+
+  it('should limit retrieval to RAG_TOP_K chunks', async () => {
+    process.env['RAG_TOP_K'] = '1';
+    try {
+      await uploadReport('session-pdf');
+      const reply = await sendAiMessage({ sessionId: 'session-pdf', messageContent: 'Where do penguins live?' });
+
+      expect(reply.metadata?.['citations']).toHaveLength(1);
+      expect(reply.metadata?.['citations'][0].page).toEqual(3);
+    } finally {
+      delete process.env['RAG_TOP_K'];
+    }
+  });
+});
@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { chatSessionsTable } from '../db/schema';
+import { createPersona } from '../handlers/create_persona';
+import { getPersonas } from '../handlers/get_personas';
+import { updatePersona } from '../handlers/update_persona';
+import { deletePersona } from '../handlers/delete_persona';
+import { createChatSession } from '../handlers/create_chat_session';
+import { updateChatSession } from '../handlers/update_chat_session';
+import { sendAiMessage } from '../handlers/send_ai_message';
+import { registerAIProvider, resetAIProvider, type AIChatRequest } from '../ai';
+import { createLocalProvider } from '../ai/local_provider';
+import { eq } from 'drizzle-orm';
+
+const pirate = {
+  name: 'Pirate',
+  system_prompt: 'You are a pirate. Answer like one.',
+  model_params: { temperature: 0.9, max_tokens: 300 },
+  examples: [{ user: 'Hello', assistant: 'Ahoy, matey!' }]
+};
+
+describe('personas', () => {
+  beforeEach(createDB);
+  afterEach(async () => {
+    delete process.env['AI_PROVIDER'];
+    resetAIProvider();
+    await resetDB();
+  });
+
+  it('should create personas with defaults for the optional fields', async () => {
+    const persona = await createPersona({ name: 'Tutor', system_prompt: 'Explain step by step.' });
+
+    expect(persona.id).toBeDefined();
+    expect(persona.name).toEqual('Tutor');
+    expect(persona.model_params).toEqual({});
+    expect(persona.examples).toEqual([]);
+    expect(persona.created_at).toBeInstanceOf(Date);
+  });
+
+  it('should list personas by name', async () => {
+    await createPersona({ name: 'Zed', system_prompt: 'Z' });
+    await createPersona(pirate);
+
+    const personas = await getPersonas();
+
+    expect(personas.map(persona => persona.name)).toEqual(['Pirate', 'Zed']);
+    expect(personas[0].model_params).toEqual(pirate.model_params);
+    expect(personas[0].examples).toEqual(pirate.examples);
+  });
+
+  it('should only change the provided fields', async () => {
+    const persona = await createPersona(pirate);
+
+    const updated = await updatePersona({ id: persona.id, model_params: { temperature: 0.2 } });
+
+    expect(updated.name).toEqual('Pirate');
+    expect(updated.examples).toEqual(pirate.examples);
+    expect(updated.model_params).toEqual({ temperature: 0.2 });
+    expect(updated.updated_at.getTime()).toBeGreaterThanOrEqual(persona.updated_at.getTime());
+  });
+
+  it('should reject updates to unknown personas', async () => {
+    await expect(updatePersona({ id: 999, name: 'Ghost' })).rejects.toThrow(/not found/i);
+  });
+
+  it('should let sessions pin and unpin a persona', async () => {
+    const persona = await createPersona(pirate);
+    const session = await createChatSession({ persona_id: persona.id });
+
+    expect(session.persona_id).toEqual(persona.id);
+
+    const unpinned = await updateChatSession({ id: session.id, persona_id: null });
+    expect(unpinned.persona_id).toBeNull();
+
+    await expect(updateChatSession({ id: session.id, persona_id: 999 })).rejects.toThrow(/persona with id 999 not found/i);
+    await expect(createChatSession({ persona_id: 999 })).rejects.toThrow(/persona with id 999 not found/i);
+  });
+
+  it('should unpin the persona from sessions when it is deleted', async () => {
+    const persona = await createPersona(pirate);
+    const session = await createChatSession({ persona_id: persona.id });
+
+    await deletePersona({ id: persona.id });
+
+    const sessions = await db.select()
+      .from(chatSessionsTable)
+      .where(eq(chatSessionsTable.id, session.id))
+      .execute();
+
+    expect(sessions[0].persona_id).toBeNull();
+    expect(await getPersonas()).toHaveLength(0);
+  });
+
+  it('should send the pinned persona with replies', async () => {
+    const requests: AIChatRequest[] = [];
+    const local = createLocalProvider();
+    registerAIProvider('capture', () => ({
+      ...local,
+      chat: async request => {
+        requests.push(request);
+        return local.chat(request);
+      }
+    }));
+    process.env['AI_PROVIDER'] = 'capture';
+    resetAIProvider();
+
+    const persona = await createPersona(pirate);
+    const session = await createChatSession({ title: 'Pinned', persona_id: persona.id, gen_z_mode: true });
+
+    await sendAiMessage({ sessionId: session.id, messageContent: 'Where is the treasure?' });
+
+    const request = requests[0];
+    expect(request.temperature).toEqual(0.9);
+    expect(request.max_tokens).toEqual(300);
+    expect(request.messages[0].role).toEqual('system');
+    expect(request.messages[0].content).toStartWith('You are a pirate.');
+    expect(request.messages[0].content).toContain('Gen Z');
+    expect(request.messages.slice(1).map(message => message.content)).toEqual([
+      'Hello', 'Ahoy, matey!', 'Where is the treasure?'
+    ]);
+  });
+});
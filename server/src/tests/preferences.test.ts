@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { preferencesTable } from '../db/schema';
+import { getPreferences } from '../handlers/get_preferences';
+import { updatePreferences } from '../handlers/update_preferences';
+
+describe('preferences', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return the defaults before anything is saved', async () => {
+    const preferences = await getPreferences();
+
+    expect(preferences).toMatchObject({
+      notifications_enabled: false,
+      auto_save_enabled: true,
+      dark_mode: true,
+      analytics_enabled: false,
+      gen_z_mode: false,
+      copy_code_only_mode: false,
+      target_language: null
+    });
+    expect(preferences.updated_at).toBeInstanceOf(Date);
+    expect(preferences).not.toHaveProperty('id');
+  });
+
+  it('should only change the provided fields', async () => {
+    await updatePreferences({ dark_mode: false, target_language: 'german' });
+    const result = await updatePreferences({ gen_z_mode: true });
+
+    expect(result.dark_mode).toBe(false);
+    expect(result.target_language).toEqual('german');
+    expect(result.gen_z_mode).toBe(true);
+    expect(result.auto_save_enabled).toBe(true);
+  });
+
+  it('should persist updates across reads', async () => {
+    const before = await getPreferences();
+    await updatePreferences({ analytics_enabled: true });
+
+    const after = await getPreferences();
+
+    expect(after.analytics_enabled).toBe(true);
+    expect(after.updated_at.getTime()).toBeGreaterThanOrEqual(before.updated_at.getTime());
+  });
+
+  it('should keep a single preferences row', async () => {
+    await getPreferences();
+    await updatePreferences({ copy_code_only_mode: true });
+    await getPreferences();
+
+    const rows = await db.select().from(preferencesTable).execute();
+    expect(rows).toHaveLength(1);
+  });
+});
@@ -0,0 +1,184 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { quizAttemptsTable, quizTable } from '../db/schema';
+import { type QuizData } from '../schema';
+import { submitQuizAttempt } from '../handlers/submit_quiz_attempt';
+import { listQuizAttempts } from '../handlers/list_quiz_attempts';
+import { listQuizzes } from '../handlers/list_quizzes';
+import { getQuiz } from '../handlers/get_quiz';
+import { gradeQuizAttempt, matchesFuzzily } from '../quiz';
+
+const span = [{ start: 0, end: 6, quote: 'Source' }];
+
+const quizData: QuizData = {
+  title: 'Capitals',
+  difficulty: 'medium',
+  questions: [
+    { type: 'multiple_choice', question: 'Capital of France?', options: ['Lyon', 'Paris'], answer_index: 1, explanation: 'Paris.', source_spans: span },
+    { type: 'multi_select', question: 'Which are in Italy?', options: ['Rome', 'Milan', 'Madrid', 'Turin'], answer_indices: [0, 1, 3], explanation: 'Rome, Milan and Turin.', source_spans: span },
+    { type: 'true_false', question: 'Berlin is in Germany.', answer: true, explanation: 'It is.', source_spans: span },
+    { type: 'short_answer', question: 'Capital of Portugal?', answer: 'Lisbon', accepted_answers: ['Lisboa'], explanation: 'Lisbon.', source_spans: span },
+    { type: 'cloze', question: '{{1}} is the capital of {{2}}.', answers: ['Vienna', 'Austria'], explanation: 'Vienna, Austria.', source_spans: span }
+  ]
+};
+
+const createQuiz = async () => {
+  const [quiz] = await db.insert(quizTable).values({ source_text: 'Source text', quiz_data: quizData }).returning().execute();
+  return quiz;
+};
+
+// How quizzes were stored before typed questions
+const createLegacyQuiz = async () => {
+  const [quiz] = await db.insert(quizTable).values({
+    source_text: 'Old source text',
+    quiz_data: { quiz: [{ question: 'What is the main topic?', options: ['Topic A', 'Topic B'], answer: 'Topic A' }] }
+  }).returning().execute();
+  return quiz;
+};
+
+describe('gradeQuizAttempt', () => {
+  it('should give full marks for correct answers', () => {
+    const graded = gradeQuizAttempt(quizData, [
+      { type: 'multiple_choice', selected: 1 },
+      { type: 'multi_select', selected: [3, 1, 0] },
+      { type: 'true_false', value: true },
+      { type: 'short_answer', text: '  lisboa ' },
+      { type: 'cloze', blanks: ['Vienna', 'austria'] }
+    ]);
+
+    expect(graded.results.every(result => result.correct)).toBe(true);
+    expect(graded.score).toEqual(5);
+    expect(graded.max_score).toEqual(5);
+  });
+
+  it('should give partial credit for multi-select and cloze questions', () => {
+    const graded = gradeQuizAttempt(quizData, [
+      null,
+      { type: 'multi_select', selected: [0, 1, 2] },
+      { type: 'true_false', value: false },
+      { type: 'short_answer', text: 'Porto' },
+      { type: 'cloze', blanks: ['Vienna', 'Germany'] }
+    ]);
+
+    expect(graded.results.map(result => result.score)).toEqual([0, 1 / 3, 0, 0, 0.5]);
+    expect(graded.results.some(result => result.correct)).toBe(false);
+  });
+
+  it('should not reward selecting every option', () => {
+    const graded = gradeQuizAttempt(quizData, [null, { type: 'multi_select', selected: [0, 1, 2, 3] }, null, null, null]);
+
+    expect(graded.results[1].score).toBeCloseTo(2 / 3);
+    expect(gradeQuizAttempt(quizData, [null, { type: 'multi_select', selected: [0, 2] }, null, null, null]).results[1].score).toEqual(0);
+  });
+
+  it('should reject answers that do not fit the quiz', () => {
+    expect(() => gradeQuizAttempt(quizData, [null])).toThrow(/Expected 5 answers, got 1/);
+    expect(() => gradeQuizAttempt(quizData, [{ type: 'true_false', value: true }, null, null, null, null]))
+      .toThrow(/Answer 1 is a true_false answer, but question 1 is multiple_choice/);
+  });
+});
+
+describe('matchesFuzzily', () => {
+  it('should forgive case, accents, punctuation, articles and small typos', () => {
+    expect(matchesFuzzily('The Mitochondria', 'mitochondria')).toBe(true);
+    expect(matchesFuzzily('Mitochondria', 'mitocondria')).toBe(true);
+    expect(matchesFuzzily('Café au lait', 'cafe au lait!')).toBe(true);
+    expect(matchesFuzzily('photosynthesis', 'photosynthsis')).toBe(true);
+  });
+
+  it('should still tell different answers apart', () => {
+    expect(matchesFuzzily('cat', 'car')).toBe(false);
+    expect(matchesFuzzily('Mitochondria', 'ribosome')).toBe(false);
+    expect(matchesFuzzily('World War 2 ended in 1945', 'World War 2 ended in 1946')).toBe(false);
+    expect(matchesFuzzily('Lisbon', '')).toBe(false);
+  });
+});
+
+describe('quiz attempts', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should grade and store a submitted attempt', async () => {
+    const quiz = await createQuiz();
+
+    const attempt = await submitQuizAttempt({
+      quiz_id: quiz.id,
+      answers: [{ type: 'multiple_choice', selected: 1 }, null, { type: 'true_false', value: true }, null, null]
+    });
+
+    expect(attempt.quiz_id).toEqual(quiz.id);
+    expect(attempt.score).toEqual(2);
+    expect(attempt.max_score).toEqual(5);
+    expect(attempt.results[0]).toEqual({ score: 1, correct: true });
+    expect(attempt.answers[1]).toBeNull();
+
+    const saved = await db.select().from(quizAttemptsTable).execute();
+    expect(saved).toHaveLength(1);
+    expect(saved[0].results).toEqual(attempt.results);
+  });
+
+  it('should reject attempts at quizzes saved before typed questions', async () => {
+    const legacy = await createLegacyQuiz();
+
+    await expect(submitQuizAttempt({ quiz_id: legacy.id, answers: [{ type: 'multiple_choice', selected: 0 }] }))
+      .rejects.toThrow(`Quiz with id ${legacy.id} was saved before typed questions and cannot be graded`);
+    expect(await db.select().from(quizAttemptsTable).execute()).toHaveLength(0);
+  });
+
+  it('should reject attempts at unknown quizzes', async () => {
+    await expect(submitQuizAttempt({ quiz_id: 999, answers: [] })).rejects.toThrow(/Quiz with id 999 not found/);
+  });
+
+  it('should list attempts newest first with per-question accuracy', async () => {
+    const quiz = await createQuiz();
+    await submitQuizAttempt({ quiz_id: quiz.id, answers: [{ type: 'multiple_choice', selected: 1 }, null, null, null, null] });
+    await submitQuizAttempt({
+      quiz_id: quiz.id,
+      answers: [{ type: 'multiple_choice', selected: 0 }, null, null, null, { type: 'cloze', blanks: ['Vienna', 'Austria'] }]
+    });
+
+    const history = await listQuizAttempts({ quiz_id: quiz.id });
+
+    expect(history.attempts.map(attempt => attempt.score)).toEqual([1, 1]);
+    expect(history.attempts[0].answers[0]).toEqual({ type: 'multiple_choice', selected: 0 });
+    expect(history.question_accuracy).toEqual([0.5, 0, 0, 0, 0.5]);
+  });
+
+  it('should report no accuracy before the first attempt', async () => {
+    const quiz = await createQuiz();
+
+    const history = await listQuizAttempts({ quiz_id: quiz.id });
+
+    expect(history.attempts).toEqual([]);
+    expect(history.question_accuracy).toEqual([null, null, null, null, null]);
+  });
+
+  it('should list quizzes with a summary of their attempts', async () => {
+    const first = await createQuiz();
+    const second = await createQuiz();
+    await submitQuizAttempt({ quiz_id: first.id, answers: [{ type: 'multiple_choice', selected: 1 }, null, null, null, null] });
+    await submitQuizAttempt({ quiz_id: first.id, answers: [{ type: 'multiple_choice', selected: 1 }, null, { type: 'true_false', value: true }, null, null] });
+
+    const list = await listQuizzes({});
+
+    expect(list.total).toEqual(2);
+    expect(list.quizzes.map(quiz => quiz.id)).toEqual([second.id, first.id]);
+    expect(list.quizzes[0]).toMatchObject({ attempt_count: 0, best_score: null, last_attempt_at: null });
+    expect(list.quizzes[1]).toMatchObject({ attempt_count: 2, best_score: 2 });
+    expect(list.quizzes[1].last_attempt_at).toBeInstanceOf(Date);
+    expect(list.quizzes[1].quiz_data!.title).toEqual('Capitals');
+
+    expect((await listQuizzes({ limit: 1, offset: 1 })).quizzes.map(quiz => quiz.id)).toEqual([first.id]);
+  });
+
+  it('should read quizzes saved before typed questions without their questions', async () => {
+    const legacy = await createLegacyQuiz();
+    const current = await createQuiz();
+
+    expect((await getQuiz({ id: legacy.id })).quiz_data).toBeNull();
+    const list = await listQuizzes({});
+    expect(list.quizzes.map(quiz => [quiz.id, quiz.quiz_data?.title ?? null])).toEqual([[current.id, 'Capitals'], [legacy.id, null]]);
+    expect(await listQuizAttempts({ quiz_id: legacy.id })).toEqual({ attempts: [], question_accuracy: [] });
+  });
+});
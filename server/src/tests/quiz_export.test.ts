@@ -0,0 +1,222 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { inflateRawSync } from 'zlib';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { quizTable } from '../db/schema';
+import { type QuizData } from '../schema';
+import { exportQuiz } from '../handlers/export_quiz';
+import {
+  buildQtiItem,
+  createZip,
+  escapeGift,
+  quizToAnki,
+  quizToGift,
+  quizToMoodleXml,
+  quizToPrintableHtml,
+  quizToQtiPackage
+} from '../quiz';
+
+const span = [{ start: 0, end: 6, quote: 'Source' }];
+
+const quizData: QuizData = {
+  title: 'Europe: Capitals & Rivers',
+  difficulty: 'easy',
+  questions: [
+    { type: 'multiple_choice', question: 'Capital of France?', options: ['Lyon', 'Paris'], answer_index: 1, explanation: 'Paris is the capital.', source_spans: span },
+    { type: 'multi_select', question: 'Which are in Italy?', options: ['Rome', 'Milan', 'Madrid', 'Turin'], answer_indices: [0, 1, 3], explanation: 'Madrid is in Spain.', source_spans: span },
+    { type: 'true_false', question: 'The Danube flows through Vienna.', answer: true, explanation: 'It does.', source_spans: span },
+    { type: 'short_answer', question: 'Capital of Portugal?', answer: 'Lisbon', accepted_answers: ['Lisboa'], explanation: 'Lisbon, or Lisboa.', source_spans: span },
+    { type: 'cloze', question: '{{1}} is the capital of {{2}}.', answers: ['Vienna', 'Austria'], explanation: 'Vienna is in Austria.', source_spans: span }
+  ]
+};
+
+// Reads the entries of an archive back through its central directory
+const readZip = (archive: Buffer): Map<string, string> => {
+  const entries = new Map<string, string>();
+  const end = archive.length - 22;
+  expect(archive.readUInt32LE(end)).toEqual(0x06054b50);
+
+  let offset = archive.readUInt32LE(end + 16);
+  for (let i = 0; i < archive.readUInt16LE(end + 10); i++) {
+    expect(archive.readUInt32LE(offset)).toEqual(0x02014b50);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const localOffset = archive.readUInt32LE(offset + 42);
+    const name = archive.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    const dataStart = localOffset + 30 + archive.readUInt16LE(localOffset + 26) + archive.readUInt16LE(localOffset + 28);
+    entries.set(name, inflateRawSync(archive.subarray(dataStart, dataStart + compressedSize)).toString('utf8'));
+    offset += 46 + nameLength;
+  }
+  return entries;
+};
+
+describe('quizToGift', () => {
+  it('should write one block per question with weighted and general feedback', () => {
+    const gift = quizToGift(quizData);
+
+    expect(gift).toStartWith('// Europe: Capitals & Rivers (easy)\n');
+    expect(gift).toContain('::Q1::Capital of France? {\n\t~Lyon\n\t=Paris\n\t####Paris is the capital.\n}');
+    expect(gift).toContain('\t~%33.33333%Rome\n\t~%33.33333%Milan\n\t~%-33.33333%Madrid\n\t~%33.33333%Turin');
+    expect(gift).toContain('::Q3::The Danube flows through Vienna. {TRUE####It does.}');
+    expect(gift).toContain('::Q4::Capital of Portugal? {=Lisbon =Lisboa####Lisbon, or Lisboa.}');
+  });
+
+  it('should split a cloze question into one missing-word question per blank', () => {
+    const gift = quizToGift(quizData);
+
+    expect(gift).toContain('::Q5.1::{=Vienna####Vienna is in Austria.} is the capital of _____.');
+    expect(gift).toContain('::Q5.2::_____ is the capital of {=Austria####Vienna is in Austria.}.');
+  });
+
+  it('should escape GIFT syntax in the text', () => {
+    expect(escapeGift('a = b {c} ~d #e: f\\g\nh')).toEqual('a \\= b \\{c\\} \\~d \\#e\\: f\\\\g\\nh');
+  });
+});
+
+describe('quizToMoodleXml', () => {
+  it('should write a category and a question of the matching Moodle type for each question', () => {
+    const xml = quizToMoodleXml(quizData);
+
+    expect(xml).toStartWith('<?xml version="1.0" encoding="UTF-8"?>\n<quiz>');
+    expect(xml).toContain('<category><text>$course$/Europe: Capitals &amp; Rivers</text></category>');
+    expect([...xml.matchAll(/<question type="(\w+)">/g)].map(match => match[1]))
+      .toEqual(['category', 'multichoice', 'multichoice', 'truefalse', 'shortanswer', 'cloze']);
+    expect(xml).toContain('<answer fraction="100" format="html"><text><![CDATA[Paris]]></text></answer>');
+    expect(xml).toContain('<answer fraction="-33.33333" format="html"><text><![CDATA[Madrid]]></text></answer>');
+    expect(xml).toContain('<answer fraction="100" format="moodle_auto_format"><text>true</text></answer>');
+    expect(xml).toContain('<answer fraction="100" format="moodle_auto_format"><text>Lisboa</text></answer>');
+    expect(xml).toContain('<![CDATA[{1:SHORTANSWER:=Vienna} is the capital of {1:SHORTANSWER:=Austria}.]]>');
+  });
+
+  it('should keep markup and embedded-answer syntax in the text inert', () => {
+    const xml = quizToMoodleXml({
+      ...quizData,
+      questions: [
+        { ...quizData.questions[0], question: 'Is 1 < 2 ]]> "yes"?' },
+        { type: 'cloze', question: 'Pick {{1}}.', answers: ['a}b#c'], explanation: 'See above.', source_spans: span }
+      ]
+    });
+
+    expect(xml).toContain('<![CDATA[Is 1 &lt; 2 ]]&gt; &quot;yes&quot;?]]>');
+    expect(xml).toContain('{1:SHORTANSWER:=a\\}b\\#c}');
+  });
+});
+
+describe('quizToQtiPackage', () => {
+  it('should package a manifest, a test and one item per question', () => {
+    const files = readZip(quizToQtiPackage(quizData));
+
+    expect([...files.keys()]).toEqual([
+      'imsmanifest.xml', 'test.xml', 'items/ITEM_1.xml', 'items/ITEM_2.xml', 'items/ITEM_3.xml', 'items/ITEM_4.xml', 'items/ITEM_5.xml'
+    ]);
+    expect(files.get('imsmanifest.xml')).toContain('<resource identifier="ITEM_5" type="imsqti_item_xmlv2p1" href="items/ITEM_5.xml">');
+    expect(files.get('test.xml')).toContain('title="Europe: Capitals &amp; Rivers"');
+    expect(files.get('test.xml')).toContain('<assessmentItemRef identifier="ITEM_1" href="items/ITEM_1.xml"/>');
+  });
+
+  it('should declare the correct responses and how each type is scored', () => {
+    const [choice, multi, trueFalse, short, cloze] = quizData.questions.map((question, index) =>
+      buildQtiItem(question, `ITEM_${index + 1}`, `Item ${index + 1}`));
+
+    expect(choice).toContain('<correctResponse><value>CHOICE_2</value></correctResponse>');
+    expect(choice).toContain('maxChoices="1"');
+    expect(choice).toContain('rptemplates/match_correct');
+    expect(multi).toContain('cardinality="multiple"');
+    expect(multi).toContain('<mapEntry mapKey="CHOICE_3" mappedValue="-0.3333333333333333"/>');
+    expect(multi).toContain('rptemplates/map_response');
+    expect(trueFalse).toContain('<simpleChoice identifier="CHOICE_1">True</simpleChoice>');
+    expect(trueFalse).toContain('<correctResponse><value>CHOICE_1</value></correctResponse>');
+    expect(short).toContain('<mapEntry mapKey="Lisboa" mappedValue="1" caseSensitive="false"/>');
+    expect(cloze).toContain('<p><textEntryInteraction responseIdentifier="RESPONSE_1" expectedLength="15"/> is the capital of <textEntryInteraction responseIdentifier="RESPONSE_2" expectedLength="15"/>.</p>');
+    expect(cloze).toContain('<baseValue baseType="float">2</baseValue>');
+  });
+});
+
+describe('createZip', () => {
+  it('should round-trip UTF-8 names and contents', () => {
+    const files = readZip(createZip([{ name: 'notes/für.txt', content: 'Grüße' }, { name: 'empty.txt', content: Buffer.alloc(0) }]));
+
+    expect(files).toEqual(new Map([['notes/für.txt', 'Grüße'], ['empty.txt', '']]));
+  });
+});
+
+describe('quizToAnki', () => {
+  it('should write Basic and Cloze notes with file headers', () => {
+    const lines = quizToAnki(quizData, 'comma').trimEnd().split('\n');
+
+    expect(lines.slice(0, 4)).toEqual(['#separator:Comma', '#html:true', '#notetype column:1', '#tags column:4']);
+    expect(lines[4]).toEqual('Basic,Capital of France?<br><br>A. Lyon<br>B. Paris,B. Paris<br><br><i>Paris is the capital.</i>,Europe_Capitals_Rivers easy multiple_choice');
+    expect(lines[7]).toEqual('Basic,Capital of Portugal?,"Lisbon / Lisboa<br><br><i>Lisbon, or Lisboa.</i>",Europe_Capitals_Rivers easy short_answer');
+    expect(lines[8]).toEqual('Cloze,{{c1::Vienna}} is the capital of {{c2::Austria}}.,Vienna is in Austria.,Europe_Capitals_Rivers easy cloze');
+  });
+
+  it('should separate fields with tabs and only quote when needed', () => {
+    const lines = quizToAnki(quizData, 'tab').trimEnd().split('\n');
+
+    expect(lines[0]).toEqual('#separator:Tab');
+    expect(lines[7]).toEqual('Basic\tCapital of Portugal?\tLisbon / Lisboa<br><br><i>Lisbon, or Lisboa.</i>\tEurope_Capitals_Rivers easy short_answer');
+  });
+});
+
+describe('quizToPrintableHtml', () => {
+  it('should print the questions and put the answers on a separate key', () => {
+    const html = quizToPrintableHtml(quizData);
+    const [worksheet, key] = html.split('<section class="answer-key">');
+
+    expect(html).toContain('<title>Europe: Capitals &amp; Rivers</title>');
+    expect(worksheet).toContain('<span class="blank">(1)</span> is the capital of <span class="blank">(2)</span>.');
+    expect(worksheet).toContain('B. Paris');
+    expect(worksheet).not.toContain('Paris is the capital.');
+    expect(worksheet).not.toContain('Lisboa');
+    expect(key).toContain('<strong>B. Paris</strong>');
+    expect(key).toContain('<strong>A. Rome; B. Milan; D. Turin</strong>');
+    expect(key).toContain('<strong>Lisbon / Lisboa</strong>');
+    expect(key).toContain('<strong>1. Vienna; 2. Austria</strong>');
+    expect(key).toContain('Vienna is in Austria.');
+    expect(html).toContain('.answer-key { break-before: page; page-break-before: always; }');
+  });
+});
+
+describe('exportQuiz', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should name the file after the quiz and send text as UTF-8', async () => {
+    const [quiz] = await db.insert(quizTable).values({ source_text: 'Source text', quiz_data: quizData }).returning().execute();
+
+    const file = await exportQuiz({ id: quiz.id, format: 'gift' });
+
+    const date = quiz.created_at.toISOString().split('T')[0];
+    expect(file).toEqual({
+      filename: `quiz-europe-capitals-rivers-${date}.gift.txt`,
+      mime_type: 'text/plain',
+      content: quizToGift(quizData),
+      encoding: 'utf8'
+    });
+  });
+
+  it('should send QTI packages as base64', async () => {
+    const [quiz] = await db.insert(quizTable).values({ source_text: 'Source text', quiz_data: quizData }).returning().execute();
+
+    const file = await exportQuiz({ id: quiz.id, format: 'qti' });
+
+    expect(file.encoding).toEqual('base64');
+    expect(file.mime_type).toEqual('application/zip');
+    expect(file.filename).toEndWith('.qti21.zip');
+    expect(readZip(Buffer.from(file.content, 'base64')).size).toEqual(7);
+  });
+
+  it('should reject unknown quizzes', async () => {
+    await expect(exportQuiz({ id: 999, format: 'html' })).rejects.toThrow(/Quiz with id 999 not found/);
+  });
+
+  it('should reject quizzes saved before typed questions', async () => {
+    const [quiz] = await db.insert(quizTable).values({
+      source_text: 'Source text',
+      quiz_data: { quiz: [{ question: 'What is the main topic?', options: ['Topic A', 'Topic B'], answer: 'Topic A' }] }
+    }).returning().execute();
+
+    await expect(exportQuiz({ id: quiz.id, format: 'gift' })).rejects.toThrow(/saved before typed questions and cannot be exported/);
+  });
+});
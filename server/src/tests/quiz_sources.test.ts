@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createStorage, removeStorage, buildPdf } from '../helpers';
+import { db } from '../db';
+import { chatMessagesTable, chatSessionsTable, documentAnalysisTable, quizTable, webSearchTable } from '../db/schema';
+import { generateQuiz } from '../handlers/generate_quiz';
+import { getQuiz } from '../handlers/get_quiz';
+import { createAttachment } from '../handlers/create_attachment';
+import { resolveQuizSource } from '../handlers/resolve_quiz_source';
+
+const pages = [
+  'Glaciers form where snow builds up faster than it melts.',
+  '',
+  'Moving ice carves valleys into a U shape.'
+];
+
+describe('resolveQuizSource', () => {
+  beforeEach(async () => {
+    await createDB();
+    await createStorage();
+  });
+  afterEach(async () => {
+    await removeStorage();
+    await resetDB();
+  });
+
+  it('should take typed text as it is', async () => {
+    expect(await resolveQuizSource({ type: 'text', text: 'Rivers carry water.' }))
+      .toEqual({ text: 'Rivers carry water.', type: 'text', ref: null, title: null, sections: null });
+  });
+
+  it('should join the pages of a PDF and remember where each one starts', async () => {
+    const attachment = await createAttachment('glaciers.pdf', buildPdf(pages));
+
+    const source = await resolveQuizSource({ type: 'attachment', attachment_id: attachment.id });
+
+    expect(source).toMatchObject({ type: 'attachment', ref: String(attachment.id), title: 'glaciers.pdf' });
+    expect(source.text).toEqual(`${pages[0]}\n\n${pages[2]}`);
+    expect(source.sections).toEqual([
+      { start: 0, end: pages[0].length, locator: 1 },
+      { start: pages[0].length + 2, end: source.text.length, locator: 3 }
+    ]);
+  });
+
+  it('should read text files and refuse other attachments', async () => {
+    const notes = await createAttachment('notes.txt', Buffer.from('  Deltas form at river mouths.\n'));
+    const image = await createAttachment('pixel.gif', Buffer.from('GIF89a'));
+
+    expect(await resolveQuizSource({ type: 'attachment', attachment_id: notes.id }))
+      .toMatchObject({ text: 'Deltas form at river mouths.', title: 'notes.txt', sections: null });
+    await expect(resolveQuizSource({ type: 'attachment', attachment_id: image.id }))
+      .rejects.toThrow(/neither a PDF nor a text file/);
+  });
+
+  it('should use the result of a document analysis and the summary of a web search', async () => {
+    const [analysis] = await db.insert(documentAnalysisTable)
+      .values({ prompt: 'Read the label', analysis_result: 'The jar holds 500 grams of honey.' })
+      .returning()
+      .execute();
+    const [search] = await db.insert(webSearchTable)
+      .values({ query: 'honey bees', summary: 'A hive can hold 60,000 bees.', sources: [] })
+      .returning()
+      .execute();
+
+    expect(await resolveQuizSource({ type: 'document_analysis', analysis_id: analysis.id })).toEqual({
+      text: 'The jar holds 500 grams of honey.', type: 'document_analysis', ref: String(analysis.id), title: 'Read the label', sections: null
+    });
+    expect(await resolveQuizSource({ type: 'web_search', search_id: search.id })).toEqual({
+      text: 'A hive can hold 60,000 bees.', type: 'web_search', ref: String(search.id), title: 'honey bees', sections: null
+    });
+  });
+
+  it('should follow the newest branch of a chat session and point at each message', async () => {
+    await db.insert(chatSessionsTable).values({ id: 'session-ice', title: 'Ice ages' }).execute();
+    const [question] = await db.insert(chatMessagesTable)
+      .values({ session_id: 'session-ice', role: 'user', content: 'When was the last ice age?' })
+      .returning()
+      .execute();
+    const [, answer] = await db.insert(chatMessagesTable)
+      .values([
+        { session_id: 'session-ice', parent_id: question.id, role: 'assistant', content: 'Long ago.' },
+        { session_id: 'session-ice', parent_id: question.id, role: 'assistant', content: 'It peaked about 20,000 years ago.' }
+      ])
+      .returning()
+      .execute();
+
+    const source = await resolveQuizSource({ type: 'chat_session', session_id: 'session-ice' });
+
+    expect(source).toMatchObject({ type: 'chat_session', ref: 'session-ice', title: 'Ice ages' });
+    expect(source.text).toEqual('User: When was the last ice age?\n\nAssistant: It peaked about 20,000 years ago.');
+    expect(source.sections?.map(section => section.locator)).toEqual([question.id, answer.id]);
+    expect(source.text.slice(source.sections![1].start, source.sections![1].end)).toStartWith('Assistant: It peaked');
+  });
+
+  it('should reject missing and empty sources', async () => {
+    await db.insert(chatSessionsTable).values({ id: 'session-empty' }).execute();
+
+    await expect(resolveQuizSource({ type: 'document_analysis', analysis_id: 999 })).rejects.toThrow(/Document analysis with id 999 not found/);
+    await expect(resolveQuizSource({ type: 'web_search', search_id: 999 })).rejects.toThrow(/Web search with id 999 not found/);
+    await expect(resolveQuizSource({ type: 'attachment', attachment_id: 999 })).rejects.toThrow(/Attachment with id 999 not found/);
+    await expect(resolveQuizSource({ type: 'chat_session', session_id: 'session-empty' })).rejects.toThrow(/no text/);
+  });
+});
+
+describe('generateQuiz sources', () => {
+  beforeEach(async () => {
+    await createDB();
+    await createStorage();
+  });
+  afterEach(async () => {
+    await removeStorage();
+    await resetDB();
+  });
+
+  it('should store the source reference with the quiz', async () => {
+    const attachment = await createAttachment('glaciers.pdf', buildPdf(pages));
+
+    const quiz = await generateQuiz({ source: { type: 'attachment', attachment_id: attachment.id }, question_count: 2 });
+
+    expect(quiz).toMatchObject({ source_type: 'attachment', source_ref: String(attachment.id), source_title: 'glaciers.pdf' });
+    expect(quiz.source_sections).toHaveLength(2);
+    for (const span of quiz.quiz_data!.questions.flatMap(question => question.source_spans)) {
+      expect(quiz.source_text.slice(span.start, span.end)).toEqual(span.quote);
+    }
+    expect(await getQuiz({ id: quiz.id })).toEqual(quiz);
+  });
+
+  it('should default quizzes saved before sources were recorded to typed text', async () => {
+    const [quiz] = await db.insert(quizTable)
+      .values({ source_text: 'Source text', quiz_data: { title: 'Old', difficulty: 'easy', questions: [] } })
+      .returning()
+      .execute();
+
+    expect(await getQuiz({ id: quiz.id })).toMatchObject({ source_type: 'text', source_ref: null, source_title: null, source_sections: null });
+  });
+});
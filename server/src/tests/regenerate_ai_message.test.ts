@@ -0,0 +1,136 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createStorage, removeStorage } from '../helpers';
+import { db } from '../db';
+import { chatMessagesTable, chatSessionsTable } from '../db/schema';
+import { regenerateAiMessage } from '../handlers/regenerate_ai_message';
+import { linkLegacyChatMessages } from '../db/migrations';
+import { createAttachment } from '../handlers/create_attachment';
+import { registerAIProvider, resetAIProvider, type AIChatRequest } from '../ai';
+import { createLocalProvider } from '../ai/local_provider';
+import { eq, asc } from 'drizzle-orm';
+
+// Seeds: user (1) -> assistant (2)
+const seedConversation = async () => {
+  await db.insert(chatSessionsTable)
+    .values({ id: 'session-1', title: 'Test Session', gen_z_mode: false, copy_code_only_mode: false, target_language: null })
+    .execute();
+
+  const [userMessage] = await db.insert(chatMessagesTable)
+    .values({ session_id: 'session-1', parent_id: null, role: 'user', content: 'What is recursion?', content_type: 'text', metadata: null })
+    .returning()
+    .execute();
+
+  const [assistantMessage] = await db.insert(chatMessagesTable)
+    .values({ session_id: 'session-1', parent_id: userMessage.id, role: 'assistant', content: 'Original answer', content_type: 'text', metadata: null })
+    .returning()
+    .execute();
+
+  return { userMessage, assistantMessage };
+};
+
+// Local provider that remembers the requests it was sent
+const captureRequests = (): AIChatRequest[] => {
+  const requests: AIChatRequest[] = [];
+  const local = createLocalProvider();
+  registerAIProvider('capture', () => ({
+    ...local,
+    chat: async request => {
+      requests.push(request);
+      return local.chat(request);
+    }
+  }));
+  process.env['AI_PROVIDER'] = 'capture';
+  resetAIProvider();
+  return requests;
+};
+
+describe('regenerateAiMessage', () => {
+  beforeEach(createDB);
+  afterEach(async () => {
+    delete process.env['AI_PROVIDER'];
+    resetAIProvider();
+    await resetDB();
+  });
+
+  it('should add an alternative reply as a sibling', async () => {
+    const { userMessage, assistantMessage } = await seedConversation();
+
+    const result = await regenerateAiMessage({
+      messageId: assistantMessage.id,
+      genZMode: false,
+      copyCodeOnlyMode: false,
+      targetLanguage: 'english'
+    });
+
+    expect(result.role).toEqual('assistant');
+    expect(result.parent_id).toEqual(userMessage.id);
+    expect(result.id).not.toEqual(assistantMessage.id);
+    expect(result.content).toContain('What is recursion?');
+
+    const siblings = await db.select()
+      .from(chatMessagesTable)
+      .where(eq(chatMessagesTable.parent_id, userMessage.id))
+      .orderBy(asc(chatMessagesTable.id))
+      .execute();
+
+    expect(siblings).toHaveLength(2);
+    expect(siblings[0].content).toEqual('Original answer');
+  });
+
+  it('should reject user messages', async () => {
+    const { userMessage } = await seedConversation();
+
+    await expect(regenerateAiMessage({ messageId: userMessage.id })).rejects.toThrow(/only assistant replies/i);
+  });
+
+  it('should regenerate replies in a chat saved before messages were linked', async () => {
+    const { userMessage, assistantMessage } = await seedConversation();
+    await db.update(chatMessagesTable).set({ parent_id: null }).execute();
+    await linkLegacyChatMessages();
+
+    const result = await regenerateAiMessage({ messageId: assistantMessage.id });
+
+    expect(result.parent_id).toEqual(userMessage.id);
+    expect(result.content).toContain('What is recursion?');
+  });
+
+  it('should send the image of the user message again', async () => {
+    await createStorage();
+    try {
+      const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+      const image = await createAttachment('photo.png', png);
+      await db.insert(chatSessionsTable).values({ id: 'session-image' }).execute();
+      const [userMessage] = await db.insert(chatMessagesTable)
+        .values({ session_id: 'session-image', role: 'user', content: 'What is this?', content_type: 'image', attachment_id: image.id })
+        .returning()
+        .execute();
+      const [assistantMessage] = await db.insert(chatMessagesTable)
+        .values({ session_id: 'session-image', parent_id: userMessage.id, role: 'assistant', content: 'A picture.' })
+        .returning()
+        .execute();
+      const requests = captureRequests();
+
+      await regenerateAiMessage({ messageId: assistantMessage.id });
+
+      const turn = requests[0].messages[requests[0].messages.length - 1];
+      expect(turn).toEqual({ role: 'user', content: 'What is this?', images: [`data:image/png;base64,${png.toString('base64')}`] });
+    } finally {
+      await removeStorage();
+    }
+  });
+
+  it('should reject unknown messages', async () => {
+    await expect(regenerateAiMessage({ messageId: 99999 })).rejects.toThrow(/not found/i);
+  });
+
+  it('should answer with the modes stored on the session', async () => {
+    const { assistantMessage } = await seedConversation();
+    await db.update(chatSessionsTable).set({ copy_code_only_mode: true }).execute();
+
+    const requests = captureRequests();
+
+    await regenerateAiMessage({ messageId: assistantMessage.id });
+
+    expect(requests[0].messages[0]).toEqual({ role: 'system', content: 'Only respond with code, no explanations.' });
+  });
+});
@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { generatedVideosTable, jobsTable } from '../db/schema';
+import { generateVideo } from '../handlers/generate_video';
+import { getVideoStatus } from '../handlers/get_video_status';
+import { cancelVideo } from '../handlers/cancel_video';
+import { retryVideo } from '../handlers/retry_video';
+import { processVideoJob, failVideoJob } from '../handlers/process_video_job';
+import { createJobWorker } from '../jobs';
+import { resetVideoBackend, VIDEO_JOB_KIND } from '../video';
+import { asc, eq } from 'drizzle-orm';
+
+const createVideoWorker = () => createJobWorker({
+  [VIDEO_JOB_KIND]: { run: processVideoJob, onAttemptFailed: failVideoJob }
+});
+
+describe('retryVideo', () => {
+  beforeEach(async () => {
+    await createDB();
+    process.env['VIDEO_LOCAL_STEP_MS'] = '0';
+    resetVideoBackend();
+  });
+  afterEach(async () => {
+    delete process.env['VIDEO_LOCAL_STEP_MS'];
+    resetVideoBackend();
+    await resetDB();
+  });
+
+  it('should start a failed video over with a new job', async () => {
+    const video = await generateVideo({ prompt: 'A paper boat' });
+    await db.update(generatedVideosTable)
+      .set({ status: 'failed', progress: 40, progress_message: 'Video generation failed: Backend unavailable', started_at: new Date() })
+      .where(eq(generatedVideosTable.id, video.id))
+      .execute();
+    await db.update(jobsTable).set({ status: 'failed', attempts: 3 }).execute();
+
+    const retried = await retryVideo({ id: video.id });
+
+    expect(retried.status).toEqual('pending');
+    expect(retried.progress).toEqual(0);
+    expect(retried.progress_message).toEqual('Video generation queued');
+    expect(retried.started_at).toBeNull();
+
+    const jobs = await db.select().from(jobsTable).orderBy(asc(jobsTable.id)).execute();
+    expect(jobs.map(job => [job.status, job.attempts])).toEqual([['failed', 3], ['queued', 0]]);
+
+    await createVideoWorker().runOnce();
+    const finished = await getVideoStatus({ id: video.id });
+    expect(finished.status).toEqual('completed');
+    expect(finished.video_url).not.toBeNull();
+  });
+
+  it('should restart cancelled videos', async () => {
+    const video = await generateVideo({ prompt: 'A paper boat' });
+    await cancelVideo({ id: video.id });
+
+    const retried = await retryVideo({ id: video.id });
+
+    expect(retried.status).toEqual('pending');
+    expect(await createVideoWorker().runOnce()).toBe(true);
+  });
+
+  it('should reject videos that are still running or completed', async () => {
+    const video = await generateVideo({ prompt: 'A paper boat' });
+
+    await expect(retryVideo({ id: video.id })).rejects.toThrow(/is pending; only failed or cancelled videos can be retried/);
+
+    await createVideoWorker().runOnce();
+    await expect(retryVideo({ id: video.id })).rejects.toThrow(/is completed/);
+    await expect(retryVideo({ id: 999 })).rejects.toThrow(/not found/i);
+  });
+});
@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  chatMessagesTable,
+  chatSessionsTable,
+  documentAnalysisTable,
+  generatedImagesTable,
+  generatedVideosTable,
+  quizTable,
+  webSearchTable,
+  searchDocuments
+} from '../db/schema';
+import { search } from '../handlers/search';
+import { sql } from 'drizzle-orm';
+
+const seed = async () => {
+  await db.insert(chatSessionsTable).values({ id: 'session-1', title: 'Python help' }).execute();
+  await db.insert(chatMessagesTable).values([
+    { session_id: 'session-1', role: 'user', content: 'How do I sort a dictionary by value in Python?' },
+    { session_id: 'session-1', role: 'assistant', content: 'Use sorted() with a key function.' }
+  ]).execute();
+  await db.insert(documentAnalysisTable).values({
+    image_url: 'https://example.com/receipt.png',
+    prompt: 'Extract the totals',
+    analysis_result: 'The receipt lists groceries with a total of 42 dollars.'
+  }).execute();
+  await db.insert(generatedImagesTable).values({
+    prompt: 'A watercolor painting of a lighthouse at dusk',
+    image_url: 'https://example.com/lighthouse.png'
+  }).execute();
+  await db.insert(generatedVideosTable).values({ prompt: 'Waves crashing against a lighthouse' }).execute();
+  await db.insert(quizTable).values({
+    source_text: 'Photosynthesis converts light energy into chemical energy.',
+    quiz_data: { questions: [{ question: 'Which pigment absorbs sunlight?', answer: 'Chlorophyll' }] }
+  }).execute();
+  await db.insert(webSearchTable).values({
+    query: 'best sorting algorithms',
+    summary: 'Quicksort and mergesort are the most common general-purpose sorting algorithms.',
+    sources: ['https://example.com/sorting']
+  }).execute();
+};
+
+describe('search', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should find chat messages with their session', async () => {
+    await seed();
+
+    const results = await search({ query: 'dictionary' });
+
+    expect(results).toHaveLength(1);
+    expect(results[0].source_type).toEqual('chat_message');
+    expect(results[0].session_id).toEqual('session-1');
+    expect(results[0].title).toEqual('Python help');
+    expect(results[0].snippet).toContain('<mark>dictionary</mark>');
+  });
+
+  it('should search across all sources with stemming', async () => {
+    await seed();
+
+    const results = await search({ query: 'lighthouses' });
+
+    expect(results.map(result => result.source_type).sort()).toEqual(['generated_image', 'generated_video']);
+    expect(results.every(result => result.session_id === null)).toBe(true);
+  });
+
+  it('should rank title matches above body matches', async () => {
+    await seed();
+
+    const results = await search({ query: 'sorting' });
+
+    // "sort" appears in a chat message body and in the web search query (weighted higher)
+    expect(results[0].source_type).toEqual('web_search');
+    expect(results.map(result => result.source_type)).toContain('chat_message');
+  });
+
+  it('should search document analyses and quiz contents', async () => {
+    await seed();
+
+    const analyses = await search({ query: 'groceries' });
+    expect(analyses[0].source_type).toEqual('document_analysis');
+    expect(analyses[0].title).toEqual('Extract the totals');
+
+    // Matches inside the quiz JSON are found too
+    const quizzes = await search({ query: 'chlorophyll' });
+    expect(quizzes[0].source_type).toEqual('quiz');
+    expect(quizzes[0].title).toStartWith('Photosynthesis');
+  });
+
+  it('should title quizzes with their own title when they have one', async () => {
+    await db.insert(quizTable).values({
+      source_text: 'Mitochondria release energy from glucose during respiration.',
+      quiz_data: { title: 'Cell respiration', questions: [] }
+    }).execute();
+
+    const results = await search({ query: 'mitochondria' });
+
+    expect(results[0].title).toEqual('Cell respiration');
+  });
+
+  it('should filter by source type and limit the results', async () => {
+    await seed();
+
+    const images = await search({ query: 'lighthouse', types: ['generated_image'] });
+    expect(images).toHaveLength(1);
+    expect(images[0].source_type).toEqual('generated_image');
+
+    const limited = await search({ query: 'lighthouse', limit: 1 });
+    expect(limited).toHaveLength(1);
+  });
+
+  it('should support web-search query syntax', async () => {
+    await seed();
+
+    const results = await search({ query: 'lighthouse -waves' });
+
+    expect(results.map(result => result.source_type)).toEqual(['generated_image']);
+  });
+
+  it('should return nothing for unmatched queries', async () => {
+    await seed();
+
+    expect(await search({ query: 'kubernetes' })).toEqual([]);
+  });
+
+  it('should use the full-text indexes', async () => {
+    await seed();
+    const document = searchDocuments.chatMessages(chatMessagesTable);
+    const query = db.select({ id: chatMessagesTable.id })
+      .from(chatMessagesTable)
+      .where(sql`${document} @@ websearch_to_tsquery('english', 'python')`);
+
+    await db.execute(sql`set enable_seqscan = off`);
+    const plan = await db.execute(sql`explain ${query}`);
+    await db.execute(sql`set enable_seqscan = on`);
+
+    expect(JSON.stringify(plan.rows)).toContain('chat_messages_search_idx');
+  });
+});
@@ -1,136 +1,260 @@
-import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { webSearchTable } from '../db/schema';
-import { type CreateWebSearchInput } from '../schema';
+import { aiUsageTable, webSearchTable } from '../db/schema';
 import { searchWeb } from '../handlers/search_web';
+import {
+  createBingSearchProvider,
+  createBraveSearchProvider,
+  createFixtureSearchProvider,
+  createSearxngProvider,
+  extractReadableText,
+  fetchPage,
+  normaliseCitations,
+  registerWebSearchProvider,
+  resetWebSearchProvider
+} from '../websearch';
 import { eq } from 'drizzle-orm';
 
-// Test input
-const testInput: CreateWebSearchInput = {
-  query: 'latest developments in AI technology'
-};
+const articleHtml = `<!DOCTYPE html>
+<html>
+<head>
+  <title>Tides | Ocean Facts</title>
+  <meta property="og:title" content="How tides work">
+  <style>p { color: red; }</style>
+  <script>var tracking = "Tides are caused by cookies.";</script>
+</head>
+<body>
+  <nav><a href="/">Home</a> <a href="/oceans">Oceans</a></nav>
+  <div class="sidebar"><ul><li><a href="/a">A very long related link about waves and surfing</a></li></ul></div>
+  <article>
+    <h2>Why the sea rises</h2>
+    <p>Tides are caused mainly by the <a href="/moon">Moon's</a> gravity pulling on the oceans &amp; the Earth.</p>
+    <p>Most coasts see two high tides and two low tides roughly every 24 hours &#8212; a <b>semidiurnal</b> pattern.</p>
+    <p>Share</p>
+    <!-- <p>Commented out paragraph that is long enough to count.</p> -->
+  </article>
+  <footer>Copyright Ocean Facts, all rights reserved, no part may be copied.</footer>
+</body>
+</html>`;
+
+describe('extractReadableText', () => {
+  it('should keep the prose of the article and drop scripts, navigation and link lists', () => {
+    const page = extractReadableText(articleHtml);
+
+    expect(page.title).toEqual('How tides work');
+    expect(page.text).toEqual([
+      'Why the sea rises',
+      "Tides are caused mainly by the Moon's gravity pulling on the oceans & the Earth.",
+      'Most coasts see two high tides and two low tides roughly every 24 hours — a semidiurnal pattern.'
+    ].join('\n\n'));
+  });
+
+  it('should fall back to the title element and the body', () => {
+    const page = extractReadableText('<title>Plain &lt;page&gt;</title><body><div>Only a div holds this sentence, without any article element.</div></body>');
+
+    expect(page).toEqual({ title: 'Plain <page>', text: 'Only a div holds this sentence, without any article element.' });
+  });
+});
+
+describe('normaliseCitations', () => {
+  it('should split grouped citations and drop numbers without a source', () => {
+    expect(normaliseCitations('Tides follow the Moon [1, 3]. They repeat [2-3]. Sharks sleep [7].', 3))
+      .toEqual('Tides follow the Moon [1][3]. They repeat [2][3]. Sharks sleep.');
+  });
+});
+
+describe('fixture search provider', () => {
+  it('should rank pages by the query terms they contain and skip pages without any', async () => {
+    const provider = createFixtureSearchProvider();
+
+    const hits = await provider.search({ query: 'How does photosynthesis use light?', limit: 5 });
+
+    expect(hits[0].url).toEqual('https://fixtures.okaigpt.invalid/photosynthesis');
+    expect(hits[0].title).toEqual('Photosynthesis');
+    expect(hits[0].snippet).toStartWith('Photosynthesis is the process');
+    expect(await provider.search({ query: 'zebra crossings', limit: 5 })).toEqual([]);
+  });
+});
+
+describe('search API adapters and page fetching', () => {
+  let server: ReturnType<typeof Bun.serve>;
+  const requests: { path: string; params: URLSearchParams; headers: Headers }[] = [];
+
+  beforeAll(() => {
+    // Answers in the formats of SearxNG, Brave and Bing, and serves a few pages
+    server = Bun.serve({
+      port: 0,
+      fetch(req) {
+        const url = new URL(req.url);
+        requests.push({ path: url.pathname, params: url.searchParams, headers: req.headers });
+
+        switch (url.pathname) {
+          case '/search':
+            return Response.json({ results: [
+              { url: 'https://a.test/tides', title: 'Tides', content: 'The <b>Moon</b> pulls the sea.' },
+              { title: 'No URL' },
+              { url: 'https://b.test/waves', title: '', content: 'Wind makes waves.' }
+            ] });
+          case '/brave':
+            return Response.json({ web: { results: [{ url: 'https://a.test/tides', title: 'Tides', description: 'The <strong>Moon</strong> &amp; the sea.' }] } });
+          case '/bing':
+            return Response.json({ webPages: { value: [{ url: 'https://a.test/tides', name: 'Tides', snippet: 'The Moon and the sea.' }] } });
+          case '/article':
+            return new Response(articleHtml, { headers: { 'Content-Type': 'text/html; charset=utf-8' } });
+          case '/notes.txt':
+            return new Response('Neap tides\n\n\n\nare   small.', { headers: { 'Content-Type': 'text/plain' } });
+          case '/moved':
+            return Response.redirect(`${url.origin}/article`, 302);
+          case '/loop':
+            return new Response(null, { status: 302, headers: { Location: '/loop' } });
+          case '/image.png':
+            return new Response(new Uint8Array([0x89, 0x50]), { headers: { 'Content-Type': 'image/png' } });
+          default:
+            return new Response('not found', { status: 404 });
+        }
+      }
+    });
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  const base = () => `http://localhost:${server.port}`;
+
+  it('should query SearxNG for JSON and skip results without a URL', async () => {
+    const hits = await createSearxngProvider({ baseUrl: `${base()}/` }).search({ query: 'why tides', limit: 5 });
+
+    expect(requests[requests.length - 1].params.get('q')).toEqual('why tides');
+    expect(requests[requests.length - 1].params.get('format')).toEqual('json');
+    expect(hits).toEqual([
+      { url: 'https://a.test/tides', title: 'Tides', snippet: 'The Moon pulls the sea.' },
+      { url: 'https://b.test/waves', title: 'https://b.test/waves', snippet: 'Wind makes waves.' }
+    ]);
+  });
+
+  it('should send the API key the way Brave and Bing expect it', async () => {
+    const brave = await createBraveSearchProvider({ apiKey: 'brave-key', baseUrl: `${base()}/brave` }).search({ query: 'tides', limit: 3 });
+    const braveRequest = requests[requests.length - 1];
+    const bing = await createBingSearchProvider({ apiKey: 'bing-key', baseUrl: `${base()}/bing` }).search({ query: 'tides', limit: 3 });
+    const bingRequest = requests[requests.length - 1];
+
+    expect(braveRequest.headers.get('x-subscription-token')).toEqual('brave-key');
+    expect(braveRequest.params.get('count')).toEqual('3');
+    expect(brave).toEqual([{ url: 'https://a.test/tides', title: 'Tides', snippet: 'The Moon & the sea.' }]);
+    expect(bingRequest.headers.get('ocp-apim-subscription-key')).toEqual('bing-key');
+    expect(bing).toEqual([{ url: 'https://a.test/tides', title: 'Tides', snippet: 'The Moon and the sea.' }]);
+  });
+
+  it('should report failed searches with their status', async () => {
+    await expect(createBingSearchProvider({ apiKey: 'key', baseUrl: `${base()}/missing` }).search({ query: 'tides', limit: 3 }))
+      .rejects.toThrow(/Bing search failed with status 404/);
+  });
+
+  // The test server runs on this machine
+  const options = { fetchTimeoutMs: 5000, maxPageBytes: 1024 * 1024, allowPrivateHosts: true };
+
+  it('should fetch pages and extract their readable text', async () => {
+    const page = await fetchPage(`${base()}/article`, options);
+    const notes = await fetchPage(`${base()}/notes.txt`, options);
+
+    expect(page.title).toEqual('How tides work');
+    expect(page.text).toContain("Moon's gravity");
+    expect(page.fetched_at).toBeInstanceOf(Date);
+    expect(notes).toMatchObject({ title: null, text: 'Neap tides\n\nare small.' });
+  });
+
+  it('should refuse pages that are missing, not text or not on the web', async () => {
+    await expect(fetchPage(`${base()}/gone`, options)).rejects.toThrow(/failed with status 404/);
+    await expect(fetchPage(`${base()}/image.png`, options)).rejects.toThrow(/is not a web page \(image\/png\)/);
+    await expect(fetchPage('file:///etc/passwd', options)).rejects.toThrow(/Only http and https/);
+  });
+
+  it('should stop reading at the size limit', async () => {
+    const page = await fetchPage(`${base()}/notes.txt`, { ...options, maxPageBytes: 4 });
+
+    expect(page.text).toEqual('Neap');
+  });
+
+  it('should follow a few redirects and no more', async () => {
+    const page = await fetchPage(`${base()}/moved`, options);
+
+    expect(page.title).toEqual('How tides work');
+    expect(page.url).toEqual(`${base()}/moved`);
+    await expect(fetchPage(`${base()}/loop`, options)).rejects.toThrow(/after 5 redirects/);
+  });
+
+  it('should refuse hosts on loopback, private and link-local addresses', async () => {
+    const publicOnly = { ...options, allowPrivateHosts: false };
+    const requestCount = requests.length;
+
+    await expect(fetchPage(`${base()}/article`, publicOnly)).rejects.toThrow(/resolves to a private address \(127\.0\.0\.1|::1\)/);
+    for (const url of ['http://10.1.2.3/', 'http://172.20.0.1/', 'http://192.168.1.1/', 'http://169.254.169.254/latest/meta-data/', 'http://[::1]/', 'http://[fd00::1]/', 'http://[::ffff:127.0.0.1]/']) {
+      await expect(fetchPage(url, publicOnly)).rejects.toThrow(/private address/);
+    }
+    // Refused before connecting
+    expect(requests).toHaveLength(requestCount);
+  });
+});
 
 describe('searchWeb', () => {
   beforeEach(createDB);
-  afterEach(resetDB);
-
-  it('should create a web search record', async () => {
-    const result = await searchWeb(testInput);
-
-    // Basic field validation
-    expect(result.query).toEqual('latest developments in AI technology');
-    expect(result.summary).toBeDefined();
-    expect(typeof result.summary).toBe('string');
-    expect(result.summary.length).toBeGreaterThan(0);
-    expect(result.sources).toBeDefined();
-    expect(Array.isArray(result.sources)).toBe(true);
-    expect(result.sources.length).toBeGreaterThan(0);
-    expect(result.id).toBeDefined();
-    expect(typeof result.id).toBe('number');
-    expect(result.created_at).toBeInstanceOf(Date);
-  });
-
-  it('should save web search to database', async () => {
-    const result = await searchWeb(testInput);
-
-    // Query database to verify record was saved
-    const webSearches = await db.select()
-      .from(webSearchTable)
-      .where(eq(webSearchTable.id, result.id))
-      .execute();
-
-    expect(webSearches).toHaveLength(1);
-    const savedSearch = webSearches[0];
-    
-    expect(savedSearch.query).toEqual('latest developments in AI technology');
-    expect(savedSearch.summary).toEqual(result.summary);
-    expect(Array.isArray(savedSearch.sources)).toBe(true);
-    expect(savedSearch.sources).toEqual(result.sources);
-    expect(savedSearch.created_at).toBeInstanceOf(Date);
-  });
-
-  it('should handle different query types', async () => {
-    const queries = [
-      'machine learning trends 2024',
-      'climate change research',
-      'cryptocurrency market analysis',
-      'space exploration news'
-    ];
-
-    for (const query of queries) {
-      const input: CreateWebSearchInput = { query };
-      const result = await searchWeb(input);
-
-      expect(result.query).toEqual(query);
-      expect(result.summary).toContain(query);
-      expect(result.sources.length).toBeGreaterThan(0);
-      expect(result.sources.every(source => typeof source === 'string')).toBe(true);
-      expect(result.sources.every(source => source.startsWith('http'))).toBe(true);
-    }
+  afterEach(async () => {
+    delete process.env['WEB_SEARCH_PROVIDER'];
+    resetWebSearchProvider();
+    await resetDB();
   });
 
-  it('should create multiple web searches independently', async () => {
-    const firstInput: CreateWebSearchInput = {
-      query: 'artificial intelligence ethics'
-    };
-    
-    const secondInput: CreateWebSearchInput = {
-      query: 'renewable energy solutions'
-    };
+  it('should summarise the result pages with numbered citations', async () => {
+    const result = await searchWeb({ query: 'photosynthesis and the water cycle' });
 
-    const firstResult = await searchWeb(firstInput);
-    const secondResult = await searchWeb(secondInput);
+    expect(result.query).toEqual('photosynthesis and the water cycle');
+    expect(result.sources.map(source => source.url)).toEqual([
+      'https://fixtures.okaigpt.invalid/photosynthesis',
+      'https://fixtures.okaigpt.invalid/water-cycle'
+    ]);
+    expect(result.sources[0]).toMatchObject({ title: 'Photosynthesis', snippet: expect.stringContaining('light energy') });
+    expect(result.sources.every(source => source.fetched_at instanceof Date)).toBe(true);
+    expect(result.summary).toContain('into chemical energy [1].');
+    expect(result.summary).toContain('[2]');
+  });
 
-    // Verify both records are different
-    expect(firstResult.id).not.toEqual(secondResult.id);
-    expect(firstResult.query).not.toEqual(secondResult.query);
-    expect(firstResult.summary).not.toEqual(secondResult.summary);
+  it('should save the structured sources', async () => {
+    const result = await searchWeb({ query: 'machine learning' });
 
-    // Verify both are saved in database
-    const allSearches = await db.select()
-      .from(webSearchTable)
-      .execute();
+    const [saved] = await db.select().from(webSearchTable).where(eq(webSearchTable.id, result.id)).execute();
+    expect(saved.summary).toEqual(result.summary);
+    expect(saved.sources).toEqual(result.sources.map(source => ({ ...source, fetched_at: source.fetched_at!.toISOString() })));
 
-    expect(allSearches).toHaveLength(2);
-    
-    const savedQueries = allSearches.map(search => search.query);
-    expect(savedQueries).toContain('artificial intelligence ethics');
-    expect(savedQueries).toContain('renewable energy solutions');
+    const usage = await db.select().from(aiUsageTable).execute();
+    expect(usage.map(row => row.feature)).toEqual(['web_search']);
   });
 
-  it('should handle empty or minimal queries', async () => {
-    const minimalInput: CreateWebSearchInput = {
-      query: 'AI'
-    };
+  it('should cite pages that cannot be read from their search snippet', async () => {
+    registerWebSearchProvider('unreachable', () => ({
+      name: 'unreachable',
+      search: async () => [{ url: 'http://localhost:9/tides', title: 'Tides', snippet: 'The Moon pulls the sea twice a day.' }]
+    }));
+    process.env['WEB_SEARCH_PROVIDER'] = 'unreachable';
 
-    const result = await searchWeb(minimalInput);
+    const result = await searchWeb({ query: 'tides' });
 
-    expect(result.query).toEqual('AI');
-    expect(result.summary).toBeDefined();
-    expect(result.summary.length).toBeGreaterThan(0);
-    expect(result.sources.length).toBeGreaterThan(0);
+    expect(result.sources).toEqual([{ url: 'http://localhost:9/tides', title: 'Tides', snippet: 'The Moon pulls the sea twice a day.', fetched_at: null }]);
+    expect(result.summary).toEqual('The Moon pulls the sea twice a day [1].');
   });
 
-  it('should generate appropriate summaries for queries', async () => {
-    const result = await searchWeb(testInput);
+  it('should save searches without results without asking the AI provider', async () => {
+    const result = await searchWeb({ query: 'zebra crossings' });
 
-    // Verify summary contains query context
-    expect(result.summary.toLowerCase()).toContain('search results');
-    expect(result.summary).toContain(testInput.query);
-    expect(result.summary.toLowerCase()).toContain('summary');
+    expect(result.sources).toEqual([]);
+    expect(result.summary).toEqual('No results were found for "zebra crossings".');
+    expect(await db.select().from(aiUsageTable).execute()).toHaveLength(0);
   });
 
-  it('should store sources as valid URLs', async () => {
-    const result = await searchWeb(testInput);
+  it('should reject unknown providers', async () => {
+    process.env['WEB_SEARCH_PROVIDER'] = 'altavista';
 
-    expect(result.sources.length).toBeGreaterThan(0);
-    
-    // All sources should be strings and look like URLs
-    result.sources.forEach(source => {
-      expect(typeof source).toBe('string');
-      expect(source.startsWith('http')).toBe(true);
-      expect(source.includes('.')).toBe(true); // Should contain domain
-    });
+    await expect(searchWeb({ query: 'tides' })).rejects.toThrow(/Unknown web search provider "altavista"/);
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,335 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createStorage, removeStorage } from '../helpers';
+import { db } from '../db';
+import { chatMessagesTable, chatSessionsTable, pdfDocumentsTable } from '../db/schema';
+import { type SendAiMessageInput } from '../schema';
+import { sendAiMessage } from '../handlers/send_ai_message';
+import { registerAIProvider, resetAIProvider, type AIChatRequest } from '../ai';
+import { createLocalProvider } from '../ai/local_provider';
+import { createPersona } from '../handlers/create_persona';
+import { createAttachment } from '../handlers/create_attachment';
+import { linkLegacyChatMessages } from '../db/migrations';
+import { eq, asc } from 'drizzle-orm';
+
+const createSession = async (id: string) => {
+  await db.insert(chatSessionsTable)
+    .values({
+      id,
+      title: 'Test Session',
+      gen_z_mode: false,
+      copy_code_only_mode: false,
+      target_language: null
+    })
+    .execute();
+};
+
+const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00, 0x00, 0x0d]);
+
+// Local provider that remembers the requests it was sent
+const captureRequests = (): AIChatRequest[] => {
+  const requests: AIChatRequest[] = [];
+  const local = createLocalProvider();
+  registerAIProvider('capture', () => ({
+    ...local,
+    chat: async request => {
+      requests.push(request);
+      return local.chat(request);
+    }
+  }));
+  process.env['AI_PROVIDER'] = 'capture';
+  resetAIProvider();
+  return requests;
+};
+
+describe('sendAiMessage', () => {
+  beforeEach(async () => {
+    await createDB();
+    await createStorage();
+  });
+  afterEach(async () => {
+    delete process.env['AI_PROVIDER'];
+    resetAIProvider();
+    await removeStorage();
+    await resetDB();
+  });
+
+  it('should store the user message and the assistant reply', async () => {
+    await createSession('session-1');
+
+    const input: SendAiMessageInput = {
+      sessionId: 'session-1',
+      messageContent: 'What is a closure?',
+      genZMode: false,
+      copyCodeOnlyMode: false,
+      targetLanguage: 'english',
+      imageAttachmentId: null,
+      pdfDocumentId: null
+    };
+
+    const result = await sendAiMessage(input);
+
+    expect(result.role).toEqual('assistant');
+    expect(result.session_id).toEqual('session-1');
+    expect(result.content.length).toBeGreaterThan(0);
+    expect(result.created_at).toBeInstanceOf(Date);
+
+    const messages = await db.select()
+      .from(chatMessagesTable)
+      .where(eq(chatMessagesTable.session_id, 'session-1'))
+      .orderBy(asc(chatMessagesTable.id))
+      .execute();
+
+    expect(messages).toHaveLength(2);
+    expect(messages[0].role).toEqual('user');
+    expect(messages[0].content).toEqual('What is a closure?');
+    expect(messages[1].id).toEqual(result.id);
+  });
+
+  it('should continue an existing conversation', async () => {
+    await createSession('session-history');
+    const requests = captureRequests();
+
+    const firstReply = await sendAiMessage({ sessionId: 'session-history', messageContent: 'My name is Ada.' });
+    const result = await sendAiMessage({ sessionId: 'session-history', messageContent: 'What is my name?' });
+
+    expect(result.content).toContain('What is my name?');
+
+    // The earlier turns reach the provider in order, before the new question
+    const request = requests.find(request => request.messages[request.messages.length - 1].content === 'What is my name?');
+    const history = request!.messages.filter(message => message.role !== 'system');
+    expect(history.map(message => [message.role, message.content])).toEqual([
+      ['user', 'My name is Ada.'],
+      ['assistant', firstReply.content],
+      ['user', 'What is my name?']
+    ]);
+
+    const messages = await db.select()
+      .from(chatMessagesTable)
+      .where(eq(chatMessagesTable.session_id, 'session-history'))
+      .orderBy(asc(chatMessagesTable.id))
+      .execute();
+
+    expect(messages.map(message => message.role)).toEqual(['user', 'assistant', 'user', 'assistant']);
+
+    // Each message continues from the previous one
+    expect(messages[0].parent_id).toBeNull();
+    expect(messages[1].parent_id).toEqual(messages[0].id);
+    expect(messages[2].parent_id).toEqual(messages[1].id);
+    expect(messages[3].parent_id).toEqual(messages[2].id);
+  });
+
+  it('should continue a chat saved before messages were linked to their parents', async () => {
+    await createSession('session-legacy');
+    const start = Date.now() - 60_000;
+    const legacy = await db.insert(chatMessagesTable)
+      .values([
+        { session_id: 'session-legacy', role: 'user' as const, content: 'My name is Ada.', created_at: new Date(start) },
+        { session_id: 'session-legacy', role: 'assistant' as const, content: 'Nice to meet you, Ada.', created_at: new Date(start + 1000) },
+        { session_id: 'session-legacy', role: 'user' as const, content: 'I live in London.', created_at: new Date(start + 2000) },
+        { session_id: 'session-legacy', role: 'assistant' as const, content: 'London is lovely.', created_at: new Date(start + 3000) }
+      ])
+      .returning()
+      .execute();
+    await linkLegacyChatMessages();
+    const requests = captureRequests();
+
+    const result = await sendAiMessage({ sessionId: 'session-legacy', messageContent: 'Where do I live?' });
+
+    const history = requests[0].messages.filter(message => message.role !== 'system');
+    expect(history.map(message => message.content)).toEqual([
+      'My name is Ada.',
+      'Nice to meet you, Ada.',
+      'I live in London.',
+      'London is lovely.',
+      'Where do I live?'
+    ]);
+
+    // The old messages are linked into one chain that the new turn continues
+    const messages = await db.select()
+      .from(chatMessagesTable)
+      .where(eq(chatMessagesTable.session_id, 'session-legacy'))
+      .orderBy(asc(chatMessagesTable.id))
+      .execute();
+    expect(messages.map(message => message.parent_id)).toEqual([
+      null,
+      legacy[0].id,
+      legacy[1].id,
+      legacy[2].id,
+      legacy[3].id,
+      messages[4].id
+    ]);
+    expect(result.parent_id).toEqual(messages[4].id);
+  });
+
+  it('should branch from an explicit parent message', async () => {
+    await createSession('session-branch');
+
+    const firstReply = await sendAiMessage({ sessionId: 'session-branch', messageContent: 'Question one' });
+    await sendAiMessage({ sessionId: 'session-branch', messageContent: 'Question two' });
+    const branchReply = await sendAiMessage({
+      sessionId: 'session-branch',
+      messageContent: 'Alternative question two',
+      parentMessageId: firstReply.id
+    });
+
+    const branchPrompt = await db.select()
+      .from(chatMessagesTable)
+      .where(eq(chatMessagesTable.id, branchReply.parent_id!))
+      .execute();
+
+    expect(branchPrompt[0].parent_id).toEqual(firstReply.id);
+  });
+
+  it('should reject parents from other sessions', async () => {
+    await createSession('session-a');
+    await createSession('session-b');
+    const reply = await sendAiMessage({ sessionId: 'session-a', messageContent: 'Hello' });
+
+    await expect(sendAiMessage({
+      sessionId: 'session-b',
+      messageContent: 'Hi',
+      parentMessageId: reply.id
+    })).rejects.toThrow(/not found in this session/i);
+  });
+
+  it('should store image messages with image content type', async () => {
+    await createSession('session-2');
+    const requests = captureRequests();
+    const image = await createAttachment('photo.png', png);
+
+    await sendAiMessage({
+      sessionId: 'session-2',
+      messageContent: 'What is in this picture?',
+      genZMode: false,
+      copyCodeOnlyMode: false,
+      targetLanguage: 'english',
+      imageAttachmentId: image.id,
+      pdfDocumentId: null
+    });
+
+    const messages = await db.select()
+      .from(chatMessagesTable)
+      .where(eq(chatMessagesTable.role, 'user'))
+      .execute();
+
+    expect(messages[0].content_type).toEqual('image');
+    expect(messages[0].attachment_id).toEqual(image.id);
+    expect(messages[0].metadata).toEqual({ hasImage: true, filename: 'photo.png' });
+    // The provider gets the image inline; the row only references it
+    expect(requests[0].messages[requests[0].messages.length - 1].images).toEqual([`data:image/png;base64,${png.toString('base64')}`]);
+  });
+
+  it('should only accept image attachments as message images', async () => {
+    await createSession('session-2');
+    const notes = await createAttachment('notes.txt', Buffer.from('Plain notes'));
+
+    await expect(sendAiMessage({
+      sessionId: 'session-2',
+      messageContent: 'What is in this picture?',
+      imageAttachmentId: notes.id
+    })).rejects.toThrow(/not an image/);
+  });
+
+  it('should attach an uploaded PDF to the user message', async () => {
+    await createSession('session-3');
+    const documents = await db.insert(pdfDocumentsTable)
+      .values({ session_id: 'session-3', filename: 'annual.pdf', page_count: 12, embedding_model: 'local/embedding' })
+      .returning()
+      .execute();
+
+    await sendAiMessage({
+      sessionId: 'session-3',
+      messageContent: 'Summarise this',
+      genZMode: false,
+      copyCodeOnlyMode: false,
+      targetLanguage: 'english',
+      imageAttachmentId: null,
+      pdfDocumentId: documents[0].id
+    });
+
+    const messages = await db.select()
+      .from(chatMessagesTable)
+      .where(eq(chatMessagesTable.role, 'user'))
+      .execute();
+
+    expect(messages[0].content_type).toEqual('pdf');
+    expect(messages[0].content).toEqual('Summarise this');
+    expect(messages[0].metadata).toEqual({ pdfDocumentId: documents[0].id, filename: 'annual.pdf', page_count: 12 });
+  });
+
+  it('should reject PDFs from other sessions', async () => {
+    await createSession('session-3');
+    await createSession('session-4');
+    const documents = await db.insert(pdfDocumentsTable)
+      .values({ session_id: 'session-4', filename: 'other.pdf', page_count: 1, embedding_model: 'local/embedding' })
+      .returning()
+      .execute();
+
+    await expect(sendAiMessage({
+      sessionId: 'session-3',
+      messageContent: 'Summarise this',
+      pdfDocumentId: documents[0].id
+    })).rejects.toThrow(/not found in this session/);
+  });
+
+  it('should reject unknown sessions', async () => {
+    await expect(sendAiMessage({
+      sessionId: 'missing',
+      messageContent: 'Hello'
+    })).rejects.toThrow(/session not found/i);
+  });
+
+  it('should use the modes stored on the session when flags are omitted', async () => {
+    await db.insert(chatSessionsTable)
+      .values({ id: 'session-modes', gen_z_mode: true, copy_code_only_mode: true, target_language: 'french' })
+      .execute();
+    const requests = captureRequests();
+
+    await sendAiMessage({ sessionId: 'session-modes', messageContent: 'Hello' });
+
+    const systemPrompt = requests[0].messages[0];
+    expect(systemPrompt.role).toEqual('system');
+    expect(systemPrompt.content).toContain('Gen Z');
+    expect(systemPrompt.content).toContain('Only respond with code');
+    expect(systemPrompt.content).toContain('Respond in french');
+  });
+
+  it('should let explicit flags override the session modes', async () => {
+    await db.insert(chatSessionsTable)
+      .values({ id: 'session-override', gen_z_mode: true, target_language: 'french' })
+      .execute();
+    const requests = captureRequests();
+
+    await sendAiMessage({ sessionId: 'session-override', messageContent: 'Hello', genZMode: false, targetLanguage: 'german' });
+
+    expect(requests[0].messages[0].content).not.toContain('Gen Z');
+    expect(requests[0].messages[0].content).toContain('Respond in german');
+  });
+
+  it('should send the session generation settings and record the model', async () => {
+    await db.insert(chatSessionsTable)
+      .values({ id: 'session-params', model: 'local/large', temperature: 0.5, max_tokens: 64, stop: ['END'] })
+      .execute();
+    const requests = captureRequests();
+
+    const reply = await sendAiMessage({ sessionId: 'session-params', messageContent: 'Hello' });
+
+    expect(requests[0]).toMatchObject({ model: 'local/large', temperature: 0.5, max_tokens: 64, stop: ['END'] });
+    expect(reply.metadata).toEqual({ model: 'local/large' });
+  });
+
+  it('should let session settings override the persona defaults', async () => {
+    const persona = await createPersona({ name: 'Terse', system_prompt: 'Be brief.', model_params: { temperature: 0.1, max_tokens: 50 } });
+    await db.insert(chatSessionsTable)
+      .values({ id: 'session-persona-params', persona_id: persona.id, temperature: 1.5 })
+      .execute();
+    const requests = captureRequests();
+
+    const reply = await sendAiMessage({ sessionId: 'session-persona-params', messageContent: 'Hello' });
+
+    expect(requests[0].temperature).toEqual(1.5);
+    expect(requests[0].max_tokens).toEqual(50);
+    expect(requests[0].model).toBeUndefined();
+    expect(reply.metadata).toEqual({ model: 'local/chat' });
+  });
+});
@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { chatMessagesTable, chatSessionsTable } from '../db/schema';
+import { type StreamAiMessageInput, type AiMessageStreamEvent } from '../schema';
+import { streamAiMessage } from '../handlers/stream_ai_message';
+import { cancelAiMessage } from '../handlers/cancel_ai_message';
+import { eq, asc } from 'drizzle-orm';
+
+const testInput: StreamAiMessageInput = {
+  streamId: 'stream-1',
+  sessionId: 'session-1',
+  messageContent: 'Tell me about streaming responses',
+  genZMode: false,
+  copyCodeOnlyMode: false,
+  targetLanguage: 'english',
+  imageAttachmentId: null,
+  pdfDocumentId: null
+};
+
+const createSession = async () => {
+  await db.insert(chatSessionsTable)
+    .values({
+      id: 'session-1',
+      title: 'Test Session',
+      gen_z_mode: false,
+      copy_code_only_mode: false,
+      target_language: null
+    })
+    .execute();
+};
+
+describe('streamAiMessage', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should stream deltas followed by the persisted message', async () => {
+    await createSession();
+
+    const events: AiMessageStreamEvent[] = [];
+    for await (const event of streamAiMessage(testInput)) {
+      events.push(event);
+    }
+
+    const deltas = events.filter(event => event.type === 'delta');
+    const last = events[events.length - 1];
+
+    expect(deltas.length).toBeGreaterThan(1);
+    expect(last.type).toEqual('done');
+    if (last.type !== 'done') return;
+
+    const streamedText = deltas.map(event => event.type === 'delta' ? event.content : '').join('');
+    expect(last.message.content).toEqual(streamedText);
+    expect(last.message.role).toEqual('assistant');
+
+    const messages = await db.select()
+      .from(chatMessagesTable)
+      .where(eq(chatMessagesTable.session_id, 'session-1'))
+      .orderBy(asc(chatMessagesTable.id))
+      .execute();
+
+    expect(messages).toHaveLength(2);
+    expect(messages[0].role).toEqual('user');
+    expect(messages[1].id).toEqual(last.message.id);
+  });
+
+  it('should persist the partial answer when cancelled', async () => {
+    await createSession();
+
+    const events: AiMessageStreamEvent[] = [];
+    for await (const event of streamAiMessage(testInput)) {
+      events.push(event);
+      if (events.length === 2) {
+        const result = await cancelAiMessage({ streamId: 'stream-1' });
+        expect(result.cancelled).toBe(true);
+      }
+    }
+
+    const last = events[events.length - 1];
+    expect(last.type).toEqual('cancelled');
+    if (last.type !== 'cancelled') return;
+
+    const partialText = events
+      .map(event => event.type === 'delta' ? event.content : '')
+      .join('');
+
+    expect(last.message).not.toBeNull();
+    expect(last.message!.content).toEqual(partialText);
+    expect(last.message!.metadata).toMatchObject({ cancelled: true });
+
+    const saved = await db.select()
+      .from(chatMessagesTable)
+      .where(eq(chatMessagesTable.role, 'assistant'))
+      .execute();
+
+    expect(saved).toHaveLength(1);
+    expect(saved[0].content).toEqual(partialText);
+  });
+
+  it('should persist the partial answer when the client disconnects', async () => {
+    await createSession();
+
+    const clientAbort = new AbortController();
+    const stream = streamAiMessage(testInput, clientAbort.signal);
+
+    const first = await stream.next();
+    expect(first.value?.type).toEqual('delta');
+
+    clientAbort.abort();
+    await stream.return(undefined);
+
+    const saved = await db.select()
+      .from(chatMessagesTable)
+      .where(eq(chatMessagesTable.role, 'assistant'))
+      .execute();
+
+    expect(saved).toHaveLength(1);
+    expect(saved[0].metadata).toMatchObject({ cancelled: true });
+  });
+
+  it('should reject unknown sessions', async () => {
+    const consume = async () => {
+      for await (const _event of streamAiMessage({ ...testInput, sessionId: 'missing' })) {
+        // Drain the stream
+      }
+    };
+
+    await expect(consume()).rejects.toThrow(/session not found/i);
+  });
+});
+
+describe('cancelAiMessage', () => {
+  it('should report unknown streams as not cancelled', async () => {
+    const result = await cancelAiMessage({ streamId: 'unknown-stream' });
+
+    expect(result.cancelled).toBe(false);
+  });
+});
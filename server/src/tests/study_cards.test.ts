@@ -0,0 +1,175 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { quizTable, studyCardsTable } from '../db/schema';
+import { type QuizAnswer, type QuizData } from '../schema';
+import { getDueCards } from '../handlers/get_due_cards';
+import { reviewCard } from '../handlers/review_card';
+import { submitQuizAttempt } from '../handlers/submit_quiz_attempt';
+import { generateQuiz } from '../handlers/generate_quiz';
+import { MIN_EASE_FACTOR, ratingForScore, scheduleReview, syncStudyCards, type CardState } from '../study';
+import { asc, eq } from 'drizzle-orm';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const span = [{ start: 0, end: 6, quote: 'Source' }];
+
+const quizData: QuizData = {
+  title: 'Capitals',
+  difficulty: 'easy',
+  questions: [
+    { type: 'multiple_choice', question: 'Capital of France?', options: ['Lyon', 'Paris'], answer_index: 1, explanation: 'Paris.', source_spans: span },
+    { type: 'true_false', question: 'Berlin is in Germany.', answer: true, explanation: 'It is.', source_spans: span },
+    { type: 'multi_select', question: 'Which are in Italy?', options: ['Rome', 'Milan', 'Madrid'], answer_indices: [0, 1], explanation: 'Rome and Milan.', source_spans: span }
+  ]
+};
+
+const newCard: CardState = { ease_factor: 2.5, interval_days: 0, repetitions: 0, lapses: 0 };
+
+// Saves a quiz with its cards, as generateQuiz does
+const createQuiz = async (data: unknown = quizData) => {
+  const [quiz] = await db.insert(quizTable).values({ source_text: 'Source text', quiz_data: data }).returning().execute();
+  await syncStudyCards(quiz.id);
+  return quiz;
+};
+
+const cardsOf = (quizId: number) => db.select()
+  .from(studyCardsTable)
+  .where(eq(studyCardsTable.quiz_id, quizId))
+  .orderBy(asc(studyCardsTable.question_index))
+  .execute();
+
+describe('scheduleReview', () => {
+  const now = new Date('2026-03-01T12:00:00Z');
+
+  it('should space successful reviews 1, 6 and then interval × ease factor days apart', () => {
+    const first = scheduleReview(newCard, 'good', now);
+    const second = scheduleReview(first, 'good', now);
+    const third = scheduleReview(second, 'good', now);
+
+    expect([first.interval_days, second.interval_days, third.interval_days]).toEqual([1, 6, 15]);
+    expect(third.repetitions).toEqual(3);
+    expect(third.ease_factor).toBeCloseTo(2.5);
+    expect(first.due_at).toEqual(new Date(now.getTime() + DAY_MS));
+    expect(first.last_reviewed_at).toEqual(now);
+  });
+
+  it('should raise the ease factor for easy cards and lower it for hard ones', () => {
+    expect(scheduleReview(newCard, 'easy', now).ease_factor).toBeCloseTo(2.6);
+    expect(scheduleReview(newCard, 'hard', now).ease_factor).toBeCloseTo(2.36);
+
+    const struggling = { ...newCard, ease_factor: 1.35, repetitions: 2, interval_days: 6 };
+    const hard = scheduleReview(struggling, 'hard', now);
+    expect(hard.ease_factor).toEqual(MIN_EASE_FACTOR);
+    expect(hard.interval_days).toEqual(Math.round(6 * MIN_EASE_FACTOR));
+  });
+
+  it('should start a forgotten card over within minutes, keeping its ease factor', () => {
+    const learned = { ease_factor: 2.2, interval_days: 15, repetitions: 3, lapses: 1 };
+
+    const lapsed = scheduleReview(learned, 'again', now);
+
+    expect(lapsed).toMatchObject({ ease_factor: 2.2, interval_days: 0, repetitions: 0, lapses: 2 });
+    expect(lapsed.due_at).toEqual(new Date(now.getTime() + 10 * 60 * 1000));
+    expect(scheduleReview(lapsed, 'good', now).interval_days).toEqual(1);
+  });
+
+  it('should turn quiz scores into ratings', () => {
+    expect([1, 0.75, 0.5, 0.25, 0].map(ratingForScore)).toEqual(['good', 'hard', 'hard', 'again', 'again']);
+  });
+});
+
+describe('study cards', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should make every question of every quiz a due card', async () => {
+    const first = await createQuiz();
+    const second = await createQuiz({ ...quizData, title: 'More capitals', questions: quizData.questions.slice(0, 1) });
+    await createQuiz([{ question: 'Saved before typed questions', answer: 'A' }]);
+
+    const due = await getDueCards({});
+
+    expect(due.due_count).toEqual(4);
+    expect(due.next_due_at).toBeNull();
+    expect(due.cards.map(card => [card.quiz_id, card.question_index])).toEqual([[first.id, 0], [first.id, 1], [first.id, 2], [second.id, 0]]);
+    expect(due.cards[0]).toMatchObject({ quiz_title: 'Capitals', question: quizData.questions[0], repetitions: 0, ease_factor: 2.5 });
+    expect(due.cards[3].quiz_title).toEqual('More capitals');
+
+    // Syncing again adds nothing
+    await syncStudyCards();
+    expect((await getDueCards({})).due_count).toEqual(4);
+  });
+
+  it('should only create cards when syncing, not when reading', async () => {
+    const [quiz] = await db.insert(quizTable).values({ source_text: 'Source text', quiz_data: quizData }).returning().execute();
+
+    expect((await getDueCards({})).due_count).toEqual(0);
+    expect(await cardsOf(quiz.id)).toHaveLength(0);
+
+    await syncStudyCards();
+    expect((await getDueCards({})).due_count).toEqual(3);
+  });
+
+  it('should filter by quiz and limit the cards without limiting the count', async () => {
+    const first = await createQuiz();
+    await createQuiz();
+
+    const due = await getDueCards({ quiz_id: first.id, limit: 2 });
+
+    expect(due.cards).toHaveLength(2);
+    expect(due.cards.every(card => card.quiz_id === first.id)).toBe(true);
+    expect(due.due_count).toEqual(3);
+  });
+
+  it('should reschedule a reviewed card and report when the next card is due', async () => {
+    await createQuiz();
+    const [card] = (await getDueCards({ limit: 1 })).cards;
+
+    const reviewed = await reviewCard({ card_id: card.id, rating: 'good' });
+
+    expect(reviewed).toMatchObject({ id: card.id, repetitions: 1, interval_days: 1 });
+    expect(reviewed.last_reviewed_at).toBeInstanceOf(Date);
+    const due = await getDueCards({});
+    expect(due.due_count).toEqual(2);
+    expect(due.cards.map(other => other.id)).not.toContain(card.id);
+    expect(due.next_due_at).toEqual(reviewed.due_at);
+  });
+
+  it('should reject unknown cards', async () => {
+    await expect(reviewCard({ card_id: 999, rating: 'good' })).rejects.toThrow(/Study card with id 999 not found/);
+  });
+
+  it('should create the cards of a generated quiz', async () => {
+    const quiz = await generateQuiz({ source: { type: 'text', text: 'Rivers carry water to the sea. Lakes hold fresh water for a long time.' }, question_count: 2 });
+
+    expect((await cardsOf(quiz.id)).map(card => card.question_index)).toEqual([0, 1]);
+  });
+
+  it('should review the cards of a quiz with the results of an attempt', async () => {
+    const quiz = await createQuiz();
+
+    await submitQuizAttempt({
+      quiz_id: quiz.id,
+      answers: [{ type: 'multiple_choice', selected: 1 }, { type: 'true_false', value: false }, { type: 'multi_select', selected: [0] }]
+    });
+
+    const [right, wrong, half] = await cardsOf(quiz.id);
+    expect(right).toMatchObject({ repetitions: 1, interval_days: 1, ease_factor: 2.5 });
+    expect(wrong).toMatchObject({ repetitions: 0, lapses: 1 });
+    expect(half).toMatchObject({ repetitions: 1, interval_days: 1 });
+    expect(half.ease_factor).toBeCloseTo(2.36);
+  });
+
+  it('should not let an immediate retake push cards further ahead, but still record mistakes', async () => {
+    const quiz = await createQuiz();
+    const allRight: QuizAnswer[] = [{ type: 'multiple_choice', selected: 1 }, { type: 'true_false', value: true }, { type: 'multi_select', selected: [0, 1] }];
+    await submitQuizAttempt({ quiz_id: quiz.id, answers: allRight });
+
+    await submitQuizAttempt({ quiz_id: quiz.id, answers: [allRight[0], { type: 'true_false', value: false }, allRight[2]] });
+
+    const [first, second, third] = await cardsOf(quiz.id);
+    expect(first).toMatchObject({ repetitions: 1, interval_days: 1 });
+    expect(second).toMatchObject({ repetitions: 0, lapses: 1 });
+    expect(third).toMatchObject({ repetitions: 1, interval_days: 1 });
+  });
+});
@@ -195,4 +195,47 @@ describe('updateChatSession', () => {
     expect(result.created_at).toEqual(originalSession.created_at);
     expect(result.updated_at).not.toEqual(originalSession.updated_at); // Should be updated
   });
-});
\ No newline at end of file
+
+  it('should mark user title changes as manual', async () => {
+    const originalSession = await createTestSession();
+
+    const result = await updateChatSession({ id: originalSession.id, title: 'Renamed' });
+
+    expect(originalSession.title_source).toEqual('default');
+    expect(result.title_source).toEqual('manual');
+  });
+
+  it('should not let automatic titles replace a manual one', async () => {
+    const originalSession = await createTestSession();
+    await updateChatSession({ id: originalSession.id, title: 'My title' });
+
+    const result = await updateChatSession({ id: originalSession.id, title: 'Generated title' }, { titleSource: 'auto' });
+
+    expect(result.title).toEqual('My title');
+    expect(result.title_source).toEqual('manual');
+  });
+
+  it('should set and clear the generation settings', async () => {
+    const originalSession = await createTestSession();
+
+    const result = await updateChatSession({
+      id: originalSession.id,
+      model: 'local/large',
+      temperature: 0.5,
+      max_tokens: 256,
+      stop: ['END']
+    });
+
+    expect(originalSession.model).toBeNull();
+    expect(result.model).toEqual('local/large');
+    expect(result.temperature).toEqual(0.5);
+    expect(result.max_tokens).toEqual(256);
+    expect(result.stop).toEqual(['END']);
+
+    const cleared = await updateChatSession({ id: originalSession.id, model: null, stop: null });
+
+    expect(cleared.model).toBeNull();
+    expect(cleared.stop).toBeNull();
+    expect(cleared.temperature).toEqual(0.5); // Unchanged
+  });
+});
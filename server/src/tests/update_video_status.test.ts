@@ -1,9 +1,11 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { generatedVideosTable } from '../db/schema';
+import { generatedVideosTable, jobsTable } from '../db/schema';
 import { type UpdateGeneratedVideoInput } from '../schema';
-import { updateVideoStatus } from '../handlers/update_video_status';
+import { updateVideoStatus, IllegalVideoTransitionError } from '../handlers/update_video_status';
+import { generateVideo } from '../handlers/generate_video';
+import { getVideoStatus } from '../handlers/get_video_status';
 import { eq } from 'drizzle-orm';
 
 describe('updateVideoStatus', () => {
@@ -44,14 +46,12 @@ describe('updateVideoStatus', () => {
 
   it('should update video URL when completed', async () => {
     const testVideo = await createTestVideo();
-    const completedAt = new Date();
     
     const updateInput: UpdateGeneratedVideoInput = {
       id: testVideo.id,
       status: 'completed',
       video_url: 'http://example.com/generated-video.mp4',
-      progress_message: 'Video generation completed',
-      completed_at: completedAt
+      progress_message: 'Video generation completed'
     };
 
     const result = await updateVideoStatus(updateInput);
@@ -60,7 +60,8 @@ describe('updateVideoStatus', () => {
     expect(result.status).toEqual('completed');
     expect(result.video_url).toEqual('http://example.com/generated-video.mp4');
     expect(result.progress_message).toEqual('Video generation completed');
-    expect(result.completed_at).toEqual(completedAt);
+    expect(result.progress).toEqual(100);
+    expect(result.completed_at).toBeInstanceOf(Date);
   });
 
   it('should update failed status with error message', async () => {
@@ -127,26 +128,19 @@ describe('updateVideoStatus', () => {
     expect(videos[0].video_url).toEqual('http://example.com/final-video.mp4');
   });
 
-  it('should handle null values correctly', async () => {
+  it('should clear the progress message', async () => {
     const testVideo = await createTestVideo();
     
-    // Set some values first
     await updateVideoStatus({
       id: testVideo.id,
-      progress_message: 'Initial message',
-      video_url: 'http://example.com/temp.mp4'
+      progress_message: 'Initial message'
     });
 
-    // Now update with null values
-    const updateInput: UpdateGeneratedVideoInput = {
+    const result = await updateVideoStatus({
       id: testVideo.id,
-      progress_message: null,
-      video_url: null
-    };
-
-    const result = await updateVideoStatus(updateInput);
+      progress_message: null
+    });
     expect(result.progress_message).toBeNull();
-    expect(result.video_url).toBeNull();
   });
 
   it('should throw error for non-existent video', async () => {
@@ -158,17 +152,42 @@ describe('updateVideoStatus', () => {
     expect(updateVideoStatus(updateInput)).rejects.toThrow(/not found/i);
   });
 
-  it('should update with completed_at timestamp', async () => {
+  it('should keep progress moving forward until the video is completed', async () => {
     const testVideo = await createTestVideo();
-    const completedDate = new Date('2024-01-01T12:00:00Z');
-    
-    const updateInput: UpdateGeneratedVideoInput = {
-      id: testVideo.id,
-      status: 'completed',
-      completed_at: completedDate
-    };
 
-    const result = await updateVideoStatus(updateInput);
-    expect(result.completed_at).toEqual(completedDate);
+    const started = await updateVideoStatus({ id: testVideo.id, status: 'processing', progress: 60 });
+    expect(started.started_at).toBeInstanceOf(Date);
+
+    expect((await updateVideoStatus({ id: testVideo.id, progress: 40 })).progress).toEqual(60);
+    expect((await updateVideoStatus({ id: testVideo.id, progress: 100 })).progress).toEqual(99);
+  });
+
+  it('should reject completing without a video URL', async () => {
+    const testVideo = await createTestVideo();
+
+    await expect(updateVideoStatus({ id: testVideo.id, status: 'completed' })).rejects.toThrow(IllegalVideoTransitionError);
+    await expect(updateVideoStatus({ id: testVideo.id, status: 'processing', video_url: 'http://example.com/early.mp4' }))
+      .rejects.toThrow(/only be sent with status completed/);
+  });
+
+  it('should not change finished videos', async () => {
+    const testVideo = await createTestVideo();
+    await updateVideoStatus({ id: testVideo.id, status: 'completed', video_url: 'http://example.com/final-video.mp4' });
+
+    await expect(updateVideoStatus({ id: testVideo.id, status: 'processing' })).rejects.toThrow(/cannot go from completed to processing/);
+    await expect(updateVideoStatus({ id: testVideo.id, progress_message: 'Still rendering' })).rejects.toThrow(IllegalVideoTransitionError);
+
+    const video = await getVideoStatus({ id: testVideo.id });
+    expect(video.status).toEqual('completed');
+    expect(video.video_url).toEqual('http://example.com/final-video.mp4');
+  });
+
+  it('should cancel the job of a video the backend finished', async () => {
+    const video = await generateVideo({ prompt: 'A paper boat' });
+
+    await updateVideoStatus({ id: video.id, status: 'failed', progress_message: 'Backend out of capacity' });
+
+    const jobs = await db.select().from(jobsTable).execute();
+    expect(jobs.map(job => job.status)).toEqual(['cancelled']);
   });
 });
\ No newline at end of file
@@ -0,0 +1,196 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { aiUsageTable, chatSessionsTable } from '../db/schema';
+import { sendAiMessage } from '../handlers/send_ai_message';
+import { streamAiMessage } from '../handlers/stream_ai_message';
+import { generateImage } from '../handlers/generate_image';
+import { analyzeDocument } from '../handlers/analyze_document';
+import { getUsage } from '../handlers/get_usage';
+import { cancelAiMessage } from '../handlers/cancel_ai_message';
+import { estimateCost, meterProvider, type AIProvider, type AIUsageEvent } from '../ai';
+import { createLocalProvider } from '../ai/local_provider';
+import { asc } from 'drizzle-orm';
+
+const allUsage = () => db.select().from(aiUsageTable).orderBy(asc(aiUsageTable.id)).execute();
+
+describe('AI usage recording', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should record chat replies and titles against the session', async () => {
+    await db.insert(chatSessionsTable).values({ id: 'session-1' }).execute();
+
+    await sendAiMessage({ sessionId: 'session-1', messageContent: 'What is a closure?' });
+
+    const usage = await allUsage();
+    expect(usage.map(row => row.feature)).toEqual(['chat', 'chat_title']);
+    expect(usage[0]).toMatchObject({ operation: 'chat', session_id: 'session-1', model: 'local/chat', cost_usd: 0 });
+    expect(usage[0].prompt_tokens).toBeGreaterThan(0);
+    expect(usage[0].completion_tokens).toBeGreaterThan(0);
+    expect(usage[0].latency_ms).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should record streamed replies once they finish', async () => {
+    await db.insert(chatSessionsTable).values({ id: 'session-stream' }).execute();
+
+    for await (const _event of streamAiMessage({ sessionId: 'session-stream', messageContent: 'Hello', streamId: 'stream-1' })) {
+      // Drain the stream
+    }
+
+    const usage = await allUsage();
+    expect(usage[0]).toMatchObject({ feature: 'chat', operation: 'stream', session_id: 'session-stream', aborted: false });
+  });
+
+  it('should record stopped streams as aborted with estimated tokens', async () => {
+    await db.insert(chatSessionsTable).values({ id: 'session-stop' }).execute();
+
+    let deltas = 0;
+    for await (const event of streamAiMessage({ sessionId: 'session-stop', messageContent: 'Hello', streamId: 'stream-stop' })) {
+      if (event.type === 'delta' && ++deltas === 1) {
+        await cancelAiMessage({ streamId: 'stream-stop' });
+      }
+    }
+
+    const usage = await allUsage();
+    expect(usage).toHaveLength(1);
+    expect(usage[0]).toMatchObject({ feature: 'chat', operation: 'stream', session_id: 'session-stop', aborted: true });
+    expect(usage[0].prompt_tokens).toBeGreaterThan(0);
+    expect(usage[0].completion_tokens).toBeGreaterThan(0);
+  });
+
+  it('should record streams that fail before they finish as aborted', async () => {
+    const events: AIUsageEvent[] = [];
+    const failing: AIProvider = {
+      ...createLocalProvider(),
+      name: 'failing',
+      streamChat: async function* () {
+        yield { type: 'delta', content: 'Half an ans' };
+        throw new Error('Connection reset');
+      }
+    };
+    const provider = meterProvider(failing, async event => { events.push(event); });
+
+    const consume = async () => {
+      for await (const _event of provider.streamChat({ messages: [{ role: 'user', content: 'Hi' }] })) {
+        // Drain the stream
+      }
+    };
+
+    await expect(consume()).rejects.toThrow('Connection reset');
+    expect(events).toEqual([{
+      operation: 'stream',
+      model: 'failing',
+      usage: { prompt_tokens: expect.any(Number), completion_tokens: expect.any(Number) },
+      images: 0,
+      latency_ms: expect.any(Number),
+      aborted: true
+    }]);
+    expect(estimateCost(events[0].model, events[0].usage)).toBeNull();
+  });
+
+  it('should record image generation and document analysis', async () => {
+    await generateImage({ prompt: 'A cat' });
+    await analyzeDocument({ image_url: 'https://example.com/doc.png', prompt: 'Extract the text' });
+
+    const usage = await allUsage();
+    expect(usage.map(row => [row.feature, row.operation, row.session_id])).toEqual([
+      ['image', 'image', null],
+      ['document_analysis', 'vision', null]
+    ]);
+  });
+});
+
+describe('estimateCost', () => {
+  afterEach(() => {
+    delete process.env['AI_PRICES'];
+  });
+
+  it('should price tokens per million and images per image', () => {
+    expect(estimateCost('google/gemini-2.0-flash-lite-001', { prompt_tokens: 1_000_000, completion_tokens: 1_000_000 })).toBeCloseTo(0.375);
+    expect(estimateCost('dall-e-3', { prompt_tokens: 0, completion_tokens: 0 }, 2)).toBeCloseTo(0.08);
+  });
+
+  it('should treat local models as free and unknown models as unpriced', () => {
+    expect(estimateCost('local/chat', { prompt_tokens: 500, completion_tokens: 500 })).toEqual(0);
+    expect(estimateCost('unknown-model', { prompt_tokens: 500, completion_tokens: 500 })).toBeNull();
+  });
+
+  it('should read prices from AI_PRICES', () => {
+    process.env['AI_PRICES'] = JSON.stringify({ 'custom-model': { prompt: 2, completion: 4 } });
+
+    expect(estimateCost('custom-model', { prompt_tokens: 500_000, completion_tokens: 250_000 })).toBeCloseTo(2);
+  });
+});
+
+describe('getUsage', () => {
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(chatSessionsTable).values([
+      { id: 'session-a', title: 'First chat' },
+      { id: 'session-b', title: 'Second chat' }
+    ]).execute();
+
+    const row = { operation: 'chat' as const, model: 'paid-model', prompt_tokens: 100, completion_tokens: 50, latency_ms: 200 };
+    await db.insert(aiUsageTable).values([
+      { ...row, feature: 'chat', session_id: 'session-a', cost_usd: 0.01, created_at: new Date('2026-03-01T10:00:00') },
+      { ...row, feature: 'chat', session_id: 'session-a', cost_usd: 0.02, latency_ms: 400, created_at: new Date('2026-03-02T10:00:00') },
+      { ...row, feature: 'chat_title', session_id: 'session-b', cost_usd: 0.005, created_at: new Date('2026-03-02T11:00:00') },
+      { ...row, feature: 'image', operation: 'image', model: 'unpriced-model', cost_usd: null, created_at: new Date('2026-03-03T09:00:00') }
+    ]).execute();
+  });
+  afterEach(resetDB);
+
+  it('should total all calls', async () => {
+    const report = await getUsage({ groupBy: 'feature' });
+
+    expect(report.totals).toEqual({
+      calls: 4,
+      prompt_tokens: 400,
+      completion_tokens: 200,
+      cost_usd: expect.closeTo(0.035, 6),
+      unpriced_calls: 1,
+      aborted_calls: 0,
+      avg_latency_ms: 250
+    });
+  });
+
+  it('should group by day', async () => {
+    const report = await getUsage({ groupBy: 'day' });
+
+    expect(report.groups.map(group => [group.key, group.calls])).toEqual([
+      ['2026-03-01', 1],
+      ['2026-03-02', 2],
+      ['2026-03-03', 1]
+    ]);
+  });
+
+  it('should group by feature, most expensive first', async () => {
+    const report = await getUsage({ groupBy: 'feature' });
+
+    expect(report.groups.map(group => group.key)).toEqual(['chat', 'chat_title', 'image']);
+    expect(report.groups[0].cost_usd).toBeCloseTo(0.03);
+    expect(report.groups[2].unpriced_calls).toEqual(1);
+  });
+
+  it('should group by session with titles', async () => {
+    const report = await getUsage({ groupBy: 'session' });
+
+    expect(report.groups.map(group => [group.key, group.label, group.calls])).toEqual([
+      ['session-a', 'First chat', 2],
+      ['session-b', 'Second chat', 1],
+      [null, null, 1]
+    ]);
+  });
+
+  it('should filter by date range, feature and session', async () => {
+    const byRange = await getUsage({ groupBy: 'day', from: new Date('2026-03-02T00:00:00'), to: new Date('2026-03-03T00:00:00') });
+    expect(byRange.totals.calls).toEqual(2);
+
+    const byFeature = await getUsage({ groupBy: 'session', feature: 'chat' });
+    expect(byFeature.groups.map(group => group.key)).toEqual(['session-a']);
+
+    const bySession = await getUsage({ groupBy: 'feature', sessionId: 'session-b' });
+    expect(bySession.totals.calls).toEqual(1);
+  });
+});
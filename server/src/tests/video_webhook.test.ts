@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { generateVideo } from '../handlers/generate_video';
+import { getVideoStatus } from '../handlers/get_video_status';
+import { receiveVideoWebhook, WebhookDisabledError } from '../handlers/receive_video_webhook';
+import { IllegalVideoTransitionError } from '../handlers/update_video_status';
+import { signVideoWebhook, WebhookAuthError } from '../video';
+
+const SECRET = 'test-webhook-secret';
+
+const signedCall = (body: Record<string, unknown>, options: { nonce?: string; at?: Date; secret?: string } = {}) => {
+  const raw = Buffer.from(JSON.stringify(body));
+  const timestamp = String(Math.floor((options.at ?? new Date()).getTime() / 1000));
+  const nonce = options.nonce ?? crypto.randomUUID();
+  return {
+    headers: { timestamp, nonce, signature: signVideoWebhook(options.secret ?? SECRET, timestamp, nonce, raw) },
+    body: raw
+  };
+};
+
+describe('receiveVideoWebhook', () => {
+  beforeEach(async () => {
+    await createDB();
+    process.env['VIDEO_WEBHOOK_SECRET'] = SECRET;
+  });
+  afterEach(async () => {
+    delete process.env['VIDEO_WEBHOOK_SECRET'];
+    delete process.env['VIDEO_WEBHOOK_TOLERANCE_SECONDS'];
+    await resetDB();
+  });
+
+  it('should apply signed status reports', async () => {
+    const video = await generateVideo({ prompt: 'A paper boat' });
+
+    const progress = signedCall({ id: video.id, status: 'processing', progress: 30, progress_message: 'Rendering' });
+    expect(await receiveVideoWebhook(progress.headers, progress.body)).toMatchObject({ status: 'processing', progress: 30 });
+
+    const done = signedCall({ id: video.id, status: 'completed', video_url: 'https://render.example.com/boat.mp4' });
+    await receiveVideoWebhook(done.headers, done.body);
+
+    expect(await getVideoStatus({ id: video.id })).toMatchObject({
+      status: 'completed',
+      progress: 100,
+      video_url: 'https://render.example.com/boat.mp4'
+    });
+  });
+
+  it('should reject bad signatures and missing headers', async () => {
+    const video = await generateVideo({ prompt: 'A paper boat' });
+    const call = signedCall({ id: video.id, status: 'processing' }, { secret: 'someone-else' });
+
+    await expect(receiveVideoWebhook(call.headers, call.body)).rejects.toThrow(/signature does not match/);
+    await expect(receiveVideoWebhook({ ...call.headers, signature: undefined }, call.body)).rejects.toThrow(WebhookAuthError);
+
+    // A valid signature doesn't cover a different body
+    const valid = signedCall({ id: video.id, status: 'processing' });
+    const tampered = Buffer.from(JSON.stringify({ id: video.id, status: 'completed', video_url: 'https://evil.example.com/x.mp4' }));
+    await expect(receiveVideoWebhook(valid.headers, tampered)).rejects.toThrow(WebhookAuthError);
+
+    expect((await getVideoStatus({ id: video.id })).status).toEqual('pending');
+  });
+
+  it('should reject stale timestamps', async () => {
+    process.env['VIDEO_WEBHOOK_TOLERANCE_SECONDS'] = '60';
+    const video = await generateVideo({ prompt: 'A paper boat' });
+    const call = signedCall({ id: video.id, status: 'processing' }, { at: new Date(Date.now() - 120 * 1000) });
+
+    await expect(receiveVideoWebhook(call.headers, call.body)).rejects.toThrow(/outside the accepted window/);
+  });
+
+  it('should accept each nonce only once', async () => {
+    const video = await generateVideo({ prompt: 'A paper boat' });
+    const call = signedCall({ id: video.id, status: 'processing', progress: 10 });
+
+    await receiveVideoWebhook(call.headers, call.body);
+    await expect(receiveVideoWebhook(call.headers, call.body)).rejects.toThrow(/already been used/);
+  });
+
+  it('should only allow legal transitions', async () => {
+    const video = await generateVideo({ prompt: 'A paper boat' });
+    const done = signedCall({ id: video.id, status: 'completed', video_url: 'https://render.example.com/boat.mp4' });
+    await receiveVideoWebhook(done.headers, done.body);
+
+    const back = signedCall({ id: video.id, status: 'processing' });
+    await expect(receiveVideoWebhook(back.headers, back.body)).rejects.toThrow(IllegalVideoTransitionError);
+
+    const cancel = signedCall({ id: video.id, status: 'cancelled' });
+    await expect(receiveVideoWebhook(cancel.headers, cancel.body)).rejects.toThrow(/invalid enum value/i);
+  });
+
+  it('should refuse every call while no secret is configured', async () => {
+    delete process.env['VIDEO_WEBHOOK_SECRET'];
+    const video = await generateVideo({ prompt: 'A paper boat' });
+    const call = signedCall({ id: video.id, status: 'processing' });
+
+    await expect(receiveVideoWebhook(call.headers, call.body)).rejects.toThrow(WebhookDisabledError);
+  });
+});
@@ -0,0 +1,185 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createStorage, removeStorage } from '../helpers';
+import { db } from '../db';
+import { aiUsageTable, generatedVideosTable, jobsTable } from '../db/schema';
+import { generateVideo } from '../handlers/generate_video';
+import { getVideoStatus } from '../handlers/get_video_status';
+import { processVideoJob, failVideoJob } from '../handlers/process_video_job';
+import { createAttachment } from '../handlers/create_attachment';
+import { createJobWorker, claimJob, type WorkerOptions } from '../jobs';
+import { registerVideoBackend, resetVideoBackend, VIDEO_JOB_KIND, type VideoBackend, type VideoRequest } from '../video';
+import { createLocalVideoBackend } from '../video/local_backend';
+import { eq } from 'drizzle-orm';
+
+const options: WorkerOptions = {
+  pollIntervalMs: 10,
+  heartbeatIntervalMs: 1000,
+  heartbeatTimeoutMs: 30000,
+  maxAttempts: 2,
+  retryDelayMs: 0
+};
+
+const createVideoWorker = () => createJobWorker({
+  [VIDEO_JOB_KIND]: { run: processVideoJob, onAttemptFailed: failVideoJob }
+}, options, 'video-worker');
+
+const useVideoBackend = (backend: VideoBackend) => {
+  registerVideoBackend('capture', () => backend);
+  process.env['VIDEO_BACKEND'] = 'capture';
+  resetVideoBackend();
+};
+
+const pngBytes = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 1, 2, 3]);
+
+describe('video worker', () => {
+  beforeEach(async () => {
+    await createDB();
+    await createStorage();
+    process.env['VIDEO_LOCAL_STEP_MS'] = '0';
+    process.env['JOB_MAX_ATTEMPTS'] = '2';
+    resetVideoBackend();
+  });
+  afterEach(async () => {
+    delete process.env['VIDEO_BACKEND'];
+    delete process.env['VIDEO_LOCAL_STEP_MS'];
+    delete process.env['JOB_MAX_ATTEMPTS'];
+    resetVideoBackend();
+    await removeStorage();
+    await resetDB();
+  });
+
+  it('should queue a job for every new video', async () => {
+    const video = await generateVideo({ prompt: 'A paper boat' });
+
+    const jobs = await db.select().from(jobsTable).execute();
+    expect(jobs).toHaveLength(1);
+    expect(jobs[0].kind).toEqual(VIDEO_JOB_KIND);
+    expect(jobs[0].payload).toEqual({ video_id: video.id });
+    expect(jobs[0].status).toEqual('queued');
+  });
+
+  it('should drive a video from pending to completed', async () => {
+    const video = await generateVideo({ prompt: 'A paper boat' });
+    expect(video.progress).toEqual(0);
+
+    await createVideoWorker().runOnce();
+
+    const finished = await getVideoStatus({ id: video.id });
+    expect(finished.status).toEqual('completed');
+    expect(finished.progress).toEqual(100);
+    expect(finished.video_url).toStartWith('https://generated-videos.example.com/');
+    expect(finished.progress_message).toEqual('Video generation completed');
+    expect(finished.completed_at).toBeInstanceOf(Date);
+
+    const jobs = await db.select().from(jobsTable).execute();
+    expect(jobs[0].status).toEqual('completed');
+
+    const usage = await db.select().from(aiUsageTable).execute();
+    expect(usage).toHaveLength(1);
+    expect(usage[0]).toMatchObject({ feature: 'video', operation: 'video', model: 'local/video', session_id: null, prompt_tokens: 0, completion_tokens: 0 });
+    expect(usage[0].latency_ms).toBeGreaterThanOrEqual(0);
+    expect(usage[0].cost_usd).toEqual(0);
+  });
+
+  it('should record the backend progress while processing', async () => {
+    const local = createLocalVideoBackend({ stepMs: 0 });
+    const seen: [string, number, string | null][] = [];
+    useVideoBackend({
+      name: 'capture',
+      generate: async (request, onProgress, signal) => local.generate(request, async (update) => {
+        await onProgress(update);
+        const video = await getVideoStatus({ id: 1 });
+        seen.push([video.status, video.progress, video.progress_message]);
+      }, signal)
+    });
+
+    await generateVideo({ prompt: 'A paper boat' });
+    await createVideoWorker().runOnce();
+
+    expect(seen).toEqual([
+      ['processing', 10, 'Preparing scene'],
+      ['processing', 40, 'Rendering frames'],
+      ['processing', 75, 'Encoding video'],
+      ['processing', 95, 'Finalizing']
+    ]);
+  });
+
+  it('should hand an initial image attachment to the backend as a data URL', async () => {
+    const requests: VideoRequest[] = [];
+    useVideoBackend({
+      name: 'capture',
+      generate: async (request) => {
+        requests.push(request);
+        return { video_url: 'https://videos.example.com/1.mp4' };
+      }
+    });
+
+    const image = await createAttachment('frame.png', pngBytes);
+    await generateVideo({ prompt: 'Animate this', initial_image_attachment_id: image.id });
+    await createVideoWorker().runOnce();
+
+    expect(requests[0].initial_image_url).toEqual(`data:image/png;base64,${pngBytes.toString('base64')}`);
+  });
+
+  it('should retry failed attempts and fail the video once they run out', async () => {
+    let calls = 0;
+    useVideoBackend({
+      name: 'capture',
+      generate: async () => {
+        calls++;
+        throw new Error('Backend unavailable');
+      }
+    });
+
+    const video = await generateVideo({ prompt: 'A paper boat' });
+    const worker = createVideoWorker();
+
+    await worker.runOnce();
+    const retrying = await getVideoStatus({ id: video.id });
+    expect(retrying.status).toEqual('pending');
+    expect(retrying.progress_message).toEqual('Attempt 1 of 2 failed (Backend unavailable); retrying');
+
+    await worker.runOnce();
+    const failed = await getVideoStatus({ id: video.id });
+    expect(failed.status).toEqual('failed');
+    expect(failed.progress_message).toEqual('Video generation failed: Backend unavailable');
+    expect(failed.completed_at).toBeNull();
+
+    expect(await worker.runOnce()).toBe(false);
+    expect(calls).toEqual(2);
+    // Only finished renders are metered
+    expect(await db.select().from(aiUsageTable).execute()).toHaveLength(0);
+  });
+
+  it('should fail videos whose worker died on its last attempt', async () => {
+    const video = await generateVideo({ prompt: 'A paper boat' });
+    await db.update(jobsTable).set({ max_attempts: 1 }).execute();
+    await claimJob([VIDEO_JOB_KIND], 'dead-worker');
+    await db.update(generatedVideosTable).set({ status: 'processing', progress: 40 }).execute();
+    await db.update(jobsTable).set({ heartbeat_at: new Date(Date.now() - 60000) }).execute();
+
+    await createVideoWorker().runOnce();
+
+    const failed = await getVideoStatus({ id: video.id });
+    expect(failed.status).toEqual('failed');
+    expect(failed.progress_message).toEqual('Video generation failed: Worker dead-worker stopped responding');
+  });
+
+  it('should leave finished and deleted videos alone', async () => {
+    const finished = await generateVideo({ prompt: 'Finished elsewhere' });
+    await db.update(generatedVideosTable)
+      .set({ status: 'completed', video_url: 'https://videos.example.com/done.mp4', progress: 100 })
+      .where(eq(generatedVideosTable.id, finished.id))
+      .execute();
+    const deleted = await generateVideo({ prompt: 'Deleted' });
+    await db.delete(generatedVideosTable).where(eq(generatedVideosTable.id, deleted.id)).execute();
+
+    const worker = createVideoWorker();
+    await worker.runOnce();
+    await worker.runOnce();
+
+    expect((await getVideoStatus({ id: finished.id })).video_url).toEqual('https://videos.example.com/done.mp4');
+    const jobs = await db.select().from(jobsTable).execute();
+    expect(jobs.map(job => job.status)).toEqual(['completed', 'completed']);
+  });
+});
@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { generateVideo } from '../handlers/generate_video';
+import { getVideoStatus } from '../handlers/get_video_status';
+import { getVideoProgress, estimateEtaSeconds } from '../handlers/get_video_progress';
+import { watchVideoProgress } from '../handlers/watch_video_progress';
+import { updateVideoStatus } from '../handlers/update_video_status';
+import { processVideoJob, failVideoJob } from '../handlers/process_video_job';
+import { createJobWorker } from '../jobs';
+import { resetVideoBackend, VIDEO_JOB_KIND } from '../video';
+import { type GeneratedVideo, type VideoProgress } from '../schema';
+
+const processingVideo = (progress: number, startedSecondsAgo: number, now: Date): GeneratedVideo => ({
+  id: 1,
+  prompt: 'A paper boat',
+  initial_image_url: null,
+  initial_image_attachment_id: null,
+  video_url: null,
+  status: 'processing',
+  progress,
+  progress_message: 'Rendering frames',
+  created_at: now,
+  started_at: new Date(now.getTime() - startedSecondsAgo * 1000),
+  completed_at: null
+});
+
+describe('estimateEtaSeconds', () => {
+  const now = new Date('2026-05-01T12:00:00Z');
+
+  it('should extrapolate the remaining time from the pace so far', () => {
+    expect(estimateEtaSeconds(processingVideo(25, 30, now), now)).toEqual(90);
+    expect(estimateEtaSeconds(processingVideo(80, 40, now), now)).toEqual(10);
+  });
+
+  it('should not guess before there is any progress or once the video is done', () => {
+    expect(estimateEtaSeconds(processingVideo(0, 30, now), now)).toBeNull();
+    expect(estimateEtaSeconds({ ...processingVideo(50, 30, now), status: 'pending' }, now)).toBeNull();
+    expect(estimateEtaSeconds({ ...processingVideo(100, 30, now), status: 'completed' }, now)).toBeNull();
+    expect(estimateEtaSeconds({ ...processingVideo(50, 30, now), started_at: null }, now)).toBeNull();
+  });
+});
+
+describe('watchVideoProgress', () => {
+  beforeEach(async () => {
+    await createDB();
+    process.env['VIDEO_LOCAL_STEP_MS'] = '50';
+    resetVideoBackend();
+  });
+  afterEach(async () => {
+    delete process.env['VIDEO_LOCAL_STEP_MS'];
+    resetVideoBackend();
+    await resetDB();
+  });
+
+  it('should report the current progress of a video', async () => {
+    const video = await generateVideo({ prompt: 'A paper boat' });
+
+    expect(await getVideoProgress({ id: video.id })).toEqual({
+      id: video.id,
+      status: 'pending',
+      progress: 0,
+      progress_message: 'Video generation queued',
+      video_url: null,
+      eta_seconds: null
+    });
+    await expect(getVideoProgress({ id: 999 })).rejects.toThrow(/not found/i);
+  });
+
+  it('should follow a video through the worker until it is completed', async () => {
+    const video = await generateVideo({ prompt: 'A paper boat' });
+    const worker = createJobWorker({
+      [VIDEO_JOB_KIND]: { run: processVideoJob, onAttemptFailed: failVideoJob }
+    });
+
+    const watch = watchVideoProgress({ id: video.id });
+    const events: VideoProgress[] = [(await watch.next()).value as VideoProgress];
+    const watching = (async () => {
+      for await (const event of watch) {
+        events.push(event);
+      }
+    })();
+    await worker.runOnce();
+    await watching;
+
+    expect(events[0].status).toEqual('pending');
+    expect(events.some(event => event.status === 'processing' && event.progress > 0)).toBe(true);
+    const percents = events.map(event => event.progress);
+    expect(percents).toEqual([...percents].sort((a, b) => a - b));
+    expect(events[events.length - 1]).toMatchObject({ status: 'completed', progress: 100, eta_seconds: null });
+    expect(events[events.length - 1].video_url).toStartWith('https://generated-videos.example.com/');
+  });
+
+  it('should push changes without waiting for the next re-check', async () => {
+    const video = await generateVideo({ prompt: 'A paper boat' });
+    const watch = watchVideoProgress({ id: video.id });
+
+    expect((await watch.next()).value?.status).toEqual('pending');
+
+    const started = Date.now();
+    const next = watch.next();
+    await updateVideoStatus({ id: video.id, status: 'processing', progress_message: 'Rendering' });
+    const update = await next;
+
+    expect(update.value?.progress_message).toEqual('Rendering');
+    expect(Date.now() - started).toBeLessThan(2000);
+    await watch.return(undefined);
+  });
+
+  it('should end right away for finished videos', async () => {
+    const video = await generateVideo({ prompt: 'A paper boat' });
+    await updateVideoStatus({ id: video.id, status: 'failed', progress_message: 'Backend unavailable' });
+
+    const events: VideoProgress[] = [];
+    for await (const event of watchVideoProgress({ id: video.id })) {
+      events.push(event);
+    }
+
+    expect(events.map(event => event.status)).toEqual(['failed']);
+  });
+
+  it('should stop when the client goes away', async () => {
+    const video = await generateVideo({ prompt: 'A paper boat' });
+    const controller = new AbortController();
+    const watch = watchVideoProgress({ id: video.id }, controller.signal);
+
+    await watch.next();
+    const next = watch.next();
+    controller.abort();
+
+    expect((await next).done).toBe(true);
+    expect((await getVideoStatus({ id: video.id })).status).toEqual('pending');
+  });
+});
@@ -0,0 +1,10 @@
+import { listen, notify } from '../db/notifications';
+
+const VIDEO_CHANNEL = 'video_changes';
+
+// Tells every server process that a video's status or progress changed
+export const notifyVideoChanged = (id: number): Promise<void> => notify(VIDEO_CHANNEL, String(id));
+
+// Calls `listener` with the ID of every changed video; returns the unsubscribe function
+export const onVideoChanged = (listener: (id: number) => void): Promise<() => Promise<void>> =>
+  listen(VIDEO_CHANNEL, (payload) => listener(Number(payload)));
@@ -0,0 +1,74 @@
+import { type VideoBackend, type VideoProgress, type VideoRequest, type VideoResult } from './types';
+
+export interface HttpVideoBackendConfig {
+  baseUrl: string; // e.g. http://localhost:9000/v1
+  apiKey?: string;
+  pollIntervalMs?: number;
+  timeoutMs?: number; // Per request; the whole generation is bounded by the job's heartbeats
+}
+
+// Job as reported by the remote service
+interface RemoteVideoJob {
+  id: string;
+  status: 'queued' | 'processing' | 'completed' | 'failed';
+  progress?: number;
+  message?: string;
+  video_url?: string;
+  error?: string;
+}
+
+// Adapter for asynchronous video APIs that accept a job with
+// `POST /videos` and report on it at `GET /videos/:id`
+export const createHttpVideoBackend = (config: HttpVideoBackendConfig): VideoBackend => {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+  const pollIntervalMs = config.pollIntervalMs ?? 5000;
+
+  const request = async (path: string, signal: AbortSignal, body?: Record<string, unknown>): Promise<RemoteVideoJob> => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.apiKey) {
+      headers['Authorization'] = `Bearer ${config.apiKey}`;
+    }
+
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: body ? 'POST' : 'GET',
+      headers,
+      body: body ? JSON.stringify(body) : undefined,
+      signal: AbortSignal.any([signal, AbortSignal.timeout(config.timeoutMs ?? 60000)])
+    });
+
+    if (!response.ok) {
+      const errorBody = await response.text();
+      throw new Error(`Video backend request to ${path} failed with status ${response.status}: ${errorBody}`);
+    }
+
+    return response.json() as Promise<RemoteVideoJob>;
+  };
+
+  const generate = async (
+    videoRequest: VideoRequest,
+    onProgress: (update: VideoProgress) => Promise<void>,
+    signal: AbortSignal
+  ): Promise<VideoResult> => {
+    let job = await request('/videos', signal, {
+      prompt: videoRequest.prompt,
+      image_url: videoRequest.initial_image_url
+    });
+
+    while (job.status === 'queued' || job.status === 'processing') {
+      await onProgress({
+        progress: job.progress ?? 0,
+        message: job.message ?? (job.status === 'queued' ? 'Waiting for the video backend' : 'Generating video')
+      });
+      await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+      signal.throwIfAborted();
+      job = await request(`/videos/${encodeURIComponent(job.id)}`, signal);
+    }
+
+    if (job.status === 'failed' || !job.video_url) {
+      throw new Error(job.error || `Video backend job ${job.id} failed`);
+    }
+    return { video_url: job.video_url };
+  };
+
+  return { name: 'http', generate };
+};
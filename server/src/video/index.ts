@@ -0,0 +1,65 @@
+import 'dotenv/config';
+import { createLocalVideoBackend } from './local_backend';
+import { createHttpVideoBackend } from './http_backend';
+import { type VideoBackend } from './types';
+import { type VideoStatus } from '../schema';
+
+export * from './types';
+export { notifyVideoChanged, onVideoChanged } from './events';
+export * from './webhook';
+
+// Job kind the video worker handles
+export const VIDEO_JOB_KIND = 'video';
+
+// Finished videos never change again unless they are retried
+export const isVideoFinished = (status: VideoStatus): boolean =>
+  status === 'completed' || status === 'failed' || status === 'cancelled';
+
+type VideoBackendFactory = (env: NodeJS.ProcessEnv) => VideoBackend;
+
+const optionalInt = (value: string | undefined): number | undefined => {
+  const parsed = parseInt(value ?? '');
+  return Number.isNaN(parsed) ? undefined : parsed;
+};
+
+const backendFactories = new Map<string, VideoBackendFactory>([
+  ['local', (env) => createLocalVideoBackend({ stepMs: optionalInt(env['VIDEO_LOCAL_STEP_MS']) })],
+  ['http', (env) => {
+    const baseUrl = env['VIDEO_API_URL'];
+    if (!baseUrl) {
+      throw new Error('VIDEO_API_URL must be set when VIDEO_BACKEND is "http"');
+    }
+
+    return createHttpVideoBackend({
+      baseUrl,
+      apiKey: env['VIDEO_API_KEY'],
+      pollIntervalMs: optionalInt(env['VIDEO_POLL_INTERVAL_MS'])
+    });
+  }]
+]);
+
+let activeBackend: VideoBackend | null = null;
+
+// Makes an additional backend selectable through VIDEO_BACKEND
+export const registerVideoBackend = (name: string, factory: VideoBackendFactory): void => {
+  backendFactories.set(name, factory);
+  activeBackend = null;
+};
+
+// Returns the backend named by VIDEO_BACKEND (defaults to the deterministic local backend)
+export const getVideoBackend = (): VideoBackend => {
+  if (!activeBackend) {
+    const name = process.env['VIDEO_BACKEND'] || 'local';
+    const factory = backendFactories.get(name);
+    if (!factory) {
+      throw new Error(`Unknown video backend "${name}". Available: ${[...backendFactories.keys()].join(', ')}`);
+    }
+    activeBackend = factory(process.env);
+  }
+  return activeBackend;
+};
+
+// Drops the cached backend so the next call re-reads env config
+export const resetVideoBackend = (): void => {
+  activeBackend = null;
+};
@@ -0,0 +1,54 @@
+import { createHash } from 'crypto';
+import { type VideoBackend, type VideoProgress, type VideoRequest, type VideoResult } from './types';
+
+export interface LocalVideoBackendConfig {
+  stepMs?: number; // Pause between progress updates
+}
+
+const STEPS: VideoProgress[] = [
+  { progress: 10, message: 'Preparing scene' },
+  { progress: 40, message: 'Rendering frames' },
+  { progress: 75, message: 'Encoding video' },
+  { progress: 95, message: 'Finalizing' }
+];
+
+const wait = (ms: number, signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal.aborted) {
+    reject(signal.reason);
+    return;
+  }
+  const timeout = setTimeout(resolve, ms);
+  signal.addEventListener('abort', () => {
+    clearTimeout(timeout);
+    reject(signal.reason);
+  }, { once: true });
+});
+
+// Deterministic offline backend for tests and local development: reports a
+// few progress steps and returns a stable URL derived from the request
+export const createLocalVideoBackend = (config: LocalVideoBackendConfig = {}): VideoBackend => {
+  const stepMs = config.stepMs ?? 500;
+
+  const generate = async (
+    request: VideoRequest,
+    onProgress: (update: VideoProgress) => Promise<void>,
+    signal: AbortSignal
+  ): Promise<VideoResult> => {
+    for (const step of STEPS) {
+      await wait(stepMs, signal);
+      await onProgress(step);
+    }
+
+    const digest = createHash('sha256')
+      .update(request.prompt)
+      .update(request.initial_image_url ?? '')
+      .digest('hex')
+      .slice(0, 16);
+
+    return {
+      video_url: `https://generated-videos.example.com/${digest}-${encodeURIComponent(request.prompt.slice(0, 50))}.mp4`
+    };
+  };
+
+  return { name: 'local', generate };
+};
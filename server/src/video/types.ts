@@ -0,0 +1,23 @@
+// Shared contract for every video generation backend used by the video worker
+
+export interface VideoRequest {
+  prompt: string;
+  initial_image_url: string | null; // http(s) or data: URL of the first frame
+}
+
+export interface VideoProgress {
+  progress: number; // Percent, 0-100
+  message: string;
+}
+
+export interface VideoResult {
+  video_url: string;
+}
+
+export interface VideoBackend {
+  name: string;
+  // Resolves once the video is ready. `onProgress` also keeps the worker's job
+  // alive, so long-running backends should call it regularly; `signal` is
+  // aborted when the job is taken away from this worker
+  generate(request: VideoRequest, onProgress: (update: VideoProgress) => Promise<void>, signal: AbortSignal): Promise<VideoResult>;
+}
@@ -0,0 +1,75 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+// External render backends report progress by POSTing to /webhooks/video with
+//   X-Webhook-Timestamp  unix seconds when the call was signed
+//   X-Webhook-Nonce      unique per call
+//   X-Webhook-Signature  sha256=<hex HMAC-SHA256 of "<timestamp>.<nonce>.<raw body>">
+// keyed with VIDEO_WEBHOOK_SECRET
+export const WEBHOOK_TIMESTAMP_HEADER = 'x-webhook-timestamp';
+export const WEBHOOK_NONCE_HEADER = 'x-webhook-nonce';
+export const WEBHOOK_SIGNATURE_HEADER = 'x-webhook-signature';
+
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+export interface VideoWebhookOptions {
+  secret: string | null; // The webhook is disabled without one
+  toleranceSeconds: number; // How far a call's timestamp may be from the server clock
+}
+
+export interface SignedWebhookHeaders {
+  timestamp: string;
+  nonce: string;
+  signature: string;
+}
+
+// Rejected signatures, stale timestamps and replayed nonces
+export class WebhookAuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookAuthError';
+  }
+}
+
+export const getVideoWebhookOptions = (): VideoWebhookOptions => {
+  const toleranceSeconds = parseInt(process.env['VIDEO_WEBHOOK_TOLERANCE_SECONDS'] ?? '');
+
+  return {
+    secret: process.env['VIDEO_WEBHOOK_SECRET'] || null,
+    toleranceSeconds: Number.isNaN(toleranceSeconds) || toleranceSeconds < 1 ? DEFAULT_TOLERANCE_SECONDS : toleranceSeconds
+  };
+};
+
+export const signVideoWebhook = (secret: string, timestamp: string, nonce: string, body: Buffer | string): string => {
+  const hmac = createHmac('sha256', secret);
+  hmac.update(`${timestamp}.${nonce}.`);
+  hmac.update(body);
+  return `sha256=${hmac.digest('hex')}`;
+};
+
+// Checks the signature and the timestamp window; the nonce still has to be claimed
+// (see receiveVideoWebhook) before the call counts as fresh
+export const verifyVideoWebhook = (
+  options: VideoWebhookOptions & { secret: string },
+  headers: Partial<SignedWebhookHeaders>,
+  body: Buffer,
+  now: Date = new Date()
+): SignedWebhookHeaders => {
+  const { timestamp, nonce, signature } = headers;
+  if (!timestamp || !nonce || !signature) {
+    throw new WebhookAuthError('Missing webhook timestamp, nonce or signature');
+  }
+  if (!/^[\w-]{8,128}$/.test(nonce)) {
+    throw new WebhookAuthError('Webhook nonce must be 8 to 128 letters, digits, dashes or underscores');
+  }
+  if (!/^\d+$/.test(timestamp) || Math.abs(now.getTime() / 1000 - Number(timestamp)) > options.toleranceSeconds) {
+    throw new WebhookAuthError('Webhook timestamp is outside the accepted window');
+  }
+
+  const expected = Buffer.from(signVideoWebhook(options.secret, timestamp, nonce, body));
+  const received = Buffer.from(signature);
+  if (received.length !== expected.length || !timingSafeEqual(received, expected)) {
+    throw new WebhookAuthError('Webhook signature does not match');
+  }
+
+  return { timestamp, nonce, signature };
+};
@@ -0,0 +1,49 @@
+import { htmlToText } from './readability';
+import { getJson } from './request';
+import { type WebSearchHit, type WebSearchProvider } from './types';
+
+export interface SearchApiConfig {
+  apiKey: string;
+  baseUrl?: string; // Defaults to the vendor's public endpoint
+  timeoutMs?: number;
+}
+
+const toHits = (results: unknown, fields: { title: string; snippet: string }): WebSearchHit[] => {
+  const hits: WebSearchHit[] = [];
+  for (const result of Array.isArray(results) ? results : []) {
+    if (typeof result?.url !== 'string') continue;
+    hits.push({
+      url: result.url,
+      title: htmlToText(String(result[fields.title] ?? '')) || result.url,
+      snippet: htmlToText(String(result[fields.snippet] ?? ''))
+    });
+  }
+  return hits;
+};
+
+// Brave Search web results API
+export const createBraveSearchProvider = (config: SearchApiConfig): WebSearchProvider => ({
+  name: 'brave',
+  search: async ({ query, limit }) => {
+    const url = new URL(config.baseUrl ?? 'https://api.search.brave.com/res/v1/web/search');
+    url.searchParams.set('q', query);
+    url.searchParams.set('count', String(Math.min(limit, 20)));
+
+    const data = await getJson('Brave', url, { 'X-Subscription-Token': config.apiKey }, config.timeoutMs ?? 15000);
+    return toHits(data?.web?.results, { title: 'title', snippet: 'description' }).slice(0, limit);
+  }
+});
+
+// Bing Web Search v7 API, or anything answering in its format
+export const createBingSearchProvider = (config: SearchApiConfig): WebSearchProvider => ({
+  name: 'bing',
+  search: async ({ query, limit }) => {
+    const url = new URL(config.baseUrl ?? 'https://api.bing.microsoft.com/v7.0/search');
+    url.searchParams.set('q', query);
+    url.searchParams.set('count', String(Math.min(limit, 50)));
+    url.searchParams.set('responseFilter', 'Webpages');
+
+    const data = await getJson('Bing', url, { 'Ocp-Apim-Subscription-Key': config.apiKey }, config.timeoutMs ?? 15000);
+    return toHits(data?.webPages?.value, { title: 'name', snippet: 'snippet' }).slice(0, limit);
+  }
+});
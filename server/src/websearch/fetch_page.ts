@@ -0,0 +1,142 @@
+import { lookup } from 'dns/promises';
+import { extractReadableText, type ReadablePage } from './readability';
+import { type WebSearchOptions } from './options';
+
+export interface FetchedPage extends ReadablePage {
+  url: string;
+  fetched_at: Date;
+}
+
+const USER_AGENT = 'Mozilla/5.0 (compatible; okaigpt page reader)';
+const MAX_REDIRECTS = 5;
+
+// Loopback, private, carrier-grade NAT, link-local (cloud metadata), benchmarking,
+// multicast and reserved ranges
+const isPrivateIPv4 = (address: string): boolean => {
+  const [a, b] = address.split('.').map(Number);
+  return a === 0 || a === 10 || a === 127 || a >= 224
+    || (a === 100 && b >= 64 && b < 128)
+    || (a === 169 && b === 254)
+    || (a === 172 && b >= 16 && b < 32)
+    || (a === 192 && b === 168)
+    || (a === 198 && (b === 18 || b === 19));
+};
+
+// Unspecified, loopback, unique local (fc00::/7), link-local (fe80::/10),
+// multicast, and IPv4-mapped addresses by the IPv4 rules
+const isPrivateIPv6 = (address: string): boolean => {
+  const lower = address.toLowerCase();
+  const dotted = lower.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    return isPrivateIPv4(dotted[1]);
+  }
+  const hex = lower.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (hex) {
+    const [high, low] = [parseInt(hex[1], 16), parseInt(hex[2], 16)];
+    return isPrivateIPv4(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+  }
+  return lower === '::' || lower === '::1' || /^(f[cd][0-9a-f]{2}|fe[89ab][0-9a-f]|ff[0-9a-f]{2}):/.test(lower);
+};
+
+// Result URLs come from the web, so without this a page could point the server
+// at itself, its network or a cloud metadata endpoint. The host is resolved again
+// when connecting, so this narrows rather than closes DNS rebinding
+const assertPublicHost = async (url: URL): Promise<void> => {
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  const addresses = await lookup(hostname, { all: true });
+  const blocked = addresses.find(({ address, family }) => family === 6 ? isPrivateIPv6(address) : isPrivateIPv4(address));
+  if (blocked) {
+    throw new Error(`${url.href} resolves to a private address (${blocked.address}) and is not fetched`);
+  }
+};
+
+// Reads at most maxBytes of the body; the rest of a larger page is never downloaded
+const readLimited = async (response: Response, maxBytes: number): Promise<Uint8Array> => {
+  if (!response.body) {
+    return new Uint8Array(0);
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  while (size < maxBytes) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    size += value.length;
+  }
+  await reader.cancel().catch(() => undefined);
+
+  const body = new Uint8Array(Math.min(size, maxBytes));
+  let offset = 0;
+  for (const chunk of chunks) {
+    const part = chunk.subarray(0, body.length - offset);
+    body.set(part, offset);
+    offset += part.length;
+  }
+  return body;
+};
+
+const decode = (body: Uint8Array, contentType: string): string => {
+  const charset = contentType.match(/charset=["']?([\w-]+)/i)?.[1] ?? 'utf-8';
+  try {
+    return new TextDecoder(charset).decode(body);
+  } catch {
+    // Labels TextDecoder does not know
+    return new TextDecoder('utf-8').decode(body);
+  }
+};
+
+// Downloads an HTML or plain text page and extracts its readable text. Redirects
+// are followed by hand so every hop gets the same checks as the first URL
+export const fetchPage = async (
+  url: string,
+  options: Pick<WebSearchOptions, 'fetchTimeoutMs' | 'maxPageBytes' | 'allowPrivateHosts'>
+): Promise<FetchedPage> => {
+  const signal = AbortSignal.timeout(options.fetchTimeoutMs);
+  let target = url;
+  let response: Response;
+
+  for (let redirects = 0; ; redirects++) {
+    if (!/^https?:\/\//i.test(target)) {
+      throw new Error(`Only http and https pages can be fetched, not ${target}`);
+    }
+    if (!options.allowPrivateHosts) {
+      await assertPublicHost(new URL(target));
+    }
+
+    response = await fetch(target, {
+      headers: { 'User-Agent': USER_AGENT, 'Accept': 'text/html,application/xhtml+xml,text/plain;q=0.9' },
+      redirect: 'manual',
+      signal
+    });
+
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      break;
+    }
+    await response.body?.cancel().catch(() => undefined);
+    if (redirects === MAX_REDIRECTS) {
+      throw new Error(`Fetching ${url} failed after ${MAX_REDIRECTS} redirects`);
+    }
+    target = new URL(location, target).href;
+  }
+
+  if (!response.ok) {
+    await response.body?.cancel().catch(() => undefined);
+    throw new Error(`Fetching ${url} failed with status ${response.status}`);
+  }
+
+  const contentType = response.headers.get('content-type') ?? 'text/html';
+  const isHtml = /html/i.test(contentType);
+  if (!isHtml && !/^text\/plain/i.test(contentType)) {
+    await response.body?.cancel().catch(() => undefined);
+    throw new Error(`${url} is not a web page (${contentType})`);
+  }
+
+  const content = decode(await readLimited(response, options.maxPageBytes), contentType);
+  const page = isHtml
+    ? extractReadableText(content)
+    : { title: null, text: content.replace(/[ \t]+/g, ' ').replace(/\n{3,}/g, '\n\n').trim() };
+  return { ...page, url, fetched_at: new Date() };
+};
@@ -0,0 +1,89 @@
+import { extractReadableText } from './readability';
+import { type WebSearchHit, type WebSearchProvider } from './types';
+
+export interface WebPageFixture {
+  url: string;
+  html: string;
+}
+
+const SNIPPET_CHARS = 200;
+
+const page = (title: string, paragraphs: string[]): string =>
+  `<html><head><title>${title}</title></head><body><nav><a href="/">Home</a> <a href="/topics">Topics</a></nav>`
+  + `<article><h1>${title}</h1>${paragraphs.map(paragraph => `<p>${paragraph}</p>`).join('')}</article>`
+  + '<footer>Offline fixture page</footer></body></html>';
+
+// Served by the local provider, so searches work without network access or API keys
+export const DEFAULT_WEB_FIXTURES: WebPageFixture[] = [
+  {
+    url: 'https://fixtures.okaigpt.invalid/photosynthesis',
+    html: page('Photosynthesis', [
+      'Photosynthesis is the process plants, algae and some bacteria use to turn light energy into chemical energy.',
+      'Chlorophyll absorbs mostly red and blue light, which is why leaves look green.',
+      'The process takes in carbon dioxide and water and releases oxygen as a byproduct, storing the energy as glucose.'
+    ])
+  },
+  {
+    url: 'https://fixtures.okaigpt.invalid/water-cycle',
+    html: page('The water cycle', [
+      'The water cycle is the continuous movement of water between the oceans, the atmosphere and the land.',
+      'Heat from the sun evaporates water, which condenses into clouds and falls back as rain or snow.',
+      'Rivers and groundwater carry the water back to the sea, where the cycle starts again.'
+    ])
+  },
+  {
+    url: 'https://fixtures.okaigpt.invalid/machine-learning',
+    html: page('Machine learning', [
+      'Machine learning is a field of artificial intelligence in which computers learn patterns from data instead of following fixed rules.',
+      'Supervised learning trains a model on labelled examples, while unsupervised learning looks for structure in unlabelled data.',
+      'Deep learning uses neural networks with many layers and drives modern image recognition and language models.'
+    ])
+  },
+  {
+    url: 'https://fixtures.okaigpt.invalid/solar-system',
+    html: page('The solar system', [
+      'The solar system consists of the sun and everything bound to it by gravity, including eight planets and their moons.',
+      'The four inner planets are rocky, while the outer planets are giants made mostly of gas and ice.',
+      'Jupiter is the largest planet; it is more than twice as massive as all the other planets combined.'
+    ])
+  }
+];
+
+const STOPWORDS = new Set(['the', 'and', 'for', 'are', 'was', 'were', 'how', 'why', 'who', 'what', 'when', 'where', 'which', 'with', 'from', 'that', 'this', 'does', 'into', 'about']);
+
+const termsOf = (text: string): string[] =>
+  [...new Set(text.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) ?? [])].filter(term => !STOPWORDS.has(term));
+
+// The first sentence that mentions a query term, or the start of the page. Headings
+// are not sentences, so they never make the snippet
+const snippetOf = (text: string, terms: string[]): string => {
+  const sentences = text.split(/(?<=[.!?])\s+|\n+/).filter(sentence => /[.!?]$/.test(sentence));
+  const sentence = sentences.find(candidate => terms.some(term => candidate.toLowerCase().includes(term))) ?? text;
+  return sentence.length > SNIPPET_CHARS ? `${sentence.slice(0, SNIPPET_CHARS - 1).trimEnd()}…` : sentence;
+};
+
+// Ranks the fixture pages by how many query terms they contain; pages without any are not results
+export const createFixtureSearchProvider = (fixtures: WebPageFixture[] = DEFAULT_WEB_FIXTURES): WebSearchProvider => {
+  const pages = fixtures.map(fixture => ({ ...fixture, ...extractReadableText(fixture.html) }));
+
+  return {
+    name: 'local',
+    search: async ({ query, limit }) => {
+      const terms = termsOf(query);
+      return pages
+        .map(fixture => {
+          const content = `${fixture.title ?? ''} ${fixture.text}`.toLowerCase();
+          return { fixture, score: terms.filter(term => content.includes(term)).length };
+        })
+        .filter(({ score }) => score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit)
+        .map(({ fixture }): WebSearchHit => ({
+          url: fixture.url,
+          title: fixture.title ?? fixture.url,
+          snippet: snippetOf(fixture.text, terms),
+          html: fixture.html
+        }));
+    }
+  };
+};
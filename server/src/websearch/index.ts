@@ -0,0 +1,69 @@
+import 'dotenv/config';
+import { createFixtureSearchProvider } from './fixture_provider';
+import { createSearxngProvider } from './searxng_provider';
+import { createBingSearchProvider, createBraveSearchProvider } from './api_providers';
+import { type WebSearchProvider } from './types';
+
+export * from './types';
+export { getWebSearchOptions, type WebSearchOptions } from './options';
+export { extractReadableText, htmlToText, decodeEntities, type ReadablePage } from './readability';
+export { fetchPage, type FetchedPage } from './fetch_page';
+export { buildSummaryMessages, readSummaryRequest, draftLocalSummary, normaliseCitations, type SummaryRequest, type SummarySource } from './summary';
+export { readWebSearchSources } from './sources';
+export { createFixtureSearchProvider, DEFAULT_WEB_FIXTURES, type WebPageFixture } from './fixture_provider';
+export { createSearxngProvider, type SearxngConfig } from './searxng_provider';
+export { createBraveSearchProvider, createBingSearchProvider, type SearchApiConfig } from './api_providers';
+
+type WebSearchProviderFactory = (env: NodeJS.ProcessEnv) => WebSearchProvider;
+
+const required = (env: NodeJS.ProcessEnv, name: string, provider: string): string => {
+  const value = env[name];
+  if (!value) {
+    throw new Error(`${name} must be set when WEB_SEARCH_PROVIDER is "${provider}"`);
+  }
+  return value;
+};
+
+const timeoutMs = (env: NodeJS.ProcessEnv): number | undefined =>
+  env['WEB_SEARCH_TIMEOUT_MS'] ? parseInt(env['WEB_SEARCH_TIMEOUT_MS']) : undefined;
+
+const providerFactories = new Map<string, WebSearchProviderFactory>([
+  ['local', () => createFixtureSearchProvider()],
+  ['searxng', (env) => createSearxngProvider({ baseUrl: required(env, 'SEARXNG_URL', 'searxng'), timeoutMs: timeoutMs(env) })],
+  ['brave', (env) => createBraveSearchProvider({
+    apiKey: required(env, 'WEB_SEARCH_API_KEY', 'brave'),
+    baseUrl: env['WEB_SEARCH_API_URL'],
+    timeoutMs: timeoutMs(env)
+  })],
+  ['bing', (env) => createBingSearchProvider({
+    apiKey: required(env, 'WEB_SEARCH_API_KEY', 'bing'),
+    baseUrl: env['WEB_SEARCH_API_URL'],
+    timeoutMs: timeoutMs(env)
+  })]
+]);
+
+let activeProvider: WebSearchProvider | null = null;
+
+// Makes an additional backend selectable through WEB_SEARCH_PROVIDER
+export const registerWebSearchProvider = (name: string, factory: WebSearchProviderFactory): void => {
+  providerFactories.set(name, factory);
+  activeProvider = null;
+};
+
+// Returns the provider named by WEB_SEARCH_PROVIDER (defaults to the offline fixture pages)
+export const getWebSearchProvider = (): WebSearchProvider => {
+  if (!activeProvider) {
+    const name = process.env['WEB_SEARCH_PROVIDER'] || 'local';
+    const factory = providerFactories.get(name);
+    if (!factory) {
+      throw new Error(`Unknown web search provider "${name}". Available: ${[...providerFactories.keys()].join(', ')}`);
+    }
+    activeProvider = factory(process.env);
+  }
+  return activeProvider;
+};
+
+// Drops the cached provider so the next call re-reads env config
+export const resetWebSearchProvider = (): void => {
+  activeProvider = null;
+};
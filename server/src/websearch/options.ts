@@ -0,0 +1,26 @@
+export interface WebSearchOptions {
+  resultCount: number; // Search results read and cited per search
+  fetchTimeoutMs: number; // Per page
+  maxPageBytes: number; // Larger pages are cut off at this size
+  maxPageChars: number; // Text of each page passed to the summariser
+  allowPrivateHosts: boolean; // Lets pages on loopback, private or link-local addresses be fetched
+}
+
+const DEFAULT_RESULT_COUNT = 5;
+const DEFAULT_FETCH_TIMEOUT_MS = 10000;
+const DEFAULT_MAX_PAGE_BYTES = 2 * 1024 * 1024;
+const DEFAULT_MAX_PAGE_CHARS = 4000;
+
+const positive = (name: string, fallback: number): number => {
+  const value = parseInt(process.env[name] ?? '');
+  return Number.isNaN(value) || value < 1 ? fallback : value;
+};
+
+export const getWebSearchOptions = (): WebSearchOptions => ({
+  resultCount: positive('WEB_SEARCH_RESULTS', DEFAULT_RESULT_COUNT),
+  fetchTimeoutMs: positive('WEB_FETCH_TIMEOUT_MS', DEFAULT_FETCH_TIMEOUT_MS),
+  maxPageBytes: positive('WEB_FETCH_MAX_BYTES', DEFAULT_MAX_PAGE_BYTES),
+  maxPageChars: positive('WEB_PAGE_MAX_CHARS', DEFAULT_MAX_PAGE_CHARS),
+  // Off by default: result URLs come from the web and must not reach this server's network
+  allowPrivateHosts: process.env['WEB_FETCH_ALLOW_PRIVATE'] === 'true'
+});
@@ -0,0 +1,86 @@
+// Readability-style extraction without a DOM: drop what is never content, pick the
+// article (or main) element when there is one, and keep the blocks of prose.
+// Blocks that are mostly links, or too short to be a sentence, are navigation
+
+export interface ReadablePage {
+  title: string | null;
+  text: string; // Paragraphs separated by blank lines
+}
+
+const MIN_BLOCK_CHARS = 40;
+const MAX_LINK_DENSITY = 0.5;
+
+const NEVER_CONTENT = /<(script|style|noscript|template|svg|iframe|canvas|head|select|button)\b[^>]*>[\s\S]*?<\/\1\s*>/gi;
+const BOILERPLATE = /<(nav|header|footer|aside|form)\b[^>]*>[\s\S]*?<\/\1\s*>/gi;
+const BLOCK_TAG = /(<\/?(?:p|div|li|h[1-6]|br|hr|tr|td|th|section|article|main|blockquote|pre|ul|ol|dl|dt|dd|table|figure|figcaption)\b[^>]*>)/i;
+const LINK = /<a\b[^>]*>([\s\S]*?)<\/a\s*>/gi;
+
+const namedEntities: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  mdash: '—', ndash: '–', hellip: '…', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', copy: '©'
+};
+
+export const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return namedEntities[name.toLowerCase()] ?? entity;
+  });
+
+export const htmlToText = (html: string): string =>
+  decodeEntities(html.replace(/<[^>]*>/g, '')).replace(/\s+/g, ' ').trim();
+
+const firstMatch = (html: string, pattern: RegExp): string | null => {
+  const match = html.match(pattern);
+  const text = match ? htmlToText(match[1]) : '';
+  return text || null;
+};
+
+// The largest element with this tag, if any
+const largestElement = (html: string, tag: string): string | null => {
+  const pattern = new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)<\\/${tag}\\s*>`, 'gi');
+  let largest: string | null = null;
+  for (const match of html.matchAll(pattern)) {
+    if (largest === null || match[1].length > largest.length) {
+      largest = match[1];
+    }
+  }
+  return largest;
+};
+
+export const extractReadableText = (html: string): ReadablePage => {
+  const title = firstMatch(html, /<meta\s[^>]*property=["']og:title["'][^>]*content=["']([^"']*)["']/i)
+    ?? firstMatch(html, /<title\b[^>]*>([\s\S]*?)<\/title\s*>/i)
+    ?? firstMatch(html, /<h1\b[^>]*>([\s\S]*?)<\/h1\s*>/i);
+
+  const cleaned = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(NEVER_CONTENT, ' ');
+  const root = (largestElement(cleaned, 'article') ?? largestElement(cleaned, 'main') ?? largestElement(cleaned, 'body') ?? cleaned)
+    .replace(BOILERPLATE, ' ');
+
+  const blocks: string[] = [];
+  let isHeading = false;
+  for (const [index, part] of root.split(BLOCK_TAG).entries()) {
+    // Odd parts are the block tags themselves
+    if (index % 2 === 1) {
+      isHeading = /^<h[1-6]\b/i.test(part);
+      continue;
+    }
+
+    const text = htmlToText(part);
+    if (!text) continue;
+
+    const linkChars = [...part.matchAll(LINK)].reduce((total, link) => total + htmlToText(link[1]).length, 0);
+    if (linkChars / text.length > MAX_LINK_DENSITY) continue;
+    if (!isHeading && text.length < MIN_BLOCK_CHARS) continue;
+    if (blocks[blocks.length - 1] === text) continue;
+    blocks.push(text);
+  }
+
+  // A heading is only worth keeping in front of the prose it introduces
+  const kept = blocks.filter((block, index) => block.length >= MIN_BLOCK_CHARS || (blocks[index + 1]?.length ?? 0) >= MIN_BLOCK_CHARS);
+  return { title, text: kept.join('\n\n') };
+};
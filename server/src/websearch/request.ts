@@ -0,0 +1,13 @@
+// GET helper shared by the adapters for hosted search APIs
+export const getJson = async (provider: string, url: URL, headers: Record<string, string>, timeoutMs: number): Promise<any> => {
+  const response = await fetch(url, {
+    headers: { 'Accept': 'application/json', ...headers },
+    signal: AbortSignal.timeout(timeoutMs)
+  });
+
+  if (!response.ok) {
+    const errorBody = await response.text();
+    throw new Error(`${provider} search failed with status ${response.status}: ${errorBody.slice(0, 200)}`);
+  }
+  return response.json();
+};
@@ -0,0 +1,34 @@
+import { htmlToText } from './readability';
+import { getJson } from './request';
+import { type WebSearchHit, type WebSearchProvider } from './types';
+
+export interface SearxngConfig {
+  baseUrl: string; // The instance, e.g. http://localhost:8888; it must allow the json format
+  timeoutMs?: number;
+}
+
+// Adapter for a SearxNG metasearch instance's JSON API
+export const createSearxngProvider = (config: SearxngConfig): WebSearchProvider => {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+
+  return {
+    name: 'searxng',
+    search: async ({ query, limit }) => {
+      const url = new URL(`${baseUrl}/search`);
+      url.searchParams.set('q', query);
+      url.searchParams.set('format', 'json');
+
+      const data = await getJson('SearxNG', url, {}, config.timeoutMs ?? 15000);
+      const hits: WebSearchHit[] = [];
+      for (const result of data?.results ?? []) {
+        if (typeof result?.url !== 'string') continue;
+        hits.push({
+          url: result.url,
+          title: htmlToText(String(result.title ?? '')) || result.url,
+          snippet: htmlToText(String(result.content ?? ''))
+        });
+      }
+      return hits.slice(0, limit);
+    }
+  };
+};
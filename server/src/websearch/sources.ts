@@ -0,0 +1,17 @@
+import { type WebSearchSource } from '../schema';
+
+// Sources as stored in web_search.sources. Searches saved before sources were structured
+// hold plain URLs, and JSON keeps fetched_at as a string
+export const readWebSearchSources = (value: unknown): WebSearchSource[] => {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value.map((source): WebSearchSource => typeof source === 'string'
+    ? { url: source, title: source, snippet: '', fetched_at: null }
+    : {
+      url: String(source.url),
+      title: String(source.title ?? source.url),
+      snippet: String(source.snippet ?? ''),
+      fetched_at: source.fetched_at ? new Date(source.fetched_at) : null
+    });
+};
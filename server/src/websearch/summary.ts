@@ -0,0 +1,87 @@
+import { registerLocalResponder } from '../ai/local_provider';
+import { type AIChatMessage } from '../ai/types';
+
+// A search result as the summariser sees it; `number` is how the summary cites it
+export interface SummarySource {
+  number: number;
+  title: string;
+  url: string;
+  text: string; // The page's readable text, or the search snippet when the page could not be read
+}
+
+export interface SummaryRequest {
+  query: string;
+  sources: SummarySource[];
+}
+
+const SYSTEM_PROMPT = [
+  'You answer a web search query using only the numbered sources the user gives you.',
+  'Write a concise summary in one to three short paragraphs of plain text.',
+  'Cite the source of every claim with its number in square brackets right after the claim, like [1] or [2][3].',
+  'Only cite numbers from the list. If the sources do not answer the query, say so.'
+].join('\n');
+
+// Sources travel in a fixed layout so the local provider can read them back
+export const buildSummaryMessages = (request: SummaryRequest): AIChatMessage[] => [
+  { role: 'system', content: SYSTEM_PROMPT },
+  {
+    role: 'user',
+    content: [
+      `Query: ${request.query}`,
+      'Sources:',
+      ...request.sources.map(source => `[${source.number}] ${source.title}\nURL: ${source.url}\n<<<\n${source.text}\n>>>`)
+    ].join('\n')
+  }
+];
+
+// Reads the request back from the messages built by buildSummaryMessages;
+// null for conversations that aren't summary requests
+export const readSummaryRequest = (messages: AIChatMessage[]): SummaryRequest | null => {
+  if (messages[0]?.content !== SYSTEM_PROMPT) {
+    return null;
+  }
+  const match = messages[1]?.content.match(/^Query: (.*)\nSources:\n([\s\S]*)$/);
+  if (!match) {
+    return null;
+  }
+
+  const sources = [...match[2].matchAll(/^\[(\d+)\] (.*)\nURL: (.*)\n<<<\n([\s\S]*?)\n>>>$/gm)].map(source => ({
+    number: Number(source[1]),
+    title: source[2],
+    url: source[3],
+    text: source[4]
+  }));
+  return { query: match[1], sources };
+};
+
+// Deterministic summary for the local provider: the opening sentence of each source, cited
+export const draftLocalSummary = (request: SummaryRequest): string => {
+  const sentences = request.sources.flatMap(source => {
+    const opening = source.text.split(/(?<=[.!?])\s+|\n+/).find(sentence => /[.!?]$/.test(sentence));
+    return opening ? [`${opening.slice(0, -1)} [${source.number}]${opening.slice(-1)}`] : [];
+  });
+  return sentences.length > 0
+    ? sentences.join(' ')
+    : `The sources found for "${request.query}" contain no readable text.`;
+};
+
+registerLocalResponder('web_search', (request) => {
+  const summaryRequest = readSummaryRequest(request.messages);
+  return summaryRequest ? draftLocalSummary(summaryRequest) : null;
+});
+
+// Rewrites grouped citations like [1, 3] or [1-2] as [1][3] and [1][2], and drops
+// numbers that match no source so every citation in the text resolves
+export const normaliseCitations = (summary: string, sourceCount: number): string =>
+  summary
+    .replace(/(\s*)\[(\d+(?:\s*[,–-]\s*\d+)*)\]/g, (_, space: string, list: string) => {
+      const numbers: number[] = [];
+      for (const part of list.split(/\s*,\s*/)) {
+        const [from, to = from] = part.split(/\s*[–-]\s*/).map(Number);
+        for (let number = Math.max(from, 1); number <= Math.min(to, sourceCount); number++) {
+          numbers.push(number);
+        }
+      }
+      return numbers.length > 0 ? space + numbers.map(number => `[${number}]`).join('') : '';
+    })
+    .trim();
@@ -0,0 +1,19 @@
+// Shared contract for the web search backends used by searchWeb
+
+export interface WebSearchHit {
+  url: string;
+  title: string;
+  snippet: string; // Plain text
+  html?: string; // The page itself, when the provider already holds it; such pages are not fetched
+}
+
+export interface WebSearchRequest {
+  query: string;
+  limit: number;
+}
+
+export interface WebSearchProvider {
+  name: string;
+  // Best results first, at most `limit` of them
+  search(request: WebSearchRequest): Promise<WebSearchHit[]>;
+}
@@ -0,0 +1,25 @@
+import 'dotenv/config';
+import { createJobWorker } from './jobs';
+import { VIDEO_JOB_KIND } from './video';
+import { processVideoJob, failVideoJob } from './handlers/process_video_job';
+
+// Background worker process: claims queued jobs and runs them. Any number of
+// these can run side by side against the same database
+async function start() {
+  const worker = createJobWorker({
+    [VIDEO_JOB_KIND]: { run: processVideoJob, onAttemptFailed: failVideoJob }
+  });
+
+  const shutdown = async () => {
+    console.log(`OKAIgpt worker ${worker.id} stopping after the current job`);
+    await worker.stop();
+    process.exit(0);
+  };
+  process.once('SIGTERM', shutdown);
+  process.once('SIGINT', shutdown);
+
+  worker.start();
+  console.log(`OKAIgpt worker ${worker.id} started`);
+}
+
+start();